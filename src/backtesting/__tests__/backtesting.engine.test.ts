@@ -0,0 +1,208 @@
+/**
+ * Unit tests for CorrelationCrackBacktestingEngine
+ */
+import 'reflect-metadata';
+import { CorrelationCrackBacktestingEngine } from '../backtesting.engine';
+import { BacktestConfig, HistoricalDataSet } from '../backtesting.interfaces';
+import { HistoricalMarketDataProvider } from '../historical-market-data.provider';
+import { ManualClock } from '../../services/clock.service';
+import { DefaultPerformanceCalculator } from '../performance.calculator';
+import { Kline } from '../../domain/interfaces/market-data.interfaces';
+import { CrossDirection } from '../../core/strategies/strategy.interfaces';
+import { Logger } from '../../utils/logger';
+import { FileTradingCalendar } from '../../services/trading-calendar.service';
+import { DefaultInstrumentRegistry } from '../../services/instrument-registry.service';
+import { DefaultConfidenceModelRegistry } from '../../core/scoring/confidence-models';
+import { TradingCalendar } from '../../domain/interfaces/trading-calendar.interface';
+
+const BAR_MS = 5 * 60 * 1000;
+const START = new Date('2025-01-06T00:00:00Z').getTime();
+
+function buildKlines(symbol: string, closes: number[]): Kline[] {
+  return closes.map((close, i) => {
+    const open = i === 0 ? close : closes[i - 1];
+    return {
+      symbol,
+      openTime: new Date(START + i * BAR_MS),
+      closeTime: new Date(START + (i + 1) * BAR_MS - 1),
+      open,
+      high: Math.max(open, close),
+      low: Math.min(open, close),
+      close,
+      volume: 100,
+      trades: 0
+    };
+  });
+}
+
+describe('CorrelationCrackBacktestingEngine', () => {
+  let engine: CorrelationCrackBacktestingEngine;
+  let mockLogger: jest.Mocked<Logger>;
+
+  // First six bars form the reference session (high = 100 for both assets)
+  const btcCloses = [98, 99, 100, 99, 98, 99, 101, 102, 99, 98, 97, 96, 95, 94];
+  const ethCloses = [98, 99, 100, 99, 98, 99, 101, 102, 103, 104, 104, 105, 105, 106];
+
+  const config: BacktestConfig = {
+    strategyConfig: {
+      primaryAssets: ['BTCUSDT', 'ETHUSDT'],
+      period: {
+        type: 'custom',
+        startTime: new Date(START),
+        endTime: new Date(START + 6 * BAR_MS - 1)
+      },
+      direction: CrossDirection.CROSS_UNDER,
+      crossDetectionLookback: 3
+    },
+    exitRules: {
+      stopLossPercent: 1,
+      riskRewardRatio: 2,
+      maxHoldingBars: 10
+    }
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn()
+    } as jest.Mocked<Logger>;
+
+    // No calendars loaded: every market trades around the clock
+    const calendar = new FileTradingCalendar(mockLogger, new DefaultInstrumentRegistry());
+    engine = new CorrelationCrackBacktestingEngine(mockLogger, new DefaultPerformanceCalculator(), calendar, new DefaultConfidenceModelRegistry());
+  });
+
+  it('should record each crack once and simulate a winning short', async () => {
+    const history: HistoricalDataSet = new Map([
+      ['BTCUSDT', buildKlines('BTCUSDT', btcCloses)],
+      ['ETHUSDT', buildKlines('ETHUSDT', ethCloses)]
+    ]);
+
+    const result = await engine.run(config, history);
+
+    expect(result.barsProcessed).toBe(btcCloses.length - 1);
+    expect(result.signals).toHaveLength(1);
+    expect(result.signals[0].signal.triggerAsset).toBe('BTCUSDT');
+    expect(result.signals[0].barTime).toEqual(history.get('BTCUSDT')![8].closeTime);
+    // Signal timestamps come from the simulated clock, not wall-clock time
+    expect(result.signals[0].signal.timestamp).toEqual(result.signals[0].barTime);
+
+    expect(result.trades).toHaveLength(1);
+    const [trade] = result.trades;
+    expect(trade.side).toBe('short');
+    expect(trade.entryPrice).toBe(99);
+    expect(trade.exitReason).toBe('target');
+    expect(trade.exitPrice).toBeCloseTo(97.02, 5);
+    expect(trade.rMultiple).toBeCloseTo(2, 5);
+    expect(result.performance.totalTrades).toBe(1);
+    expect(result.performance.winRate).toBe(1);
+  });
+
+  it('should not signal when every asset cracks', async () => {
+    const history: HistoricalDataSet = new Map([
+      ['BTCUSDT', buildKlines('BTCUSDT', btcCloses)],
+      ['ETHUSDT', buildKlines('ETHUSDT', btcCloses)]
+    ]);
+
+    const result = await engine.run(config, history);
+
+    expect(result.signals).toHaveLength(0);
+    expect(result.trades).toHaveLength(0);
+  });
+
+  it('should close open positions at the end of the data', async () => {
+    const history: HistoricalDataSet = new Map([
+      ['BTCUSDT', buildKlines('BTCUSDT', btcCloses.slice(0, 10))],
+      ['ETHUSDT', buildKlines('ETHUSDT', ethCloses.slice(0, 10))]
+    ]);
+
+    const result = await engine.run(config, history);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].exitReason).toBe('end_of_data');
+    expect(result.trades[0].exitPrice).toBe(98);
+  });
+
+  it('should record but not trade signals below the minimum confidence', async () => {
+    const history: HistoricalDataSet = new Map([
+      ['BTCUSDT', buildKlines('BTCUSDT', btcCloses)],
+      ['ETHUSDT', buildKlines('ETHUSDT', ethCloses)]
+    ]);
+
+    const result = await engine.run({ ...config, minConfidence: 0.99 }, history);
+
+    expect(result.signals).toHaveLength(1);
+    expect(result.trades).toHaveLength(0);
+  });
+
+  it('should replay once per confidence model', async () => {
+    const history: HistoricalDataSet = new Map([
+      ['BTCUSDT', buildKlines('BTCUSDT', btcCloses)],
+      ['ETHUSDT', buildKlines('ETHUSDT', ethCloses)]
+    ]);
+
+    const results = await engine.compareConfidenceModels(config, history, ['default', 'classic']);
+
+    expect(results.map(result => result.config.strategyConfig.confidenceModel)).toEqual(['default', 'classic']);
+    expect(results.map(result => result.signals[0]?.signal.confidenceBreakdown?.model)).toEqual(['default', 'classic']);
+    await expect(engine.compareConfidenceModels(config, history, ['default', 'neural']))
+      .rejects.toThrow('Confidence model not registered: neural');
+  });
+
+  it('should ignore crosses outside the trading window', async () => {
+    const history: HistoricalDataSet = new Map([
+      ['BTCUSDT', buildKlines('BTCUSDT', btcCloses)],
+      ['ETHUSDT', buildKlines('ETHUSDT', ethCloses)]
+    ]);
+
+    // The cross closes at 00:45 UTC
+    const outside = await engine.run({ ...config, tradingWindow: { type: 'time_session', startHour: 0, endHour: 0, endMinute: 30, timezone: 'UTC' } }, history);
+    const inside = await engine.run({ ...config, tradingWindow: { type: 'time_session', startHour: 0, endHour: 1, timezone: 'UTC' } }, history);
+
+    expect(outside.signals).toHaveLength(0);
+    expect(outside.trades).toHaveLength(0);
+    expect(inside.signals).toHaveLength(1);
+  });
+
+  it('should ignore crosses while a market of the pair is closed', async () => {
+    const history: HistoricalDataSet = new Map([
+      ['BTCUSDT', buildKlines('BTCUSDT', btcCloses)],
+      ['ETHUSDT', buildKlines('ETHUSDT', ethCloses)]
+    ]);
+    const closedCalendar = {
+      isOpen: jest.fn((symbol: string) => symbol !== 'ETHUSDT'),
+      isTradingDay: jest.fn().mockReturnValue(true)
+    } as unknown as TradingCalendar;
+    const closedEngine = new CorrelationCrackBacktestingEngine(mockLogger, new DefaultPerformanceCalculator(), closedCalendar, new DefaultConfidenceModelRegistry());
+
+    const result = await closedEngine.run(config, history);
+
+    expect(result.signals).toHaveLength(0);
+    expect(result.trades).toHaveLength(0);
+  });
+
+  it('should reject incomplete history', async () => {
+    const history: HistoricalDataSet = new Map([
+      ['BTCUSDT', buildKlines('BTCUSDT', btcCloses)]
+    ]);
+
+    await expect(engine.run(config, history)).rejects.toThrow('Insufficient historical data for ETHUSDT');
+  });
+});
+
+describe('HistoricalMarketDataProvider', () => {
+  it('should only expose bars closed at the current clock time', async () => {
+    const klines = buildKlines('BTCUSDT', [1, 2, 3, 4, 5]);
+    const clock = new ManualClock(klines[2].closeTime);
+    const provider = new HistoricalMarketDataProvider(new Map([['BTCUSDT', klines]]), clock);
+
+    const visible = await provider.getKlines('BTCUSDT', '5m', 2);
+    expect(visible.map(k => k.close)).toEqual([2, 3]);
+
+    clock.setTime(klines[4].closeTime);
+    const marketData = await provider.getMarketData('BTCUSDT');
+    expect(marketData.price).toBe(5);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for DefaultPerformanceCalculator
+ */
+import 'reflect-metadata';
+import { DefaultPerformanceCalculator, getTradingSession } from '../performance.calculator';
+import { SimulatedTrade } from '../backtesting.interfaces';
+import { CrossDirection } from '../../core/strategies/strategy.interfaces';
+
+function buildTrade(entryTime: string, pnlPercent: number, rMultiple: number): SimulatedTrade {
+  return {
+    signal: {
+      triggerAsset: 'BTCUSDT',
+      direction: CrossDirection.CROSS_UNDER,
+      correlatedAssets: ['ETHUSDT'],
+      referenceLevel: 100,
+      confidence: 0.6,
+      timestamp: new Date(entryTime)
+    },
+    symbol: 'BTCUSDT',
+    side: 'short',
+    entryTime: new Date(entryTime),
+    entryPrice: 100,
+    stopPrice: 101,
+    targetPrice: 98,
+    barsHeld: 4,
+    exitTime: new Date(entryTime),
+    exitPrice: 100 - pnlPercent,
+    exitReason: pnlPercent > 0 ? 'target' : 'stop',
+    pnlPercent,
+    rMultiple
+  };
+}
+
+describe('DefaultPerformanceCalculator', () => {
+  const calculator = new DefaultPerformanceCalculator();
+
+  it('should return zeroed metrics for no trades', () => {
+    const report = calculator.calculate([]);
+
+    expect(report.totalTrades).toBe(0);
+    expect(report.winRate).toBe(0);
+    expect(report.profitFactor).toBe(0);
+    expect(report.sharpeRatio).toBe(0);
+    expect(report.bySession.london.totalTrades).toBe(0);
+  });
+
+  it('should calculate win rate, expectancy and profit factor', () => {
+    const trades = [
+      buildTrade('2025-01-06T15:00:00Z', 2, 2),
+      buildTrade('2025-01-06T16:00:00Z', -1, -1),
+      buildTrade('2025-01-06T17:00:00Z', 2, 2),
+      buildTrade('2025-01-06T18:00:00Z', -1, -1)
+    ];
+
+    const report = calculator.calculate(trades);
+
+    expect(report.totalTrades).toBe(4);
+    expect(report.wins).toBe(2);
+    expect(report.losses).toBe(2);
+    expect(report.breakevens).toBe(0);
+    expect(report.winRate).toBe(0.5);
+    expect(report.averageR).toBe(0.5);
+    expect(report.expectancyPercent).toBe(0.5);
+    expect(report.profitFactor).toBe(2);
+    expect(report.maxDrawdownR).toBe(1);
+    expect(report.maxDrawdownPercent).toBeCloseTo(1, 5);
+    expect(report.sharpeRatio).toBeGreaterThan(0);
+    expect(report.sortinoRatio).toBeGreaterThan(report.sharpeRatio);
+    expect(report.averageBarsHeld).toBe(4);
+  });
+
+  it('should count breakeven trades apart from wins and losses', () => {
+    const trades = [
+      buildTrade('2025-01-06T15:00:00Z', 2, 2),
+      buildTrade('2025-01-06T16:00:00Z', 0, 0),
+      buildTrade('2025-01-06T17:00:00Z', -1, -1),
+      buildTrade('2025-01-06T18:00:00Z', 0, 0)
+    ];
+
+    const report = calculator.calculate(trades);
+
+    expect(report.wins).toBe(1);
+    expect(report.losses).toBe(1);
+    expect(report.breakevens).toBe(2);
+    expect(report.winRate).toBe(0.25);
+  });
+
+  it('should track the deepest drawdown across consecutive losses', () => {
+    const trades = [
+      buildTrade('2025-01-06T15:00:00Z', 3, 3),
+      buildTrade('2025-01-06T16:00:00Z', -1, -1),
+      buildTrade('2025-01-06T17:00:00Z', -1, -1),
+      buildTrade('2025-01-06T18:00:00Z', 1, 1),
+      buildTrade('2025-01-06T19:00:00Z', -1, -1)
+    ];
+
+    const report = calculator.calculate(trades);
+
+    expect(report.maxDrawdownR).toBe(2);
+    expect(report.totalReturnPercent).toBeCloseTo((1.03 * 0.99 * 0.99 * 1.01 * 0.99 - 1) * 100, 5);
+  });
+
+  it('should report infinite profit factor when there are no losses', () => {
+    const report = calculator.calculate([buildTrade('2025-01-06T15:00:00Z', 2, 2)]);
+
+    expect(report.profitFactor).toBe(Infinity);
+  });
+
+  it('should break down trades per session', () => {
+    const trades = [
+      buildTrade('2025-01-06T08:00:00Z', 2, 2), // 3:00 NY - London
+      buildTrade('2025-01-06T15:00:00Z', -1, -1), // 10:00 NY - New York
+      buildTrade('2025-01-07T01:00:00Z', 2, 2) // 20:00 NY - Asia
+    ];
+
+    const report = calculator.calculate(trades);
+
+    expect(report.bySession.london.totalTrades).toBe(1);
+    expect(report.bySession.new_york.totalTrades).toBe(1);
+    expect(report.bySession.new_york.winRate).toBe(0);
+    expect(report.bySession.asia.totalTrades).toBe(1);
+    expect(report.bySession.off_hours.totalTrades).toBe(0);
+  });
+});
+
+describe('getTradingSession', () => {
+  it('should classify times outside every session as off hours', () => {
+    expect(getTradingSession(new Date('2025-01-06T22:00:00Z'))).toBe('off_hours'); // 17:00 NY
+  });
+});
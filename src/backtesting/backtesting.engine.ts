@@ -0,0 +1,225 @@
+/**
+ * Backtesting engine for the Correlation Crack strategy
+ * Replays historical klines bar-by-bar through CorrelationCrackStrategy.execute
+ * against a simulated clock and simulates entries/exits for every signal.
+ */
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../config/types';
+import { TRADING_CONSTANTS } from '../config/constants';
+import { Logger } from '../utils/logger';
+import { Kline } from '../domain/interfaces/market-data.interfaces';
+import { CorrelationCrackStrategy } from '../core/strategies/correlation-crack.strategy';
+import { HighLowIndicator } from '../core/indicators/high-low.indicator';
+import { StrategyResult, CorrelationCrackConfig } from '../core/strategies/strategy.interfaces';
+import {
+  BacktestingEngine,
+  BacktestConfig,
+  BacktestResult,
+  BacktestSignal,
+  HistoricalDataSet,
+  OpenTrade,
+  PerformanceCalculator,
+  SimulatedTrade
+} from './backtesting.interfaces';
+import { HistoricalMarketDataProvider } from './historical-market-data.provider';
+import { ManualClock } from '../services/clock.service';
+import { ReturnsCorrelationTracker } from '../services/correlation-tracker.service';
+import { KlineVolumeAnalyzer } from '../services/volume-analyzer.service';
+import { openTrade, updateTrade, closeTrade, isClosedTrade } from './trade-simulator';
+import { TradingCalendar } from '../domain/interfaces/trading-calendar.interface';
+import { ConfidenceModelRegistry } from '../core/scoring/confidence.interfaces';
+import { isWithinTradingWindow } from '../utils/date-helpers';
+
+interface ReplayState {
+  signals: BacktestSignal[];
+  trades: SimulatedTrade[];
+  openPosition?: OpenTrade | undefined;
+  seenCracks: Set<string>;
+  barIndex: Map<string, Map<number, Kline>>;
+}
+
+@injectable()
+export class CorrelationCrackBacktestingEngine implements BacktestingEngine {
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @inject(TYPES.PerformanceCalculator) private performanceCalculator: PerformanceCalculator,
+    @inject(TYPES.TradingCalendar) private tradingCalendar: TradingCalendar,
+    @inject(TYPES.ConfidenceModelRegistry) private confidenceModels: ConfidenceModelRegistry
+  ) {}
+
+  async run(config: BacktestConfig, history: HistoricalDataSet): Promise<BacktestResult> {
+    this.validateHistory(config.strategyConfig, history);
+
+    const clock = new ManualClock();
+    const strategy = this.createStrategy(history, clock);
+    const timeline = this.buildTimeline(config, history);
+    const state: ReplayState = {
+      signals: [],
+      trades: [],
+      seenCracks: new Set(),
+      barIndex: this.indexBars(history)
+    };
+
+    for (const bar of timeline) {
+      clock.setTime(bar.closeTime);
+      this.manageOpenPosition(state, bar, config);
+      if (!this.isTradable(config, clock.now())) {
+        continue;
+      }
+      const result = await strategy.execute(config.strategyConfig);
+      this.handleStrategyResult(state, result, bar, config);
+    }
+
+    this.closeAtEndOfData(state, timeline[timeline.length - 1]);
+    this.logger.info('Backtest completed', {
+      pair: config.pairName,
+      bars: timeline.length,
+      signals: state.signals.length,
+      trades: state.trades.length
+    });
+
+    return {
+      config,
+      startTime: timeline[0]?.openTime ?? new Date(0),
+      endTime: timeline[timeline.length - 1]?.closeTime ?? new Date(0),
+      barsProcessed: timeline.length,
+      signals: state.signals,
+      trades: state.trades,
+      performance: this.performanceCalculator.calculate(state.trades)
+    };
+  }
+
+  async compareConfidenceModels(config: BacktestConfig, history: HistoricalDataSet, models: string[]): Promise<BacktestResult[]> {
+    // Fail on unknown models before replaying anything
+    models.forEach(model => this.confidenceModels.get(model));
+
+    const results: BacktestResult[] = [];
+    for (const confidenceModel of models) {
+      results.push(await this.run({ ...config, strategyConfig: { ...config.strategyConfig, confidenceModel } }, history));
+    }
+    return results;
+  }
+
+  /**
+   * Build a strategy instance wired to the historical provider and simulated clock
+   */
+  private createStrategy(history: HistoricalDataSet, clock: ManualClock): CorrelationCrackStrategy {
+    const provider = new HistoricalMarketDataProvider(history, clock);
+    const indicator = new HighLowIndicator(clock, this.tradingCalendar);
+    return new CorrelationCrackStrategy(
+      indicator,
+      provider,
+      this.logger,
+      clock,
+      new ReturnsCorrelationTracker(provider, clock),
+      new KlineVolumeAnalyzer(),
+      this.confidenceModels
+    );
+  }
+
+  /**
+   * The live runner only evaluates a pair inside its trading window while every market of the pair is open
+   */
+  private isTradable(config: BacktestConfig, now: Date): boolean {
+    const { primaryAssets, timezone } = config.strategyConfig;
+    if (config.tradingWindow && !isWithinTradingWindow(now, config.tradingWindow, timezone || TRADING_CONSTANTS.DEFAULT_TIMEZONE)) {
+      return false;
+    }
+    return primaryAssets.every(asset => this.tradingCalendar.isOpen(asset, now));
+  }
+
+  private validateHistory(strategyConfig: CorrelationCrackConfig, history: HistoricalDataSet): void {
+    for (const symbol of strategyConfig.primaryAssets) {
+      const klines = history.get(symbol);
+      if (!klines || klines.length < 2) {
+        throw new Error(`Insufficient historical data for ${symbol}`);
+      }
+    }
+  }
+
+  /**
+   * Bars of the first primary asset within the requested range drive the replay.
+   * The first bar is skipped because cross detection needs a previous close.
+   */
+  private buildTimeline(config: BacktestConfig, history: HistoricalDataSet): Kline[] {
+    const [leadSymbol] = config.strategyConfig.primaryAssets;
+    const start = config.startTime?.getTime() ?? -Infinity;
+    const end = config.endTime?.getTime() ?? Infinity;
+
+    return (history.get(leadSymbol) ?? [])
+      .slice(1)
+      .filter(kline => kline.openTime.getTime() >= start && kline.closeTime.getTime() <= end);
+  }
+
+  private indexBars(history: HistoricalDataSet): Map<string, Map<number, Kline>> {
+    const index = new Map<string, Map<number, Kline>>();
+    for (const [symbol, klines] of history.entries()) {
+      index.set(symbol, new Map(klines.map(kline => [kline.openTime.getTime(), kline])));
+    }
+    return index;
+  }
+
+  private manageOpenPosition(state: ReplayState, bar: Kline, config: BacktestConfig): void {
+    if (!state.openPosition) {
+      return;
+    }
+
+    const kline = state.barIndex.get(state.openPosition.symbol)?.get(bar.openTime.getTime());
+    if (!kline) {
+      return;
+    }
+
+    const updated = updateTrade(state.openPosition, kline, config.exitRules);
+    if (isClosedTrade(updated)) {
+      state.trades.push(updated);
+      state.openPosition = undefined;
+    } else {
+      state.openPosition = updated;
+    }
+  }
+
+  private handleStrategyResult(
+    state: ReplayState,
+    result: StrategyResult<CorrelationCrackConfig>,
+    bar: Kline,
+    config: BacktestConfig
+  ): void {
+    if (!result.success) {
+      this.logger.debug('Strategy evaluation skipped', { barTime: bar.closeTime, error: result.error });
+      return;
+    }
+
+    const signal = result.signal;
+    if (!signal) {
+      return;
+    }
+
+    // The strategy re-reports the same cross while it stays in the lookback window
+    const crackKey = `${signal.triggerAsset}:${signal.direction}:${signal.crossTime?.getTime() ?? 'unknown'}`;
+    if (state.seenCracks.has(crackKey)) {
+      return;
+    }
+    state.seenCracks.add(crackKey);
+    state.signals.push({ barTime: bar.closeTime, signal });
+
+    if (config.minConfidence !== undefined && signal.confidence < config.minConfidence) {
+      return;
+    }
+
+    const entryKline = state.barIndex.get(signal.triggerAsset)?.get(bar.openTime.getTime());
+    if (!state.openPosition && entryKline) {
+      state.openPosition = openTrade(signal, entryKline, config.exitRules);
+    }
+  }
+
+  private closeAtEndOfData(state: ReplayState, lastBar?: Kline): void {
+    const position = state.openPosition;
+    const last = lastBar && state.barIndex.get(position?.symbol ?? '')?.get(lastBar.openTime.getTime());
+    if (!position || !last) {
+      return;
+    }
+
+    state.trades.push(closeTrade(position, last.closeTime, last.close, 'end_of_data'));
+    state.openPosition = undefined;
+  }
+}
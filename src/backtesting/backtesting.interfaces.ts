@@ -0,0 +1,140 @@
+/**
+ * Backtesting interfaces and types
+ */
+import { Kline } from '../domain/interfaces/market-data.interfaces';
+import { CorrelationCrackConfig, StrategySignal } from '../core/strategies/strategy.interfaces';
+import { SessionSpec } from '../core/indicators/indicator.interfaces';
+
+/**
+ * Historical klines keyed by symbol, each series sorted by open time
+ */
+export type HistoricalDataSet = Map<string, Kline[]>;
+
+/**
+ * Side of a simulated position
+ */
+export type TradeSide = 'long' | 'short';
+
+/**
+ * Reason a simulated position was closed
+ */
+export type TradeExitReason = 'stop' | 'target' | 'time' | 'end_of_data';
+
+/**
+ * Rules used to manage a simulated position after entry
+ */
+export interface TradeExitRules {
+  stopLossPercent: number; // Stop distance from entry, in percent of entry price
+  riskRewardRatio: number; // Target distance as a multiple of the stop distance
+  maxHoldingBars: number; // Close at market after this many bars
+}
+
+/**
+ * Backtest run configuration
+ */
+export interface BacktestConfig {
+  pairName?: string; // Correlation pair being evaluated, for reporting
+  strategyConfig: CorrelationCrackConfig;
+  tradingWindow?: SessionSpec; // When the pair is evaluated, as in the live bot (default: every bar)
+  exitRules: TradeExitRules;
+  startTime?: Date; // First bar to evaluate (default: first available bar)
+  endTime?: Date; // Last bar to evaluate (default: last available bar)
+  minConfidence?: number; // Signals below are recorded but not traded
+}
+
+/**
+ * Signal fired by the strategy during replay
+ */
+export interface BacktestSignal {
+  barTime: Date; // Close time of the bar on which the signal fired
+  signal: StrategySignal;
+}
+
+/**
+ * Position that has been entered but not yet closed
+ */
+export interface OpenTrade {
+  signal: StrategySignal;
+  symbol: string;
+  side: TradeSide;
+  entryTime: Date;
+  entryPrice: number;
+  stopPrice: number;
+  targetPrice: number;
+  barsHeld: number;
+}
+
+/**
+ * Closed simulated position
+ */
+export interface SimulatedTrade extends OpenTrade {
+  exitTime: Date;
+  exitPrice: number;
+  exitReason: TradeExitReason;
+  pnlPercent: number; // Return relative to entry, positive when profitable
+  rMultiple: number; // Return relative to the initial risk
+}
+
+/**
+ * Trading session a trade was entered in (New York time)
+ */
+export type TradingSessionName = 'asia' | 'london' | 'new_york' | 'off_hours';
+
+/**
+ * Aggregate statistics for a set of simulated trades.
+ * Sharpe and Sortino are computed per trade and are not annualized.
+ */
+export interface PerformanceMetrics {
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  breakevens: number; // Trades closed at exactly 0%, neither wins nor losses
+  winRate: number; // Wins / total trades (0-1), so breakevens lower it
+  averageR: number; // Expectancy in R multiples
+  expectancyPercent: number; // Average return per trade, in percent
+  profitFactor: number; // Gross profit / gross loss (Infinity when there are no losses)
+  totalReturnPercent: number; // Compounded return of all trades
+  maxDrawdownPercent: number; // Largest peak-to-trough decline of the compounded equity curve
+  maxDrawdownR: number; // Largest peak-to-trough decline of the cumulative R curve
+  sharpeRatio: number;
+  sortinoRatio: number;
+  averageBarsHeld: number;
+}
+
+/**
+ * Performance metrics with a per-session breakdown
+ */
+export interface PerformanceReport extends PerformanceMetrics {
+  bySession: Record<TradingSessionName, PerformanceMetrics>;
+}
+
+/**
+ * Performance calculator interface
+ */
+export interface PerformanceCalculator {
+  calculate(trades: SimulatedTrade[]): PerformanceReport;
+}
+
+/**
+ * Result of a backtest run
+ */
+export interface BacktestResult {
+  config: BacktestConfig;
+  startTime: Date;
+  endTime: Date;
+  barsProcessed: number;
+  signals: BacktestSignal[];
+  trades: SimulatedTrade[];
+  performance: PerformanceReport;
+}
+
+/**
+ * Backtesting engine interface
+ */
+export interface BacktestingEngine {
+  run(config: BacktestConfig, history: HistoricalDataSet): Promise<BacktestResult>;
+  /**
+   * Run the same backtest once per confidence model, in the given order
+   */
+  compareConfidenceModels(config: BacktestConfig, history: HistoricalDataSet, models: string[]): Promise<BacktestResult[]>;
+}
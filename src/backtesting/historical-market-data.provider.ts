@@ -0,0 +1,96 @@
+/**
+ * Market data provider backed by preloaded historical klines.
+ * Only bars that have closed at the clock's current time are visible,
+ * which prevents the strategy from looking ahead during replay.
+ */
+import { MarketData } from '../domain/entities/trading.entities';
+import { MarketDataProvider, Kline, Ticker24h } from '../domain/interfaces/market-data.interfaces';
+import { Clock } from '../domain/interfaces/clock.interface';
+import { HistoricalDataSet } from './backtesting.interfaces';
+
+export class HistoricalMarketDataProvider implements MarketDataProvider {
+  constructor(
+    private readonly history: HistoricalDataSet,
+    private readonly clock: Clock
+  ) {}
+
+  getName(): string {
+    return 'Historical';
+  }
+
+  async initialize(): Promise<void> {
+    // Data is preloaded, nothing to initialize
+  }
+
+  async disconnect(): Promise<void> {
+    // Nothing to release
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Return up to `limit` most recent closed klines.
+   * The interval argument is ignored: the data set is loaded at a single interval.
+   */
+  async getKlines(symbol: string, interval: string, limit = 500): Promise<Kline[]> {
+    const klines = this.getSeries(symbol);
+    const end = this.countClosedBars(klines);
+    return klines.slice(Math.max(0, end - limit), end);
+  }
+
+  async getMarketData(symbol: string): Promise<MarketData> {
+    const [last] = await this.getKlines(symbol, '', 1);
+    if (!last) {
+      throw new Error(`No historical data available for ${symbol} at ${this.clock.now().toISOString()}`);
+    }
+
+    return {
+      symbol,
+      price: last.close,
+      volume: last.volume,
+      timestamp: last.closeTime
+    };
+  }
+
+  async getTicker24h(symbol: string): Promise<Ticker24h> {
+    throw new Error(`24h ticker is not supported by the historical provider (${symbol})`);
+  }
+
+  async subscribeKlines(symbol: string): Promise<string> {
+    throw new Error(`Kline streaming is not supported by the historical provider (${symbol})`);
+  }
+
+  async unsubscribe(): Promise<void> {
+    // Nothing is ever subscribed
+  }
+
+  private getSeries(symbol: string): Kline[] {
+    const klines = this.history.get(symbol);
+    if (!klines) {
+      throw new Error(`No historical data loaded for ${symbol}`);
+    }
+    return klines;
+  }
+
+  /**
+   * Binary search for the number of bars closed at the current clock time
+   */
+  private countClosedBars(klines: Kline[]): number {
+    const now = this.clock.now().getTime();
+    let low = 0;
+    let high = klines.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (klines[mid].closeTime.getTime() <= now) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+}
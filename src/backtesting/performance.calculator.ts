@@ -0,0 +1,166 @@
+/**
+ * Performance calculator for simulated trades
+ * Computes win rate, expectancy, drawdown and risk-adjusted returns
+ */
+import { injectable } from 'inversify';
+import { SessionSpec } from '../core/indicators/indicator.interfaces';
+import { TRADING_CONSTANTS } from '../config/constants';
+import { isWithinSession } from '../utils/date-helpers';
+import {
+  PerformanceCalculator,
+  PerformanceMetrics,
+  PerformanceReport,
+  SimulatedTrade,
+  TradingSessionName
+} from './backtesting.interfaces';
+
+const SESSIONS: Array<[TradingSessionName, SessionSpec]> = [
+  ['london', {
+    type: 'time_session',
+    startHour: TRADING_CONSTANTS.LONDON_SESSION_START_HOUR,
+    endHour: TRADING_CONSTANTS.LONDON_SESSION_END_HOUR
+  }],
+  ['new_york', {
+    type: 'time_session',
+    startHour: TRADING_CONSTANTS.US_SESSION_START_HOUR,
+    startMinute: TRADING_CONSTANTS.US_SESSION_START_MINUTE,
+    endHour: TRADING_CONSTANTS.US_SESSION_END_HOUR,
+    endMinute: TRADING_CONSTANTS.US_SESSION_END_MINUTE
+  }],
+  ['asia', {
+    type: 'time_session',
+    startHour: TRADING_CONSTANTS.ASIAN_SESSION_START_HOUR,
+    endHour: TRADING_CONSTANTS.ASIAN_SESSION_END_HOUR
+  }]
+];
+
+@injectable()
+export class DefaultPerformanceCalculator implements PerformanceCalculator {
+  calculate(trades: SimulatedTrade[]): PerformanceReport {
+    const bySession: Record<TradingSessionName, PerformanceMetrics> = {
+      asia: calculateMetrics([]),
+      london: calculateMetrics([]),
+      new_york: calculateMetrics([]),
+      off_hours: calculateMetrics([])
+    };
+
+    for (const session of Object.keys(bySession) as TradingSessionName[]) {
+      bySession[session] = calculateMetrics(trades.filter(t => getTradingSession(t.entryTime) === session));
+    }
+
+    return {
+      ...calculateMetrics(trades),
+      bySession
+    };
+  }
+}
+
+/**
+ * Classify a timestamp into the trading session it falls in (New York time)
+ */
+export function getTradingSession(time: Date): TradingSessionName {
+  const match = SESSIONS.find(([, spec]) => isWithinSession(time, spec, TRADING_CONSTANTS.DEFAULT_TIMEZONE));
+  return match ? match[0] : 'off_hours';
+}
+
+/**
+ * Calculate aggregate metrics for trades in chronological order
+ */
+export function calculateMetrics(trades: SimulatedTrade[]): PerformanceMetrics {
+  const returns = trades.map(t => t.pnlPercent);
+  const wins = trades.filter(t => t.pnlPercent > 0).length;
+  const losses = trades.filter(t => t.pnlPercent < 0).length;
+  const grossProfit = sum(returns.filter(r => r > 0));
+  const grossLoss = Math.abs(sum(returns.filter(r => r < 0)));
+
+  return {
+    totalTrades: trades.length,
+    wins,
+    losses,
+    breakevens: trades.length - wins - losses,
+    winRate: trades.length > 0 ? wins / trades.length : 0,
+    averageR: mean(trades.map(t => t.rMultiple)),
+    expectancyPercent: mean(returns),
+    profitFactor: calculateProfitFactor(grossProfit, grossLoss),
+    totalReturnPercent: (compound(returns) - 1) * 100,
+    maxDrawdownPercent: calculateCompoundedDrawdown(returns),
+    maxDrawdownR: calculateCumulativeDrawdown(trades.map(t => t.rMultiple)),
+    sharpeRatio: calculateSharpe(returns),
+    sortinoRatio: calculateSortino(returns),
+    averageBarsHeld: mean(trades.map(t => t.barsHeld))
+  };
+}
+
+function calculateProfitFactor(grossProfit: number, grossLoss: number): number {
+  if (grossLoss === 0) {
+    return grossProfit > 0 ? Infinity : 0;
+  }
+  return grossProfit / grossLoss;
+}
+
+/**
+ * Largest percentage decline from a peak of the compounded equity curve
+ */
+function calculateCompoundedDrawdown(returnsPercent: number[]): number {
+  let equity = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+
+  for (const r of returnsPercent) {
+    equity *= 1 + r / 100;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+  }
+
+  return maxDrawdown * 100;
+}
+
+/**
+ * Largest decline from a peak of the cumulative sum curve
+ */
+function calculateCumulativeDrawdown(values: number[]): number {
+  let total = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+
+  for (const value of values) {
+    total += value;
+    peak = Math.max(peak, total);
+    maxDrawdown = Math.max(maxDrawdown, peak - total);
+  }
+
+  return maxDrawdown;
+}
+
+function calculateSharpe(returns: number[]): number {
+  const deviation = standardDeviation(returns);
+  return deviation > 0 ? mean(returns) / deviation : 0;
+}
+
+function calculateSortino(returns: number[]): number {
+  if (returns.length === 0) {
+    return 0;
+  }
+  const downsideDeviation = Math.sqrt(sum(returns.map(r => Math.min(r, 0) ** 2)) / returns.length);
+  return downsideDeviation > 0 ? mean(returns) / downsideDeviation : 0;
+}
+
+function compound(returnsPercent: number[]): number {
+  return returnsPercent.reduce((equity, r) => equity * (1 + r / 100), 1);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? sum(values) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const avg = mean(values);
+  return Math.sqrt(sum(values.map(v => (v - avg) ** 2)) / (values.length - 1));
+}
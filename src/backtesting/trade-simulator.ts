@@ -0,0 +1,95 @@
+/**
+ * Trade simulation helpers
+ * Pure functions for opening and managing simulated positions
+ */
+import { Kline } from '../domain/interfaces/market-data.interfaces';
+import { CrossDirection, StrategySignal } from '../core/strategies/strategy.interfaces';
+import { OpenTrade, SimulatedTrade, TradeExitReason, TradeExitRules, TradeSide } from './backtesting.interfaces';
+
+/**
+ * Map a crack direction to the position side it implies
+ */
+export function getTradeSide(direction: CrossDirection): TradeSide {
+  return direction === CrossDirection.CROSS_OVER ? 'long' : 'short';
+}
+
+/**
+ * Open a position at the close of the signal bar
+ */
+export function openTrade(signal: StrategySignal, entryKline: Kline, rules: TradeExitRules): OpenTrade {
+  const side = getTradeSide(signal.direction);
+  const entryPrice = entryKline.close;
+  const riskDistance = entryPrice * rules.stopLossPercent / 100;
+  const sign = side === 'long' ? 1 : -1;
+
+  return {
+    signal,
+    symbol: signal.triggerAsset,
+    side,
+    entryTime: entryKline.closeTime,
+    entryPrice,
+    stopPrice: entryPrice - sign * riskDistance,
+    targetPrice: entryPrice + sign * riskDistance * rules.riskRewardRatio,
+    barsHeld: 0
+  };
+}
+
+/**
+ * Advance an open position by one bar.
+ * Returns the closed trade when an exit rule triggers, otherwise the updated open trade.
+ * When a bar touches both stop and target, the stop is assumed to fill first.
+ */
+export function updateTrade(
+  trade: OpenTrade,
+  kline: Kline,
+  rules: TradeExitRules
+): OpenTrade | SimulatedTrade {
+  const advanced: OpenTrade = { ...trade, barsHeld: trade.barsHeld + 1 };
+  const isLong = trade.side === 'long';
+  const stopHit = isLong ? kline.low <= trade.stopPrice : kline.high >= trade.stopPrice;
+  const targetHit = isLong ? kline.high >= trade.targetPrice : kline.low <= trade.targetPrice;
+
+  if (stopHit) {
+    return closeTrade(advanced, kline.closeTime, trade.stopPrice, 'stop');
+  }
+
+  if (targetHit) {
+    return closeTrade(advanced, kline.closeTime, trade.targetPrice, 'target');
+  }
+
+  if (advanced.barsHeld >= rules.maxHoldingBars) {
+    return closeTrade(advanced, kline.closeTime, kline.close, 'time');
+  }
+
+  return advanced;
+}
+
+/**
+ * Close a position at the given price
+ */
+export function closeTrade(
+  trade: OpenTrade,
+  exitTime: Date,
+  exitPrice: number,
+  exitReason: TradeExitReason
+): SimulatedTrade {
+  const sign = trade.side === 'long' ? 1 : -1;
+  const pnl = sign * (exitPrice - trade.entryPrice);
+  const risk = Math.abs(trade.entryPrice - trade.stopPrice);
+
+  return {
+    ...trade,
+    exitTime,
+    exitPrice,
+    exitReason,
+    pnlPercent: (pnl / trade.entryPrice) * 100,
+    rMultiple: risk > 0 ? pnl / risk : 0
+  };
+}
+
+/**
+ * Check whether a trade has been closed
+ */
+export function isClosedTrade(trade: OpenTrade | SimulatedTrade): trade is SimulatedTrade {
+  return 'exitReason' in trade;
+}
@@ -0,0 +1,133 @@
+import { ChartCommandServiceImpl, parseChartCommandArgs } from '../chart-command.service';
+import { CorrelationConfigurationService } from '../correlation-configuration.service';
+import { HighLowIndicator } from '../../core/indicators/high-low.indicator';
+import { ManualClock } from '../../services/clock.service';
+import { FileTradingCalendar } from '../../services/trading-calendar.service';
+import { DefaultInstrumentRegistry } from '../../services/instrument-registry.service';
+import { ChartService } from '../../domain/interfaces/chart.interface';
+import { Kline, MarketDataProvider } from '../../domain/interfaces/market-data.interfaces';
+import { BotConfigService } from '../../domain/interfaces/bot-config.interface';
+import { DEFAULT_BOT_CONFIG } from '../../config/bot-config';
+import { Logger } from '../../utils/logger';
+
+const FIVE_MINUTES = 5 * 60 * 1000;
+
+/**
+ * 5m bars from `from` to `to` trading between 95 and 105, with wider ranges inside the given windows
+ */
+function klines(from: string, to: string, windows: Array<{ from: string; to: string; high: number; low: number }>): Kline[] {
+  const bars: Kline[] = [];
+  for (let time = Date.parse(from); time < Date.parse(to); time += FIVE_MINUTES) {
+    const window = windows.find(candidate => time >= Date.parse(candidate.from) && time < Date.parse(candidate.to));
+    bars.push({
+      symbol: 'BTCUSDT',
+      openTime: new Date(time),
+      closeTime: new Date(time + FIVE_MINUTES - 1),
+      open: 100,
+      high: window?.high ?? 105,
+      low: window?.low ?? 95,
+      close: 101,
+      volume: 10,
+      trades: 5
+    });
+  }
+  return bars;
+}
+
+describe('parseChartCommandArgs', () => {
+  it('should default to the previous day and the strategy interval', () => {
+    expect(parseChartCommandArgs(['btcusdt'])).toEqual({ symbol: 'BTCUSDT', period: 'prev_day' });
+  });
+
+  it('should accept the interval and period in any order', () => {
+    expect(parseChartCommandArgs(['EURUSD', 'london', '15m'])).toEqual({ symbol: 'EURUSD', interval: '15m', period: 'london' });
+    expect(parseChartCommandArgs(['EURUSD', '1h', 'rolling=48'])).toEqual({ symbol: 'EURUSD', interval: '1h', period: 48 });
+  });
+
+  it('should reject invalid arguments', () => {
+    expect(parseChartCommandArgs([])).toBeNull();
+    expect(parseChartCommandArgs(['BTCUSDT', 'weekly'])).toBeNull();
+    expect(parseChartCommandArgs(['BTCUSDT', '5m', '15m'])).toBeNull();
+    expect(parseChartCommandArgs(['BTCUSDT', 'london', 'ny'])).toBeNull();
+    expect(parseChartCommandArgs(['BTCUSDT', 'rolling=0'])).toBeNull();
+    expect(parseChartCommandArgs(['BTCUSDT', '5m', 'london', 'extra'])).toBeNull();
+  });
+});
+
+describe('ChartCommandServiceImpl', () => {
+  let service: ChartCommandServiceImpl;
+  let mockProvider: jest.Mocked<MarketDataProvider>;
+  let mockChartService: jest.Mocked<ChartService>;
+
+  beforeEach(() => {
+    const mockLogger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } as jest.Mocked<Logger>;
+    const clock = new ManualClock(new Date('2025-01-15T14:00:00Z')); // 09:00 NY
+    const calendar = new FileTradingCalendar(mockLogger, new DefaultInstrumentRegistry());
+
+    mockProvider = { getKlines: jest.fn() } as unknown as jest.Mocked<MarketDataProvider>;
+    mockChartService = {
+      render: jest.fn().mockReturnValue(Buffer.from('png')),
+      renderSignalChart: jest.fn(),
+    } as jest.Mocked<ChartService>;
+
+    service = new ChartCommandServiceImpl(
+      mockProvider,
+      new HighLowIndicator(clock, calendar),
+      mockChartService,
+      new CorrelationConfigurationService({ getConfig: () => DEFAULT_BOT_CONFIG } as BotConfigService)
+    );
+  });
+
+  it('should chart the latest London session with its high and low', async () => {
+    mockProvider.getKlines.mockResolvedValue(klines('2025-01-14T10:00:00Z', '2025-01-15T14:00:00Z', [
+      { from: '2025-01-14T10:00:00Z', to: '2025-01-14T13:00:00Z', high: 200, low: 50 }, // Previous session, partly fetched
+      { from: '2025-01-15T08:00:00Z', to: '2025-01-15T13:00:00Z', high: 110, low: 90 }
+    ]));
+
+    const chart = await service.renderChart({ symbol: 'BTCUSDT', period: 'london' });
+
+    expect(mockProvider.getKlines).toHaveBeenCalledWith('BTCUSDT', '5m', 300);
+    expect(chart.range).toMatchObject({
+      high: 110,
+      low: 90,
+      periodStart: new Date('2025-01-15T08:00:00Z'),
+      periodEnd: new Date(Date.parse('2025-01-15T13:00:00Z') - 1) // The bar opening at the end is outside the session
+    });
+    expect(chart.period.label).toBe('London session');
+    expect(chart.image).toEqual(Buffer.from('png'));
+
+    const rendered = mockChartService.render.mock.calls[0]![0];
+    expect(rendered.title).toBe('BTCUSDT 5m - London session');
+    expect(rendered.panels[0]!.levels).toEqual([{ label: 'HLS', price: 110 }, { label: 'LLS', price: 90 }]);
+    expect(rendered.panels[0]!.klines[0]!.openTime).toEqual(new Date('2025-01-15T07:00:00Z'));
+  });
+
+  it('should chart a session still in progress', async () => {
+    mockProvider.getKlines.mockResolvedValue(klines('2025-01-14T10:00:00Z', '2025-01-15T10:00:00Z', [
+      { from: '2025-01-14T08:00:00Z', to: '2025-01-14T13:00:00Z', high: 200, low: 50 },
+      { from: '2025-01-15T08:00:00Z', to: '2025-01-15T10:00:00Z', high: 110, low: 90 } // 03:00-05:00 NY
+    ]));
+
+    const chart = await service.renderChart({ symbol: 'BTCUSDT', period: 'london' });
+
+    expect(chart.range).toMatchObject({ high: 110, low: 90, periodStart: new Date('2025-01-15T08:00:00Z') });
+  });
+
+  it('should chart the range of the last N bars of the requested interval', async () => {
+    mockProvider.getKlines.mockResolvedValue(klines('2025-01-15T12:00:00Z', '2025-01-15T14:00:00Z', [
+      { from: '2025-01-15T13:00:00Z', to: '2025-01-15T14:00:00Z', high: 120, low: 99 }
+    ]));
+
+    const chart = await service.renderChart({ symbol: 'BTCUSDT', interval: '5m', period: 12 });
+
+    expect(mockProvider.getKlines).toHaveBeenCalledWith('BTCUSDT', '5m', 50);
+    expect(chart.range).toMatchObject({ high: 120, low: 99 });
+    expect(chart.period).toEqual({ label: 'Last 12 bars', spec: { type: 'rolling', periods: 12, interval: '5m' } });
+  });
+
+  it('should fail when the data does not cover the period', async () => {
+    mockProvider.getKlines.mockResolvedValue(klines('2025-01-15T13:30:00Z', '2025-01-15T14:00:00Z', []));
+
+    await expect(service.renderChart({ symbol: 'BTCUSDT', period: 'london' })).rejects.toThrow('No data available for period');
+  });
+});
@@ -0,0 +1,74 @@
+import { CorrelationReportServiceImpl, parseCorrelationCommandArgs } from '../correlation-report.service';
+import { CorrelationConfigurationService } from '../correlation-configuration.service';
+import { Logger } from '../../utils/logger';
+import { CorrelationReport, CorrelationTracker } from '../../domain/interfaces/correlation-tracker.interface';
+import { CorrelationPairConfig } from '../../domain/interfaces/bot-config.interface';
+import { DEFAULT_BOT_CONFIG } from '../../config/bot-config';
+
+describe('parseCorrelationCommandArgs', () => {
+  it('should default to every pair', () => {
+    expect(parseCorrelationCommandArgs([])).toEqual({});
+  });
+
+  it('should parse pair and window in any order', () => {
+    expect(parseCorrelationCommandArgs(['30', 'Crypto'])).toEqual({ pairName: 'crypto', window: 30 });
+  });
+
+  it('should reject invalid arguments', () => {
+    expect(parseCorrelationCommandArgs(['2'])).toBeNull();
+    expect(parseCorrelationCommandArgs(['30', '40'])).toBeNull();
+    expect(parseCorrelationCommandArgs(['crypto', 'forex'])).toBeNull();
+  });
+});
+
+describe('CorrelationReportServiceImpl', () => {
+  const report: CorrelationReport = {
+    symbols: ['BTCUSDT', 'ETHUSDT'],
+    window: 50,
+    correlations: [{ symbols: ['BTCUSDT', 'ETHUSDT'], pearson: 0.8, spearman: 0.75, sampleSize: 50 }],
+    calculatedAt: new Date('2026-10-15T14:00:00Z')
+  };
+  const pairs: [string, CorrelationPairConfig][] = Object.entries(DEFAULT_BOT_CONFIG.pairs);
+
+  let service: CorrelationReportServiceImpl;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockTracker: jest.Mocked<CorrelationTracker>;
+
+  beforeEach(() => {
+    mockLogger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } as jest.Mocked<Logger>;
+    mockTracker = { analyze: jest.fn(), measure: jest.fn().mockResolvedValue(report) };
+    const configService = {
+      getPairs: jest.fn().mockReturnValue(pairs),
+      getCandleInterval: jest.fn().mockReturnValue('1h'),
+      getCorrelationFilter: jest.fn().mockReturnValue(DEFAULT_BOT_CONFIG.correlationFilter)
+    } as unknown as CorrelationConfigurationService;
+
+    service = new CorrelationReportServiceImpl(mockLogger, mockTracker, configService);
+  });
+
+  it('should measure every pair over the configured window', async () => {
+    const reports = await service.getReports({});
+
+    expect(reports).toEqual(pairs.map(([pairName]) => ({ pairName, interval: '1h', report })));
+    expect(mockTracker.measure).toHaveBeenCalledWith(pairs[0]![1].assets, '1h', DEFAULT_BOT_CONFIG.correlationFilter.window);
+  });
+
+  it('should measure a single pair over the requested window', async () => {
+    const [pairName, pairConfig] = pairs[0]!;
+
+    const reports = await service.getReports({ pairName, window: 20 });
+
+    expect(reports).toHaveLength(1);
+    expect(mockTracker.measure).toHaveBeenCalledWith(pairConfig.assets, '1h', 20);
+  });
+
+  it('should report pairs without market data', async () => {
+    mockTracker.measure.mockRejectedValue(new Error('Provider unavailable'));
+    const [pairName] = pairs[0]!;
+
+    const reports = await service.getReports({ pairName });
+
+    expect(reports).toEqual([{ pairName, interval: '1h' }]);
+    expect(mockLogger.warn).toHaveBeenCalledWith('Failed to measure pair correlation', expect.objectContaining({ pairName }));
+  });
+});
@@ -0,0 +1,334 @@
+import { CorrelationStrategyRunnerServiceImpl } from '../correlation-strategy-runner.service';
+import { CorrelationConfigurationService } from '../correlation-configuration.service';
+import { MessageFormatterService } from '../message-formatter.service';
+import { Logger } from '../../utils/logger';
+import { ManualClock } from '../../services/clock.service';
+import { CorrelationCrackStrategyInterface, CrossDirection, StrategySignal } from '../../core/strategies/strategy.interfaces';
+import { SignalJournal } from '../../domain/interfaces/signal-journal.interface';
+import { SignalTracker } from '../../domain/interfaces/signal-tracker.interface';
+import { ChartService } from '../../domain/interfaces/chart.interface';
+import { NotificationService } from '../../domain/interfaces/notification.interface';
+import { TradingCalendar } from '../../domain/interfaces/trading-calendar.interface';
+import { BotConfig, BotConfigService } from '../../domain/interfaces/bot-config.interface';
+import { DEFAULT_BOT_CONFIG } from '../../config/bot-config';
+import { DefaultInstrumentRegistry } from '../../services/instrument-registry.service';
+
+describe('CorrelationStrategyRunnerServiceImpl', () => {
+  let runner: CorrelationStrategyRunnerServiceImpl;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockStrategy: jest.Mocked<CorrelationCrackStrategyInterface>;
+  let mockJournal: jest.Mocked<SignalJournal>;
+  let mockCalendar: jest.Mocked<TradingCalendar>;
+  let mockTracker: jest.Mocked<SignalTracker>;
+  let mockChartService: jest.Mocked<ChartService>;
+  let clock: ManualClock;
+  let mockNotifications: jest.Mocked<NotificationService>;
+  let botConfig: BotConfig;
+
+  const signal: StrategySignal = {
+    triggerAsset: 'BTCUSDT',
+    direction: CrossDirection.CROSS_UNDER,
+    correlatedAssets: ['ETHUSDT'],
+    referenceLevel: 100000,
+    confidence: 0.6,
+    timestamp: new Date('2025-01-06T15:00:00Z')
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as jest.Mocked<Logger>;
+
+    mockStrategy = {
+      getName: jest.fn().mockReturnValue('CorrelationCrackStrategy'),
+      validate: jest.fn().mockReturnValue(true),
+      execute: jest.fn(),
+      checkCrossCondition: jest.fn(),
+    } as jest.Mocked<CorrelationCrackStrategyInterface>;
+
+    mockJournal = {
+      record: jest.fn().mockImplementation(async (pairName: string, recorded: StrategySignal) => ({
+        id: 'signal-1',
+        pairName,
+        sessionKey: '2025-01-06',
+        recordedAt: recorded.timestamp,
+        signal: recorded
+      })),
+      query: jest.fn().mockResolvedValue([]),
+      get: jest.fn(),
+      recordFeedback: jest.fn(),
+    } as jest.Mocked<SignalJournal>;
+
+    mockCalendar = {
+      isOpen: jest.fn().mockReturnValue(true),
+    } as unknown as jest.Mocked<TradingCalendar>;
+
+    mockTracker = {
+      track: jest.fn(),
+      attachMessages: jest.fn().mockResolvedValue(undefined),
+      update: jest.fn().mockResolvedValue([]),
+      getStats: jest.fn(),
+    } as jest.Mocked<SignalTracker>;
+
+    mockChartService = {
+      render: jest.fn(),
+      renderSignalChart: jest.fn().mockReturnValue(Buffer.from('png')),
+    } as jest.Mocked<ChartService>;
+
+    clock = new ManualClock();
+    mockNotifications = {
+      register: jest.fn(),
+      publish: jest.fn().mockResolvedValue({ delivered: ['telegram'], failed: [], messages: [] }),
+    } as jest.Mocked<NotificationService>;
+    botConfig = DEFAULT_BOT_CONFIG;
+
+    runner = new CorrelationStrategyRunnerServiceImpl(
+      mockLogger,
+      mockStrategy,
+      new CorrelationConfigurationService({ getConfig: () => botConfig } as BotConfigService),
+      new MessageFormatterService(new DefaultInstrumentRegistry()),
+      clock,
+      mockJournal,
+      mockCalendar,
+      mockTracker,
+      mockChartService,
+      mockNotifications
+    );
+  });
+
+  it('should skip execution outside the NY session', async () => {
+    clock.setTime(new Date('2025-01-06T12:00:00Z')); // 7:00 NY
+
+    await runner.executeStrategy('crypto');
+
+    expect(mockStrategy.execute).not.toHaveBeenCalled();
+    expect(mockNotifications.publish).not.toHaveBeenCalled();
+  });
+
+  it('should run pairs during their own trading window', async () => {
+    botConfig = {
+      ...DEFAULT_BOT_CONFIG,
+      pairs: {
+        asia: {
+          name: 'Asia range',
+          assets: ['USDJPY', 'EURJPY'],
+          session: { type: 'time_session', startHour: 19, endHour: 0, timezone: 'America/New_York' },
+          tradingWindow: { type: 'time_session', startHour: 2, endHour: 5, timezone: 'America/New_York' },
+          direction: CrossDirection.CROSS_UNDER
+        }
+      }
+    };
+    mockStrategy.execute.mockResolvedValue({
+      strategyName: 'CorrelationCrackStrategy',
+      executedAt: clock.now(),
+      config: {} as never,
+      success: true
+    });
+
+    clock.setTime(new Date('2025-01-06T15:00:00Z')); // 10:00 NY, outside the Asia window
+    await runner.executeStrategy('asia');
+    expect(mockStrategy.execute).not.toHaveBeenCalled();
+
+    clock.setTime(new Date('2025-01-07T08:00:00Z')); // 03:00 NY
+    await runner.executeStrategy('asia');
+    expect(mockStrategy.execute).toHaveBeenCalledWith(expect.objectContaining({
+      primaryAssets: ['USDJPY', 'EURJPY'],
+      period: expect.objectContaining({ startHour: 19, endHour: 0 })
+    }));
+  });
+
+  it('should skip execution while a market of the pair is closed', async () => {
+    clock.setTime(new Date('2025-01-06T15:00:00Z'));
+    mockCalendar.isOpen.mockImplementation(symbol => symbol !== 'ETHUSDT');
+
+    await runner.executeStrategy('crypto');
+
+    expect(mockStrategy.execute).not.toHaveBeenCalled();
+    expect(mockLogger.debug).toHaveBeenCalledWith('Skipping correlation crack strategy, market closed', {
+      pairName: 'crypto',
+      closedAssets: ['ETHUSDT']
+    });
+  });
+
+  it('should execute the strategy and forward signals during the NY session', async () => {
+    clock.setTime(new Date('2025-01-06T15:00:00Z')); // 10:00 NY
+    mockStrategy.execute.mockResolvedValue({
+      strategyName: 'CorrelationCrackStrategy',
+      executedAt: clock.now(),
+      config: {} as never,
+      success: true,
+      signal
+    });
+
+    await runner.executeStrategy('crypto');
+
+    expect(mockStrategy.execute).toHaveBeenCalledTimes(1);
+    expect(mockJournal.record).toHaveBeenCalledWith('crypto', signal);
+    expect(mockNotifications.publish).toHaveBeenCalledWith({
+      kind: 'signal',
+      text: expect.stringContaining('CORRELATION CRACK DETECTED'),
+      pairName: 'crypto',
+      signal,
+      signalId: 'signal-1'
+    });
+  });
+
+  it('should render a chart of the signal from the analyzed klines', async () => {
+    clock.setTime(new Date('2025-01-06T15:00:00Z'));
+    const klines = new Map([['BTCUSDT', []], ['ETHUSDT', []]]);
+    const sessionRanges = new Map();
+    mockStrategy.execute.mockResolvedValue({
+      strategyName: 'CorrelationCrackStrategy',
+      executedAt: clock.now(),
+      config: {} as never,
+      success: true,
+      signal,
+      metadata: { klines, sessionRanges }
+    });
+
+    await runner.executeStrategy('crypto');
+
+    expect(mockChartService.renderSignalChart).toHaveBeenCalledWith(signal, klines, sessionRanges, {
+      pairName: 'Crypto',
+      width: DEFAULT_BOT_CONFIG.charts.width,
+      panelHeight: DEFAULT_BOT_CONFIG.charts.panelHeight,
+      timezone: 'America/New_York'
+    });
+    expect(mockNotifications.publish).toHaveBeenCalledWith(expect.objectContaining({ signal, chart: Buffer.from('png') }));
+  });
+
+  it('should send the signal without a chart when rendering fails or charts are disabled', async () => {
+    clock.setTime(new Date('2025-01-06T15:00:00Z'));
+    mockChartService.renderSignalChart.mockImplementation(() => {
+      throw new Error('Out of memory');
+    });
+    mockStrategy.execute.mockResolvedValue({
+      strategyName: 'CorrelationCrackStrategy',
+      executedAt: clock.now(),
+      config: {} as never,
+      success: true,
+      signal,
+      metadata: { klines: new Map(), sessionRanges: new Map() }
+    });
+
+    await runner.executeStrategy('crypto');
+
+    expect(mockLogger.warn).toHaveBeenCalledWith('Failed to render signal chart', expect.objectContaining({ pairName: 'crypto' }));
+    expect(mockNotifications.publish.mock.calls[0][0]).not.toHaveProperty('chart');
+
+    botConfig = { ...DEFAULT_BOT_CONFIG, charts: { ...DEFAULT_BOT_CONFIG.charts, enabled: false } };
+    mockChartService.renderSignalChart.mockClear();
+    await runner.executeStrategy('crypto');
+
+    expect(mockChartService.renderSignalChart).not.toHaveBeenCalled();
+  });
+
+  it('should track announced signals and remember the message they were sent in', async () => {
+    clock.setTime(new Date('2025-01-06T15:00:00Z'));
+    mockNotifications.publish.mockResolvedValue({
+      delivered: ['telegram'],
+      failed: [],
+      messages: [{ chatId: 'chat-1', messageId: 42 }]
+    });
+    mockStrategy.execute.mockResolvedValue({
+      strategyName: 'CorrelationCrackStrategy',
+      executedAt: clock.now(),
+      config: {} as never,
+      success: true,
+      signal
+    });
+
+    await runner.executeStrategy('crypto');
+
+    const { enabled, ...settings } = DEFAULT_BOT_CONFIG.signalTracking;
+    expect(enabled).toBe(true);
+    expect(mockTracker.track).toHaveBeenCalledWith(expect.objectContaining({ id: 'signal-1', pairName: 'crypto' }), settings);
+    expect(mockTracker.attachMessages).toHaveBeenCalledWith('signal-1', [{ chatId: 'chat-1', messageId: 42 }]);
+  });
+
+  it('should warn when a notification channel fails to deliver the signal', async () => {
+    clock.setTime(new Date('2025-01-06T15:00:00Z'));
+    mockNotifications.publish.mockResolvedValue({ delivered: ['telegram'], failed: ['webhook'], messages: [] });
+    mockStrategy.execute.mockResolvedValue({
+      strategyName: 'CorrelationCrackStrategy',
+      executedAt: clock.now(),
+      config: {} as never,
+      success: true,
+      signal
+    });
+
+    await runner.executeStrategy('crypto');
+
+    expect(mockLogger.warn).toHaveBeenCalledWith('Signal not delivered to every channel', { pairName: 'crypto', failed: ['webhook'] });
+    expect(mockTracker.attachMessages).not.toHaveBeenCalled();
+  });
+
+  it('should not track signals no channel delivered', async () => {
+    clock.setTime(new Date('2025-01-06T15:00:00Z'));
+    mockNotifications.publish.mockResolvedValue({ delivered: [], failed: ['telegram', 'webhook'], messages: [] });
+    mockStrategy.execute.mockResolvedValue({
+      strategyName: 'CorrelationCrackStrategy',
+      executedAt: clock.now(),
+      config: {} as never,
+      success: true,
+      signal
+    });
+
+    await runner.executeStrategy('crypto');
+
+    expect(mockTracker.track).not.toHaveBeenCalled();
+    expect(mockTracker.attachMessages).not.toHaveBeenCalled();
+  });
+
+  it('should not track signals when signal tracking is disabled', async () => {
+    clock.setTime(new Date('2025-01-06T15:00:00Z'));
+    botConfig = { ...DEFAULT_BOT_CONFIG, signalTracking: { ...DEFAULT_BOT_CONFIG.signalTracking, enabled: false } };
+    mockStrategy.execute.mockResolvedValue({
+      strategyName: 'CorrelationCrackStrategy',
+      executedAt: clock.now(),
+      config: {} as never,
+      success: true,
+      signal
+    });
+
+    await runner.executeStrategy('crypto');
+
+    expect(mockNotifications.publish).toHaveBeenCalled();
+    expect(mockTracker.track).not.toHaveBeenCalled();
+  });
+
+  it('should not re-announce signals the journal reports as duplicates', async () => {
+    clock.setTime(new Date('2025-01-06T15:05:00Z'));
+    mockJournal.record.mockResolvedValue(null);
+    mockStrategy.execute.mockResolvedValue({
+      strategyName: 'CorrelationCrackStrategy',
+      executedAt: clock.now(),
+      config: {} as never,
+      success: true,
+      signal
+    });
+
+    await runner.executeStrategy('crypto');
+
+    expect(mockNotifications.publish).not.toHaveBeenCalled();
+  });
+
+  it('should log failed executions without notifying', async () => {
+    clock.setTime(new Date('2025-01-06T15:00:00Z'));
+    mockStrategy.execute.mockResolvedValue({
+      strategyName: 'CorrelationCrackStrategy',
+      executedAt: clock.now(),
+      config: {} as never,
+      success: false,
+      error: 'Invalid configuration'
+    });
+
+    await runner.executeStrategy('crypto');
+
+    expect(mockNotifications.publish).not.toHaveBeenCalled();
+    expect(mockLogger.warn).toHaveBeenCalledWith('Correlation crack strategy execution failed', expect.any(Object));
+  });
+});
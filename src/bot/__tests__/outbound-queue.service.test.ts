@@ -0,0 +1,271 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import TelegramBot from 'node-telegram-bot-api';
+import { OutboundQueueServiceImpl, getRetryAfter } from '../outbound-queue.service';
+import { MessageFormatterService } from '../message-formatter.service';
+import { Logger } from '../../utils/logger';
+import { SystemClock } from '../../services/clock.service';
+import { DefaultInstrumentRegistry } from '../../services/instrument-registry.service';
+import { BotConfig, BotConfigService } from '../../domain/interfaces/bot-config.interface';
+import { DEFAULT_BOT_CONFIG } from '../../config/bot-config';
+import { StrategySignal } from '../../core/strategies/strategy.interfaces';
+
+describe('OutboundQueueServiceImpl', () => {
+  let tempDir: string;
+  let filePath: string;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockBot: jest.Mocked<TelegramBot>;
+  let botConfig: BotConfig;
+  let queue: OutboundQueueServiceImpl;
+  let nextMessageId: number;
+
+  const createQueue = (): OutboundQueueServiceImpl => new OutboundQueueServiceImpl(
+    mockLogger,
+    { getConfig: () => botConfig } as BotConfigService,
+    new SystemClock(),
+    new MessageFormatterService(new DefaultInstrumentRegistry()),
+    filePath
+  );
+
+  const telegramError = (errorCode: number, retryAfter?: number): Error => Object.assign(new Error(`ETELEGRAM: ${errorCode}`), {
+    code: 'ETELEGRAM',
+    response: { body: { ok: false, error_code: errorCode, ...(retryAfter && { parameters: { retry_after: retryAfter } }) } }
+  });
+
+  const sentTexts = (): string[] => mockBot.sendMessage.mock.calls.map(call => call[1]);
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbound-queue-'));
+    filePath = path.join(tempDir, 'outbound-queue.json');
+    jest.useFakeTimers({ now: new Date('2025-01-06T15:00:00Z') });
+
+    nextMessageId = 1;
+    mockLogger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } as jest.Mocked<Logger>;
+    mockBot = {
+      sendMessage: jest.fn().mockImplementation(async () => ({ message_id: nextMessageId++ })),
+      sendPhoto: jest.fn().mockImplementation(async () => ({ message_id: nextMessageId++ })),
+    } as unknown as jest.Mocked<TelegramBot>;
+    botConfig = { ...DEFAULT_BOT_CONFIG, delivery: { ...DEFAULT_BOT_CONFIG.delivery, digestWindowSeconds: 0 } };
+    queue = createQueue();
+  });
+
+  afterEach(async () => {
+    await queue.stop();
+    jest.useRealTimers();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should deliver commands first, then signals by confidence, outcomes and system messages', async () => {
+    const delivered = Promise.all([
+      queue.enqueue({ chatId: 'chat-1', category: 'system', text: 'Daily report' }),
+      queue.enqueue({ chatId: 'chat-2', category: 'signal', text: 'Weak signal', confidence: 0.5 }),
+      queue.enqueue({ chatId: 'chat-3', category: 'signal_outcome', text: 'Target hit', replyToMessageId: 7 }),
+      queue.enqueue({ chatId: 'chat-4', category: 'signal', text: 'Strong signal', confidence: 0.9 }),
+      queue.enqueue({ chatId: 'chat-5', category: 'command', text: 'Help' })
+    ]);
+
+    await queue.start(mockBot);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(sentTexts()).toEqual(['Help', 'Strong signal', 'Weak signal', 'Target hit', 'Daily report']);
+    expect(mockBot.sendMessage).toHaveBeenCalledWith('chat-3', 'Target hit', { reply_to_message_id: 7 });
+    await expect(delivered).resolves.toEqual([
+      { message_id: 5 }, { message_id: 3 }, { message_id: 4 }, { message_id: 2 }, { message_id: 1 }
+    ]);
+  });
+
+  it('should space messages to the same chat', async () => {
+    await queue.start(mockBot);
+
+    void queue.enqueue({ chatId: 'chat-1', category: 'command', text: 'First' });
+    void queue.enqueue({ chatId: 'chat-1', category: 'command', text: 'Second' });
+    void queue.enqueue({ chatId: 'chat-2', category: 'command', text: 'Other chat' });
+    await jest.advanceTimersByTimeAsync(999);
+
+    expect(sentTexts()).toEqual(['First', 'Other chat']);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sentTexts()).toEqual(['First', 'Other chat', 'Second']);
+  });
+
+  it('should respect the per-chat limit per minute', async () => {
+    botConfig = { ...botConfig, delivery: { ...botConfig.delivery, chatMessagesPerMinute: 2 } };
+    await queue.start(mockBot);
+
+    ['One', 'Two', 'Three'].forEach(text => void queue.enqueue({ chatId: 'chat-1', category: 'command', text }));
+    await jest.advanceTimersByTimeAsync(59999);
+
+    expect(sentTexts()).toEqual(['One', 'Two']);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sentTexts()).toEqual(['One', 'Two', 'Three']);
+  });
+
+  it('should wait retry_after seconds when Telegram answers 429', async () => {
+    mockBot.sendMessage.mockRejectedValueOnce(telegramError(429, 5));
+    await queue.start(mockBot);
+
+    const delivered = queue.enqueue({ chatId: 'chat-1', category: 'signal', text: 'Signal' });
+    void queue.enqueue({ chatId: 'chat-2', category: 'system', text: 'Report' });
+    await jest.advanceTimersByTimeAsync(4999);
+
+    expect(mockBot.sendMessage).toHaveBeenCalledTimes(1);
+    expect(mockLogger.warn).toHaveBeenCalledWith('Telegram rate limit hit, pausing delivery', { chatId: 'chat-1', retryAfter: 5 });
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sentTexts()).toEqual(['Signal', 'Signal', 'Report']);
+    await expect(delivered).resolves.toEqual({ message_id: 1 });
+  });
+
+  it('should retry failed sends with backoff and give up after the last attempt', async () => {
+    botConfig = { ...botConfig, delivery: { ...botConfig.delivery, maxAttempts: 3 } };
+    const error = new Error('socket hang up');
+    mockBot.sendMessage.mockRejectedValue(error);
+    await queue.start(mockBot);
+
+    const delivered = queue.enqueue({ chatId: 'chat-1', category: 'command', text: 'Hello' });
+    const rejection = expect(delivered).rejects.toBe(error);
+    await jest.advanceTimersByTimeAsync(2000 + 4000);
+
+    await rejection;
+    expect(mockBot.sendMessage).toHaveBeenCalledTimes(3);
+    expect(queue.size()).toBe(0);
+  });
+
+  it('should drop messages Telegram rejects', async () => {
+    const error = telegramError(403);
+    mockBot.sendMessage.mockRejectedValueOnce(error);
+    await queue.start(mockBot);
+
+    await expect(queue.enqueue({ chatId: 'chat-1', category: 'command', text: 'Hello' })).rejects.toBe(error);
+    expect(mockBot.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject messages without text or a photo', async () => {
+    await queue.start(mockBot);
+
+    await expect(queue.enqueue({ chatId: 'chat-1', category: 'command' })).rejects.toThrow('Outbound message needs text or a photo');
+    expect(queue.size()).toBe(0);
+    expect(mockBot.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should coalesce signals to a chat within the digest window', async () => {
+    botConfig = { ...botConfig, delivery: { ...botConfig.delivery, digestWindowSeconds: 3 } };
+    await queue.start(mockBot);
+    const cryptoButtons = [{ text: 'BTCUSDT chart', callback_data: 'signal:chart:signal-1' }];
+    const indicesButtons = [{ text: 'US500 chart', callback_data: 'signal:chart:signal-2' }];
+
+    const first = queue.enqueue({
+      chatId: 'chat-1',
+      category: 'signal',
+      text: 'Crypto signal',
+      confidence: 0.6,
+      photo: { data: Buffer.from('png'), filename: 'signal.png' },
+      replyMarkup: { inline_keyboard: [cryptoButtons] }
+    });
+    await jest.advanceTimersByTimeAsync(1000);
+    const second = queue.enqueue({
+      chatId: 'chat-1',
+      category: 'signal',
+      text: 'Indices signal',
+      confidence: 0.8,
+      replyMarkup: { inline_keyboard: [indicesButtons] }
+    });
+    const other = queue.enqueue({ chatId: 'chat-2', category: 'signal', text: 'Forex signal', confidence: 0.7 });
+    await jest.advanceTimersByTimeAsync(1999);
+
+    expect(mockBot.sendMessage).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sentTexts()[0]).toBe('📬 SIGNAL DIGEST (2 signals)\n\nCrypto signal\n\n━━━━━━━━━━\n\nIndices signal');
+    expect(mockBot.sendMessage.mock.calls[0][2]).toEqual({ reply_markup: { inline_keyboard: [cryptoButtons, indicesButtons] } });
+    expect(mockBot.sendPhoto).not.toHaveBeenCalled();
+    await expect(Promise.all([first, second])).resolves.toEqual([{ message_id: 1 }, { message_id: 1 }]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(sentTexts()[1]).toBe('Forex signal');
+    await expect(other).resolves.toEqual({ message_id: 2 });
+  });
+
+  it('should label the buttons of each signal in a digest with its asset', async () => {
+    botConfig = { ...botConfig, delivery: { ...botConfig.delivery, digestWindowSeconds: 3 } };
+    await queue.start(mockBot);
+    const formatter = new MessageFormatterService(new DefaultInstrumentRegistry());
+    const signal = (triggerAsset: string): StrategySignal => ({ triggerAsset, confidence: 0.6 } as StrategySignal);
+
+    const delivered = Promise.all([
+      queue.enqueue({
+        chatId: 'chat-1',
+        category: 'signal',
+        text: 'Crypto signal',
+        confidence: 0.6,
+        replyMarkup: formatter.formatSignalKeyboard('signal-1', signal('BTCUSDT'), 'crypto')
+      }),
+      queue.enqueue({
+        chatId: 'chat-1',
+        category: 'signal',
+        text: 'Indices signal',
+        confidence: 0.6,
+        replyMarkup: formatter.formatSignalKeyboard('signal-2', signal('US500'), 'indices')
+      })
+    ]);
+    await jest.advanceTimersByTimeAsync(3000);
+    await delivered;
+
+    expect(mockBot.sendMessage).toHaveBeenCalledTimes(1);
+    const rows = (mockBot.sendMessage.mock.calls[0][2]?.reply_markup as TelegramBot.InlineKeyboardMarkup).inline_keyboard;
+    expect(rows).toHaveLength(4);
+    for (const button of rows.flat()) {
+      const [asset, pairName] = button.callback_data!.endsWith('signal-1') ? ['BTCUSDT', 'crypto'] : ['US500', 'indices'];
+      expect(button.text.includes(asset) || button.text.includes(pairName)).toBe(true);
+    }
+  });
+
+  it('should send a single signal with its chart first', async () => {
+    await queue.start(mockBot);
+    const chart = Buffer.from('png');
+
+    const delivered = queue.enqueue({
+      chatId: 'chat-1',
+      category: 'signal',
+      text: 'Crypto signal',
+      photo: { data: chart, filename: 'signal.png' }
+    });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(mockBot.sendPhoto).toHaveBeenCalledWith('chat-1', chart, {}, { filename: 'signal.png', contentType: 'image/png' });
+    await expect(delivered).resolves.toEqual({ message_id: 2 });
+  });
+
+  it('should deliver messages left in the queue after a restart', async () => {
+    mockBot.sendMessage.mockRejectedValue(new Error('socket hang up'));
+    await queue.start(mockBot);
+    void queue.enqueue({
+      chatId: 'chat-1',
+      category: 'command',
+      text: 'Your chart',
+      photo: { data: Buffer.from('png'), filename: 'BTCUSDT.png', caption: 'BTCUSDT' }
+    });
+    await jest.advanceTimersByTimeAsync(0);
+    await queue.stop();
+
+    mockBot.sendMessage.mockReset().mockResolvedValue({ message_id: 9 } as TelegramBot.Message);
+    queue = createQueue();
+    await queue.start(mockBot);
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(mockLogger.info).toHaveBeenCalledWith('Restored undelivered Telegram messages', { count: 1 });
+    expect(mockBot.sendPhoto).toHaveBeenCalledTimes(1); // Sent before the first attempt failed
+    expect(mockBot.sendMessage).toHaveBeenCalledWith('chat-1', 'Your chart');
+    expect(queue.size()).toBe(0);
+  });
+
+  describe('getRetryAfter', () => {
+    it('should read retry_after from 429 errors only', () => {
+      expect(getRetryAfter(telegramError(429, 12))).toBe(12);
+      expect(getRetryAfter(telegramError(400))).toBeUndefined();
+      expect(getRetryAfter(new Error('socket hang up'))).toBeUndefined();
+    });
+  });
+});
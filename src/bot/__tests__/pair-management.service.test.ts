@@ -0,0 +1,203 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PairCommandError, PairManagementServiceImpl, parsePairArgs } from '../pair-management.service';
+import { CorrelationConfigurationService } from '../correlation-configuration.service';
+import { Logger } from '../../utils/logger';
+import { CorrelationCrackStrategyInterface, CrossDirection } from '../../core/strategies/strategy.interfaces';
+import { BotConfigService } from '../../domain/interfaces/bot-config.interface';
+import { DEFAULT_BOT_CONFIG } from '../../config/bot-config';
+
+describe('parsePairArgs', () => {
+  it('should parse all supported options', () => {
+    const changes = parsePairArgs([
+      'assets=eurusd,GBPUSD',
+      'session=03:00-08:30',
+      'tz=Europe/London',
+      'direction=over',
+      'provider=capitalcom',
+      'name=FX_Majors'
+    ]);
+
+    expect(changes).toEqual({
+      assets: ['EURUSD', 'GBPUSD'],
+      session: { type: 'time_session', startHour: 3, startMinute: 0, endHour: 8, endMinute: 30, timezone: 'Europe/London' },
+      direction: CrossDirection.CROSS_OVER,
+      provider: 'capitalcom',
+      name: 'FX Majors'
+    });
+  });
+
+  it('should parse the trading window separately from the session', () => {
+    const changes = parsePairArgs(['session=19:00-00:00', 'window=02:00-05:00', 'window_tz=Asia/Tokyo']);
+
+    expect(changes).toEqual({
+      session: { type: 'time_session', startHour: 19, startMinute: 0, endHour: 0, endMinute: 0 },
+      tradingWindow: { type: 'time_session', startHour: 2, startMinute: 0, endHour: 5, endMinute: 0, timezone: 'Asia/Tokyo' }
+    });
+  });
+
+  it('should accept both directions', () => {
+    expect(parsePairArgs(['direction=both'])).toEqual({ direction: 'both' });
+  });
+
+  it('should parse the confidence model', () => {
+    expect(parsePairArgs(['model=Classic'])).toEqual({ confidenceModel: 'classic' });
+  });
+
+  it.each([
+    ['assets'],
+    ['colour=red'],
+    ['session=8-12'],
+    ['tz=Mars/Olympus'],
+    ['window=8-12'],
+    ['direction=sideways'],
+    ['provider=kraken'],
+    ['model=neural']
+  ])('should reject "%s"', (arg) => {
+    expect(() => parsePairArgs([arg])).toThrow(PairCommandError);
+  });
+});
+
+describe('PairManagementServiceImpl', () => {
+  let tempDir: string;
+  let filePath: string;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockStrategy: jest.Mocked<CorrelationCrackStrategyInterface>;
+  let botConfig: BotConfigService;
+  let configService: CorrelationConfigurationService;
+  let service: PairManagementServiceImpl;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'correlation-pairs-'));
+    filePath = path.join(tempDir, 'pairs.json');
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as jest.Mocked<Logger>;
+
+    mockStrategy = {
+      getName: jest.fn().mockReturnValue('CorrelationCrackStrategy'),
+      validate: jest.fn().mockReturnValue(true),
+      execute: jest.fn(),
+      checkCrossCondition: jest.fn(),
+    } as jest.Mocked<CorrelationCrackStrategyInterface>;
+
+    botConfig = { getConfig: jest.fn().mockReturnValue(DEFAULT_BOT_CONFIG) } as unknown as BotConfigService;
+    configService = new CorrelationConfigurationService(botConfig, filePath);
+    service = new PairManagementServiceImpl(mockLogger, configService, mockStrategy);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should add a pair with defaults and persist it', async () => {
+    await service.addPair('Forex', ['assets=EURUSD,GBPUSD', 'provider=capitalcom']);
+
+    const reloaded = new CorrelationConfigurationService(botConfig, filePath);
+    await reloaded.load();
+
+    expect(reloaded.getAvailablePairs()).toEqual(['crypto', 'forex']);
+    expect(reloaded.getPairConfig('forex')).toMatchObject({
+      name: 'forex',
+      assets: ['EURUSD', 'GBPUSD'],
+      direction: CrossDirection.CROSS_UNDER,
+      provider: 'capitalcom',
+      session: { startHour: 8, endHour: 12, timezone: 'America/New_York' }
+    });
+  });
+
+  it('should validate pairs through the strategy', async () => {
+    mockStrategy.validate.mockReturnValue(false);
+
+    await expect(service.addPair('forex', ['assets=EURUSD'])).rejects.toThrow(PairCommandError);
+    expect(mockStrategy.validate).toHaveBeenCalledWith(expect.objectContaining({ primaryAssets: ['EURUSD'] }));
+    expect(configService.getPairConfig('forex')).toBeUndefined();
+  });
+
+  it('should reject duplicate and missing pairs', async () => {
+    await expect(service.addPair('crypto', ['assets=BTCUSDT,SOLUSDT'])).rejects.toThrow('already exists');
+    await expect(service.editPair('forex', ['direction=over'])).rejects.toThrow('not found');
+    await expect(service.removePair('forex')).rejects.toThrow('not found');
+  });
+
+  it('should merge edits into the existing pair', async () => {
+    const updated = await service.editPair('crypto', ['tz=Europe/London', 'direction=over']);
+
+    expect(updated.assets).toEqual(['BTCUSDT', 'ETHUSDT']);
+    expect(updated.direction).toBe(CrossDirection.CROSS_OVER);
+    expect(updated.session).toMatchObject({ startHour: 8, endHour: 12, timezone: 'Europe/London' });
+  });
+
+  it('should give a pair its own trading window and keep it across edits', async () => {
+    await service.addPair('london', ['assets=EURUSD,GBPUSD', 'session=03:00-08:00', 'window=08:00-11:00']);
+    const updated = await service.editPair('london', ['window_tz=America/Chicago']);
+
+    expect(updated.session).toMatchObject({ startHour: 3, endHour: 8 });
+    expect(updated.tradingWindow).toEqual({
+      type: 'time_session',
+      startHour: 8,
+      startMinute: 0,
+      endHour: 11,
+      endMinute: 0,
+      timezone: 'America/Chicago'
+    });
+    expect(configService.getTradingWindow('london')).toEqual(updated.tradingWindow);
+  });
+
+  it('should reject a trading window that overlaps the session', async () => {
+    await expect(service.addPair('london', ['assets=EURUSD,GBPUSD', 'session=03:00-08:00', 'window=07:00-11:00']))
+      .rejects.toThrow('must not overlap');
+    await service.addPair('london', ['assets=EURUSD,GBPUSD', 'session=03:00-08:00', 'window=08:00-11:00']);
+    // 08:00 in London is 03:00 in New York
+    await expect(service.editPair('london', ['window_tz=Europe/London'])).rejects.toThrow('must not overlap');
+  });
+
+  it('should check the trading hours against the session of pairs without a window', async () => {
+    await expect(service.addPair('late', ['assets=EURUSD,GBPUSD', 'session=10:00-14:00']))
+      .rejects.toThrow('The trading hours must not overlap');
+    await expect(service.editPair('crypto', ['session=09:00-13:00'])).rejects.toThrow('The trading hours must not overlap');
+    // The same hours as the trading hours trade the previous day's range
+    await expect(service.addPair('majors', ['assets=EURUSD,GBPUSD'])).resolves.toMatchObject({ session: { startHour: 8, endHour: 12 } });
+  });
+
+  it('should reject trading windows outside the clock', async () => {
+    await expect(service.addPair('asia', ['assets=USDJPY,EURJPY', 'window=19:00-25:00'])).rejects.toThrow('Invalid trading window');
+  });
+
+  it('should fall back to the global trading hours for pairs without a window', () => {
+    expect(configService.getTradingWindow('crypto')).toEqual({
+      type: 'time_session',
+      startHour: 8,
+      endHour: 12,
+      timezone: 'America/New_York'
+    });
+  });
+
+  it('should keep pairs removed at runtime hidden after a restart', async () => {
+    await service.removePair('crypto');
+
+    const reloaded = new CorrelationConfigurationService(botConfig, filePath);
+    await reloaded.load();
+
+    expect(reloaded.getAvailablePairs()).toEqual([]);
+  });
+
+  it('should layer runtime changes over the pairs from the config file', async () => {
+    await service.editPair('crypto', ['direction=over']);
+    (botConfig.getConfig as jest.Mock).mockReturnValue({
+      ...DEFAULT_BOT_CONFIG,
+      pairs: {
+        ...DEFAULT_BOT_CONFIG.pairs,
+        indices: { ...DEFAULT_BOT_CONFIG.pairs.crypto!, name: 'Indices', assets: ['US100', 'US500'] }
+      }
+    });
+
+    expect(configService.getAvailablePairs()).toEqual(['crypto', 'indices']);
+    expect(configService.getPairConfig('crypto')?.direction).toBe(CrossDirection.CROSS_OVER);
+  });
+});
@@ -0,0 +1,66 @@
+import { SignalActionServiceImpl, encodeSignalCallback, parseSignalCallback } from '../signal-action.service';
+import { ManualClock } from '../../services/clock.service';
+import { SignalFeedback, SignalJournal, SignalJournalEntry } from '../../domain/interfaces/signal-journal.interface';
+import { StrategySignal } from '../../core/strategies/strategy.interfaces';
+
+describe('signal callbacks', () => {
+  it('should round-trip the action and signal id', () => {
+    const data = encodeSignalCallback('mute', '5f0c6d2e-8f0b-4b7e-9c41-3f4a2c1d9e77');
+
+    expect(data).toBe('signal:mute:5f0c6d2e-8f0b-4b7e-9c41-3f4a2c1d9e77');
+    expect(Buffer.byteLength(data)).toBeLessThanOrEqual(64);
+    expect(parseSignalCallback(data)).toEqual({ action: 'mute', signalId: '5f0c6d2e-8f0b-4b7e-9c41-3f4a2c1d9e77' });
+  });
+
+  it('should reject data from other buttons', () => {
+    expect(parseSignalCallback(undefined)).toBeNull();
+    expect(parseSignalCallback('signal:unknown:signal-1')).toBeNull();
+    expect(parseSignalCallback('signal:taken')).toBeNull();
+    expect(parseSignalCallback('pair:taken:signal-1')).toBeNull();
+  });
+});
+
+describe('SignalActionServiceImpl', () => {
+  let journal: jest.Mocked<SignalJournal>;
+  let clock: ManualClock;
+  let service: SignalActionServiceImpl;
+
+  const feedback = (action: SignalFeedback['action'], chatId: string): SignalFeedback =>
+    ({ action, chatId, userId: 'user-1', recordedAt: new Date('2025-01-06T15:00:00Z') });
+
+  const entry = (id: string, items: SignalFeedback[]): SignalJournalEntry => ({
+    id,
+    pairName: 'crypto',
+    sessionKey: '2025-01-06',
+    recordedAt: new Date('2025-01-06T14:00:00Z'),
+    signal: {} as StrategySignal,
+    feedback: items
+  });
+
+  beforeEach(() => {
+    journal = {
+      record: jest.fn(),
+      query: jest.fn().mockResolvedValue([]),
+      get: jest.fn(),
+      recordFeedback: jest.fn().mockResolvedValue(null)
+    } as jest.Mocked<SignalJournal>;
+    clock = new ManualClock(new Date('2025-01-06T15:00:00Z'));
+    service = new SignalActionServiceImpl(journal, clock);
+  });
+
+  it('should record feedback at the current time', async () => {
+    await service.recordFeedback('signal-1', 'chat-1', 'user-1', 'taken');
+
+    expect(journal.recordFeedback).toHaveBeenCalledWith('signal-1', feedback('taken', 'chat-1'));
+  });
+
+  it('should list chats that muted the pair during the current session', async () => {
+    journal.query.mockResolvedValue([
+      entry('signal-1', [feedback('muted', 'chat-1'), feedback('taken', 'chat-2')]),
+      entry('signal-2', [feedback('muted', 'chat-3')])
+    ]);
+
+    await expect(service.getMutedChats('crypto')).resolves.toEqual(new Set(['chat-1', 'chat-3']));
+    expect(journal.query).toHaveBeenCalledWith({ pairName: 'crypto', sessionKey: '2025-01-06' });
+  });
+});
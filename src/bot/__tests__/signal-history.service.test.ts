@@ -0,0 +1,163 @@
+import { SignalHistoryServiceImpl, SignalReview, calculateSignalOutcome, parseSignalsCommandArgs } from '../signal-history.service';
+import { MessageFormatterService } from '../message-formatter.service';
+import { DefaultInstrumentRegistry } from '../../services/instrument-registry.service';
+import { DELIVERY_CONSTANTS } from '../../config/constants';
+import { Logger } from '../../utils/logger';
+import { MarketDataProvider } from '../../domain/interfaces/market-data.interfaces';
+import { SignalJournal, SignalJournalEntry } from '../../domain/interfaces/signal-journal.interface';
+import { CrossDirection, StrategySignal } from '../../core/strategies/strategy.interfaces';
+
+describe('parseSignalsCommandArgs', () => {
+  it('should default to the latest signals', () => {
+    expect(parseSignalsCommandArgs([])).toEqual({ limit: 10 });
+  });
+
+  it('should parse pair, date and limit in any order', () => {
+    expect(parseSignalsCommandArgs(['20', 'Crypto', '2026-10-15'])).toEqual({
+      pairName: 'crypto',
+      sessionKey: '2026-10-15',
+      limit: 20
+    });
+  });
+
+  it('should cap the limit', () => {
+    expect(parseSignalsCommandArgs(['500'])).toEqual({ limit: 50 });
+  });
+
+  it('should reject invalid arguments', () => {
+    expect(parseSignalsCommandArgs(['0'])).toBeNull();
+    expect(parseSignalsCommandArgs(['2026-13-45'])).toBeNull();
+    expect(parseSignalsCommandArgs(['2026-02-31'])).toBeNull();
+    expect(parseSignalsCommandArgs(['2025-02-29'])).toBeNull();
+    expect(parseSignalsCommandArgs(['crypto', 'forex'])).toBeNull();
+  });
+});
+
+describe('calculateSignalOutcome', () => {
+  const signal: StrategySignal = {
+    triggerAsset: 'BTCUSDT',
+    direction: CrossDirection.CROSS_UNDER,
+    correlatedAssets: ['ETHUSDT'],
+    referenceLevel: 100000,
+    confidence: 0.6,
+    timestamp: new Date('2026-10-15T14:00:00Z'),
+    triggerPrice: 99000
+  };
+
+  it('should measure moves in the signal direction', () => {
+    const outcome = calculateSignalOutcome(signal, 97020);
+
+    expect(outcome.movePercent).toBeCloseTo(2);
+    expect(outcome.holdingLevel).toBe(true);
+  });
+
+  it('should detect a return inside the level', () => {
+    const outcome = calculateSignalOutcome({ ...signal, direction: CrossDirection.CROSS_OVER }, 99500);
+
+    expect(outcome.movePercent).toBeCloseTo(0.505, 2);
+    expect(outcome.holdingLevel).toBe(false);
+  });
+
+  it('should fall back to the reference level without a trigger price', () => {
+    const withoutPrice: StrategySignal = { ...signal };
+    delete withoutPrice.triggerPrice;
+
+    expect(calculateSignalOutcome(withoutPrice, 99000).movePercent).toBeCloseTo(1);
+  });
+});
+
+describe('SignalHistoryServiceImpl', () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let mockJournal: jest.Mocked<SignalJournal>;
+  let mockProvider: jest.Mocked<MarketDataProvider>;
+  let service: SignalHistoryServiceImpl;
+
+  const buildEntry = (triggerAsset: string): SignalJournalEntry => ({
+    id: triggerAsset,
+    pairName: 'crypto',
+    sessionKey: '2026-10-15',
+    recordedAt: new Date('2026-10-15T14:00:00Z'),
+    signal: {
+      triggerAsset,
+      direction: CrossDirection.CROSS_UNDER,
+      correlatedAssets: [],
+      referenceLevel: 100,
+      confidence: 0.5,
+      timestamp: new Date('2026-10-15T14:00:00Z'),
+      triggerPrice: 100
+    }
+  });
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as jest.Mocked<Logger>;
+
+    mockJournal = {
+      record: jest.fn(),
+      query: jest.fn().mockResolvedValue([buildEntry('BTCUSDT'), buildEntry('BTCUSDT'), buildEntry('ETHUSDT')]),
+      get: jest.fn(),
+      recordFeedback: jest.fn(),
+    } as jest.Mocked<SignalJournal>;
+
+    mockProvider = {
+      getMarketData: jest.fn().mockImplementation(async (symbol: string) => {
+        if (symbol === 'ETHUSDT') throw new Error('Symbol unavailable');
+        return { symbol, price: 95, volume: 0, timestamp: new Date() };
+      }),
+    } as unknown as jest.Mocked<MarketDataProvider>;
+
+    service = new SignalHistoryServiceImpl(mockLogger, mockJournal, mockProvider);
+  });
+
+  it('should attach outcomes using one price lookup per symbol', async () => {
+    const reviews = await service.getSignals({ pairName: 'crypto', limit: 10 });
+
+    expect(mockJournal.query).toHaveBeenCalledWith({ pairName: 'crypto', limit: 10 });
+    expect(mockProvider.getMarketData).toHaveBeenCalledTimes(2);
+    expect(reviews[0].outcome?.movePercent).toBeCloseTo(5);
+    expect(reviews[2].outcome).toBeUndefined();
+    expect(mockLogger.warn).toHaveBeenCalledWith('Failed to fetch current price for signal history', expect.any(Object));
+  });
+});
+
+describe('MessageFormatterService.formatSignalHistory', () => {
+  const formatter = new MessageFormatterService(new DefaultInstrumentRegistry());
+
+  const review = (index: number): SignalReview => ({
+    entry: {
+      id: `signal-${index}`,
+      pairName: 'crypto',
+      sessionKey: '2026-10-15',
+      recordedAt: new Date('2026-10-15T14:00:00Z'),
+      signal: {
+        triggerAsset: 'BTCUSDT',
+        direction: CrossDirection.CROSS_UNDER,
+        correlatedAssets: ['ETHUSDT'],
+        referenceLevel: 100000 + index,
+        confidence: 0.6,
+        timestamp: new Date('2026-10-15T14:00:00Z')
+      }
+    },
+    outcome: { currentPrice: 99000, movePercent: 1, holdingLevel: true }
+  });
+
+  it('should split the longest history into messages Telegram accepts', () => {
+    const reviews = Array.from({ length: 50 }, (_, index) => review(index));
+
+    const messages = formatter.formatSignalHistory(reviews, { pairName: 'crypto', limit: 50 });
+
+    expect(messages.length).toBeGreaterThan(1);
+    expect(messages.every(message => message.length <= DELIVERY_CONSTANTS.MAX_MESSAGE_LENGTH)).toBe(true);
+    expect(messages[0]).toMatch(/^📜 Recent Signals \(crypto\)\n\n/);
+    expect(messages.join('\n\n').match(/BTCUSDT cross under/g)).toHaveLength(50);
+  });
+
+  it('should send a short history as one message', () => {
+    expect(formatter.formatSignalHistory([review(1)], { limit: 10 })).toHaveLength(1);
+    expect(formatter.formatSignalHistory([], { limit: 10 })).toEqual(['📜 Recent Signals\n\nNo signals found.']);
+  });
+});
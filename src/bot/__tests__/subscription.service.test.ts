@@ -0,0 +1,121 @@
+import { SubscriptionServiceImpl, SubscriptionCommandError, parseSubscriptionArgs } from '../subscription.service';
+import { CorrelationConfigurationService } from '../correlation-configuration.service';
+import { Logger } from '../../utils/logger';
+import { ManualClock } from '../../services/clock.service';
+import { ChatSubscription, SubscriptionStore } from '../../domain/interfaces/subscription.interface';
+import { CrossDirection, StrategySignal } from '../../core/strategies/strategy.interfaces';
+import { BotConfigService } from '../../domain/interfaces/bot-config.interface';
+import { DEFAULT_BOT_CONFIG } from '../../config/bot-config';
+
+class InMemorySubscriptionStore implements SubscriptionStore {
+  readonly subscriptions = new Map<string, ChatSubscription>();
+
+  async list(): Promise<ChatSubscription[]> {
+    return [...this.subscriptions.values()];
+  }
+
+  async get(chatId: string): Promise<ChatSubscription | undefined> {
+    return this.subscriptions.get(chatId);
+  }
+
+  async save(subscription: ChatSubscription): Promise<void> {
+    this.subscriptions.set(subscription.chatId, subscription);
+  }
+
+  async remove(chatId: string): Promise<boolean> {
+    return this.subscriptions.delete(chatId);
+  }
+}
+
+describe('parseSubscriptionArgs', () => {
+  it('should parse the pair and preferences in any order', () => {
+    expect(parseSubscriptionArgs(['min=70%', 'Crypto', 'direction=under', 'quiet=22:00-07:30', 'quiet_tz=Europe/London'])).toEqual({
+      pairName: 'crypto',
+      minConfidence: 0.7,
+      direction: CrossDirection.CROSS_UNDER,
+      quietHours: { type: 'time_session', startHour: 22, startMinute: 0, endHour: 7, endMinute: 30, timezone: 'Europe/London' }
+    });
+    expect(parseSubscriptionArgs(['quiet=off'])).toEqual({ quietHours: null });
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => parseSubscriptionArgs(['min=120'])).toThrow(SubscriptionCommandError);
+    expect(() => parseSubscriptionArgs(['quiet=25:00-07:00'])).toThrow('Quiet hours must look like HH:MM-HH:MM');
+    expect(() => parseSubscriptionArgs(['direction=sideways'])).toThrow('Direction must be');
+    expect(() => parseSubscriptionArgs(['crypto', 'indices'])).toThrow('Subscribe to one pair at a time');
+    expect(() => parseSubscriptionArgs(['volume=high'])).toThrow('Unknown option "volume"');
+  });
+});
+
+describe('SubscriptionServiceImpl', () => {
+  let store: InMemorySubscriptionStore;
+  let clock: ManualClock;
+  let service: SubscriptionServiceImpl;
+
+  const signal: StrategySignal = {
+    triggerAsset: 'BTCUSDT',
+    direction: CrossDirection.CROSS_UNDER,
+    correlatedAssets: ['ETHUSDT'],
+    referenceLevel: 100000,
+    confidence: 0.6,
+    timestamp: new Date('2025-01-06T15:00:00Z')
+  };
+
+  beforeEach(() => {
+    store = new InMemorySubscriptionStore();
+    clock = new ManualClock(new Date('2025-01-06T15:00:00Z')); // 10:00 New York
+    const mockLogger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } as jest.Mocked<Logger>;
+    const configService = new CorrelationConfigurationService({ getConfig: () => DEFAULT_BOT_CONFIG } as BotConfigService);
+    service = new SubscriptionServiceImpl(mockLogger, store, configService, clock);
+  });
+
+  it('should subscribe chats to known pairs with default preferences', async () => {
+    const subscription = await service.subscribe('chat-1', ['crypto']);
+
+    expect(subscription).toMatchObject({ chatId: 'chat-1', pairs: ['crypto'], preferences: { minConfidence: 0, direction: 'both' } });
+    await expect(service.subscribe('chat-1', ['indices'])).rejects.toThrow('Pair "indices" not found');
+    await expect(service.subscribe('chat-2', ['min=50'])).rejects.toThrow('Name a pair to subscribe to');
+  });
+
+  it('should update preferences and keep quiet hours in the strategy timezone by default', async () => {
+    await service.subscribe('chat-1', ['all']);
+    const subscription = await service.subscribe('chat-1', ['min=80', 'quiet=09:00-11:00']);
+
+    expect(subscription.pairs).toEqual(['*']);
+    expect(subscription.preferences).toEqual({
+      minConfidence: 0.8,
+      direction: 'both',
+      quietHours: { type: 'time_session', startHour: 9, startMinute: 0, endHour: 11, endMinute: 0, timezone: 'America/New_York' }
+    });
+
+    const cleared = await service.subscribe('chat-1', ['quiet=off']);
+    expect(cleared.preferences.quietHours).toBeUndefined();
+  });
+
+  it('should pick recipients by pair, confidence, direction and quiet hours', async () => {
+    await service.subscribe('all-pairs', ['all']);
+    await service.subscribe('crypto', ['crypto', 'direction=under']);
+    await service.subscribe('confident', ['crypto', 'min=70']);
+    await service.subscribe('longs', ['crypto', 'direction=over']);
+    await service.subscribe('sleeping', ['crypto', 'quiet=09:00-11:00']);
+
+    expect(await service.getRecipients('crypto', signal)).toEqual(['all-pairs', 'crypto']);
+    expect(await service.getRecipients('indices', signal)).toEqual(['all-pairs']);
+  });
+
+  it('should unsubscribe from one pair or from everything', async () => {
+    await service.subscribe('chat-1', ['all']);
+    await expect(service.unsubscribe('chat-1', 'crypto')).rejects.toThrow('This chat follows all pairs');
+
+    expect(await service.unsubscribe('chat-1')).toBeUndefined();
+    expect(store.subscriptions.size).toBe(0);
+    await expect(service.unsubscribe('chat-1')).rejects.toThrow('This chat has no subscriptions');
+  });
+
+  it('should remove the subscription with its last pair', async () => {
+    await service.subscribe('chat-1', ['crypto']);
+
+    expect(await service.unsubscribe('chat-1', 'Crypto')).toBeUndefined();
+    expect(await service.getSubscription('chat-1')).toBeUndefined();
+  });
+});
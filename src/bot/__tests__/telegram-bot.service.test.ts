@@ -6,6 +6,21 @@ import { CorrelationCrackStrategyInterface, StrategyResult } from '../../core/st
 import { MessageFormatterService } from '../message-formatter.service';
 import { CorrelationConfigurationService } from '../correlation-configuration.service';
 import { CorrelationStrategyRunnerService } from '../correlation-strategy-runner.service';
+import { SignalHistoryService } from '../signal-history.service';
+import { PairManagementService, PairCommandError } from '../pair-management.service';
+import { CrossDirection, StrategySignal } from '../../core/strategies/strategy.interfaces';
+import { BotConfig, BotConfigListener, BotConfigService } from '../../domain/interfaces/bot-config.interface';
+import { DEFAULT_BOT_CONFIG } from '../../config/bot-config';
+import { CandleCloseEventBus, PairBarCloseListener } from '../../domain/interfaces/candle-close.interface';
+import { CorrelationReportService } from '../correlation-report.service';
+import { SignalTracker, TrackedSignal } from '../../domain/interfaces/signal-tracker.interface';
+import { SubscriptionService, SubscriptionCommandError } from '../subscription.service';
+import { ChartCommandService, SymbolChart } from '../chart-command.service';
+import { NotificationService } from '../../domain/interfaces/notification.interface';
+import { OutboundMessage, OutboundQueueService } from '../outbound-queue.service';
+import { SignalActionService } from '../signal-action.service';
+import { SignalJournalEntry } from '../../domain/interfaces/signal-journal.interface';
+import { ManualClock } from '../../services/clock.service';
 import TelegramBot from 'node-telegram-bot-api';
 import * as cron from 'node-cron';
 
@@ -17,6 +32,8 @@ jest.mock('../../config/environment', () => ({
   config: {
     TELEGRAM_BOT_TOKEN: 'test-token',
     TELEGRAM_CHAT_ID: 'test-chat-id',
+    TELEGRAM_ADMIN_USER_IDS: ['admin-user-id'],
+    MAX_SIGNAL_PROCESSING_LATENCY: 5000,
   },
 }));
 
@@ -29,6 +46,18 @@ describe('TelegramBotService', () => {
   let mockCronSchedule: jest.MockedFunction<typeof cron.schedule>;
   let mockStrategyRunner: jest.Mocked<CorrelationStrategyRunnerService>;
   let mockCorrelationConfig: jest.Mocked<CorrelationConfigurationService>;
+  let mockSignalHistory: jest.Mocked<SignalHistoryService>;
+  let mockPairManagement: jest.Mocked<PairManagementService>;
+  let mockBotConfig: jest.Mocked<BotConfigService>;
+  let mockCandleCloseBus: jest.Mocked<CandleCloseEventBus>;
+  let mockCorrelationReports: jest.Mocked<CorrelationReportService>;
+  let mockSignalTracker: jest.Mocked<SignalTracker>;
+  let mockSubscriptions: jest.Mocked<SubscriptionService>;
+  let mockChartCommands: jest.Mocked<ChartCommandService>;
+  let mockNotifications: jest.Mocked<NotificationService>;
+  let mockOutbox: jest.Mocked<OutboundQueueService>;
+  let mockSignalActions: jest.Mocked<SignalActionService>;
+  let clock: ManualClock;
 
   const mockHealthStatus: HealthStatus = {
     status: 'healthy',
@@ -73,11 +102,36 @@ describe('TelegramBotService', () => {
       formatHelpMessage: jest.fn().mockReturnValue('Mock help message'),
       formatUnknownCommandMessage: jest.fn().mockReturnValue('Mock unknown command message'),
       formatCorrelationCrackSignal: jest.fn().mockReturnValue('Mock signal message'),
-    } as jest.Mocked<MessageFormatterService>;
+      formatSignalHistory: jest.fn().mockReturnValue(['Mock signal history']),
+      formatSignalsUsageMessage: jest.fn().mockReturnValue('Mock signals usage'),
+      formatPairList: jest.fn().mockReturnValue('Mock pair list'),
+      formatPairSaved: jest.fn().mockReturnValue('Mock pair saved'),
+      formatPairRemoved: jest.fn().mockReturnValue('Mock pair removed'),
+      formatPairCommandError: jest.fn().mockReturnValue('Mock pair error'),
+      formatUnauthorizedMessage: jest.fn().mockReturnValue('Mock unauthorized'),
+      formatCorrelationReports: jest.fn().mockReturnValue('Mock correlation report'),
+      formatCorrelationUsageMessage: jest.fn().mockReturnValue('Mock correlation usage'),
+      formatSignalOutcome: jest.fn().mockReturnValue('Mock signal outcome'),
+      formatSignalStats: jest.fn().mockReturnValue('Mock signal stats'),
+      formatStatsUsageMessage: jest.fn().mockReturnValue('Mock stats usage'),
+      formatSymbolChart: jest.fn().mockReturnValue('Mock chart caption'),
+      formatChartUsageMessage: jest.fn().mockReturnValue('Mock chart usage'),
+      formatChartUnavailableMessage: jest.fn().mockReturnValue('Mock chart unavailable'),
+      formatSubscription: jest.fn().mockReturnValue('Mock subscription'),
+      formatSubscriptionCommandError: jest.fn().mockReturnValue('Mock subscription error'),
+      formatSignalKeyboard: jest.fn().mockReturnValue({ inline_keyboard: [[{ text: 'Mock button', callback_data: 'signal:taken:signal-1' }]] }),
+      formatSignalDetails: jest.fn().mockReturnValue('Mock signal details'),
+      formatSignalActionResult: jest.fn().mockReturnValue('Mock action result'),
+      formatSignalUnavailableMessage: jest.fn().mockReturnValue('Mock signal unavailable'),
+      formatSignalActionFailedMessage: jest.fn().mockReturnValue('Mock signal action failed'),
+    } as unknown as jest.Mocked<MessageFormatterService>;
 
     // Correlation configuration service mock
     mockCorrelationConfig = {
       getAvailablePairs: jest.fn().mockReturnValue(['BTCUSDT/ETHUSDT']),
+      getPairs: jest.fn().mockReturnValue([]),
+      getPairConfig: jest.fn().mockReturnValue(undefined),
+      getCorrelationFilter: jest.fn().mockReturnValue(DEFAULT_BOT_CONFIG.correlationFilter),
       getStrategyConfig: jest.fn().mockReturnValue({
         name: 'Test Config',
         timeframe: '1h',
@@ -92,25 +146,142 @@ describe('TelegramBotService', () => {
       executeStrategy: jest.fn().mockResolvedValue(undefined),
     } as jest.Mocked<CorrelationStrategyRunnerService>;
 
+    // Signal history mock
+    mockSignalHistory = {
+      getSignals: jest.fn().mockResolvedValue([]),
+    } as jest.Mocked<SignalHistoryService>;
+
+    // Pair management mock
+    mockPairManagement = {
+      addPair: jest.fn(),
+      editPair: jest.fn(),
+      removePair: jest.fn().mockResolvedValue(undefined),
+    } as jest.Mocked<PairManagementService>;
+
+    // Bot config mock
+    mockBotConfig = {
+      load: jest.fn(),
+      getConfig: jest.fn().mockReturnValue(DEFAULT_BOT_CONFIG),
+      reload: jest.fn(),
+      watch: jest.fn(),
+      onChange: jest.fn(),
+      close: jest.fn(),
+    } as jest.Mocked<BotConfigService>;
+
+    // Candle close bus mock
+    mockCandleCloseBus = {
+      start: jest.fn().mockResolvedValue(undefined),
+      stop: jest.fn().mockResolvedValue(undefined),
+      onCandleClose: jest.fn(),
+      onPairBarClose: jest.fn(),
+      isLive: jest.fn().mockReturnValue(false),
+    } as jest.Mocked<CandleCloseEventBus>;
+
+    // Correlation report mock
+    mockCorrelationReports = {
+      getReports: jest.fn().mockResolvedValue([]),
+    } as jest.Mocked<CorrelationReportService>;
+
+    // Signal tracker mock
+    mockSignalTracker = {
+      track: jest.fn(),
+      attachMessages: jest.fn().mockResolvedValue(undefined),
+      update: jest.fn().mockResolvedValue([]),
+      getStats: jest.fn().mockResolvedValue({
+        total: 0, open: 0, targetHit: 0, invalidated: 0, expired: 0, hitRate: NaN, averageMovePercent: NaN
+      }),
+    } as jest.Mocked<SignalTracker>;
+
+    // Subscription mock
+    mockSubscriptions = {
+      subscribe: jest.fn(),
+      unsubscribe: jest.fn().mockResolvedValue(undefined),
+      getSubscription: jest.fn().mockResolvedValue(undefined),
+      getRecipients: jest.fn().mockResolvedValue([]),
+    } as jest.Mocked<SubscriptionService>;
+
+    // Chart command mock
+    mockChartCommands = {
+      renderChart: jest.fn(),
+    } as jest.Mocked<ChartCommandService>;
+
+    // Notification service mock
+    mockNotifications = {
+      register: jest.fn(),
+      publish: jest.fn().mockResolvedValue({ delivered: ['telegram'], failed: [], messages: [] }),
+    } as jest.Mocked<NotificationService>;
+
     // Telegram bot mock
     mockTelegramBot = {
       on: jest.fn(),
       sendMessage: jest.fn().mockResolvedValue({}),
+      sendPhoto: jest.fn().mockResolvedValue({}),
+      answerCallbackQuery: jest.fn().mockResolvedValue(true),
     } as unknown as jest.Mocked<TelegramBot>;
 
     // Cron mock
     mockCronSchedule = cron.schedule as jest.MockedFunction<typeof cron.schedule>;
-    mockCronSchedule.mockImplementation(() => ({} as any));
+    mockCronSchedule.mockImplementation(() => ({} as cron.ScheduledTask));
 
     (TelegramBot as jest.MockedClass<typeof TelegramBot>).mockImplementation(() => mockTelegramBot);
 
+    // Outbound queue mock that delivers right away, like an idle queue
+    mockOutbox = {
+      start: jest.fn().mockResolvedValue(undefined),
+      stop: jest.fn().mockResolvedValue(undefined),
+      size: jest.fn().mockReturnValue(0),
+      enqueue: jest.fn(async ({ chatId, text, photo, replyToMessageId, replyMarkup }: OutboundMessage) => {
+        let sent = {} as TelegramBot.Message;
+        const options = {
+          ...(replyToMessageId !== undefined && { reply_to_message_id: replyToMessageId }),
+          ...(replyMarkup && { reply_markup: replyMarkup })
+        };
+        if (photo) {
+          sent = await mockTelegramBot.sendPhoto(chatId, photo.data, {
+            ...(photo.caption && { caption: photo.caption }),
+            ...(replyToMessageId !== undefined && { reply_to_message_id: replyToMessageId })
+          }, {
+            filename: photo.filename,
+            contentType: 'image/png'
+          });
+        }
+        if (text !== undefined) {
+          sent = Object.keys(options).length > 0
+            ? await mockTelegramBot.sendMessage(chatId, text, options)
+            : await mockTelegramBot.sendMessage(chatId, text);
+        }
+        return sent;
+      }),
+    } as jest.Mocked<OutboundQueueService>;
+
+    // Signal action mock
+    mockSignalActions = {
+      getSignal: jest.fn().mockResolvedValue(undefined),
+      recordFeedback: jest.fn().mockResolvedValue(null),
+      getMutedChats: jest.fn().mockResolvedValue(new Set()),
+    } as jest.Mocked<SignalActionService>;
+
+    clock = new ManualClock(new Date('2025-06-03T10:00:00Z'));
+
     // Initialize service with all required dependencies
     telegramBotService = new TelegramBotService(
       mockLogger,
       mockHealthService,
       mockMessageFormatter,
       mockStrategyRunner,
-      mockCorrelationConfig
+      mockCorrelationConfig,
+      mockSignalHistory,
+      mockPairManagement,
+      mockBotConfig,
+      mockCandleCloseBus,
+      mockCorrelationReports,
+      mockSignalTracker,
+      mockSubscriptions,
+      mockChartCommands,
+      mockNotifications,
+      mockOutbox,
+      mockSignalActions,
+      clock
     );
   });
 
@@ -122,6 +293,8 @@ describe('TelegramBotService', () => {
       expect(mockTelegramBot.on).toHaveBeenCalledWith('message', expect.any(Function));
       expect(mockTelegramBot.on).toHaveBeenCalledWith('error', expect.any(Function));
       expect(mockLogger.info).toHaveBeenCalledWith('Telegram bot initialized successfully');
+      expect(mockNotifications.register).toHaveBeenCalledWith(telegramBotService);
+      expect(mockOutbox.start).toHaveBeenCalledWith(mockTelegramBot);
     });
 
     it('should handle missing token gracefully', async () => {
@@ -142,7 +315,19 @@ describe('TelegramBotService', () => {
         mockHealthService,
         mockMessageFormatter,
         mockStrategyRunner,
-        mockCorrelationConfig
+        mockCorrelationConfig,
+        mockSignalHistory,
+        mockPairManagement,
+        mockBotConfig,
+        mockCandleCloseBus,
+        mockCorrelationReports,
+        mockSignalTracker,
+        mockSubscriptions,
+        mockChartCommands,
+        mockNotifications,
+        mockOutbox,
+        mockSignalActions,
+        clock
       );
       await serviceWithMissingToken.initialize();
 
@@ -247,6 +432,160 @@ describe('TelegramBotService', () => {
       );
     });
 
+    it('should handle /signals command with arguments', async () => {
+      await telegramBotService.handleCommand('/signals crypto 2026-10-15 20', mockContext);
+
+      const expectedQuery = { pairName: 'crypto', sessionKey: '2026-10-15', limit: 20 };
+      expect(mockSignalHistory.getSignals).toHaveBeenCalledWith(expectedQuery);
+      expect(mockMessageFormatter.formatSignalHistory).toHaveBeenCalledWith([], expectedQuery);
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock signal history');
+    });
+
+    it('should send long signal histories as several messages in order', async () => {
+      mockMessageFormatter.formatSignalHistory.mockReturnValue(['Mock history page 1', 'Mock history page 2']);
+
+      await telegramBotService.handleCommand('/signals crypto 50', mockContext);
+
+      expect(mockTelegramBot.sendMessage.mock.calls.map(call => call[1])).toEqual(['Mock history page 1', 'Mock history page 2']);
+    });
+
+    it('should accept commands addressed to the bot by name', async () => {
+      await telegramBotService.handleCommand('/signals@trading_bot', mockContext);
+
+      expect(mockSignalHistory.getSignals).toHaveBeenCalledWith({ limit: 10 });
+    });
+
+    it('should reply with usage for invalid /signals arguments', async () => {
+      await telegramBotService.handleCommand('/signals crypto forex', mockContext);
+
+      expect(mockSignalHistory.getSignals).not.toHaveBeenCalled();
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock signals usage');
+    });
+
+    it('should handle /correlation command with arguments', async () => {
+      await telegramBotService.handleCommand('/correlation 30 Crypto', mockContext);
+
+      expect(mockCorrelationReports.getReports).toHaveBeenCalledWith({ pairName: 'crypto', window: 30 });
+      expect(mockMessageFormatter.formatCorrelationReports).toHaveBeenCalledWith([], DEFAULT_BOT_CONFIG.correlationFilter);
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock correlation report');
+    });
+
+    it('should reply with usage for invalid /correlation arguments', async () => {
+      await telegramBotService.handleCommand('/correlation crypto 2', mockContext);
+
+      expect(mockCorrelationReports.getReports).not.toHaveBeenCalled();
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock correlation usage');
+    });
+
+    it('should handle /stats command for a pair', async () => {
+      await telegramBotService.handleCommand('/stats Crypto', mockContext);
+
+      expect(mockSignalTracker.getStats).toHaveBeenCalledWith('crypto');
+      expect(mockMessageFormatter.formatSignalStats).toHaveBeenCalledWith(expect.objectContaining({ total: 0 }), 'crypto');
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock signal stats');
+    });
+
+    it('should reply to /chart with the chart image and its levels', async () => {
+      const chart = { symbol: 'BTCUSDT', image: Buffer.from('png') } as SymbolChart;
+      mockChartCommands.renderChart.mockResolvedValueOnce(chart);
+
+      await telegramBotService.handleCommand('/chart btcusdt 15m london', mockContext);
+
+      expect(mockChartCommands.renderChart).toHaveBeenCalledWith({ symbol: 'BTCUSDT', interval: '15m', period: 'london' });
+      expect(mockMessageFormatter.formatSymbolChart).toHaveBeenCalledWith(chart);
+      expect(mockTelegramBot.sendPhoto).toHaveBeenCalledWith('test-chat-id', chart.image, { caption: 'Mock chart caption' }, {
+        filename: 'BTCUSDT.png',
+        contentType: 'image/png'
+      });
+    });
+
+    it('should report charts that cannot be rendered', async () => {
+      mockChartCommands.renderChart.mockRejectedValueOnce(new Error('No data available for period'));
+
+      await telegramBotService.handleCommand('/chart UNKNOWN', mockContext);
+
+      expect(mockLogger.warn).toHaveBeenCalledWith('Failed to render chart', expect.any(Object));
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock chart unavailable');
+    });
+
+    it('should reply with usage for invalid /chart arguments', async () => {
+      await telegramBotService.handleCommand('/chart BTCUSDT weekly', mockContext);
+
+      expect(mockChartCommands.renderChart).not.toHaveBeenCalled();
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock chart usage');
+    });
+
+    it('should subscribe the chat with /subscribe', async () => {
+      await telegramBotService.handleCommand('/subscribe crypto min=70', mockContext);
+
+      expect(mockSubscriptions.subscribe).toHaveBeenCalledWith('test-chat-id', ['crypto', 'min=70']);
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock subscription');
+    });
+
+    it('should show the chat subscription for /subscribe without arguments', async () => {
+      await telegramBotService.handleCommand('/subscribe', mockContext);
+
+      expect(mockSubscriptions.getSubscription).toHaveBeenCalledWith('test-chat-id');
+      expect(mockSubscriptions.subscribe).not.toHaveBeenCalled();
+      expect(mockMessageFormatter.formatSubscription).toHaveBeenCalledWith(undefined);
+    });
+
+    it('should report invalid subscription changes to the user', async () => {
+      mockSubscriptions.unsubscribe.mockRejectedValueOnce(new SubscriptionCommandError('This chat has no subscriptions'));
+
+      await telegramBotService.handleCommand('/unsubscribe crypto', mockContext);
+
+      expect(mockSubscriptions.unsubscribe).toHaveBeenCalledWith('test-chat-id', 'crypto');
+      expect(mockMessageFormatter.formatSubscriptionCommandError).toHaveBeenCalledWith('This chat has no subscriptions');
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock subscription error');
+    });
+
+    it('should reply with usage for invalid /stats arguments', async () => {
+      await telegramBotService.handleCommand('/stats crypto indices', mockContext);
+
+      expect(mockSignalTracker.getStats).not.toHaveBeenCalled();
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock stats usage');
+    });
+
+    it('should list correlation pairs for any user', async () => {
+      await telegramBotService.handleCommand('/pairs', mockContext);
+
+      expect(mockMessageFormatter.formatPairList).toHaveBeenCalledWith([]);
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock pair list');
+    });
+
+    it('should reject pair changes from unauthorized users', async () => {
+      await telegramBotService.handleCommand('/pair_remove crypto', mockContext);
+
+      expect(mockPairManagement.removePair).not.toHaveBeenCalled();
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock unauthorized');
+    });
+
+    it('should add pairs for authorized users', async () => {
+      const pairConfig = {
+        name: 'forex',
+        assets: ['EURUSD', 'GBPUSD'],
+        session: { type: 'time_session' as const, startHour: 3, endHour: 8 },
+        direction: CrossDirection.CROSS_OVER
+      };
+      mockPairManagement.addPair.mockResolvedValue(pairConfig);
+
+      await telegramBotService.handleCommand('/pair_add Forex assets=EURUSD,GBPUSD', { ...mockContext, userId: 'admin-user-id' });
+
+      expect(mockPairManagement.addPair).toHaveBeenCalledWith('Forex', ['assets=EURUSD,GBPUSD']);
+      expect(mockMessageFormatter.formatPairSaved).toHaveBeenCalledWith('forex', pairConfig);
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock pair saved');
+    });
+
+    it('should report invalid pair changes to the user', async () => {
+      mockPairManagement.editPair.mockRejectedValue(new PairCommandError('Pair "forex" not found'));
+
+      await telegramBotService.handleCommand('/pair_edit forex direction=over', { ...mockContext, userId: 'admin-user-id' });
+
+      expect(mockMessageFormatter.formatPairCommandError).toHaveBeenCalledWith('Pair "forex" not found');
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock pair error');
+    });
+
     it('should handle command execution errors', async () => {
       const error = new Error('Send message failed');
       mockTelegramBot.sendMessage.mockRejectedValueOnce(error);
@@ -263,7 +602,19 @@ describe('TelegramBotService', () => {
         mockHealthService,
         mockMessageFormatter,
         mockStrategyRunner,
-        mockCorrelationConfig
+        mockCorrelationConfig,
+        mockSignalHistory,
+        mockPairManagement,
+        mockBotConfig,
+        mockCandleCloseBus,
+        mockCorrelationReports,
+        mockSignalTracker,
+        mockSubscriptions,
+        mockChartCommands,
+        mockNotifications,
+        mockOutbox,
+        mockSignalActions,
+        clock
       );
 
       await uninitializedService.handleCommand('/start', mockContext);
@@ -299,13 +650,32 @@ describe('TelegramBotService', () => {
       expect(mockCronSchedule).toHaveBeenCalledWith('0 9 * * *', expect.any(Function));
     });
 
+    it('should reschedule tasks when the configured schedules change', async () => {
+      const stop = jest.fn();
+      mockCronSchedule.mockImplementation(() => ({ stop } as unknown as cron.ScheduledTask));
+
+      await telegramBotService.startBackgroundTasks();
+      const listener = mockBotConfig.onChange.mock.calls[0]![0] as BotConfigListener;
+      const updated: BotConfig = {
+        ...DEFAULT_BOT_CONFIG,
+        schedules: { ...DEFAULT_BOT_CONFIG.schedules, correlationCheck: '*/1 * * * 1-5' }
+      };
+
+      listener(DEFAULT_BOT_CONFIG, DEFAULT_BOT_CONFIG);
+      expect(stop).not.toHaveBeenCalled();
+
+      listener(updated, DEFAULT_BOT_CONFIG);
+      expect(stop).toHaveBeenCalledTimes(4);
+      expect(mockCronSchedule).toHaveBeenCalledWith('*/1 * * * 1-5', expect.any(Function));
+    });
+
     it('should execute health check task without errors', async () => {
       let healthCheckCallback: ((now?: Date | 'manual' | 'init') => void) | undefined;
       mockCronSchedule.mockImplementation((schedule, callback) => {
         if (schedule === '*/5 * * * *') {
           healthCheckCallback = callback as (now?: Date | 'manual' | 'init') => void;
         }
-        return {} as any;
+        return {} as cron.ScheduledTask;
       });
 
       await telegramBotService.startBackgroundTasks();
@@ -326,7 +696,7 @@ describe('TelegramBotService', () => {
         if (schedule === '*/5 * * * 1-5') { // Correlation check schedule
           strategyCallback = callback as (now?: Date | 'manual' | 'init') => void;
         }
-        return {} as any;
+        return {} as cron.ScheduledTask;
       });
 
       await telegramBotService.startBackgroundTasks();
@@ -338,13 +708,51 @@ describe('TelegramBotService', () => {
       expect(mockCorrelationConfig.getAvailablePairs).toHaveBeenCalled();
       expect(mockStrategyRunner.executeStrategy).toHaveBeenCalledTimes(availablePairs.length);
       availablePairs.forEach(pair => {
-        expect(mockStrategyRunner.executeStrategy).toHaveBeenCalledWith(
-          pair,
-          expect.any(Function)
-        );
+        expect(mockStrategyRunner.executeStrategy).toHaveBeenCalledWith(pair);
       });
     });
 
+    it('should evaluate a pair as soon as its bar closes', async () => {
+      await telegramBotService.startBackgroundTasks();
+      const listener = mockCandleCloseBus.onPairBarClose.mock.calls[0]![0] as PairBarCloseListener;
+
+      listener({ pairName: 'crypto', interval: '5m', closeTime: new Date(), symbols: ['BTCUSDT', 'ETHUSDT'] });
+
+      expect(mockCandleCloseBus.start).toHaveBeenCalled();
+      expect(mockStrategyRunner.executeStrategy).toHaveBeenCalledWith('crypto');
+    });
+
+    it('should warn when a bar close is evaluated later than the latency budget', async () => {
+      await telegramBotService.startBackgroundTasks();
+      const listener = mockCandleCloseBus.onPairBarClose.mock.calls[0]![0] as PairBarCloseListener;
+
+      listener({ pairName: 'crypto', interval: '5m', closeTime: new Date('2025-06-03T09:59:59Z'), symbols: ['BTCUSDT', 'ETHUSDT'] });
+      listener({ pairName: 'crypto', interval: '5m', closeTime: new Date('2025-06-03T09:59:50Z'), symbols: ['BTCUSDT', 'ETHUSDT'] });
+      await new Promise(process.nextTick);
+
+      expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Bar close evaluation exceeded latency budget', { pairName: 'crypto', latency: 10000 });
+    });
+
+    it('should leave pairs with a live bar stream to the event path on scheduled checks', async () => {
+      mockCorrelationConfig.getAvailablePairs.mockReturnValue(['crypto', 'indices']);
+      mockCandleCloseBus.isLive.mockImplementation(pairName => pairName === 'crypto');
+
+      let strategyCallback: ((now?: Date | 'manual' | 'init') => void) | undefined;
+      mockCronSchedule.mockImplementation((schedule, callback) => {
+        if (schedule === '*/5 * * * 1-5') {
+          strategyCallback = callback as (now?: Date | 'manual' | 'init') => void;
+        }
+        return {} as cron.ScheduledTask;
+      });
+
+      await telegramBotService.startBackgroundTasks();
+      await strategyCallback!();
+
+      expect(mockStrategyRunner.executeStrategy).toHaveBeenCalledTimes(1);
+      expect(mockStrategyRunner.executeStrategy).toHaveBeenCalledWith('indices');
+    });
+
     it('should handle health check task errors', async () => {
       const error = new Error('Health check failed');
       mockHealthService.checkHealth.mockRejectedValueOnce(error);
@@ -354,7 +762,7 @@ describe('TelegramBotService', () => {
         if (schedule === '*/5 * * * *') {
           healthCheckCallback = callback as (now?: Date | 'manual' | 'init') => void;
         }
-        return {} as any;
+        return {} as cron.ScheduledTask;
       });
 
       await telegramBotService.startBackgroundTasks();
@@ -379,7 +787,7 @@ describe('TelegramBotService', () => {
         if (schedule === '*/5 * * * *') {
           healthCheckCallback = callback as (now?: Date | 'manual' | 'init') => void;
         }
-        return {} as any;
+        return {} as cron.ScheduledTask;
       });
 
       await telegramBotService.startBackgroundTasks();
@@ -400,7 +808,7 @@ describe('TelegramBotService', () => {
         if (schedule === '0 9 * * *') {
           dailyReportCallback = callback as (now?: Date | 'manual' | 'init') => void;
         }
-        return {} as any;
+        return {} as cron.ScheduledTask;
       });
 
       await telegramBotService.startBackgroundTasks();
@@ -429,7 +837,7 @@ describe('TelegramBotService', () => {
         if (schedule === '*/5 * * * 1-5') {
           strategyCallback = callback as (now?: Date | 'manual' | 'init') => void;
         }
-        return {} as any;
+        return {} as cron.ScheduledTask;
       });
 
       await telegramBotService.startBackgroundTasks();
@@ -439,6 +847,138 @@ describe('TelegramBotService', () => {
 
       expect(mockLogger.error).toHaveBeenCalledWith('Failed to execute correlation strategy', error);
     });
+
+    it('should send signals to the default chat and matching subscribers once each', async () => {
+      await telegramBotService.initialize();
+      mockSubscriptions.getRecipients.mockResolvedValue(['test-chat-id', 'subscriber-chat']);
+      mockTelegramBot.sendMessage
+        .mockResolvedValueOnce({ message_id: 42 } as TelegramBot.Message)
+        .mockResolvedValueOnce({ message_id: 7 } as TelegramBot.Message);
+      const signal = {
+        triggerAsset: 'BTCUSDT',
+        direction: CrossDirection.CROSS_UNDER,
+        correlatedAssets: ['ETHUSDT'],
+        referenceLevel: 100000,
+        confidence: 0.6,
+        timestamp: new Date()
+      };
+
+      await expect(telegramBotService.send({ kind: 'signal', text: 'Mock signal message', pairName: 'crypto', signal })).resolves.toEqual([
+        { chatId: 'test-chat-id', messageId: 42 },
+        { chatId: 'subscriber-chat', messageId: 7 }
+      ]);
+      expect(mockSubscriptions.getRecipients).toHaveBeenCalledWith('crypto', signal);
+      expect(mockOutbox.enqueue).toHaveBeenCalledWith({
+        chatId: 'subscriber-chat',
+        category: 'signal',
+        text: 'Mock signal message',
+        confidence: 0.6
+      });
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledTimes(2);
+      expect(mockTelegramBot.sendPhoto).not.toHaveBeenCalled();
+    });
+
+    it('should attach the signal buttons and skip chats that muted the pair', async () => {
+      await telegramBotService.initialize();
+      mockSubscriptions.getRecipients.mockResolvedValue(['subscriber-chat', 'muted-chat']);
+      mockSignalActions.getMutedChats.mockResolvedValue(new Set(['muted-chat']));
+      const signal = { triggerAsset: 'BTCUSDT', confidence: 0.6 } as StrategySignal;
+      const keyboard = { inline_keyboard: [[{ text: 'Mock button', callback_data: 'signal:taken:signal-1' }]] };
+
+      await telegramBotService.send({ kind: 'signal', text: 'Mock signal message', pairName: 'crypto', signal, signalId: 'signal-1' });
+
+      expect(mockSignalActions.getMutedChats).toHaveBeenCalledWith('crypto');
+      expect(mockMessageFormatter.formatSignalKeyboard).toHaveBeenCalledWith('signal-1', signal, 'crypto');
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledTimes(2);
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock signal message', { reply_markup: keyboard });
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('subscriber-chat', 'Mock signal message', { reply_markup: keyboard });
+    });
+
+    it('should send the signal chart before the signal message', async () => {
+      await telegramBotService.initialize();
+      mockTelegramBot.sendMessage.mockResolvedValueOnce({ message_id: 42 } as TelegramBot.Message);
+      const chart = Buffer.from('png');
+
+      await expect(telegramBotService.send({
+        kind: 'signal',
+        text: 'Mock signal message',
+        pairName: 'crypto',
+        signal: {} as StrategySignal,
+        chart
+      })).resolves.toEqual([
+        { chatId: 'test-chat-id', messageId: 42 }
+      ]);
+      expect(mockTelegramBot.sendPhoto).toHaveBeenCalledWith('test-chat-id', chart, {}, {
+        filename: 'signal.png',
+        contentType: 'image/png'
+      });
+      expect(mockTelegramBot.sendPhoto.mock.invocationCallOrder[0])
+        .toBeLessThan(mockTelegramBot.sendMessage.mock.invocationCallOrder[0]!);
+    });
+
+    it('should publish the outcome of tracked signals when they close', async () => {
+      const closed = {
+        id: 'signal-1',
+        pairName: 'crypto',
+        status: 'target_hit',
+        messages: [{ chatId: 'signal-chat', messageId: 42 }]
+      } as TrackedSignal;
+      mockSignalTracker.update.mockResolvedValueOnce([closed]);
+
+      let monitorCallback: ((now?: Date | 'manual' | 'init') => void) | undefined;
+      mockCronSchedule.mockImplementation((schedule, callback) => {
+        if (schedule === '* * * * *') {
+          monitorCallback = callback as (now?: Date | 'manual' | 'init') => void;
+        }
+        return {} as cron.ScheduledTask;
+      });
+
+      await telegramBotService.startBackgroundTasks();
+      await monitorCallback!();
+
+      expect(mockMessageFormatter.formatSignalOutcome).toHaveBeenCalledWith(closed);
+      expect(mockNotifications.publish).toHaveBeenCalledWith({
+        kind: 'signal_outcome',
+        text: 'Mock signal outcome',
+        pairName: 'crypto',
+        outcome: closed,
+        replyTo: closed.messages
+      });
+    });
+
+    it('should reply to the original signal messages when delivering an outcome', async () => {
+      await telegramBotService.initialize();
+      const outcome = { id: 'signal-1', status: 'target_hit' } as TrackedSignal;
+
+      await telegramBotService.send({
+        kind: 'signal_outcome',
+        text: 'Mock signal outcome',
+        outcome,
+        replyTo: [{ chatId: 'signal-chat', messageId: 42 }]
+      });
+      await telegramBotService.send({ kind: 'signal_outcome', text: 'Mock signal outcome', outcome, replyTo: [] });
+
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('signal-chat', 'Mock signal outcome', { reply_to_message_id: 42 });
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('test-chat-id', 'Mock signal outcome');
+    });
+
+    it('should log signal monitor errors', async () => {
+      const error = new Error('Price feed down');
+      mockSignalTracker.update.mockRejectedValueOnce(error);
+
+      let monitorCallback: ((now?: Date | 'manual' | 'init') => void) | undefined;
+      mockCronSchedule.mockImplementation((schedule, callback) => {
+        if (schedule === '* * * * *') {
+          monitorCallback = callback as (now?: Date | 'manual' | 'init') => void;
+        }
+        return {} as cron.ScheduledTask;
+      });
+
+      await telegramBotService.startBackgroundTasks();
+      await monitorCallback!();
+
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to monitor tracked signals', error);
+    });
   });
 
   describe('getHealthStatus', () => {
@@ -627,6 +1167,121 @@ describe('TelegramBotService', () => {
     });
   });
 
+  describe('signal actions', () => {
+    const entry = {
+      id: 'signal-1',
+      pairName: 'crypto',
+      sessionKey: '2025-06-03',
+      recordedAt: new Date('2025-06-03T10:00:00Z'),
+      signal: { triggerAsset: 'BTCUSDT' } as StrategySignal
+    } as SignalJournalEntry;
+
+    const pressButton = async (data: string): Promise<void> => {
+      const handler = mockTelegramBot.on.mock.calls.find(call => call[0] === 'callback_query')?.[1];
+      await handler?.({
+        id: 'query-1',
+        from: { id: 456 },
+        data,
+        message: { chat: { id: 123 }, message_id: 42 }
+      });
+    };
+
+    beforeEach(async () => {
+      await telegramBotService.initialize();
+      mockSignalActions.getSignal.mockResolvedValue(entry);
+    });
+
+    it('should setup callback query handler', () => {
+      expect(mockTelegramBot.on).toHaveBeenCalledWith('callback_query', expect.any(Function));
+    });
+
+    it('should record taken and ignored feedback for the user', async () => {
+      mockSignalActions.recordFeedback.mockResolvedValue(entry);
+
+      await pressButton('signal:taken:signal-1');
+
+      expect(mockSignalActions.getSignal).toHaveBeenCalledWith('signal-1');
+      expect(mockSignalActions.recordFeedback).toHaveBeenCalledWith('signal-1', '123', '456', 'taken');
+      expect(mockMessageFormatter.formatSignalActionResult).toHaveBeenCalledWith('taken', entry);
+      expect(mockTelegramBot.answerCallbackQuery).toHaveBeenCalledWith('query-1', { text: 'Mock action result' });
+    });
+
+    it('should record a mute of the pair for the chat', async () => {
+      mockSignalActions.recordFeedback.mockResolvedValue(entry);
+
+      await pressButton('signal:mute:signal-1');
+
+      expect(mockSignalActions.recordFeedback).toHaveBeenCalledWith('signal-1', '123', '456', 'muted');
+      expect(mockMessageFormatter.formatSignalActionResult).toHaveBeenCalledWith('mute', entry);
+    });
+
+    it('should reply with the signal details', async () => {
+      await pressButton('signal:details:signal-1');
+
+      expect(mockTelegramBot.answerCallbackQuery).toHaveBeenCalledWith('query-1', {});
+      expect(mockMessageFormatter.formatSignalDetails).toHaveBeenCalledWith(entry);
+      expect(mockTelegramBot.sendMessage).toHaveBeenCalledWith('123', 'Mock signal details', { reply_to_message_id: 42 });
+      expect(mockSignalActions.recordFeedback).not.toHaveBeenCalled();
+    });
+
+    it('should reply with the chart of the trigger asset over the pair reference session', async () => {
+      const session = { type: 'time_session' as const, startHour: 3, endHour: 8, timezone: 'America/New_York' };
+      mockCorrelationConfig.getPairConfig.mockReturnValue({ name: 'Crypto', assets: ['BTCUSDT', 'ETHUSDT'], session, direction: 'both' });
+      const chart = { symbol: 'BTCUSDT', image: Buffer.from('png') } as SymbolChart;
+      mockChartCommands.renderChart.mockResolvedValue(chart);
+
+      await pressButton('signal:chart:signal-1');
+
+      expect(mockChartCommands.renderChart).toHaveBeenCalledWith({
+        symbol: 'BTCUSDT',
+        period: { label: 'crypto reference session', spec: session }
+      });
+      expect(mockTelegramBot.sendPhoto).toHaveBeenCalledWith('123', chart.image, {
+        caption: 'Mock chart caption',
+        reply_to_message_id: 42
+      }, { filename: 'BTCUSDT.png', contentType: 'image/png' });
+    });
+
+    it('should chart the current day when the pair no longer exists', async () => {
+      mockCorrelationConfig.getPairConfig.mockReturnValue(undefined);
+      mockChartCommands.renderChart.mockResolvedValue({ symbol: 'BTCUSDT', image: Buffer.from('png') } as SymbolChart);
+
+      await pressButton('signal:chart:signal-1');
+
+      expect(mockChartCommands.renderChart).toHaveBeenCalledWith({ symbol: 'BTCUSDT', period: 'current_day' });
+    });
+
+    it('should tell the user when the signal is no longer in the journal', async () => {
+      mockSignalActions.getSignal.mockResolvedValue(undefined);
+
+      await pressButton('signal:taken:signal-1');
+
+      expect(mockTelegramBot.answerCallbackQuery).toHaveBeenCalledWith('query-1', { text: 'Mock signal unavailable' });
+      expect(mockSignalActions.recordFeedback).not.toHaveBeenCalled();
+    });
+
+    it('should only answer callbacks that are not from signal buttons', async () => {
+      await pressButton('something-else');
+
+      expect(mockTelegramBot.answerCallbackQuery).toHaveBeenCalledWith('query-1', {});
+      expect(mockSignalActions.getSignal).not.toHaveBeenCalled();
+    });
+
+    it('should log signal action errors', async () => {
+      const error = new Error('Journal unavailable');
+      mockSignalActions.recordFeedback.mockRejectedValue(error);
+
+      await pressButton('signal:ignored:signal-1');
+
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to handle signal action', error, {
+        action: 'ignored',
+        signalId: 'signal-1',
+        chatId: '123'
+      });
+      expect(mockTelegramBot.answerCallbackQuery).toHaveBeenCalledWith('query-1', { text: 'Mock signal action failed' });
+    });
+  });
+
   describe('sendMessage error handling', () => {
     beforeEach(async () => {
       await telegramBotService.initialize();
@@ -0,0 +1,201 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/config/types';
+import { CHART_CONSTANTS, TIME_CONSTANTS, TRADING_CONSTANTS } from '@/config/constants';
+import { HighLowIndicatorInterface, HighLowResult, PeriodSpec } from '@/core/indicators/indicator.interfaces';
+import { ChartService } from '@/domain/interfaces/chart.interface';
+import { Kline, MarketDataProvider } from '@/domain/interfaces/market-data.interfaces';
+import { getIntervalMs, isValidInterval } from '@/utils/time-utils';
+import { getSessionOccurrence, isSessionSpec } from '@/utils/date-helpers';
+import { CorrelationConfigurationService } from './correlation-configuration.service';
+
+export type ChartPeriodName = 'prev_day' | 'current_day' | 'london' | 'ny' | 'asia';
+
+export interface ChartPeriod {
+  label: string;
+  spec: PeriodSpec;
+}
+
+export interface ChartQuery {
+  symbol: string;
+  interval?: string; // Default: strategy.candleInterval
+  period: ChartPeriodName | number | ChartPeriod; // A number charts the range of the last N bars
+}
+
+export interface SymbolChart {
+  symbol: string;
+  interval: string;
+  period: ChartPeriod;
+  range: HighLowResult;
+  image: Buffer;
+}
+
+export interface ChartCommandService {
+  /**
+   * Chart of a symbol with the high and low of the requested period.
+   * Throws when market data is unavailable or does not cover the period.
+   */
+  renderChart(query: ChartQuery): Promise<SymbolChart>;
+}
+
+const NAMED_PERIODS: Record<ChartPeriodName, ChartPeriod> = {
+  prev_day: { label: 'Previous day', spec: 'prev_day' },
+  current_day: { label: 'Current day', spec: 'current_day' },
+  london: {
+    label: 'London session',
+    spec: {
+      type: 'time_session',
+      startHour: TRADING_CONSTANTS.LONDON_SESSION_START_HOUR,
+      endHour: TRADING_CONSTANTS.LONDON_SESSION_END_HOUR,
+      timezone: TRADING_CONSTANTS.DEFAULT_TIMEZONE
+    }
+  },
+  ny: {
+    label: 'NY session',
+    spec: {
+      type: 'time_session',
+      startHour: TRADING_CONSTANTS.US_SESSION_START_HOUR,
+      startMinute: TRADING_CONSTANTS.US_SESSION_START_MINUTE,
+      endHour: TRADING_CONSTANTS.US_SESSION_END_HOUR,
+      endMinute: TRADING_CONSTANTS.US_SESSION_END_MINUTE,
+      timezone: TRADING_CONSTANTS.DEFAULT_TIMEZONE
+    }
+  },
+  asia: {
+    label: 'Asian session',
+    spec: {
+      type: 'time_session',
+      startHour: TRADING_CONSTANTS.ASIAN_SESSION_START_HOUR,
+      endHour: TRADING_CONSTANTS.ASIAN_SESSION_END_HOUR,
+      timezone: TRADING_CONSTANTS.DEFAULT_TIMEZONE
+    }
+  }
+};
+
+export const CHART_PERIOD_NAMES = [...Object.keys(NAMED_PERIODS), 'rolling=N'];
+
+const DEFAULT_PERIOD: ChartPeriodName = 'prev_day';
+const ROLLING_ARGUMENT_PATTERN = /^rolling=(\d+)$/;
+const SYMBOL_ARGUMENT_PATTERN = /^[A-Za-z0-9._-]+$/;
+const MAX_ROLLING_PERIODS = 500;
+
+/**
+ * Parse `/chart <symbol> [interval] [period]` arguments; interval and period may come in any order.
+ * Returns null when the arguments are invalid.
+ */
+export function parseChartCommandArgs(args: string[]): ChartQuery | null {
+  const [symbol, ...options] = args;
+  if (!symbol || !SYMBOL_ARGUMENT_PATTERN.test(symbol) || options.length > 2) return null;
+
+  let interval: string | undefined;
+  let period: ChartQuery['period'] | undefined;
+  for (const option of options) {
+    const rolling = ROLLING_ARGUMENT_PATTERN.exec(option.toLowerCase());
+    if (isValidInterval(option)) {
+      if (interval) return null;
+      interval = option;
+    } else if (rolling) {
+      const periods = Number(rolling[1]);
+      if (period !== undefined || periods < 1 || periods > MAX_ROLLING_PERIODS) return null;
+      period = periods;
+    } else {
+      const name = option.toLowerCase();
+      if (period !== undefined || !(name in NAMED_PERIODS)) return null;
+      period = name as ChartPeriodName;
+    }
+  }
+
+  return {
+    symbol: symbol.toUpperCase(),
+    ...(interval && { interval }),
+    period: period ?? DEFAULT_PERIOD
+  };
+}
+
+/**
+ * Indicator period of a query; rolling periods count bars of the chart interval
+ */
+export function getChartPeriod(period: ChartQuery['period'], interval: string): ChartPeriod {
+  if (typeof period === 'object') return period;
+  return typeof period === 'number'
+    ? { label: `Last ${period} bars`, spec: { type: 'rolling', periods: period, interval } }
+    : NAMED_PERIODS[period];
+}
+
+@injectable()
+export class ChartCommandServiceImpl implements ChartCommandService {
+
+  constructor(
+    @inject(TYPES.MarketDataProvider) private marketDataProvider: MarketDataProvider,
+    @inject(TYPES.HighLowIndicator) private highLowIndicator: HighLowIndicatorInterface,
+    @inject(TYPES.ChartService) private chartService: ChartService,
+    @inject(TYPES.CorrelationConfigurationService) private configService: CorrelationConfigurationService
+  ) {}
+
+  async renderChart(query: ChartQuery): Promise<SymbolChart> {
+    const interval = query.interval ?? this.configService.getCandleInterval();
+    const period = getChartPeriod(query.period, interval);
+    const { spec } = period;
+    const timezone = this.configService.getTimezone();
+
+    const klines = await this.marketDataProvider.getKlines(query.symbol, interval, this.getKlinesLimit(spec, interval));
+    const range = await this.highLowIndicator.calculate(klines, {
+      symbol: query.symbol,
+      period: this.getLatestPeriod(klines, spec, timezone),
+      timezone
+    });
+
+    const charts = this.configService.getCharts();
+    const image = this.chartService.render({
+      title: `${query.symbol} ${interval} - ${period.label}`,
+      width: charts.width,
+      panelHeight: CHART_CONSTANTS.COMMAND_PANEL_HEIGHT,
+      timezone,
+      panels: [{
+        symbol: query.symbol,
+        klines: this.getVisibleKlines(klines, range),
+        ...(range.periodStart && range.periodEnd && {
+          session: { start: range.periodStart, end: range.periodEnd, high: range.high, low: range.low }
+        }),
+        levels: [{ label: 'HLS', price: range.high }, { label: 'LLS', price: range.low }]
+      }]
+    });
+
+    return { symbol: query.symbol, interval, period, range, image };
+  }
+
+  /**
+   * Bars needed to cover the period, with some context before it
+   */
+  private getKlinesLimit(spec: PeriodSpec, interval: string): number {
+    const intervalMs = getIntervalMs(interval);
+    const lookback = typeof spec === 'object' && spec.type === 'rolling'
+      ? spec.periods * intervalMs
+      : isSessionSpec(spec)
+        ? TIME_CONSTANTS.DAY
+        : CHART_CONSTANTS.DAY_PERIOD_LOOKBACK_DAYS * TIME_CONSTANTS.DAY;
+    const bars = Math.ceil(lookback / intervalMs) + CHART_CONSTANTS.CONTEXT_CANDLES;
+    return Math.min(Math.max(bars, CHART_CONSTANTS.MIN_COMMAND_KLINES), CHART_CONSTANTS.MAX_COMMAND_KLINES);
+  }
+
+  /**
+   * Sessions recur every day; the chart shows the most recent occurrence in the data, even one still in progress
+   */
+  private getLatestPeriod(klines: Kline[], spec: PeriodSpec, timezone: string): PeriodSpec {
+    if (!isSessionSpec(spec) || klines.length === 0) return spec;
+
+    const latest = klines[klines.length - 1].openTime;
+    const today = getSessionOccurrence(latest, spec, timezone);
+    const { start, end } = today.start <= latest ? today : getSessionOccurrence(latest, spec, timezone, -1);
+    return { type: 'custom', startTime: start, endTime: end };
+  }
+
+  /**
+   * From a few bars before the period to the latest bar, at most MAX_CANDLES
+   */
+  private getVisibleKlines(klines: Kline[], range: HighLowResult): Kline[] {
+    const { periodStart: startTime } = range;
+    const periodStart = startTime ? klines.findIndex(kline => kline.openTime >= startTime) : 0;
+    const start = Math.max(0, periodStart - CHART_CONSTANTS.CONTEXT_CANDLES, klines.length - CHART_CONSTANTS.MAX_CANDLES);
+    return klines.slice(start);
+  }
+}
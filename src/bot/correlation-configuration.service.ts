@@ -1,64 +1,149 @@
-import { injectable } from 'inversify';
-import { CorrelationCrackConfig, CrossDirection } from '@/core/strategies/strategy.interfaces';
+import { injectable, inject, unmanaged } from 'inversify';
+import { CorrelationCrackConfig } from '@/core/strategies/strategy.interfaces';
 import { SessionSpec } from '@/core/indicators/indicator.interfaces';
-import { BOT_CONSTANTS } from '@/config/constants';
+import { BotConfigService, ChartConfig, CorrelationFilterSettings, CorrelationPairConfig, SignalTrackingConfig, TradingHours } from '@/domain/interfaces/bot-config.interface';
+import { TYPES } from '@/config/types';
+import { STORAGE_CONSTANTS } from '@/config/constants';
+import { JsonFileStore } from '@/utils/json-file-store';
 
-export interface CorrelationPairConfig {
-  name: string;
-  assets: string[];
-  session: SessionSpec;
-  direction: CrossDirection;
+/**
+ * Pair changes made at runtime, layered over the pairs from the config file
+ */
+interface PairOverrides {
+  saved: Record<string, CorrelationPairConfig>;
+  removed: string[];
 }
 
 @injectable()
 export class CorrelationConfigurationService {
-  private readonly configs: Map<string, CorrelationPairConfig> = new Map();
+  private overrides: PairOverrides = { saved: {}, removed: [] };
+  private readonly pairsListeners: Array<() => void> = [];
+  private readonly store: JsonFileStore<PairOverrides>;
 
-  constructor() {
-    this.initializeConfigs();
+  constructor(
+    @inject(TYPES.BotConfigService) private botConfig: BotConfigService,
+    @unmanaged() filePath: string = STORAGE_CONSTANTS.CORRELATION_PAIRS_FILE
+  ) {
+    this.store = new JsonFileStore(filePath);
   }
 
-  private initializeConfigs(): void {
-    // Crypto correlation setup
-    this.configs.set('crypto', {
-      name: 'Crypto',
-      assets: ['BTCUSDT', 'ETHUSDT'],
-      session: {
-        type: 'time_session',
-        startHour: BOT_CONSTANTS.NY_SESSION_START_HOUR,
-        startMinute: 0,
-        endHour: BOT_CONSTANTS.NY_SESSION_END_HOUR,
-        endMinute: 0,
-        timezone: BOT_CONSTANTS.NY_TIMEZONE
-      },
-      direction: CrossDirection.CROSS_UNDER
-    });
-
-    // Future setups can be added here:
-    // EUR/USD correlation
-    // Nasdaq/S&P500 correlation
+  /**
+   * Restore pair changes made at runtime
+   */
+  async load(): Promise<void> {
+    const stored = await this.store.read();
+    if (stored) {
+      this.overrides = { saved: stored.saved ?? {}, removed: stored.removed ?? [] };
+    }
   }
 
   getStrategyConfig(pairName: string): CorrelationCrackConfig {
-    const pairConfig = this.configs.get(pairName);
+    const pairConfig = this.getPairConfig(pairName);
     if (!pairConfig) {
       throw new Error(`Correlation pair configuration not found: ${pairName}`);
     }
 
+    return this.buildStrategyConfig(pairConfig);
+  }
+
+  buildStrategyConfig(pairConfig: CorrelationPairConfig): CorrelationCrackConfig {
+    const { strategy, correlationFilter: { enabled, ...correlationFilter } } = this.botConfig.getConfig();
     return {
       primaryAssets: pairConfig.assets,
       period: pairConfig.session,
       direction: pairConfig.direction,
-      marketDataInterval: BOT_CONSTANTS.DEFAULT_CANDLE_INTERVAL,
+      marketDataInterval: strategy.candleInterval,
       useBodyHighLow: false,
-      timezone: BOT_CONSTANTS.NY_TIMEZONE,
-      minCorrelatedAssets: BOT_CONSTANTS.MIN_CORRELATED_ASSETS,
-      klinesLimit: BOT_CONSTANTS.KLINES_LIMIT,
-      crossDetectionLookback: BOT_CONSTANTS.CROSS_DETECTION_LOOKBACK
+      timezone: strategy.timezone,
+      minCorrelatedAssets: strategy.minCorrelatedAssets,
+      klinesLimit: strategy.klinesLimit,
+      crossDetectionLookback: strategy.crossDetectionLookback,
+      ...(enabled && { correlationFilter }),
+      ...(pairConfig.confidenceModel && { confidenceModel: pairConfig.confidenceModel })
     };
   }
 
+  getTradingHours(): TradingHours {
+    return this.botConfig.getConfig().tradingHours;
+  }
+
+  /**
+   * Window during which the pair is evaluated: its own trading window, or the global trading hours
+   */
+  getTradingWindow(pairName: string): SessionSpec {
+    const tradingWindow = this.getPairConfig(pairName)?.tradingWindow;
+    if (tradingWindow) {
+      return tradingWindow;
+    }
+
+    const { startHour, endHour } = this.getTradingHours();
+    return { type: 'time_session', startHour, endHour, timezone: this.getTimezone() };
+  }
+
+  getTimezone(): string {
+    return this.botConfig.getConfig().strategy.timezone;
+  }
+
+  getCandleInterval(): string {
+    return this.botConfig.getConfig().strategy.candleInterval;
+  }
+
+  getCorrelationFilter(): CorrelationFilterSettings {
+    return this.botConfig.getConfig().correlationFilter;
+  }
+
+  getSignalTracking(): SignalTrackingConfig {
+    return this.botConfig.getConfig().signalTracking;
+  }
+
+  getCharts(): ChartConfig {
+    return this.botConfig.getConfig().charts;
+  }
+
   getAvailablePairs(): string[] {
-    return Array.from(this.configs.keys());
+    return this.getPairs().map(([pairName]) => pairName);
+  }
+
+  getPairs(): Array<[string, CorrelationPairConfig]> {
+    const pairs = { ...this.botConfig.getConfig().pairs, ...this.overrides.saved };
+    return Object.entries(pairs).filter(([pairName]) => !this.overrides.removed.includes(pairName));
+  }
+
+  getPairConfig(pairName: string): CorrelationPairConfig | undefined {
+    return this.getPairs().find(([name]) => name === pairName)?.[1];
+  }
+
+  /**
+   * Be notified after pairs are added, edited or removed at runtime
+   */
+  onPairsChange(listener: () => void): void {
+    this.pairsListeners.push(listener);
+  }
+
+  /**
+   * Add or replace a pair and persist the runtime changes
+   */
+  async savePair(pairName: string, pairConfig: CorrelationPairConfig): Promise<void> {
+    this.overrides.saved[pairName] = pairConfig;
+    this.overrides.removed = this.overrides.removed.filter(name => name !== pairName);
+    await this.persist();
+  }
+
+  async removePair(pairName: string): Promise<boolean> {
+    if (!this.getPairConfig(pairName)) {
+      return false;
+    }
+
+    delete this.overrides.saved[pairName];
+    if (this.botConfig.getConfig().pairs[pairName]) {
+      this.overrides.removed.push(pairName);
+    }
+    await this.persist();
+    return true;
+  }
+
+  private async persist(): Promise<void> {
+    await this.store.write(this.overrides);
+    this.pairsListeners.forEach(listener => listener());
   }
 }
@@ -0,0 +1,71 @@
+import { injectable, inject } from 'inversify';
+import { Logger } from '@/utils/logger';
+import { TYPES } from '@/config/types';
+import { CorrelationReport, CorrelationTracker } from '@/domain/interfaces/correlation-tracker.interface';
+import { CorrelationConfigurationService } from './correlation-configuration.service';
+
+export interface CorrelationQuery {
+  pairName?: string;
+  window?: number; // Default: correlationFilter.window
+}
+
+export interface PairCorrelationReport {
+  pairName: string;
+  interval: string;
+  report?: CorrelationReport; // Missing when market data is unavailable
+}
+
+export interface CorrelationReportService {
+  getReports(query: CorrelationQuery): Promise<PairCorrelationReport[]>;
+}
+
+const WINDOW_ARGUMENT_PATTERN = /^\d+$/;
+const MIN_WINDOW = 5;
+const MAX_WINDOW = 1000;
+
+/**
+ * Parse `/correlation [pair] [window]` arguments in any order.
+ * Returns null when the arguments are invalid.
+ */
+export function parseCorrelationCommandArgs(args: string[]): CorrelationQuery | null {
+  const query: CorrelationQuery = {};
+
+  for (const arg of args) {
+    if (WINDOW_ARGUMENT_PATTERN.test(arg)) {
+      const window = Number(arg);
+      if (query.window !== undefined || window < MIN_WINDOW || window > MAX_WINDOW) return null;
+      query.window = window;
+    } else {
+      if (query.pairName !== undefined) return null;
+      query.pairName = arg.toLowerCase();
+    }
+  }
+
+  return query;
+}
+
+@injectable()
+export class CorrelationReportServiceImpl implements CorrelationReportService {
+
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @inject(TYPES.CorrelationTracker) private correlationTracker: CorrelationTracker,
+    @inject(TYPES.CorrelationConfigurationService) private configService: CorrelationConfigurationService
+  ) {}
+
+  async getReports(query: CorrelationQuery): Promise<PairCorrelationReport[]> {
+    const window = query.window ?? this.configService.getCorrelationFilter().window;
+    const interval = this.configService.getCandleInterval();
+    const pairs = this.configService.getPairs().filter(([pairName]) => !query.pairName || pairName === query.pairName);
+
+    return Promise.all(pairs.map(async ([pairName, pairConfig]) => {
+      try {
+        const report = await this.correlationTracker.measure(pairConfig.assets, interval, window);
+        return { pairName, interval, report };
+      } catch (error) {
+        this.logger.warn('Failed to measure pair correlation', { pairName, error });
+        return { pairName, interval };
+      }
+    }));
+  }
+}
@@ -1,13 +1,24 @@
 import { injectable, inject } from 'inversify';
 import { Logger } from '@/utils/logger';
 import { TYPES } from '@/config/types';
-import { CorrelationCrackStrategyInterface } from '@/core/strategies/strategy.interfaces';
+import { CorrelationCrackConfig, CorrelationCrackStrategyInterface, StrategyResult } from '@/core/strategies/strategy.interfaces';
+import { HighLowResult } from '@/core/indicators/indicator.interfaces';
 import { CorrelationConfigurationService } from './correlation-configuration.service';
-import { BOT_CONSTANTS } from '@/config/constants';
 import { MessageFormatterService } from './message-formatter.service';
+import { Clock } from '@/domain/interfaces/clock.interface';
+import { ChartService } from '@/domain/interfaces/chart.interface';
+import { Kline } from '@/domain/interfaces/market-data.interfaces';
+import { SignalJournal, SignalJournalEntry } from '@/domain/interfaces/signal-journal.interface';
+import { SignalTracker } from '@/domain/interfaces/signal-tracker.interface';
+import { NotificationService } from '@/domain/interfaces/notification.interface';
+import { TradingCalendar } from '@/domain/interfaces/trading-calendar.interface';
+import { isWithinTradingWindow } from '@/utils/date-helpers';
 
 export interface CorrelationStrategyRunnerService {
-  executeStrategy(pairName: string, onSignal: (message: string) => Promise<void>): Promise<void>;
+  /**
+   * Run the strategy of a pair and publish new signals to the notification service
+   */
+  executeStrategy(pairName: string): Promise<void>;
 }
 
 @injectable()
@@ -17,30 +28,51 @@ export class CorrelationStrategyRunnerServiceImpl implements CorrelationStrategy
     @inject(TYPES.Logger) private logger: Logger,
     @inject(TYPES.CorrelationCrackStrategy) private correlationCrackStrategy: CorrelationCrackStrategyInterface,
     @inject(TYPES.CorrelationConfigurationService) private configService: CorrelationConfigurationService,
-    @inject(TYPES.MessageFormatterService) private messageFormatter: MessageFormatterService
+    @inject(TYPES.MessageFormatterService) private messageFormatter: MessageFormatterService,
+    @inject(TYPES.Clock) private clock: Clock,
+    @inject(TYPES.SignalJournal) private signalJournal: SignalJournal,
+    @inject(TYPES.TradingCalendar) private tradingCalendar: TradingCalendar,
+    @inject(TYPES.SignalTracker) private signalTracker: SignalTracker,
+    @inject(TYPES.ChartService) private chartService: ChartService,
+    @inject(TYPES.NotificationService) private notifications: NotificationService
   ) {}
 
-  async executeStrategy(pairName: string, onSignal: (message: string) => Promise<void>): Promise<void> {
-    const now = new Date();
-    const nyHour = new Date(now.toLocaleString("en-US", { timeZone: BOT_CONSTANTS.NY_TIMEZONE })).getHours();
-    
-    // Only run during NY session hours
-    if (nyHour < BOT_CONSTANTS.NY_SESSION_START_HOUR || nyHour >= BOT_CONSTANTS.NY_SESSION_END_HOUR) {
+  async executeStrategy(pairName: string): Promise<void> {
+    const now = this.clock.now();
+    const tradingWindow = this.configService.getTradingWindow(pairName);
+
+    // Only run during the pair's trading window
+    if (!isWithinTradingWindow(now, tradingWindow, this.configService.getTimezone())) {
       return;
     }
 
     try {
       const strategyConfig = this.configService.getStrategyConfig(pairName);
 
-      this.logger.debug('Executing correlation crack strategy', { 
+      // No signals while any market of the pair is closed (weekends, holidays, after a half-day close)
+      const closedAssets = strategyConfig.primaryAssets.filter(asset => !this.tradingCalendar.isOpen(asset, now));
+      if (closedAssets.length > 0) {
+        this.logger.debug('Skipping correlation crack strategy, market closed', { pairName, closedAssets });
+        return;
+      }
+
+      this.logger.debug('Executing correlation crack strategy', {
         assets: strategyConfig.primaryAssets,
-        nyHour,
-        session: `NY ${BOT_CONSTANTS.NY_SESSION_START_HOUR}-${BOT_CONSTANTS.NY_SESSION_END_HOUR}`
+        tradingWindow
       });
 
       const result = await this.correlationCrackStrategy.execute(strategyConfig);
 
       if (result.success && result.signal) {
+        const entry = await this.signalJournal.record(pairName, result.signal);
+        if (!entry) {
+          this.logger.debug('Correlation crack signal already announced this session', {
+            pairName,
+            triggerAsset: result.signal.triggerAsset
+          });
+          return;
+        }
+
         const signalMessage = this.messageFormatter.formatCorrelationCrackSignal(result.signal);
         
         this.logger.info('Correlation crack signal detected', { 
@@ -48,7 +80,8 @@ export class CorrelationStrategyRunnerServiceImpl implements CorrelationStrategy
           confidence: result.signal.confidence 
         });
 
-        await onSignal(signalMessage);
+        const chart = this.renderChart(pairName, result);
+        await this.announce(entry, signalMessage, chart);
       } else if (!result.success) {
         this.logger.warn('Correlation crack strategy execution failed', { 
           error: result.error,
@@ -62,4 +95,54 @@ export class CorrelationStrategyRunnerServiceImpl implements CorrelationStrategy
       this.logger.error('Error executing correlation crack strategy', error);
     }
   }
+
+  /**
+   * Chart of the signal from the klines the strategy analyzed. A failed render only drops the chart.
+   */
+  private renderChart(pairName: string, result: StrategyResult<CorrelationCrackConfig>): Buffer | undefined {
+    const charts = this.configService.getCharts();
+    const klines: Map<string, Kline[]> | undefined = result.metadata?.klines;
+    const sessionRanges: Map<string, HighLowResult> | undefined = result.metadata?.sessionRanges;
+    if (!charts.enabled || !result.signal || !klines || !sessionRanges) {
+      return undefined;
+    }
+
+    try {
+      return this.chartService.renderSignalChart(result.signal, klines, sessionRanges, {
+        pairName: this.configService.getPairConfig(pairName)?.name ?? pairName,
+        width: charts.width,
+        panelHeight: charts.panelHeight,
+        timezone: this.configService.getTimezone()
+      });
+    } catch (error) {
+      this.logger.warn('Failed to render signal chart', { pairName, error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Publish the signal; when tracking is enabled and a channel delivered it, its outcome will reply
+   * to the messages it was sent in
+   */
+  private async announce(entry: SignalJournalEntry, text: string, chart?: Buffer): Promise<void> {
+    const result = await this.notifications.publish({
+      kind: 'signal',
+      text,
+      pairName: entry.pairName,
+      signal: entry.signal,
+      signalId: entry.id,
+      ...(chart && { chart })
+    });
+    if (result.failed.length > 0) {
+      this.logger.warn('Signal not delivered to every channel', { pairName: entry.pairName, failed: result.failed });
+    }
+    const { enabled, ...settings } = this.configService.getSignalTracking();
+    if (!enabled || result.delivered.length === 0) {
+      return;
+    }
+    await this.signalTracker.track(entry, settings);
+    if (result.messages.length > 0) {
+      await this.signalTracker.attachMessages(entry.id, result.messages);
+    }
+  }
 }
@@ -1,11 +1,27 @@
-import { injectable } from 'inversify';
+import { injectable, inject } from 'inversify';
+import TelegramBot from 'node-telegram-bot-api';
 import { HealthStatus } from '@/domain/interfaces/bot-service.interface';
 import { CrossDirection, StrategySignal } from '@/core/strategies/strategy.interfaces';
-import { BOT_CONSTANTS } from '@/config/constants';
+import { SignalJournalEntry, SignalJournalQuery } from '@/domain/interfaces/signal-journal.interface';
+import { SignalTrackingStats, TrackedSignal } from '@/domain/interfaces/signal-tracker.interface';
+import { ALL_PAIRS, ChatSubscription } from '@/domain/interfaces/subscription.interface';
+import { CorrelationFilterSettings, CorrelationPairConfig } from '@/domain/interfaces/bot-config.interface';
+import { SessionSpec } from '@/core/indicators/indicator.interfaces';
+import { ConfidenceBreakdown } from '@/core/scoring/confidence.interfaces';
+import { InstrumentRegistry } from '@/domain/interfaces/instrument.interface';
+import { TYPES } from '@/config/types';
+import { BOT_CONSTANTS, DEFAULT_CONFIDENCE_MODEL, DEFAULT_MARKET_DATA_PROVIDER, DELIVERY_CONSTANTS } from '@/config/constants';
+import { SignalReview } from './signal-history.service';
+import { PairCorrelationReport } from './correlation-report.service';
+import { CHART_PERIOD_NAMES, SymbolChart } from './chart-command.service';
+import { SignalAction, encodeSignalCallback } from './signal-action.service';
 
 @injectable()
 export class MessageFormatterService {
-  
+  constructor(
+    @inject(TYPES.InstrumentRegistry) private instruments: InstrumentRegistry
+  ) {}
+
   formatHealthMessage(health: HealthStatus): string {
     const statusEmoji = health.status === 'healthy' ? '✅' : 
                        health.status === 'degraded' ? '⚠️' : '❌';
@@ -34,8 +50,12 @@ export class MessageFormatterService {
     let message = `🚨 CORRELATION CRACK DETECTED ${directionEmoji}\n\n`;
     message += `💰 Trigger Asset: ${signal.triggerAsset}\n`;
     message += `📊 Direction: ${signal.direction.replace('_', ' ').toUpperCase()}\n`;
-    message += `🎯 Reference Level: ${signal.referenceLevel.toFixed(BOT_CONSTANTS.PRICE_DECIMAL_PLACES)}\n`;
+    message += `🎯 Reference Level: ${this.instruments.formatPrice(signal.triggerAsset, signal.referenceLevel)}`;
+    message += `${signal.referenceLevelType ? ` (${signal.referenceLevelType})` : ''}\n`;
     message += `📈 Confidence: ${confidencePercent}%\n`;
+    if (signal.confidenceBreakdown) {
+      message += this.formatConfidenceBreakdown(signal.confidenceBreakdown);
+    }
     message += `🕐 Time: ${signal.timestamp.toISOString()}\n\n`;
     
     message += `🔗 Correlated Assets (No Break):\n`;
@@ -51,15 +71,298 @@ export class MessageFormatterService {
     return message;
   }
 
+  /**
+   * Several signal messages for one chat, sent as a single message
+   */
+  formatSignalDigest(messages: string[]): string {
+    return `📬 SIGNAL DIGEST (${messages.length} signals)\n\n${messages.join('\n\n━━━━━━━━━━\n\n')}`;
+  }
+
+  /**
+   * Buttons under a signal message. Every label names the asset or pair, so each row
+   * still tells which signal it acts on when a digest carries the buttons of several.
+   */
+  formatSignalKeyboard(signalId: string, signal: StrategySignal, pairName: string): TelegramBot.InlineKeyboardMarkup {
+    const asset = signal.triggerAsset;
+    const button = (text: string, action: SignalAction): TelegramBot.InlineKeyboardButton =>
+      ({ text, callback_data: encodeSignalCallback(action, signalId) });
+    return {
+      inline_keyboard: [
+        [button(`📊 ${asset} chart`, 'chart'), button(`ℹ️ ${asset} details`, 'details'), button(`🔕 Mute ${pairName} today`, 'mute')],
+        [button(`✅ ${asset} taken`, 'taken'), button(`❌ ${asset} ignored`, 'ignored')]
+      ]
+    };
+  }
+
+  formatSignalDetails(entry: SignalJournalEntry): string {
+    const { signal } = entry;
+    const feedback = entry.feedback ?? [];
+    const count = (action: string): number => feedback.filter(item => item.action === action).length;
+
+    let message = `ℹ️ Signal details: ${signal.triggerAsset} ${signal.direction.replace('_', ' ')}\n\n`;
+    message += `Pair: ${entry.pairName} • Session: ${entry.sessionKey}\n`;
+    message += `Reference level: ${this.instruments.formatPrice(signal.triggerAsset, signal.referenceLevel)}`;
+    message += `${signal.referenceLevelType ? ` (${signal.referenceLevelType})` : ''}\n`;
+    if (signal.triggerPrice !== undefined) {
+      message += `Trigger price: ${this.instruments.formatPrice(signal.triggerAsset, signal.triggerPrice)}\n`;
+    }
+    message += `Confidence: ${(signal.confidence * BOT_CONSTANTS.PERCENTAGE_MULTIPLIER).toFixed(1)}%\n`;
+    if (signal.confidenceBreakdown) {
+      message += this.formatConfidenceBreakdown(signal.confidenceBreakdown);
+    }
+    message += `Held by: ${signal.correlatedAssets.join(', ')}\n`;
+    message += `Recorded: ${entry.recordedAt.toISOString()}\n`;
+    message += `Feedback: ✅ ${count('taken')} taken • ❌ ${count('ignored')} ignored`;
+    return message;
+  }
+
+  /**
+   * Short confirmation shown by Telegram after a signal button is pressed
+   */
+  formatSignalActionResult(action: SignalAction, entry: SignalJournalEntry): string {
+    switch (action) {
+      case 'mute':
+        return `🔕 ${entry.pairName} muted in this chat until the end of the session`;
+      case 'taken':
+        return `✅ ${entry.signal.triggerAsset} signal marked as taken`;
+      case 'ignored':
+        return `❌ ${entry.signal.triggerAsset} signal marked as ignored`;
+      default:
+        return '';
+    }
+  }
+
+  formatSignalUnavailableMessage(): string {
+    return 'This signal is no longer in the journal.';
+  }
+
+  formatSignalActionFailedMessage(): string {
+    return 'Could not save your choice. Please try again.';
+  }
+
+  /**
+   * Signal history split into messages that fit Telegram's length limit; the first one carries the title
+   */
+  formatSignalHistory(reviews: SignalReview[], query: SignalJournalQuery): string[] {
+    const scope = [query.pairName, query.sessionKey].filter(Boolean).join(', ');
+    const title = `📜 Recent Signals${scope ? ` (${scope})` : ''}`;
+
+    if (reviews.length === 0) {
+      return [`${title}\n\nNo signals found.`];
+    }
+
+    const messages: string[] = [];
+    let message = title;
+    for (const line of reviews.map(review => this.formatSignalReview(review))) {
+      if (message.length + line.length + 2 > DELIVERY_CONSTANTS.MAX_MESSAGE_LENGTH) {
+        messages.push(message);
+        message = line;
+      } else {
+        message += `\n\n${line}`;
+      }
+    }
+    messages.push(message);
+    return messages;
+  }
+
+  formatSignalOutcome(tracked: TrackedSignal): string {
+    const { signal } = tracked;
+    const price = (value: number): string => this.instruments.formatPrice(signal.triggerAsset, value);
+    const headline = tracked.status === 'target_hit' ? `✅ TARGET HIT: ${signal.triggerAsset} reached ${price(tracked.targetPrice)}`
+      : tracked.status === 'invalidated' ? `❌ INVALIDATED: ${signal.triggerAsset} reclaimed ${price(tracked.invalidationLevel)}`
+      : `⌛ EXPIRED: ${signal.triggerAsset} signal ran out of time`;
+
+    let message = `${headline}\n\n`;
+    message += `Pair: ${tracked.pairName} • ${signal.direction.replace('_', ' ')}\n`;
+    message += `Entry: ${price(tracked.entryPrice)}\n`;
+    if (tracked.exitPrice !== undefined && tracked.movePercent !== undefined) {
+      const move = `${tracked.movePercent >= 0 ? '+' : ''}${tracked.movePercent.toFixed(2)}%`;
+      message += `Exit: ${price(tracked.exitPrice)} (${move})\n`;
+    }
+    if (tracked.closedAt) {
+      const minutes = Math.round((tracked.closedAt.getTime() - tracked.openedAt.getTime()) / BOT_CONSTANTS.MILLISECONDS_PER_MINUTE);
+      message += `Duration: ${minutes} min`;
+    }
+    return message.trimEnd();
+  }
+
+  formatSignalStats(stats: SignalTrackingStats, pairName?: string): string {
+    const title = `📊 Signal Outcomes${pairName ? ` (${pairName})` : ''}`;
+    if (stats.total === 0) {
+      return `${title}\n\nNo tracked signals yet.`;
+    }
+
+    const percent = (value: number): string =>
+      Number.isFinite(value) ? `${(value * BOT_CONSTANTS.PERCENTAGE_MULTIPLIER).toFixed(1)}%` : 'n/a';
+    const move = Number.isFinite(stats.averageMovePercent)
+      ? `${stats.averageMovePercent >= 0 ? '+' : ''}${stats.averageMovePercent.toFixed(2)}%`
+      : 'n/a';
+
+    let message = `${title}\n\n`;
+    message += `Tracked: ${stats.total} • Open: ${stats.open}\n`;
+    message += `✅ Target hit: ${stats.targetHit}\n`;
+    message += `❌ Invalidated: ${stats.invalidated}\n`;
+    message += `⌛ Expired: ${stats.expired}\n`;
+    message += `Hit rate: ${percent(stats.hitRate)} • Average move: ${move}`;
+    return message;
+  }
+
+  formatStatsUsageMessage(): string {
+    return `Usage: /stats [pair]\nExample: /stats crypto`;
+  }
+
+  formatSymbolChart(chart: SymbolChart): string {
+    const price = (value: number): string => this.instruments.formatPrice(chart.symbol, value);
+    const { range } = chart;
+
+    let message = `📈 ${chart.symbol} ${chart.interval} • ${chart.period.label}\n`;
+    message += `HLS: ${price(range.high)} • LLS: ${price(range.low)}\n`;
+    message += `Range: ${price(range.range)} (${range.rangePercent.toFixed(2)}%)`;
+    return message;
+  }
+
+  formatChartUnavailableMessage(symbol: string): string {
+    return `❌ No chart available for ${symbol}. Check the symbol and that the period has market data.`;
+  }
+
+  formatChartUsageMessage(): string {
+    return `Usage: /chart <symbol> [interval] [period]\nPeriods: ${CHART_PERIOD_NAMES.join(', ')} (default: prev_day)\nExample: /chart BTCUSDT 15m london`;
+  }
+
+  formatSignalsUsageMessage(): string {
+    return `Usage: /signals [pair] [YYYY-MM-DD] [limit]\nExample: /signals crypto 2026-10-15 20`;
+  }
+
+  formatCorrelationReports(reports: PairCorrelationReport[], filter: CorrelationFilterSettings): string {
+    if (reports.length === 0) {
+      return `🔗 Pair Correlation\n\nNo matching pairs. Use /pairs to list them.`;
+    }
+
+    const sections = reports.map(({ pairName, interval, report }) => {
+      if (!report) {
+        return `${pairName} • ${interval}\n  Market data unavailable`;
+      }
+
+      const lines = report.correlations.map(correlation => {
+        const coefficient = correlation[filter.method];
+        const status = !Number.isFinite(coefficient) ? '❔'
+          : coefficient < filter.minCorrelation ? '❌'
+          : coefficient < filter.weakCorrelation ? '⚠️'
+          : '✅';
+        return `  ${correlation.symbols.join(' / ')}: Pearson ${this.formatCoefficient(correlation.pearson)} • ` +
+          `Spearman ${this.formatCoefficient(correlation.spearman)} ${status}`;
+      });
+      return `${pairName} • ${report.window} × ${interval} returns\n${lines.join('\n')}`;
+    });
+
+    return `🔗 Pair Correlation\n\n${sections.join('\n\n')}`;
+  }
+
+  formatCorrelationUsageMessage(): string {
+    return `Usage: /correlation [pair] [window]\nExample: /correlation crypto 100`;
+  }
+
+  formatPairList(pairs: Array<[string, CorrelationPairConfig]>): string {
+    if (pairs.length === 0) {
+      return `🔗 Correlation Pairs\n\nNo pairs configured. Use /pair_add to create one.`;
+    }
+
+    const lines = pairs.map(([pairName, pairConfig]) => this.formatPairConfig(pairName, pairConfig));
+    return `🔗 Correlation Pairs\n\n${lines.join('\n\n')}`;
+  }
+
+  formatPairSaved(pairName: string, pairConfig: CorrelationPairConfig): string {
+    return `✅ Pair saved\n\n${this.formatPairConfig(pairName, pairConfig)}`;
+  }
+
+  formatPairRemoved(pairName: string): string {
+    return `🗑️ Pair ${pairName} removed`;
+  }
+
+  formatPairCommandError(error: string): string {
+    return `❌ ${error}\n\nUsage:\n/pair_add <pair> assets=A,B [session=HH:MM-HH:MM] [tz=Area/City] [window=HH:MM-HH:MM] [window_tz=Area/City] [direction=under|over|both] [provider=binance|capitalcom] [model=default|classic] [name=Display_Name]\n/pair_edit <pair> <option=value>...\n/pair_remove <pair>`;
+  }
+
+  formatSubscription(subscription: ChatSubscription | undefined): string {
+    if (!subscription) {
+      return `🔕 This chat has no subscriptions.\n\nUse /subscribe <pair|all> to receive signals here.`;
+    }
+
+    const { pairs, preferences } = subscription;
+    let message = `🔔 Subscriptions\n\n`;
+    message += `Pairs: ${pairs.includes(ALL_PAIRS) ? 'all' : pairs.join(', ')}\n`;
+    message += `Minimum confidence: ${(preferences.minConfidence * BOT_CONSTANTS.PERCENTAGE_MULTIPLIER).toFixed(0)}%\n`;
+    message += `Direction: ${preferences.direction.replace('_', ' ')}\n`;
+    message += `Quiet hours: ${preferences.quietHours ? this.formatSessionHours(preferences.quietHours) : 'off'}`;
+    return message;
+  }
+
+  formatSubscriptionCommandError(error: string): string {
+    return `❌ ${error}\n\nUsage:\n/subscribe - Show this chat's subscriptions\n/subscribe <pair|all> [min=0-100] [direction=under|over|both] [quiet=HH:MM-HH:MM|off] [quiet_tz=Area/City]\n/unsubscribe [pair]`;
+  }
+
+  formatUnauthorizedMessage(): string {
+    return `⛔ You are not allowed to use this command.`;
+  }
+
   formatStartMessage(): string {
-    return `Welcome to the Trading Bot! 🚀\n\nAvailable commands:\n/help - Show this help message\n/health - Check system health\n/start - Start the bot`;
+    return `Welcome to the Trading Bot! 🚀\n\nAvailable commands:\n/help - Show this help message\n/health - Check system health\n/signals - Review recent signals\n/pairs - List correlation pairs\n/correlation - Check that pairs still move together\n/stats - Signal outcome statistics\n/chart - Candlestick chart with session levels\n/subscribe - Receive signals in this chat\n/start - Start the bot`;
   }
 
   formatHelpMessage(): string {
-    return `Trading Bot Help 📚\n\nAvailable commands:\n/start - Initialize the bot\n/health - Check system health status\n/help - Show this help message\n\nFor more information, please check the documentation.`;
+    return `Trading Bot Help 📚\n\nAvailable commands:\n/start - Initialize the bot\n/health - Check system health status\n/signals [pair] [YYYY-MM-DD] [limit] - Review past signals and how they played out\n/pairs - List correlation pairs\n/correlation [pair] [window] - Pearson and Spearman correlation of pair returns\n/stats [pair] - How tracked signals played out\n/chart <symbol> [interval] [period] - Candlestick chart with the period's high and low\n/subscribe <pair|all> [min=70] [direction=under|over|both] [quiet=22:00-07:00] - Receive signals in this chat\n/unsubscribe [pair] - Stop receiving signals\n/pair_add, /pair_edit, /pair_remove - Manage correlation pairs (admins only)\n/help - Show this help message\n\nFor more information, please check the documentation.`;
   }
 
   formatUnknownCommandMessage(): string {
     return `Unknown command. Use /help to see available commands.`;
   }
+
+  private formatPairConfig(pairName: string, pairConfig: CorrelationPairConfig): string {
+    let message = `• ${pairName} (${pairConfig.name})\n`;
+    message += `  Assets: ${pairConfig.assets.join(', ')}\n`;
+    message += `  Session: ${this.formatSessionHours(pairConfig.session)}\n`;
+    if (pairConfig.tradingWindow) {
+      message += `  Trading window: ${this.formatSessionHours(pairConfig.tradingWindow)}\n`;
+    }
+    message += `  Direction: ${pairConfig.direction.replace('_', ' ')} • Provider: ${pairConfig.provider ?? DEFAULT_MARKET_DATA_PROVIDER}`;
+    message += ` • Model: ${pairConfig.confidenceModel ?? DEFAULT_CONFIDENCE_MODEL}`;
+    return message;
+  }
+
+  private formatConfidenceBreakdown({ model, base, contributions }: ConfidenceBreakdown): string {
+    const percent = (value: number): string => (value * BOT_CONSTANTS.PERCENTAGE_MULTIPLIER).toFixed(1);
+    let message = `   Base ${percent(base)}% (${model} model)\n`;
+    for (const { label, contribution } of contributions) {
+      message += `   ${contribution < 0 ? '−' : '+'} ${label}: ${percent(Math.abs(contribution))}%\n`;
+    }
+    return message;
+  }
+
+  private formatCoefficient(coefficient: number): string {
+    return Number.isFinite(coefficient) ? coefficient.toFixed(2) : 'n/a';
+  }
+
+  private formatSessionHours(session: SessionSpec): string {
+    const pad = (value: number | undefined): string => String(value ?? 0).padStart(2, '0');
+    const hours = `${pad(session.startHour)}:${pad(session.startMinute)}-${pad(session.endHour)}:${pad(session.endMinute)}`;
+    return `${hours} ${session.timezone ?? BOT_CONSTANTS.NY_TIMEZONE}`;
+  }
+
+  private formatSignalReview({ entry, outcome }: SignalReview): string {
+    const { signal } = entry;
+    const directionEmoji = signal.direction === CrossDirection.CROSS_UNDER ? '📉' : '📈';
+    const time = signal.timestamp.toISOString().replace('T', ' ').slice(0, 16);
+
+    let message = `${directionEmoji} ${signal.triggerAsset} ${signal.direction.replace('_', ' ')} `;
+    message += `@ ${this.instruments.formatPrice(signal.triggerAsset, signal.referenceLevel)}\n`;
+    message += `${entry.pairName} • ${time} UTC • ${(signal.confidence * BOT_CONSTANTS.PERCENTAGE_MULTIPLIER).toFixed(1)}%\n`;
+
+    if (!outcome) {
+      return `${message}Outcome: price unavailable`;
+    }
+
+    const move = `${outcome.movePercent >= 0 ? '+' : ''}${outcome.movePercent.toFixed(2)}%`;
+    const level = outcome.holdingLevel ? '✅ holding level' : '↩️ back inside level';
+    return `${message}Now ${this.instruments.formatPrice(signal.triggerAsset, outcome.currentPrice)} (${move}) ${level}`;
+  }
 }
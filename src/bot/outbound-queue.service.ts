@@ -0,0 +1,359 @@
+import { injectable, inject, unmanaged } from 'inversify';
+import TelegramBot from 'node-telegram-bot-api';
+import { Logger } from '@/utils/logger';
+import { TYPES } from '@/config/types';
+import { DELIVERY_CONSTANTS, STORAGE_CONSTANTS, TIME_CONSTANTS } from '@/config/constants';
+import { BotConfigService } from '@/domain/interfaces/bot-config.interface';
+import { Clock } from '@/domain/interfaces/clock.interface';
+import { JsonFileStore } from '@/utils/json-file-store';
+import { MessageFormatterService } from './message-formatter.service';
+
+/**
+ * Message categories in delivery order: command replies first, then signals, outcomes and system reports
+ */
+export const OUTBOUND_CATEGORIES = ['command', 'signal', 'signal_outcome', 'system'] as const;
+export type OutboundCategory = typeof OUTBOUND_CATEGORIES[number];
+
+export interface OutboundPhoto {
+  data: Buffer; // PNG
+  filename: string;
+  caption?: string;
+}
+
+/**
+ * Telegram message waiting for delivery. A photo is sent before the text.
+ */
+export interface OutboundMessage {
+  chatId: string;
+  category: OutboundCategory;
+  text?: string;
+  photo?: OutboundPhoto;
+  confidence?: number; // Most confident signals go first
+  replyToMessageId?: number;
+  replyMarkup?: TelegramBot.InlineKeyboardMarkup;
+}
+
+export interface OutboundQueueService {
+  /**
+   * Restore the messages left undelivered by the last run and start delivering through the bot
+   */
+  start(bot: TelegramBot): Promise<void>;
+  stop(): Promise<void>;
+  /**
+   * Resolves with the delivered message, which for coalesced signals is the digest.
+   * Rejects with the last error once delivery is given up.
+   */
+  enqueue(message: OutboundMessage): Promise<TelegramBot.Message>;
+  size(): number;
+}
+
+interface Waiter {
+  resolve(message: TelegramBot.Message): void;
+  reject(error: unknown): void;
+}
+
+interface QueuedMessage extends OutboundMessage {
+  id: number;
+  enqueuedAt: number;
+  notBefore: number; // Digest window or retry backoff
+  attempts: number;
+  photoSent: boolean;
+  waiters: Waiter[]; // Empty for messages restored after a restart
+}
+
+type StoredMessage = Omit<QueuedMessage, 'photo' | 'waiters'> & {
+  photo?: Omit<OutboundPhoto, 'data'> & { data: string }; // Base64
+};
+
+/**
+ * Error thrown by node-telegram-bot-api when the Bot API rejects a request
+ */
+interface TelegramApiError {
+  code?: string;
+  response?: { body?: { error_code?: number; parameters?: { retry_after?: number } } };
+}
+
+/**
+ * Seconds Telegram asks us to wait after a 429, if the error is one
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  const body = (error as TelegramApiError)?.response?.body;
+  return body?.error_code === 429 ? body.parameters?.retry_after ?? 1 : undefined;
+}
+
+function isPermanentError(error: unknown): boolean {
+  const code = (error as TelegramApiError)?.response?.body?.error_code;
+  return code !== undefined && code >= 400 && code < 500;
+}
+
+/**
+ * Priority queue in front of the Telegram Bot API. Messages are sent one at a time within the per-chat
+ * and global limits, 429s pause delivery for `retry_after`, and signals to a chat that arrive within the
+ * digest window are coalesced into one message. Undelivered messages are kept in a file across restarts.
+ */
+@injectable()
+export class OutboundQueueServiceImpl implements OutboundQueueService {
+  private readonly store: JsonFileStore<StoredMessage[]>;
+  private queue: QueuedMessage[] = [];
+  private nextId = 1;
+  private bot: TelegramBot | null = null;
+  private restored = false;
+  private timer: NodeJS.Timeout | null = null;
+  private sending: Promise<void> | null = null;
+  private pausedUntil = 0;
+  private sentAt: number[] = []; // Send times in the last second
+  private readonly chatSentAt = new Map<string, number[]>(); // Send times in the last minute
+
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @inject(TYPES.BotConfigService) private botConfig: BotConfigService,
+    @inject(TYPES.Clock) private clock: Clock,
+    @inject(TYPES.MessageFormatterService) private messageFormatter: MessageFormatterService,
+    @unmanaged() filePath: string = STORAGE_CONSTANTS.OUTBOUND_QUEUE_FILE
+  ) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async start(bot: TelegramBot): Promise<void> {
+    this.bot = bot;
+    if (!this.restored) {
+      await this.restore();
+      this.restored = true;
+      await this.persist();
+    }
+    this.pump();
+  }
+
+  async stop(): Promise<void> {
+    this.bot = null;
+    this.clearTimer();
+    await this.sending;
+    await this.persist();
+  }
+
+  enqueue(message: OutboundMessage): Promise<TelegramBot.Message> {
+    if (message.text === undefined && !message.photo) {
+      return Promise.reject(new Error('Outbound message needs text or a photo'));
+    }
+    return new Promise((resolve, reject) => {
+      const now = this.clock.now().getTime();
+      const hold = this.isDigestible(message) ? this.botConfig.getConfig().delivery.digestWindowSeconds * TIME_CONSTANTS.SECOND : 0;
+      this.queue.push({
+        ...message,
+        id: this.nextId++,
+        enqueuedAt: now,
+        notBefore: now + hold,
+        attempts: 0,
+        photoSent: false,
+        waiters: [{ resolve, reject }]
+      });
+      void this.persist();
+      this.pump();
+    });
+  }
+
+  size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Send the next message that may go out now, or wait until one may
+   */
+  private pump(): void {
+    this.clearTimer();
+    if (!this.bot || this.sending || this.queue.length === 0) return;
+
+    const now = this.clock.now().getTime();
+    let earliest = Infinity;
+    for (const message of [...this.queue].sort(comparePriority)) {
+      const readyAt = this.getReadyAt(message);
+      if (readyAt <= now) {
+        this.sending = this.deliver(this.bot, message).finally(() => {
+          this.sending = null;
+          this.pump();
+        });
+        return;
+      }
+      earliest = Math.min(earliest, readyAt);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, earliest - now);
+  }
+
+  private getReadyAt(message: QueuedMessage): number {
+    const { chatMessagesPerMinute, messagesPerSecond } = this.botConfig.getConfig().delivery;
+    const chatSent = this.chatSentAt.get(message.chatId) ?? [];
+    let readyAt = Math.max(message.notBefore, this.pausedUntil);
+
+    if (chatSent.length > 0) {
+      readyAt = Math.max(readyAt, chatSent[chatSent.length - 1] + DELIVERY_CONSTANTS.MIN_CHAT_INTERVAL);
+    }
+    if (chatSent.length >= chatMessagesPerMinute) {
+      readyAt = Math.max(readyAt, chatSent[chatSent.length - chatMessagesPerMinute] + TIME_CONSTANTS.MINUTE);
+    }
+    if (this.sentAt.length >= messagesPerSecond) {
+      readyAt = Math.max(readyAt, this.sentAt[this.sentAt.length - messagesPerSecond] + TIME_CONSTANTS.SECOND);
+    }
+    return readyAt;
+  }
+
+  private async deliver(bot: TelegramBot, message: QueuedMessage): Promise<void> {
+    const batch = this.collectDigest(message);
+    const text = batch.length > 1
+      ? this.messageFormatter.formatSignalDigest(batch.map(queued => queued.text ?? ''))
+      : message.text;
+    // A digest carries the buttons of every signal in it
+    const keyboard = batch.flatMap(queued => queued.replyMarkup?.inline_keyboard ?? []);
+    const options: TelegramBot.SendMessageOptions = {
+      ...(message.replyToMessageId !== undefined && { reply_to_message_id: message.replyToMessageId }),
+      ...(keyboard.length > 0 && { reply_markup: { inline_keyboard: keyboard } })
+    };
+
+    try {
+      let sent: TelegramBot.Message | undefined;
+      // Digests leave the charts out
+      if (message.photo && !message.photoSent && batch.length === 1) {
+        const { data, filename, caption } = message.photo;
+        const photoOptions: TelegramBot.SendPhotoOptions = {
+          ...(caption && { caption }),
+          ...(message.replyToMessageId !== undefined && { reply_to_message_id: message.replyToMessageId })
+        };
+        sent = await bot.sendPhoto(message.chatId, data, photoOptions, { filename, contentType: 'image/png' });
+        message.photoSent = true;
+        this.recordSend(message.chatId);
+      }
+      if (text !== undefined) {
+        sent = Object.keys(options).length > 0
+          ? await bot.sendMessage(message.chatId, text, options)
+          : await bot.sendMessage(message.chatId, text);
+        this.recordSend(message.chatId);
+      }
+      // Only restored messages can get here without text or a photo
+      if (!sent) throw new Error('Outbound message has neither text nor a photo');
+
+      const delivered = sent;
+      this.queue = this.queue.filter(queued => !batch.includes(queued));
+      batch.forEach(queued => queued.waiters.forEach(waiter => waiter.resolve(delivered)));
+    } catch (error) {
+      this.handleFailure(message, error);
+    }
+    void this.persist();
+  }
+
+  /**
+   * The message followed by the other signals waiting for its chat, as many as fit in one message
+   */
+  private collectDigest(message: QueuedMessage): QueuedMessage[] {
+    if (!this.isDigestible(message) || message.photoSent) return [message];
+
+    const batch = [message];
+    const candidates = this.queue
+      .filter(queued => queued !== message && queued.chatId === message.chatId && this.isDigestible(queued) && !queued.photoSent)
+      .sort(comparePriority);
+    for (const candidate of candidates) {
+      const digest = this.messageFormatter.formatSignalDigest([...batch, candidate].map(queued => queued.text ?? ''));
+      if (digest.length > DELIVERY_CONSTANTS.MAX_MESSAGE_LENGTH) break;
+      batch.push(candidate);
+    }
+    return batch;
+  }
+
+  private isDigestible(message: OutboundMessage): boolean {
+    return message.category === 'signal' && message.text !== undefined && message.replyToMessageId === undefined;
+  }
+
+  private handleFailure(message: QueuedMessage, error: unknown): void {
+    const now = this.clock.now().getTime();
+    const retryAfter = getRetryAfter(error);
+    if (retryAfter !== undefined) {
+      this.pausedUntil = now + retryAfter * TIME_CONSTANTS.SECOND;
+      this.logger.warn('Telegram rate limit hit, pausing delivery', { chatId: message.chatId, retryAfter });
+      return;
+    }
+
+    message.attempts++;
+    if (isPermanentError(error) || message.attempts >= this.botConfig.getConfig().delivery.maxAttempts) {
+      this.queue = this.queue.filter(queued => queued !== message);
+      if (message.waiters.length > 0) {
+        message.waiters.forEach(waiter => waiter.reject(error));
+      } else {
+        this.logger.error('Failed to send Telegram message', error, { chatId: message.chatId, category: message.category });
+      }
+      return;
+    }
+
+    message.notBefore = now + DELIVERY_CONSTANTS.RETRY_DELAY * 2 ** (message.attempts - 1);
+    this.logger.warn('Telegram message not delivered, retrying', { chatId: message.chatId, attempts: message.attempts, error });
+  }
+
+  private recordSend(chatId: string): void {
+    const now = this.clock.now().getTime();
+    this.sentAt = [...this.sentAt, now].filter(time => time > now - TIME_CONSTANTS.SECOND);
+    this.chatSentAt.set(chatId, [...this.chatSentAt.get(chatId) ?? [], now].filter(time => time > now - TIME_CONSTANTS.MINUTE));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const stored = await this.store.read() ?? [];
+      const restored = stored.map(({ photo, ...message }): QueuedMessage => ({
+        ...message,
+        ...(photo && { photo: { ...photo, data: Buffer.from(photo.data, 'base64') } }),
+        waiters: []
+      }));
+      // Restored messages were queued first
+      this.queue = [...restored, ...this.queue];
+      this.queue.forEach((message, index) => {
+        message.id = index + 1;
+      });
+      this.nextId = this.queue.length + 1;
+      if (restored.length > 0) {
+        this.logger.info('Restored undelivered Telegram messages', { count: restored.length });
+      }
+    } catch (error) {
+      this.logger.error('Failed to load outbound queue, starting empty', error, { path: this.store.getPath() });
+    }
+  }
+
+  private async persist(): Promise<void> {
+    // Until restored, writing would overwrite the messages of the last run
+    if (!this.restored) return;
+    try {
+      await this.store.write(this.queue.map(toStoredMessage));
+    } catch (error) {
+      this.logger.error('Failed to persist outbound queue', error, { path: this.store.getPath() });
+    }
+  }
+}
+
+function toStoredMessage(message: QueuedMessage): StoredMessage {
+  const { photo } = message;
+  return {
+    chatId: message.chatId,
+    category: message.category,
+    id: message.id,
+    enqueuedAt: message.enqueuedAt,
+    notBefore: message.notBefore,
+    attempts: message.attempts,
+    photoSent: message.photoSent,
+    ...(message.text !== undefined && { text: message.text }),
+    ...(photo && { photo: { ...photo, data: photo.data.toString('base64') } }),
+    ...(message.confidence !== undefined && { confidence: message.confidence }),
+    ...(message.replyToMessageId !== undefined && { replyToMessageId: message.replyToMessageId }),
+    ...(message.replyMarkup && { replyMarkup: message.replyMarkup })
+  };
+}
+
+function comparePriority(a: QueuedMessage, b: QueuedMessage): number {
+  return OUTBOUND_CATEGORIES.indexOf(a.category) - OUTBOUND_CATEGORIES.indexOf(b.category)
+    || (b.confidence ?? 0) - (a.confidence ?? 0)
+    || a.id - b.id;
+}
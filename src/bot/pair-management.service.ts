@@ -0,0 +1,241 @@
+import { injectable, inject } from 'inversify';
+import { Logger } from '@/utils/logger';
+import { TYPES } from '@/config/types';
+import { CONFIDENCE_MODEL_NAMES, DEFAULT_MARKET_DATA_PROVIDER, MARKET_DATA_PROVIDER_NAMES } from '@/config/constants';
+import { CorrelationCrackStrategyInterface, CrossDirection, DirectionMode } from '@/core/strategies/strategy.interfaces';
+import { SessionSpec } from '@/core/indicators/indicator.interfaces';
+import { CorrelationPairConfig, MarketDataProviderName } from '@/domain/interfaces/bot-config.interface';
+import { isValidTimezone } from '@/config/bot-config';
+import { tradingWindowOverlapsSession, validateSessionSpec } from '@/utils/date-helpers';
+import { CorrelationConfigurationService } from './correlation-configuration.service';
+
+/**
+ * Invalid pair command input. The message is meant to be shown to the user.
+ */
+export class PairCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PairCommandError';
+  }
+}
+
+export interface PairManagementService {
+  addPair(pairName: string, args: string[]): Promise<CorrelationPairConfig>;
+  editPair(pairName: string, args: string[]): Promise<CorrelationPairConfig>;
+  removePair(pairName: string): Promise<void>;
+}
+
+/**
+ * Fields changed by a pair command. Session and trading window fields are merged individually,
+ * so `tz=` alone keeps the existing hours.
+ */
+export type PairChanges = Partial<Omit<CorrelationPairConfig, 'session' | 'tradingWindow'>> & {
+  session?: Partial<SessionSpec>;
+  tradingWindow?: Partial<SessionSpec>;
+};
+
+const PAIR_NAME_PATTERN = /^[a-z0-9_-]+$/;
+const SESSION_PATTERN = /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/;
+
+export const DIRECTION_ALIASES: Record<string, DirectionMode> = {
+  under: CrossDirection.CROSS_UNDER,
+  over: CrossDirection.CROSS_OVER,
+  both: 'both',
+  [CrossDirection.CROSS_UNDER]: CrossDirection.CROSS_UNDER,
+  [CrossDirection.CROSS_OVER]: CrossDirection.CROSS_OVER
+};
+
+/**
+ * Parse `key=value` pair arguments, e.g.
+ * `assets=EURUSD,GBPUSD session=03:00-08:00 tz=Europe/London window=08:00-12:00 window_tz=America/New_York direction=over provider=capitalcom model=classic name=Majors`
+ */
+export function parsePairArgs(args: string[]): PairChanges {
+  const changes: PairChanges = {};
+
+  for (const arg of args) {
+    const [key = '', ...rest] = arg.split('=');
+    const value = rest.join('=');
+    if (!value) {
+      throw new PairCommandError(`Expected key=value, got "${arg}"`);
+    }
+
+    switch (key.toLowerCase()) {
+      case 'name':
+        changes.name = value.replace(/_/g, ' ');
+        break;
+      case 'assets':
+        changes.assets = value.split(',').map(asset => asset.trim().toUpperCase()).filter(Boolean);
+        break;
+      case 'session':
+        changes.session = { ...changes.session, ...parseSession(value) };
+        break;
+      case 'tz':
+        changes.session = { ...changes.session, timezone: parseTimezone(value) };
+        break;
+      case 'window':
+        changes.tradingWindow = { ...changes.tradingWindow, ...parseSession(value) };
+        break;
+      case 'window_tz':
+        changes.tradingWindow = { ...changes.tradingWindow, timezone: parseTimezone(value) };
+        break;
+      case 'direction':
+        changes.direction = parseDirection(value);
+        break;
+      case 'provider':
+        changes.provider = parseProvider(value);
+        break;
+      case 'model':
+        changes.confidenceModel = parseConfidenceModel(value);
+        break;
+      default:
+        throw new PairCommandError(`Unknown option "${key}"`);
+    }
+  }
+
+  return changes;
+}
+
+function parseSession(value: string): SessionSpec {
+  const match = SESSION_PATTERN.exec(value);
+  if (!match) {
+    throw new PairCommandError(`Session must look like HH:MM-HH:MM, got "${value}"`);
+  }
+
+  const [startHour, startMinute, endHour, endMinute] = match.slice(1).map(Number) as [number, number, number, number];
+  return { type: 'time_session', startHour, startMinute, endHour, endMinute };
+}
+
+function parseTimezone(value: string): string {
+  if (!isValidTimezone(value)) {
+    throw new PairCommandError(`Unknown timezone "${value}"`);
+  }
+  return value;
+}
+
+function parseDirection(value: string): DirectionMode {
+  const direction = DIRECTION_ALIASES[value.toLowerCase()];
+  if (!direction) {
+    throw new PairCommandError(`Direction must be "under", "over" or "both", got "${value}"`);
+  }
+  return direction;
+}
+
+function parseProvider(value: string): MarketDataProviderName {
+  const provider = MARKET_DATA_PROVIDER_NAMES.find(name => name === value.toLowerCase());
+  if (!provider) {
+    throw new PairCommandError(`Provider must be one of ${MARKET_DATA_PROVIDER_NAMES.join(', ')}`);
+  }
+  return provider;
+}
+
+function parseConfidenceModel(value: string): string {
+  const model = CONFIDENCE_MODEL_NAMES.find(name => name === value.toLowerCase());
+  if (!model) {
+    throw new PairCommandError(`Model must be one of ${CONFIDENCE_MODEL_NAMES.join(', ')}`);
+  }
+  return model;
+}
+
+@injectable()
+export class PairManagementServiceImpl implements PairManagementService {
+
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @inject(TYPES.CorrelationConfigurationService) private configService: CorrelationConfigurationService,
+    @inject(TYPES.CorrelationCrackStrategy) private correlationCrackStrategy: CorrelationCrackStrategyInterface
+  ) {}
+
+  async addPair(pairName: string, args: string[]): Promise<CorrelationPairConfig> {
+    const key = this.normalizePairName(pairName);
+    if (this.configService.getPairConfig(key)) {
+      throw new PairCommandError(`Pair "${key}" already exists, use /pair_edit`);
+    }
+
+    const changes = parsePairArgs(args);
+    if (!changes.assets) {
+      throw new PairCommandError('assets=SYMBOL1,SYMBOL2 is required');
+    }
+
+    const pairConfig: CorrelationPairConfig = {
+      name: changes.name ?? key,
+      assets: changes.assets,
+      session: { ...this.defaultSession(), ...changes.session },
+      ...(changes.tradingWindow && { tradingWindow: { ...this.defaultSession(), ...changes.tradingWindow } }),
+      direction: changes.direction ?? CrossDirection.CROSS_UNDER,
+      provider: changes.provider ?? DEFAULT_MARKET_DATA_PROVIDER,
+      ...(changes.confidenceModel && { confidenceModel: changes.confidenceModel })
+    };
+
+    return this.save(key, pairConfig, 'added');
+  }
+
+  async editPair(pairName: string, args: string[]): Promise<CorrelationPairConfig> {
+    const key = this.normalizePairName(pairName);
+    const existing = this.requirePair(key);
+    const { session, tradingWindow, ...changes } = parsePairArgs(args);
+
+    const pairConfig: CorrelationPairConfig = {
+      ...existing,
+      ...changes,
+      session: { ...existing.session, ...session },
+      ...(tradingWindow && { tradingWindow: { ...(existing.tradingWindow ?? this.defaultSession()), ...tradingWindow } })
+    };
+
+    return this.save(key, pairConfig, 'updated');
+  }
+
+  async removePair(pairName: string): Promise<void> {
+    const key = this.normalizePairName(pairName);
+    this.requirePair(key);
+
+    await this.configService.removePair(key);
+    this.logger.info('Correlation pair removed', { pairName: key });
+  }
+
+  private async save(key: string, pairConfig: CorrelationPairConfig, action: string): Promise<CorrelationPairConfig> {
+    if (!this.correlationCrackStrategy.validate(this.configService.buildStrategyConfig(pairConfig))) {
+      throw new PairCommandError('Invalid pair: use 2-4 assets and a session with hours 0-23 and minutes 0-59');
+    }
+    if (pairConfig.tradingWindow && !validateSessionSpec(pairConfig.tradingWindow)) {
+      throw new PairCommandError('Invalid trading window: use hours 0-23 and minutes 0-59');
+    }
+    // Pairs without a trading window are evaluated during the trading hours
+    if (tradingWindowOverlapsSession(pairConfig.session, pairConfig.tradingWindow ?? this.defaultSession(), this.configService.getTimezone())) {
+      throw new PairCommandError(pairConfig.tradingWindow
+        ? 'The trading window must not overlap the session the levels are taken from'
+        : 'The trading hours must not overlap the session the levels are taken from, set a trading window with window=HH:MM-HH:MM');
+    }
+
+    await this.configService.savePair(key, pairConfig);
+    this.logger.info(`Correlation pair ${action}`, { pairName: key, pairConfig });
+    return pairConfig;
+  }
+
+  private requirePair(key: string): CorrelationPairConfig {
+    const existing = this.configService.getPairConfig(key);
+    if (!existing) {
+      throw new PairCommandError(`Pair "${key}" not found`);
+    }
+    return existing;
+  }
+
+  private normalizePairName(pairName: string | undefined): string {
+    const key = (pairName ?? '').toLowerCase();
+    if (!PAIR_NAME_PATTERN.test(key)) {
+      throw new PairCommandError('Pair name must contain only letters, digits, "_" or "-"');
+    }
+    return key;
+  }
+
+  private defaultSession(): SessionSpec {
+    const { startHour, endHour } = this.configService.getTradingHours();
+    return {
+      type: 'time_session',
+      startHour,
+      startMinute: 0,
+      endHour,
+      endMinute: 0,
+      timezone: this.configService.getTimezone()
+    };
+  }
+}
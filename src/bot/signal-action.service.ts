@@ -0,0 +1,84 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/config/types';
+import { TRADING_CONSTANTS } from '@/config/constants';
+import { Clock } from '@/domain/interfaces/clock.interface';
+import {
+  SignalFeedbackAction,
+  SignalJournal,
+  SignalJournalEntry
+} from '@/domain/interfaces/signal-journal.interface';
+import { getDateKey } from '@/utils/date-helpers';
+
+/**
+ * Buttons on a signal message
+ */
+export const SIGNAL_ACTIONS = ['chart', 'details', 'mute', 'taken', 'ignored'] as const;
+export type SignalAction = typeof SIGNAL_ACTIONS[number];
+
+export interface SignalCallback {
+  action: SignalAction;
+  signalId: string;
+}
+
+const CALLBACK_PREFIX = 'signal';
+
+/**
+ * Callback data of a signal button. Telegram allows 64 bytes, enough for a UUID.
+ */
+export function encodeSignalCallback(action: SignalAction, signalId: string): string {
+  return `${CALLBACK_PREFIX}:${action}:${signalId}`;
+}
+
+/**
+ * Returns null for callback data that is not from a signal button
+ */
+export function parseSignalCallback(data?: string): SignalCallback | null {
+  const [prefix, action, signalId] = data?.split(':') ?? [];
+  if (prefix !== CALLBACK_PREFIX || !signalId || !SIGNAL_ACTIONS.includes(action as SignalAction)) {
+    return null;
+  }
+  return { action: action as SignalAction, signalId };
+}
+
+export interface SignalActionService {
+  getSignal(signalId: string): Promise<SignalJournalEntry | undefined>;
+  /**
+   * Record a trader's feedback in the journal. Returns null when the signal is unknown.
+   */
+  recordFeedback(signalId: string, chatId: string, userId: string, action: SignalFeedbackAction): Promise<SignalJournalEntry | null>;
+  /**
+   * Chats that muted the pair for the current session
+   */
+  getMutedChats(pairName: string): Promise<Set<string>>;
+}
+
+@injectable()
+export class SignalActionServiceImpl implements SignalActionService {
+  constructor(
+    @inject(TYPES.SignalJournal) private signalJournal: SignalJournal,
+    @inject(TYPES.Clock) private clock: Clock
+  ) {}
+
+  async getSignal(signalId: string): Promise<SignalJournalEntry | undefined> {
+    return await this.signalJournal.get(signalId);
+  }
+
+  async recordFeedback(
+    signalId: string,
+    chatId: string,
+    userId: string,
+    action: SignalFeedbackAction
+  ): Promise<SignalJournalEntry | null> {
+    return await this.signalJournal.recordFeedback(signalId, { action, chatId, userId, recordedAt: this.clock.now() });
+  }
+
+  async getMutedChats(pairName: string): Promise<Set<string>> {
+    // Mutes last for the session the journal files today's signals under
+    const sessionKey = getDateKey(this.clock.now(), TRADING_CONSTANTS.DEFAULT_TIMEZONE);
+    const entries = await this.signalJournal.query({ pairName, sessionKey });
+
+    return new Set(entries.flatMap(entry => (entry.feedback ?? [])
+      .filter(feedback => feedback.action === 'muted')
+      .map(feedback => feedback.chatId)));
+  }
+}
@@ -0,0 +1,111 @@
+import { injectable, inject } from 'inversify';
+import { Logger } from '@/utils/logger';
+import { TYPES } from '@/config/types';
+import { BOT_CONSTANTS } from '@/config/constants';
+import { CrossDirection, StrategySignal } from '@/core/strategies/strategy.interfaces';
+import { MarketDataProvider } from '@/domain/interfaces/market-data.interfaces';
+import { SignalJournal, SignalJournalEntry, SignalJournalQuery } from '@/domain/interfaces/signal-journal.interface';
+
+/**
+ * How a signal has played out since it fired
+ */
+export interface SignalOutcome {
+  currentPrice: number;
+  movePercent: number; // Move in the signal direction (positive = in favour)
+  holdingLevel: boolean; // Trigger asset still beyond the reference level
+}
+
+export interface SignalReview {
+  entry: SignalJournalEntry;
+  outcome?: SignalOutcome; // Missing when the current price is unavailable
+}
+
+export interface SignalHistoryService {
+  getSignals(query: SignalJournalQuery): Promise<SignalReview[]>;
+}
+
+const DATE_ARGUMENT_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const LIMIT_ARGUMENT_PATTERN = /^\d+$/;
+
+/**
+ * Parse `/signals [pair] [YYYY-MM-DD] [limit]` arguments in any order.
+ * Returns null when the arguments are invalid.
+ */
+export function parseSignalsCommandArgs(args: string[]): SignalJournalQuery | null {
+  const query: SignalJournalQuery = { limit: BOT_CONSTANTS.SIGNALS_DEFAULT_LIMIT };
+  const seen = new Set<string>();
+
+  for (const arg of args) {
+    const kind = DATE_ARGUMENT_PATTERN.test(arg) ? 'date' : LIMIT_ARGUMENT_PATTERN.test(arg) ? 'limit' : 'pair';
+    if (seen.has(kind)) return null;
+    seen.add(kind);
+
+    if (kind === 'date') {
+      // Date.parse rolls impossible days over into the next month
+      const time = Date.parse(`${arg}T00:00:00Z`);
+      if (isNaN(time) || new Date(time).toISOString().slice(0, 10) !== arg) return null;
+      query.sessionKey = arg;
+    } else if (kind === 'limit') {
+      const limit = Number(arg);
+      if (limit < 1) return null;
+      query.limit = Math.min(limit, BOT_CONSTANTS.SIGNALS_MAX_LIMIT);
+    } else {
+      query.pairName = arg.toLowerCase();
+    }
+  }
+
+  return query;
+}
+
+/**
+ * Compare the current price with the price at which the signal fired.
+ * Entries recorded without a trigger price are measured from the reference level.
+ */
+export function calculateSignalOutcome(signal: StrategySignal, currentPrice: number): SignalOutcome {
+  const entryPrice = signal.triggerPrice ?? signal.referenceLevel;
+  const sign = signal.direction === CrossDirection.CROSS_UNDER ? -1 : 1;
+
+  return {
+    currentPrice,
+    movePercent: sign * ((currentPrice - entryPrice) / entryPrice) * BOT_CONSTANTS.PERCENTAGE_MULTIPLIER,
+    holdingLevel: sign * (currentPrice - signal.referenceLevel) > 0
+  };
+}
+
+@injectable()
+export class SignalHistoryServiceImpl implements SignalHistoryService {
+
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @inject(TYPES.SignalJournal) private signalJournal: SignalJournal,
+    @inject(TYPES.MarketDataProvider) private marketDataProvider: MarketDataProvider
+  ) {}
+
+  async getSignals(query: SignalJournalQuery): Promise<SignalReview[]> {
+    const entries = await this.signalJournal.query(query);
+    const symbols = [...new Set(entries.map(entry => entry.signal.triggerAsset))];
+    const prices = await this.fetchCurrentPrices(symbols);
+
+    return entries.map(entry => {
+      const price = prices.get(entry.signal.triggerAsset);
+      return price === undefined
+        ? { entry }
+        : { entry, outcome: calculateSignalOutcome(entry.signal, price) };
+    });
+  }
+
+  private async fetchCurrentPrices(symbols: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+
+    await Promise.all(symbols.map(async symbol => {
+      try {
+        const marketData = await this.marketDataProvider.getMarketData(symbol);
+        prices.set(symbol, marketData.price);
+      } catch (error) {
+        this.logger.warn('Failed to fetch current price for signal history', { symbol, error });
+      }
+    }));
+
+    return prices;
+  }
+}
@@ -0,0 +1,230 @@
+import { injectable, inject } from 'inversify';
+import { Logger } from '@/utils/logger';
+import { TYPES } from '@/config/types';
+import { BOT_CONSTANTS } from '@/config/constants';
+import { StrategySignal } from '@/core/strategies/strategy.interfaces';
+import { SessionSpec } from '@/core/indicators/indicator.interfaces';
+import { Clock } from '@/domain/interfaces/clock.interface';
+import { ALL_PAIRS, ChatSubscription, SubscriptionPreferences, SubscriptionStore } from '@/domain/interfaces/subscription.interface';
+import { isValidTimezone } from '@/config/bot-config';
+import { isWithinTradingWindow, validateSessionSpec } from '@/utils/date-helpers';
+import { CorrelationConfigurationService } from './correlation-configuration.service';
+import { DIRECTION_ALIASES } from './pair-management.service';
+
+/**
+ * Invalid subscription command input. The message is meant to be shown to the user.
+ */
+export class SubscriptionCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriptionCommandError';
+  }
+}
+
+export interface SubscriptionService {
+  /**
+   * Subscribe a chat to a pair, or to every pair with `all`, and update its preferences
+   */
+  subscribe(chatId: string, args: string[]): Promise<ChatSubscription>;
+  /**
+   * Unsubscribe a chat from one pair, or from every pair without a pair name.
+   * Returns the remaining subscription, if any.
+   */
+  unsubscribe(chatId: string, pairName?: string): Promise<ChatSubscription | undefined>;
+  getSubscription(chatId: string): Promise<ChatSubscription | undefined>;
+  /**
+   * Chats that want the signal of the pair right now
+   */
+  getRecipients(pairName: string, signal: StrategySignal): Promise<string[]>;
+}
+
+/**
+ * Preferences changed by a subscription command. `quietHours: null` turns quiet hours off.
+ */
+export interface SubscriptionChanges {
+  pairName?: string;
+  minConfidence?: number;
+  direction?: SubscriptionPreferences['direction'];
+  quietHours?: Partial<SessionSpec> | null;
+}
+
+const QUIET_HOURS_PATTERN = /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/;
+
+export const DEFAULT_SUBSCRIPTION_PREFERENCES: SubscriptionPreferences = {
+  minConfidence: 0,
+  direction: 'both'
+};
+
+/**
+ * Parse `/subscribe` arguments: an optional pair name (or `all`) followed by options, e.g.
+ * `crypto min=70 direction=under quiet=22:00-07:00 quiet_tz=Europe/London`. `quiet=off` clears quiet hours.
+ */
+export function parseSubscriptionArgs(args: string[]): SubscriptionChanges {
+  const changes: SubscriptionChanges = {};
+
+  for (const arg of args) {
+    if (!arg.includes('=')) {
+      if (changes.pairName !== undefined) {
+        throw new SubscriptionCommandError('Subscribe to one pair at a time');
+      }
+      changes.pairName = arg.toLowerCase();
+      continue;
+    }
+
+    const [key = '', ...rest] = arg.split('=');
+    const value = rest.join('=');
+    switch (key.toLowerCase()) {
+      case 'min':
+        changes.minConfidence = parseMinConfidence(value);
+        break;
+      case 'direction':
+        changes.direction = parseDirection(value);
+        break;
+      case 'quiet':
+        changes.quietHours = value.toLowerCase() === 'off' ? null : { ...changes.quietHours, ...parseQuietHours(value) };
+        break;
+      case 'quiet_tz':
+        if (!isValidTimezone(value)) {
+          throw new SubscriptionCommandError(`Unknown timezone "${value}"`);
+        }
+        changes.quietHours = { ...changes.quietHours, timezone: value };
+        break;
+      default:
+        throw new SubscriptionCommandError(`Unknown option "${key}"`);
+    }
+  }
+
+  return changes;
+}
+
+function parseMinConfidence(value: string): number {
+  const percent = Number(value.replace(/%$/, ''));
+  if (!value || !Number.isFinite(percent) || percent < 0 || percent > 100) {
+    throw new SubscriptionCommandError(`Minimum confidence must be a percentage from 0 to 100, got "${value}"`);
+  }
+  return percent / BOT_CONSTANTS.PERCENTAGE_MULTIPLIER;
+}
+
+function parseDirection(value: string): SubscriptionPreferences['direction'] {
+  const direction = DIRECTION_ALIASES[value.toLowerCase()];
+  if (!direction) {
+    throw new SubscriptionCommandError(`Direction must be "under", "over" or "both", got "${value}"`);
+  }
+  return direction;
+}
+
+function parseQuietHours(value: string): SessionSpec {
+  const match = QUIET_HOURS_PATTERN.exec(value);
+  const [startHour, startMinute, endHour, endMinute] = (match?.slice(1) ?? []).map(Number) as [number, number, number, number];
+  const quietHours: SessionSpec = { type: 'time_session', startHour, startMinute, endHour, endMinute };
+  if (!match || !validateSessionSpec(quietHours)) {
+    throw new SubscriptionCommandError(`Quiet hours must look like HH:MM-HH:MM or "off", got "${value}"`);
+  }
+  return quietHours;
+}
+
+@injectable()
+export class SubscriptionServiceImpl implements SubscriptionService {
+
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @inject(TYPES.SubscriptionStore) private store: SubscriptionStore,
+    @inject(TYPES.CorrelationConfigurationService) private configService: CorrelationConfigurationService,
+    @inject(TYPES.Clock) private clock: Clock
+  ) {}
+
+  async subscribe(chatId: string, args: string[]): Promise<ChatSubscription> {
+    const { pairName, quietHours, ...changes } = parseSubscriptionArgs(args);
+    const existing = await this.store.get(chatId);
+    if (!existing && pairName === undefined) {
+      throw new SubscriptionCommandError('Name a pair to subscribe to, or "all"');
+    }
+
+    const now = this.clock.now();
+    const preferences: SubscriptionPreferences = { ...(existing?.preferences ?? DEFAULT_SUBSCRIPTION_PREFERENCES), ...changes };
+    if (quietHours === null) {
+      delete preferences.quietHours;
+    } else if (quietHours) {
+      preferences.quietHours = this.mergeQuietHours(preferences.quietHours, quietHours);
+    }
+
+    const subscription: ChatSubscription = {
+      chatId,
+      pairs: this.addPair(existing?.pairs ?? [], pairName),
+      preferences,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+
+    await this.store.save(subscription);
+    this.logger.info('Chat subscription saved', { chatId, pairs: subscription.pairs, preferences });
+    return subscription;
+  }
+
+  async unsubscribe(chatId: string, pairName?: string): Promise<ChatSubscription | undefined> {
+    const existing = await this.store.get(chatId);
+    if (!existing) {
+      throw new SubscriptionCommandError('This chat has no subscriptions');
+    }
+
+    const key = pairName?.toLowerCase();
+    if (key !== undefined && key !== 'all') {
+      if (existing.pairs.includes(ALL_PAIRS)) {
+        throw new SubscriptionCommandError('This chat follows all pairs, use /unsubscribe to stop them all');
+      }
+      if (!existing.pairs.includes(key)) {
+        throw new SubscriptionCommandError(`This chat is not subscribed to "${key}"`);
+      }
+
+      const pairs = existing.pairs.filter(name => name !== key);
+      if (pairs.length > 0) {
+        const subscription = { ...existing, pairs, updatedAt: this.clock.now() };
+        await this.store.save(subscription);
+        this.logger.info('Chat unsubscribed from pair', { chatId, pairName: key });
+        return subscription;
+      }
+    }
+
+    await this.store.remove(chatId);
+    this.logger.info('Chat unsubscribed', { chatId });
+    return undefined;
+  }
+
+  async getSubscription(chatId: string): Promise<ChatSubscription | undefined> {
+    return this.store.get(chatId);
+  }
+
+  async getRecipients(pairName: string, signal: StrategySignal): Promise<string[]> {
+    const now = this.clock.now();
+
+    return (await this.store.list())
+      .filter(({ pairs }) => pairs.includes(ALL_PAIRS) || pairs.includes(pairName))
+      .filter(({ preferences }) => signal.confidence >= preferences.minConfidence)
+      .filter(({ preferences }) => preferences.direction === 'both' || preferences.direction === signal.direction)
+      .filter(({ preferences }) => !preferences.quietHours || !isWithinTradingWindow(now, preferences.quietHours))
+      .map(({ chatId }) => chatId);
+  }
+
+  private addPair(pairs: string[], pairName: string | undefined): string[] {
+    if (pairName === undefined) return pairs;
+    if (pairName === 'all') return [ALL_PAIRS];
+    if (!this.configService.getPairConfig(pairName)) {
+      throw new SubscriptionCommandError(`Pair "${pairName}" not found, use /pairs to list them`);
+    }
+    return pairs.includes(ALL_PAIRS) || pairs.includes(pairName) ? pairs : [...pairs, pairName];
+  }
+
+  private mergeQuietHours(current: SessionSpec | undefined, changes: Partial<SessionSpec>): SessionSpec {
+    const merged = { ...current, ...changes };
+    if (merged.startHour === undefined || merged.endHour === undefined) {
+      throw new SubscriptionCommandError('Set quiet=HH:MM-HH:MM before quiet_tz');
+    }
+    return {
+      ...merged,
+      type: 'time_session',
+      startHour: merged.startHour,
+      endHour: merged.endHour,
+      timezone: merged.timezone ?? this.configService.getTimezone()
+    };
+  }
+}
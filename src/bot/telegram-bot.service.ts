@@ -6,21 +6,48 @@ import { HealthService } from '@/domain/interfaces/health-service.interface';
 import { Logger } from '@/utils/logger';
 import { TYPES } from '@/config/types';
 import { config } from '@/config/environment';
-import { BOT_CONSTANTS } from '@/config/constants';
+import { BotConfigService, BotSchedules } from '@/domain/interfaces/bot-config.interface';
+import { CandleCloseEventBus } from '@/domain/interfaces/candle-close.interface';
+import { SignalMessageRef, SignalTracker } from '@/domain/interfaces/signal-tracker.interface';
+import { Notification, NotificationChannel, NotificationService } from '@/domain/interfaces/notification.interface';
+import { SignalJournalEntry } from '@/domain/interfaces/signal-journal.interface';
+import { Clock } from '@/domain/interfaces/clock.interface';
 import { MessageFormatterService } from './message-formatter.service';
 import { CorrelationStrategyRunnerService } from './correlation-strategy-runner.service';
 import { CorrelationConfigurationService } from './correlation-configuration.service';
+import { SignalHistoryService, parseSignalsCommandArgs } from './signal-history.service';
+import { PairManagementService, PairCommandError } from './pair-management.service';
+import { CorrelationReportService, parseCorrelationCommandArgs } from './correlation-report.service';
+import { SubscriptionService, SubscriptionCommandError } from './subscription.service';
+import { ChartCommandService, parseChartCommandArgs } from './chart-command.service';
+import { OutboundCategory, OutboundMessage, OutboundQueueService } from './outbound-queue.service';
+import { SignalActionService, parseSignalCallback } from './signal-action.service';
+import { StrategySignal } from '@/core/strategies/strategy.interfaces';
 
 @injectable()
-export class TelegramBotService implements BotService {
+export class TelegramBotService implements BotService, NotificationChannel {
+  readonly name = 'telegram';
   private bot: TelegramBot | null = null;
+  private scheduledTasks: cron.ScheduledTask[] = [];
 
   constructor(
     @inject(TYPES.Logger) private logger: Logger,
     @inject(TYPES.HealthService) private healthService: HealthService,
     @inject(TYPES.MessageFormatterService) private messageFormatter: MessageFormatterService,
     @inject(TYPES.CorrelationStrategyRunnerService) private strategyRunner: CorrelationStrategyRunnerService,
-    @inject(TYPES.CorrelationConfigurationService) private correlationConfig: CorrelationConfigurationService
+    @inject(TYPES.CorrelationConfigurationService) private correlationConfig: CorrelationConfigurationService,
+    @inject(TYPES.SignalHistoryService) private signalHistory: SignalHistoryService,
+    @inject(TYPES.PairManagementService) private pairManagement: PairManagementService,
+    @inject(TYPES.BotConfigService) private botConfig: BotConfigService,
+    @inject(TYPES.CandleCloseEventBus) private candleCloseBus: CandleCloseEventBus,
+    @inject(TYPES.CorrelationReportService) private correlationReports: CorrelationReportService,
+    @inject(TYPES.SignalTracker) private signalTracker: SignalTracker,
+    @inject(TYPES.SubscriptionService) private subscriptions: SubscriptionService,
+    @inject(TYPES.ChartCommandService) private chartCommands: ChartCommandService,
+    @inject(TYPES.NotificationService) private notifications: NotificationService,
+    @inject(TYPES.OutboundQueueService) private outbox: OutboundQueueService,
+    @inject(TYPES.SignalActionService) private signalActions: SignalActionService,
+    @inject(TYPES.Clock) private clock: Clock
   ) {}
 
   async initialize(): Promise<void> {
@@ -31,7 +58,9 @@ export class TelegramBotService implements BotService {
       }
 
       this.bot = new TelegramBot(config.TELEGRAM_BOT_TOKEN, { polling: true });
+      await this.outbox.start(this.bot);
       this.setupEventHandlers();
+      this.notifications.register(this);
       this.logger.info('Telegram bot initialized successfully');
     } catch (error) {
       this.logger.error('Failed to initialize Telegram bot', error);
@@ -45,8 +74,12 @@ export class TelegramBotService implements BotService {
       return;
     }
 
+    // Commands may carry arguments and, in group chats, a @botname suffix
+    const [name = '', ...args] = command.trim().split(/\s+/);
+    const commandName = name.split('@')[0]?.toLowerCase();
+
     try {
-      switch (command.toLowerCase()) {
+      switch (commandName) {
         case '/start':
           await this.handleStartCommand(context);
           break;
@@ -56,6 +89,30 @@ export class TelegramBotService implements BotService {
         case '/help':
           await this.handleHelpCommand(context);
           break;
+        case '/signals':
+          await this.handleSignalsCommand(args, context);
+          break;
+        case '/pairs':
+          await this.handlePairsCommand(context);
+          break;
+        case '/correlation':
+          await this.handleCorrelationCommand(args, context);
+          break;
+        case '/stats':
+          await this.handleStatsCommand(args, context);
+          break;
+        case '/chart':
+          await this.handleChartCommand(args, context);
+          break;
+        case '/subscribe':
+        case '/unsubscribe':
+          await this.handleSubscriptionCommand(commandName, args, context);
+          break;
+        case '/pair_add':
+        case '/pair_edit':
+        case '/pair_remove':
+          await this.handlePairChangeCommand(commandName, args, context);
+          break;
         default:
           await this.handleUnknownCommand(context);
       }
@@ -66,54 +123,188 @@ export class TelegramBotService implements BotService {
   }
 
   async startBackgroundTasks(): Promise<void> {
-    // Schedule health checks
-    cron.schedule(BOT_CONSTANTS.HEALTH_CHECK_SCHEDULE, async () => {
-      try {
-        const health = await this.getHealthStatus();
-        if (health.status !== 'healthy') {
-          this.logger.warn('System health check failed', { health });
-        }
-      } catch (error) {
-        this.logger.error('Background health check failed', error);
+    this.scheduleTasks(this.botConfig.getConfig().schedules);
+
+    // Reschedule when the config file changes the cron expressions
+    this.botConfig.onChange((current, previous) => {
+      if (JSON.stringify(current.schedules) !== JSON.stringify(previous.schedules)) {
+        this.scheduledTasks.forEach(task => task.stop());
+        this.scheduleTasks(current.schedules);
+        this.logger.info('Background tasks rescheduled', { schedules: current.schedules });
       }
     });
 
-    // Schedule daily system status report
-    cron.schedule(BOT_CONSTANTS.DAILY_REPORT_SCHEDULE, async () => {
-      try {
-        if (config.TELEGRAM_CHAT_ID) {
-          const health = await this.getHealthStatus();
-          const message = this.messageFormatter.formatHealthMessage(health);
-          await this.sendMessage(config.TELEGRAM_CHAT_ID, `Daily System Report:\n\n${message}`);
+    // Evaluate each pair as soon as its bar closes; the cron check covers pairs without a live stream
+    this.candleCloseBus.onPairBarClose(event => {
+      void this.runCorrelationStrategy(event.pairName, event.closeTime);
+    });
+    await this.candleCloseBus.start();
+
+    this.logger.info('Background tasks started');
+  }
+
+  async getHealthStatus(): Promise<HealthStatus> {
+    return await this.healthService.checkHealth();
+  }
+
+  private scheduleTasks(schedules: BotSchedules): void {
+    this.scheduledTasks = [
+      // Schedule health checks
+      cron.schedule(schedules.healthCheck, () => this.runHealthCheck()),
+      // Schedule daily system status report
+      cron.schedule(schedules.dailyReport, () => this.sendDailyReport()),
+      // Schedule correlation strategy execution for each configured pair
+      cron.schedule(schedules.correlationCheck, () => this.runCorrelationStrategies()),
+      // Follow up on announced signals
+      cron.schedule(schedules.signalMonitor, () => this.monitorSignals())
+    ];
+  }
+
+  private async runHealthCheck(): Promise<void> {
+    try {
+      const health = await this.getHealthStatus();
+      if (health.status !== 'healthy') {
+        this.logger.warn('System health check failed', { health });
+      }
+    } catch (error) {
+      this.logger.error('Background health check failed', error);
+    }
+  }
+
+  private async sendDailyReport(): Promise<void> {
+    try {
+      if (config.TELEGRAM_CHAT_ID) {
+        const health = await this.getHealthStatus();
+        const message = this.messageFormatter.formatHealthMessage(health);
+        await this.sendMessage(config.TELEGRAM_CHAT_ID, `Daily System Report:\n\n${message}`, 'system');
+      }
+    } catch (error) {
+      this.logger.error('Failed to send daily report', error);
+    }
+  }
+
+  private async runCorrelationStrategies(): Promise<void> {
+    try {
+      // Execute strategy for each configured correlation pair not already driven by bar closes.
+      // Pairs run side by side so their signals reach the outbound queue together and can share a digest.
+      const pairs = this.correlationConfig.getAvailablePairs().filter(pair => !this.candleCloseBus.isLive(pair));
+      await Promise.all(pairs.map(pair => this.runCorrelationStrategy(pair)));
+    } catch (error) {
+      this.logger.error('Failed to execute correlation strategy', error);
+    }
+  }
+
+  private async runCorrelationStrategy(pairName: string, barCloseTime?: Date): Promise<void> {
+    try {
+      await this.strategyRunner.executeStrategy(pairName);
+
+      if (barCloseTime) {
+        const latency = this.clock.now().getTime() - barCloseTime.getTime();
+        if (latency > config.MAX_SIGNAL_PROCESSING_LATENCY) {
+          this.logger.warn('Bar close evaluation exceeded latency budget', { pairName, latency });
         }
-      } catch (error) {
-        this.logger.error('Failed to send daily report', error);
       }
-    });
+    } catch (error) {
+      this.logger.error('Failed to execute correlation strategy', error);
+    }
+  }
 
-    // Schedule correlation strategy execution for each configured pair
-    cron.schedule(BOT_CONSTANTS.CORRELATION_CHECK_SCHEDULE, async () => {
-      try {
-        // Execute strategy for each configured correlation pair
-        for (const pair of this.correlationConfig.getAvailablePairs()) {
-          await this.strategyRunner.executeStrategy(pair, 
-            async (message: string) => {
-              if (config.TELEGRAM_CHAT_ID) {
-                await this.sendMessage(config.TELEGRAM_CHAT_ID, message);
-              }
-            }
-          );
+  /**
+   * Deliver a notification as the bot. Signals fan out to their recipients and
+   * outcomes reply in the threads of the original signal.
+   */
+  async send(notification: Notification): Promise<SignalMessageRef[]> {
+    switch (notification.kind) {
+      case 'signal':
+        return await this.sendSignal(notification);
+      case 'signal_outcome':
+        await this.sendSignalOutcome(notification);
+        return [];
+      default:
+        if (config.TELEGRAM_CHAT_ID) {
+          await this.sendMessage(config.TELEGRAM_CHAT_ID, notification.text, 'system');
         }
-      } catch (error) {
-        this.logger.error('Failed to execute correlation strategy', error);
+        return [];
+    }
+  }
+
+  private async sendSignal(notification: Notification): Promise<SignalMessageRef[]> {
+    const { pairName, signal, signalId, chart, text } = notification;
+    const recipients = pairName && signal
+      ? await this.getSignalRecipients(pairName, signal)
+      : config.TELEGRAM_CHAT_ID ? [config.TELEGRAM_CHAT_ID] : [];
+
+    const sent: SignalMessageRef[] = [];
+    // Queued at once so a rate-limited chat does not hold back the others
+    const results = await Promise.all(recipients.map(chatId => this.deliver({
+      chatId,
+      category: 'signal',
+      text,
+      ...(signal && { confidence: signal.confidence }),
+      ...(chart && { photo: { data: chart, filename: 'signal.png' } }),
+      ...(signalId && signal && pairName && {
+        replyMarkup: this.messageFormatter.formatSignalKeyboard(signalId, signal, pairName)
+      })
+    })));
+    results.forEach((result, index) => {
+      if (result) {
+        sent.push({ chatId: recipients[index], messageId: result.message_id });
       }
     });
+    return sent;
+  }
 
-    this.logger.info('Background tasks started');
+  /**
+   * The default chat receives every signal; subscribed chats receive the signals matching their preferences.
+   * Chats that muted the pair for the session are skipped.
+   */
+  private async getSignalRecipients(pairName: string, signal: StrategySignal): Promise<string[]> {
+    const recipients = config.TELEGRAM_CHAT_ID ? [config.TELEGRAM_CHAT_ID] : [];
+    try {
+      recipients.push(...await this.subscriptions.getRecipients(pairName, signal));
+    } catch (error) {
+      this.logger.error('Failed to load signal subscribers', error, { pairName });
+    }
+
+    let muted = new Set<string>();
+    try {
+      muted = await this.signalActions.getMutedChats(pairName);
+    } catch (error) {
+      this.logger.error('Failed to load muted chats', error, { pairName });
+    }
+    return [...new Set(recipients)].filter(chatId => !muted.has(chatId));
   }
 
-  async getHealthStatus(): Promise<HealthStatus> {
-    return await this.healthService.checkHealth();
+  private async monitorSignals(): Promise<void> {
+    try {
+      const closed = await this.signalTracker.update();
+      for (const tracked of closed) {
+        await this.notifications.publish({
+          kind: 'signal_outcome',
+          text: this.messageFormatter.formatSignalOutcome(tracked),
+          pairName: tracked.pairName,
+          outcome: tracked,
+          replyTo: tracked.messages
+        });
+      }
+    } catch (error) {
+      this.logger.error('Failed to monitor tracked signals', error);
+    }
+  }
+
+  /**
+   * Reply in the thread of the original signal in every chat it was sent to,
+   * or post to the default chat when none is known
+   */
+  private async sendSignalOutcome(notification: Notification): Promise<void> {
+    const replyTo = notification.replyTo ?? [];
+    if (replyTo.length > 0) {
+      for (const { chatId, messageId } of replyTo) {
+        await this.sendMessage(chatId, notification.text, 'signal_outcome', messageId);
+      }
+    } else if (config.TELEGRAM_CHAT_ID) {
+      await this.sendMessage(config.TELEGRAM_CHAT_ID, notification.text, 'signal_outcome');
+    }
   }
 
   private setupEventHandlers(): void {
@@ -132,11 +323,92 @@ export class TelegramBotService implements BotService {
       }
     });
 
+    this.bot.on('callback_query', async (query) => {
+      await this.handleCallbackQuery(query);
+    });
+
     this.bot.on('error', (error) => {
       this.logger.error('Telegram bot error', error);
     });
   }
 
+  /**
+   * Buttons under a signal message. Chart and details reply in the signal's thread;
+   * mute and taken/ignored record the trader's feedback in the journal.
+   */
+  private async handleCallbackQuery(query: TelegramBot.CallbackQuery): Promise<void> {
+    const callback = parseSignalCallback(query.data);
+    const message = query.message;
+    if (!callback || !message) {
+      await this.answerCallback(query.id);
+      return;
+    }
+
+    const chatId = message.chat.id.toString();
+    try {
+      const entry = await this.signalActions.getSignal(callback.signalId);
+      if (!entry) {
+        await this.answerCallback(query.id, this.messageFormatter.formatSignalUnavailableMessage());
+        return;
+      }
+
+      switch (callback.action) {
+        case 'chart':
+          await this.answerCallback(query.id);
+          await this.sendSignalChart(chatId, entry, message.message_id);
+          break;
+        case 'details':
+          await this.answerCallback(query.id);
+          await this.sendMessage(chatId, this.messageFormatter.formatSignalDetails(entry), 'command', message.message_id);
+          break;
+        default: {
+          const action = callback.action === 'mute' ? 'muted' : callback.action;
+          const updated = await this.signalActions.recordFeedback(entry.id, chatId, query.from.id.toString(), action);
+          await this.answerCallback(query.id, updated
+            ? this.messageFormatter.formatSignalActionResult(callback.action, updated)
+            : this.messageFormatter.formatSignalUnavailableMessage());
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to handle signal action', error, { action: callback.action, signalId: callback.signalId, chatId });
+      await this.answerCallback(query.id, this.messageFormatter.formatSignalActionFailedMessage());
+    }
+  }
+
+  /**
+   * Chart of the trigger asset with the pair's reference session, the range the signal cracked.
+   * Falls back to the current day when the pair has been removed since.
+   */
+  private async sendSignalChart(chatId: string, entry: SignalJournalEntry, replyToMessageId: number): Promise<void> {
+    const symbol = entry.signal.triggerAsset;
+    const session = this.correlationConfig.getPairConfig(entry.pairName)?.session;
+    try {
+      const chart = await this.chartCommands.renderChart({
+        symbol,
+        period: session ? { label: `${entry.pairName} reference session`, spec: session } : 'current_day'
+      });
+      await this.deliver({
+        chatId,
+        category: 'command',
+        replyToMessageId,
+        photo: { data: chart.image, filename: `${chart.symbol}.png`, caption: this.messageFormatter.formatSymbolChart(chart) }
+      });
+    } catch (error) {
+      this.logger.warn('Failed to render chart', { symbol, error });
+      await this.sendMessage(chatId, this.messageFormatter.formatChartUnavailableMessage(symbol), 'command', replyToMessageId);
+    }
+  }
+
+  private async answerCallback(queryId: string, text?: string): Promise<void> {
+    if (!this.bot) return;
+
+    try {
+      await this.bot.answerCallbackQuery(queryId, text ? { text } : {});
+    } catch (error) {
+      this.logger.warn('Failed to answer callback query', { error });
+    }
+  }
+
   private async handleStartCommand(context: TelegramContext): Promise<void> {
     const message = this.messageFormatter.formatStartMessage();
     await this.sendMessage(context.chatId, message);
@@ -153,18 +425,137 @@ export class TelegramBotService implements BotService {
     await this.sendMessage(context.chatId, message);
   }
 
+  private async handleSignalsCommand(args: string[], context: TelegramContext): Promise<void> {
+    const query = parseSignalsCommandArgs(args);
+    if (!query) {
+      await this.sendMessage(context.chatId, this.messageFormatter.formatSignalsUsageMessage());
+      return;
+    }
+
+    const reviews = await this.signalHistory.getSignals(query);
+    for (const message of this.messageFormatter.formatSignalHistory(reviews, query)) {
+      await this.sendMessage(context.chatId, message);
+    }
+  }
+
+  private async handlePairsCommand(context: TelegramContext): Promise<void> {
+    const message = this.messageFormatter.formatPairList(this.correlationConfig.getPairs());
+    await this.sendMessage(context.chatId, message);
+  }
+
+  private async handleCorrelationCommand(args: string[], context: TelegramContext): Promise<void> {
+    const query = parseCorrelationCommandArgs(args);
+    if (!query) {
+      await this.sendMessage(context.chatId, this.messageFormatter.formatCorrelationUsageMessage());
+      return;
+    }
+
+    const reports = await this.correlationReports.getReports(query);
+    const message = this.messageFormatter.formatCorrelationReports(reports, this.correlationConfig.getCorrelationFilter());
+    await this.sendMessage(context.chatId, message);
+  }
+
+  private async handleStatsCommand(args: string[], context: TelegramContext): Promise<void> {
+    if (args.length > 1) {
+      await this.sendMessage(context.chatId, this.messageFormatter.formatStatsUsageMessage());
+      return;
+    }
+
+    const pairName = args[0]?.toLowerCase();
+    const stats = await this.signalTracker.getStats(pairName);
+    await this.sendMessage(context.chatId, this.messageFormatter.formatSignalStats(stats, pairName));
+  }
+
+  private async handleChartCommand(args: string[], context: TelegramContext): Promise<void> {
+    const query = parseChartCommandArgs(args);
+    if (!query) {
+      await this.sendMessage(context.chatId, this.messageFormatter.formatChartUsageMessage());
+      return;
+    }
+
+    try {
+      const chart = await this.chartCommands.renderChart(query);
+      await this.deliver({
+        chatId: context.chatId,
+        category: 'command',
+        photo: { data: chart.image, filename: `${chart.symbol}.png`, caption: this.messageFormatter.formatSymbolChart(chart) }
+      });
+    } catch (error) {
+      this.logger.warn('Failed to render chart', { query, error });
+      await this.sendMessage(context.chatId, this.messageFormatter.formatChartUnavailableMessage(query.symbol));
+    }
+  }
+
+  private async handleSubscriptionCommand(commandName: string, args: string[], context: TelegramContext): Promise<void> {
+    try {
+      const subscription = commandName === '/unsubscribe'
+        ? await this.subscriptions.unsubscribe(context.chatId, args[0])
+        : args.length > 0
+          ? await this.subscriptions.subscribe(context.chatId, args)
+          : await this.subscriptions.getSubscription(context.chatId);
+      await this.sendMessage(context.chatId, this.messageFormatter.formatSubscription(subscription));
+    } catch (error) {
+      if (!(error instanceof SubscriptionCommandError)) throw error;
+      await this.sendMessage(context.chatId, this.messageFormatter.formatSubscriptionCommandError(error.message));
+    }
+  }
+
+  private async handlePairChangeCommand(commandName: string, args: string[], context: TelegramContext): Promise<void> {
+    if (!config.TELEGRAM_ADMIN_USER_IDS.includes(context.userId)) {
+      this.logger.warn('Unauthorized pair management attempt', { userId: context.userId, command: commandName });
+      await this.sendMessage(context.chatId, this.messageFormatter.formatUnauthorizedMessage());
+      return;
+    }
+
+    try {
+      const message = await this.applyPairChange(commandName, args);
+      await this.sendMessage(context.chatId, message);
+    } catch (error) {
+      if (!(error instanceof PairCommandError)) throw error;
+      await this.sendMessage(context.chatId, this.messageFormatter.formatPairCommandError(error.message));
+    }
+  }
+
+  private async applyPairChange(commandName: string, args: string[]): Promise<string> {
+    const [pairName = '', ...options] = args;
+    const key = pairName.toLowerCase();
+
+    if (commandName === '/pair_remove') {
+      await this.pairManagement.removePair(pairName);
+      return this.messageFormatter.formatPairRemoved(key);
+    }
+
+    const pairConfig = commandName === '/pair_add'
+      ? await this.pairManagement.addPair(pairName, options)
+      : await this.pairManagement.editPair(pairName, options);
+    return this.messageFormatter.formatPairSaved(key, pairConfig);
+  }
+
   private async handleUnknownCommand(context: TelegramContext): Promise<void> {
     const message = this.messageFormatter.formatUnknownCommandMessage();
     await this.sendMessage(context.chatId, message);
   }
 
-  private async sendMessage(chatId: string, message: string): Promise<void> {
-    if (!this.bot) return;
-    
+  private async sendMessage(
+    chatId: string,
+    text: string,
+    category: OutboundCategory = 'command',
+    replyToMessageId?: number
+  ): Promise<TelegramBot.Message | undefined> {
+    return await this.deliver({ chatId, category, text, ...(replyToMessageId !== undefined && { replyToMessageId }) });
+  }
+
+  /**
+   * Queue a message for delivery and wait until it is sent
+   */
+  private async deliver(message: OutboundMessage): Promise<TelegramBot.Message | undefined> {
+    if (!this.bot) return undefined;
+
     try {
-      await this.bot.sendMessage(chatId, message);
+      return await this.outbox.enqueue(message);
     } catch (error) {
       this.logger.error('Failed to send Telegram message', error);
+      return undefined;
     }
   }
 }
@@ -0,0 +1,486 @@
+/**
+ * Bot configuration defaults and validation
+ */
+import * as cron from 'node-cron';
+import { CrossDirection, DirectionMode, DIRECTION_MODES } from '../core/strategies/strategy.interfaces';
+import { SessionSpec } from '../core/indicators/indicator.interfaces';
+import {
+  BotConfig,
+  BotSchedules,
+  ChartConfig,
+  CorrelationFilterSettings,
+  CorrelationPairConfig,
+  DeliveryConfig,
+  MarketDataProviderName,
+  NotificationChannelConfig,
+  NotificationsConfig,
+  SignalTrackingConfig,
+  StrategyParameters,
+  TradingHours
+} from '../domain/interfaces/bot-config.interface';
+import {
+  BOT_CONSTANTS,
+  CHART_CONSTANTS,
+  CONFIDENCE_MODEL_NAMES,
+  DELIVERY_CONSTANTS,
+  MARKET_DATA_PROVIDER_NAMES,
+  MARKET_TIME_INTERVALS,
+  NOTIFICATION_CONSTANTS,
+  STORAGE_CONSTANTS,
+  STRATEGY_CONSTANTS
+} from './constants';
+import { NOTIFICATION_KINDS, NotificationKind } from '../domain/interfaces/notification.interface';
+import { CorrelationMethod } from '../domain/interfaces/correlation-tracker.interface';
+import { tradingWindowOverlapsSession } from '../utils/date-helpers';
+
+/**
+ * Built-in configuration used when no config file exists.
+ * Config files may omit any section to keep these values.
+ */
+export const DEFAULT_BOT_CONFIG: BotConfig = {
+  strategy: {
+    candleInterval: BOT_CONSTANTS.DEFAULT_CANDLE_INTERVAL,
+    klinesLimit: BOT_CONSTANTS.KLINES_LIMIT,
+    crossDetectionLookback: BOT_CONSTANTS.CROSS_DETECTION_LOOKBACK,
+    minCorrelatedAssets: BOT_CONSTANTS.MIN_CORRELATED_ASSETS,
+    timezone: BOT_CONSTANTS.NY_TIMEZONE
+  },
+  tradingHours: {
+    startHour: BOT_CONSTANTS.NY_SESSION_START_HOUR,
+    endHour: BOT_CONSTANTS.NY_SESSION_END_HOUR
+  },
+  correlationFilter: {
+    enabled: true,
+    method: 'pearson',
+    window: STRATEGY_CONSTANTS.CORRELATION_WINDOW,
+    minCorrelation: STRATEGY_CONSTANTS.MIN_CORRELATION,
+    weakCorrelation: STRATEGY_CONSTANTS.WEAK_CORRELATION
+  },
+  signalTracking: {
+    enabled: true,
+    invalidationBufferPercent: BOT_CONSTANTS.SIGNAL_INVALIDATION_BUFFER_PERCENT,
+    targetPercent: BOT_CONSTANTS.SIGNAL_TARGET_PERCENT,
+    expiryMinutes: BOT_CONSTANTS.SIGNAL_EXPIRY_MINUTES
+  },
+  charts: {
+    enabled: true,
+    width: CHART_CONSTANTS.DEFAULT_WIDTH,
+    panelHeight: CHART_CONSTANTS.DEFAULT_PANEL_HEIGHT
+  },
+  notifications: {
+    telegram: { enabled: true, kinds: [...NOTIFICATION_KINDS] },
+    webhook: { enabled: false, kinds: ['signal', 'signal_outcome'], url: '' },
+    email: {
+      enabled: false,
+      kinds: ['signal', 'signal_outcome'],
+      host: NOTIFICATION_CONSTANTS.SMTP_HOST,
+      port: NOTIFICATION_CONSTANTS.SMTP_PORT,
+      from: NOTIFICATION_CONSTANTS.SMTP_FROM,
+      to: []
+    },
+    console: { enabled: false, kinds: [...NOTIFICATION_KINDS] },
+    file: { enabled: false, kinds: [...NOTIFICATION_KINDS], path: STORAGE_CONSTANTS.NOTIFICATIONS_FILE }
+  },
+  delivery: {
+    digestWindowSeconds: DELIVERY_CONSTANTS.DIGEST_WINDOW_SECONDS,
+    chatMessagesPerMinute: DELIVERY_CONSTANTS.CHAT_MESSAGES_PER_MINUTE,
+    messagesPerSecond: DELIVERY_CONSTANTS.MESSAGES_PER_SECOND,
+    maxAttempts: DELIVERY_CONSTANTS.MAX_ATTEMPTS
+  },
+  schedules: {
+    healthCheck: BOT_CONSTANTS.HEALTH_CHECK_SCHEDULE,
+    dailyReport: BOT_CONSTANTS.DAILY_REPORT_SCHEDULE,
+    correlationCheck: BOT_CONSTANTS.CORRELATION_CHECK_SCHEDULE,
+    signalMonitor: BOT_CONSTANTS.SIGNAL_MONITOR_SCHEDULE
+  },
+  pairs: {
+    crypto: {
+      name: 'Crypto',
+      assets: ['BTCUSDT', 'ETHUSDT'],
+      session: {
+        type: 'time_session',
+        startHour: BOT_CONSTANTS.NY_SESSION_START_HOUR,
+        startMinute: 0,
+        endHour: BOT_CONSTANTS.NY_SESSION_END_HOUR,
+        endMinute: 0,
+        timezone: BOT_CONSTANTS.NY_TIMEZONE
+      },
+      direction: CrossDirection.CROSS_UNDER,
+      provider: 'binance'
+    }
+  }
+};
+
+/**
+ * Config file content that failed validation. Lists every problem found.
+ */
+export class BotConfigValidationError extends Error {
+  constructor(public readonly issues: string[], source?: string) {
+    super(`Invalid bot configuration${source ? ` in ${source}` : ''}:\n- ${issues.join('\n- ')}`);
+    this.name = 'BotConfigValidationError';
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+const KNOWN_INTERVALS: readonly string[] = Object.values(MARKET_TIME_INTERVALS);
+const CORRELATION_METHODS: readonly CorrelationMethod[] = ['pearson', 'spearman'];
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Collects validation issues with the path of the offending field
+ */
+class IssueCollector {
+  readonly issues: string[] = [];
+
+  integer(raw: RawObject, key: string, path: string, min: number, max: number): number | undefined {
+    const value = raw[key];
+    if (value === undefined) return undefined;
+    if (!isIntegerInRange(value, min, max)) {
+      this.issues.push(`${path}.${key} must be an integer between ${min} and ${max}, got ${JSON.stringify(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  number(raw: RawObject, key: string, path: string, min: number, max: number): number | undefined {
+    const value = raw[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      this.issues.push(`${path}.${key} must be a number between ${min} and ${max}, got ${JSON.stringify(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  boolean(raw: RawObject, key: string, path: string): boolean | undefined {
+    const value = raw[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'boolean') {
+      this.issues.push(`${path}.${key} must be true or false`);
+      return undefined;
+    }
+    return value;
+  }
+
+  string(raw: RawObject, key: string, path: string, check?: (value: string) => string | null): string | undefined {
+    const value = raw[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string' || value.length === 0) {
+      this.issues.push(`${path}.${key} must be a non-empty string`);
+      return undefined;
+    }
+    const problem = check?.(value);
+    if (problem) {
+      this.issues.push(`${path}.${key} ${problem}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  stringList(raw: RawObject, key: string, path: string, allowed?: readonly string[]): string[] | undefined {
+    const value = raw[key];
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item.length > 0)) {
+      this.issues.push(`${path}.${key} must be a list of non-empty strings`);
+      return undefined;
+    }
+    const unknown = allowed ? value.filter(item => !allowed.includes(item)) : [];
+    if (unknown.length > 0) {
+      this.issues.push(`${path}.${key} contains unknown values ${unknown.join(', ')} (allowed: ${allowed!.join(', ')})`);
+      return undefined;
+    }
+    return value;
+  }
+
+  section(raw: RawObject, key: string, parent?: string): RawObject {
+    const value = raw[key];
+    if (value === undefined) return {};
+    if (!isObject(value)) {
+      this.issues.push(`${parent ? `${parent}.` : ''}${key} must be an object`);
+      return {};
+    }
+    return value;
+  }
+}
+
+const checkInterval = (value: string): string | null =>
+  KNOWN_INTERVALS.includes(value) ? null : `"${value}" is not a known interval (${KNOWN_INTERVALS.join(', ')})`;
+
+const checkTimezone = (value: string): string | null =>
+  isValidTimezone(value) ? null : `"${value}" is not a known IANA timezone`;
+
+const checkCorrelationMethod = (value: string): string | null =>
+  CORRELATION_METHODS.includes(value as CorrelationMethod) ? null : `must be one of ${CORRELATION_METHODS.join(', ')}`;
+
+const checkUrl = (value: string): string | null =>
+  /^https?:\/\/\S+$/.test(value) ? null : `"${value}" is not an http(s) URL`;
+
+const checkCron = (value: string): string | null =>
+  cron.validate(value) ? null : `"${value}" is not a valid cron expression`;
+
+function validateStrategy(raw: RawObject, issues: IssueCollector): StrategyParameters {
+  const defaults = DEFAULT_BOT_CONFIG.strategy;
+  return {
+    candleInterval: issues.string(raw, 'candleInterval', 'strategy', checkInterval) ?? defaults.candleInterval,
+    klinesLimit: issues.integer(raw, 'klinesLimit', 'strategy', 10, 1000) ?? defaults.klinesLimit,
+    crossDetectionLookback: issues.integer(raw, 'crossDetectionLookback', 'strategy', 1, 100) ?? defaults.crossDetectionLookback,
+    minCorrelatedAssets: issues.integer(raw, 'minCorrelatedAssets', 'strategy', 1, 3) ?? defaults.minCorrelatedAssets,
+    timezone: issues.string(raw, 'timezone', 'strategy', checkTimezone) ?? defaults.timezone
+  };
+}
+
+function validateTradingHours(raw: RawObject, issues: IssueCollector): TradingHours {
+  const defaults = DEFAULT_BOT_CONFIG.tradingHours;
+  const hours = {
+    startHour: issues.integer(raw, 'startHour', 'tradingHours', 0, 23) ?? defaults.startHour,
+    endHour: issues.integer(raw, 'endHour', 'tradingHours', 1, 24) ?? defaults.endHour
+  };
+  if (hours.startHour >= hours.endHour) {
+    issues.issues.push(`tradingHours.startHour (${hours.startHour}) must be before endHour (${hours.endHour})`);
+  }
+  return hours;
+}
+
+function validateCorrelationFilter(raw: RawObject, issues: IssueCollector): CorrelationFilterSettings {
+  const defaults = DEFAULT_BOT_CONFIG.correlationFilter;
+  const path = 'correlationFilter';
+  const filter: CorrelationFilterSettings = {
+    enabled: issues.boolean(raw, 'enabled', path) ?? defaults.enabled,
+    method: (issues.string(raw, 'method', path, checkCorrelationMethod) as CorrelationMethod | undefined) ?? defaults.method,
+    window: issues.integer(raw, 'window', path, 5, 1000) ?? defaults.window,
+    minCorrelation: issues.number(raw, 'minCorrelation', path, -1, 1) ?? defaults.minCorrelation,
+    weakCorrelation: issues.number(raw, 'weakCorrelation', path, 0.01, 1) ?? defaults.weakCorrelation
+  };
+  if (filter.minCorrelation > filter.weakCorrelation) {
+    issues.issues.push(`${path}.minCorrelation (${filter.minCorrelation}) must not exceed weakCorrelation (${filter.weakCorrelation})`);
+  }
+  return filter;
+}
+
+function validateSignalTracking(raw: RawObject, issues: IssueCollector): SignalTrackingConfig {
+  const defaults = DEFAULT_BOT_CONFIG.signalTracking;
+  const path = 'signalTracking';
+  return {
+    enabled: issues.boolean(raw, 'enabled', path) ?? defaults.enabled,
+    invalidationBufferPercent: issues.number(raw, 'invalidationBufferPercent', path, 0, 10) ?? defaults.invalidationBufferPercent,
+    targetPercent: issues.number(raw, 'targetPercent', path, 0.01, 100) ?? defaults.targetPercent,
+    expiryMinutes: issues.integer(raw, 'expiryMinutes', path, 1, 10080) ?? defaults.expiryMinutes
+  };
+}
+
+function validateCharts(raw: RawObject, issues: IssueCollector): ChartConfig {
+  const defaults = DEFAULT_BOT_CONFIG.charts;
+  const path = 'charts';
+  return {
+    enabled: issues.boolean(raw, 'enabled', path) ?? defaults.enabled,
+    width: issues.integer(raw, 'width', path, 320, 2048) ?? defaults.width,
+    panelHeight: issues.integer(raw, 'panelHeight', path, 120, 800) ?? defaults.panelHeight
+  };
+}
+
+function validateDelivery(raw: RawObject, issues: IssueCollector): DeliveryConfig {
+  const defaults = DEFAULT_BOT_CONFIG.delivery;
+  const path = 'delivery';
+  return {
+    digestWindowSeconds: issues.integer(raw, 'digestWindowSeconds', path, 0, 60) ?? defaults.digestWindowSeconds,
+    chatMessagesPerMinute: issues.integer(raw, 'chatMessagesPerMinute', path, 1, 60) ?? defaults.chatMessagesPerMinute,
+    messagesPerSecond: issues.integer(raw, 'messagesPerSecond', path, 1, 30) ?? defaults.messagesPerSecond,
+    maxAttempts: issues.integer(raw, 'maxAttempts', path, 1, 20) ?? defaults.maxAttempts
+  };
+}
+
+function validateChannel(raw: RawObject, path: string, defaults: NotificationChannelConfig, issues: IssueCollector): NotificationChannelConfig {
+  return {
+    enabled: issues.boolean(raw, 'enabled', path) ?? defaults.enabled,
+    kinds: (issues.stringList(raw, 'kinds', path, NOTIFICATION_KINDS) as NotificationKind[] | undefined) ?? defaults.kinds
+  };
+}
+
+function validateNotifications(raw: RawObject, issues: IssueCollector): NotificationsConfig {
+  const defaults = DEFAULT_BOT_CONFIG.notifications;
+  const channel = (name: keyof NotificationsConfig): [RawObject, string] =>
+    [issues.section(raw, name, 'notifications'), `notifications.${name}`];
+
+  const [webhookRaw, webhookPath] = channel('webhook');
+  const webhook = {
+    ...validateChannel(webhookRaw, webhookPath, defaults.webhook, issues),
+    url: issues.string(webhookRaw, 'url', webhookPath, checkUrl) ?? defaults.webhook.url
+  };
+  if (webhook.enabled && !webhook.url) {
+    issues.issues.push(`${webhookPath}.url is required when the channel is enabled`);
+  }
+
+  const [emailRaw, emailPath] = channel('email');
+  const email = {
+    ...validateChannel(emailRaw, emailPath, defaults.email, issues),
+    host: issues.string(emailRaw, 'host', emailPath) ?? defaults.email.host,
+    port: issues.integer(emailRaw, 'port', emailPath, 1, 65535) ?? defaults.email.port,
+    from: issues.string(emailRaw, 'from', emailPath) ?? defaults.email.from,
+    to: issues.stringList(emailRaw, 'to', emailPath) ?? defaults.email.to
+  };
+  if (email.enabled && email.to.length === 0) {
+    issues.issues.push(`${emailPath}.to requires at least one address when the channel is enabled`);
+  }
+
+  const [fileRaw, filePath] = channel('file');
+  return {
+    telegram: validateChannel(...channel('telegram'), defaults.telegram, issues),
+    webhook,
+    email,
+    console: validateChannel(...channel('console'), defaults.console, issues),
+    file: {
+      ...validateChannel(fileRaw, filePath, defaults.file, issues),
+      path: issues.string(fileRaw, 'path', filePath) ?? defaults.file.path
+    }
+  };
+}
+
+function validateSchedules(raw: RawObject, issues: IssueCollector): BotSchedules {
+  const defaults = DEFAULT_BOT_CONFIG.schedules;
+  return {
+    healthCheck: issues.string(raw, 'healthCheck', 'schedules', checkCron) ?? defaults.healthCheck,
+    dailyReport: issues.string(raw, 'dailyReport', 'schedules', checkCron) ?? defaults.dailyReport,
+    correlationCheck: issues.string(raw, 'correlationCheck', 'schedules', checkCron) ?? defaults.correlationCheck,
+    signalMonitor: issues.string(raw, 'signalMonitor', 'schedules', checkCron) ?? defaults.signalMonitor
+  };
+}
+
+function validateSession(raw: unknown, path: string, issues: IssueCollector): SessionSpec | undefined {
+  if (!isObject(raw)) {
+    issues.issues.push(`${path} must be an object like { "startHour": 8, "endHour": 12 }`);
+    return undefined;
+  }
+  if (raw.type !== undefined && raw.type !== 'time_session') {
+    issues.issues.push(`${path}.type must be "time_session"`);
+  }
+
+  const startHour = issues.integer(raw, 'startHour', path, 0, 23);
+  const endHour = issues.integer(raw, 'endHour', path, 0, 23);
+  const startMinute = issues.integer(raw, 'startMinute', path, 0, 59);
+  const endMinute = issues.integer(raw, 'endMinute', path, 0, 59);
+  const timezone = issues.string(raw, 'timezone', path, checkTimezone);
+  if (raw.startHour === undefined || raw.endHour === undefined) {
+    issues.issues.push(`${path} requires startHour and endHour`);
+  }
+  if (startHour === undefined || endHour === undefined) return undefined;
+
+  const session: SessionSpec = { type: 'time_session', startHour, endHour };
+  if (startMinute !== undefined) session.startMinute = startMinute;
+  if (endMinute !== undefined) session.endMinute = endMinute;
+  if (timezone !== undefined) session.timezone = timezone;
+  return session;
+}
+
+function validatePair(raw: unknown, path: string, issues: IssueCollector): CorrelationPairConfig | undefined {
+  if (!isObject(raw)) {
+    issues.issues.push(`${path} must be an object`);
+    return undefined;
+  }
+
+  const assets = raw.assets;
+  const validAssets = Array.isArray(assets) && assets.length >= 2 && assets.length <= 4 &&
+    assets.every(asset => typeof asset === 'string' && asset.length > 0);
+  if (!validAssets) {
+    issues.issues.push(`${path}.assets must list 2-4 symbols`);
+  }
+
+  const direction = raw.direction;
+  if (!DIRECTION_MODES.includes(direction as DirectionMode)) {
+    issues.issues.push(`${path}.direction must be one of ${DIRECTION_MODES.join(', ')}`);
+  }
+
+  const provider = raw.provider;
+  if (provider !== undefined && !MARKET_DATA_PROVIDER_NAMES.includes(provider as MarketDataProviderName)) {
+    issues.issues.push(`${path}.provider must be one of ${MARKET_DATA_PROVIDER_NAMES.join(', ')}`);
+  }
+
+  const confidenceModel = raw.confidenceModel;
+  if (confidenceModel !== undefined && !(CONFIDENCE_MODEL_NAMES as readonly unknown[]).includes(confidenceModel)) {
+    issues.issues.push(`${path}.confidenceModel must be one of ${CONFIDENCE_MODEL_NAMES.join(', ')}`);
+  }
+
+  const session = validateSession(raw.session, `${path}.session`, issues);
+  const tradingWindow = raw.tradingWindow === undefined
+    ? undefined
+    : validateSession(raw.tradingWindow, `${path}.tradingWindow`, issues);
+  const name = issues.string(raw, 'name', path);
+  if (!validAssets || !session) return undefined;
+
+  return {
+    name: name ?? path.split('.').pop()!,
+    assets: (assets as string[]).map(asset => asset.toUpperCase()),
+    session,
+    ...(tradingWindow !== undefined && { tradingWindow }),
+    direction: direction as DirectionMode,
+    ...(provider !== undefined && { provider: provider as MarketDataProviderName }),
+    ...(confidenceModel !== undefined && { confidenceModel: confidenceModel as string })
+  };
+}
+
+function validatePairs(raw: RawObject, issues: IssueCollector): Record<string, CorrelationPairConfig> {
+  const pairs: Record<string, CorrelationPairConfig> = {};
+  for (const [pairName, pairConfig] of Object.entries(raw)) {
+    const pair = validatePair(pairConfig, `pairs.${pairName}`, issues);
+    if (pair) pairs[pairName] = pair;
+  }
+  return pairs;
+}
+
+/**
+ * A pair's trading window must stay out of its reference session. Pairs without one follow the trading
+ * hours, which are edited on their own, so the pair commands check those when the pair is saved.
+ */
+function validateTradingWindows(pairs: Record<string, CorrelationPairConfig>, timezone: string, issues: IssueCollector): void {
+  for (const [pairName, pair] of Object.entries(pairs)) {
+    if (pair.tradingWindow && tradingWindowOverlapsSession(pair.session, pair.tradingWindow, timezone)) {
+      issues.issues.push(`pairs.${pairName}.tradingWindow must not overlap pairs.${pairName}.session`);
+    }
+  }
+}
+
+/**
+ * Validate parsed config file content and fill omitted sections with defaults
+ */
+export function validateBotConfig(raw: unknown, source?: string): BotConfig {
+  if (!isObject(raw)) {
+    throw new BotConfigValidationError(['configuration must be a JSON object'], source);
+  }
+
+  const issues = new IssueCollector();
+  const config: BotConfig = {
+    strategy: validateStrategy(issues.section(raw, 'strategy'), issues),
+    tradingHours: validateTradingHours(issues.section(raw, 'tradingHours'), issues),
+    correlationFilter: validateCorrelationFilter(issues.section(raw, 'correlationFilter'), issues),
+    signalTracking: validateSignalTracking(issues.section(raw, 'signalTracking'), issues),
+    charts: validateCharts(issues.section(raw, 'charts'), issues),
+    notifications: validateNotifications(issues.section(raw, 'notifications'), issues),
+    delivery: validateDelivery(issues.section(raw, 'delivery'), issues),
+    schedules: validateSchedules(issues.section(raw, 'schedules'), issues),
+    pairs: raw.pairs === undefined
+      ? DEFAULT_BOT_CONFIG.pairs
+      : validatePairs(issues.section(raw, 'pairs'), issues)
+  };
+  validateTradingWindows(config.pairs, config.strategy.timezone, issues);
+
+  if (issues.issues.length > 0) {
+    throw new BotConfigValidationError(issues.issues, source);
+  }
+  return config;
+}
@@ -37,6 +37,28 @@ export const MARKET_TIME_INTERVALS = {
   ONE_MONTH: '1M',
 } as const;
 
+/**
+ * Supported market data providers
+ */
+export const MARKET_DATA_PROVIDER_NAMES = ['binance', 'capitalcom'] as const;
+export const DEFAULT_MARKET_DATA_PROVIDER = 'binance';
+
+/**
+ * Confidence scoring models a pair can use
+ */
+export const CONFIDENCE_MODEL_NAMES = ['default', 'classic'] as const;
+export const DEFAULT_CONFIDENCE_MODEL = 'default';
+
+/**
+ * Market data streaming constants
+ */
+export const STREAMING_CONSTANTS = {
+  RECONNECT_DELAY: 5 * 1000, // 5 seconds
+  CAPITALCOM_PING_INTERVAL: 9 * 60 * 1000, // sessions expire after 10 idle minutes
+  CANDLE_CLOSE_SETTLE_DELAY: 2 * 1000, // wait for the other assets of a pair to close the bar
+  LIVE_STREAM_INTERVALS: 2, // pairs without a bar close for this many intervals fall back to cron
+} as const;
+
 /**
  * Rate limiting constants
  */
@@ -62,6 +84,7 @@ export const TRADING_CONSTANTS = {
   US_SESSION_END_MINUTE: 0,
   ASIAN_SESSION_START_HOUR: 19,
   ASIAN_SESSION_END_HOUR: 2,
+  MAX_NON_TRADING_DAYS: 10, // longest run of closed days searched for the previous session
 } as const;
 
 /**
@@ -69,12 +92,31 @@ export const TRADING_CONSTANTS = {
  */
 export const STRATEGY_CONSTANTS = {
   DEFAULT_KLINES_LIMIT: 100,
+  MAX_KLINES_LIMIT: 1000, // Largest fetch, when a session reference needs more bars than klinesLimit
   DEFAULT_MARKET_DATA_INTERVAL: '5m',
   CROSS_DETECTION_LOOKBACK_PERIODS: 10,
   BASE_CONFIDENCE_SCORE: 0.5,
   CONFIDENCE_INCREMENT_PER_ASSET: 0.1,
   MAX_DISTANCE_CONFIDENCE_BOOST: 0.3,
   DISTANCE_CONFIDENCE_MULTIPLIER: 2,
+  CORRELATION_WINDOW: 50, // Returns correlated before a signal is announced
+  MIN_CORRELATION: 0.3, // Suppress signals below this return correlation
+  WEAK_CORRELATION: 0.6, // Scale confidence down below this return correlation
+  ATR_PERIOD: 14,
+  VOLUME_AVERAGE_PERIOD: 20, // Bars averaged when the session has just opened
+  MIN_SESSION_VOLUME_BARS: 3,
+  VOLUME_CONFIDENCE_MULTIPLIER: 0.1, // Per unit of relative volume above or below 1
+  MAX_VOLUME_CONFIDENCE_BOOST: 0.15,
+  MAX_VOLUME_CONFIDENCE_PENALTY: 0.15,
+  RANGE_EXPANSION_CONFIDENCE_MULTIPLIER: 0.05, // Per ATR of range above or below 1
+  MAX_RANGE_EXPANSION_CONFIDENCE_BOOST: 0.1,
+  MAX_RANGE_EXPANSION_CONFIDENCE_PENALTY: 0.05,
+  CORRELATION_CONFIDENCE_MULTIPLIER: 0.5, // Per unit of correlation above or below weakCorrelation
+  MAX_CORRELATION_CONFIDENCE_BOOST: 0.1,
+  MAX_CORRELATION_CONFIDENCE_PENALTY: 0.2,
+  MAX_SESSION_TIMING_CONFIDENCE_BOOST: 0.05, // Cracks right after the reference session ends
+  MAX_SESSION_TIMING_CONFIDENCE_PENALTY: 0.05,
+  SESSION_TIMING_CONFIDENCE_DECAY_PER_HOUR: 0.0125,
 } as const;
 
 /**
@@ -104,8 +146,84 @@ export const BOT_CONSTANTS = {
   KLINES_LIMIT: 100,
   CROSS_DETECTION_LOOKBACK: 10,
 
+  // Signal history
+  SIGNALS_DEFAULT_LIMIT: 10,
+  SIGNALS_MAX_LIMIT: 50,
+
+  // Signal tracking
+  SIGNAL_INVALIDATION_BUFFER_PERCENT: 0.1,
+  SIGNAL_TARGET_PERCENT: 0.5,
+  SIGNAL_EXPIRY_MINUTES: 240,
+
   // Cron schedules
   HEALTH_CHECK_SCHEDULE: '*/5 * * * *',
   DAILY_REPORT_SCHEDULE: '0 9 * * *',
   CORRELATION_CHECK_SCHEDULE: '*/5 * * * 1-5',
+  SIGNAL_MONITOR_SCHEDULE: '* * * * *',
+} as const;
+
+/**
+ * Local storage constants
+ */
+export const STORAGE_CONSTANTS = {
+  SIGNAL_JOURNAL_FILE: 'data/signals.json',
+  MAX_JOURNAL_ENTRIES: 5000,
+  CORRELATION_PAIRS_FILE: 'data/correlation-pairs.json',
+  TRACKED_SIGNALS_FILE: 'data/tracked-signals.json',
+  SUBSCRIPTIONS_FILE: 'data/subscriptions.json',
+  NOTIFICATIONS_FILE: 'data/notifications.log',
+  OUTBOUND_QUEUE_FILE: 'data/outbound-queue.json',
+} as const;
+
+/**
+ * Chart rendering constants (pixels)
+ */
+export const CHART_CONSTANTS = {
+  DEFAULT_WIDTH: 960,
+  DEFAULT_PANEL_HEIGHT: 240,
+  TITLE_HEIGHT: 28,
+  LABEL_HEIGHT: 26,
+  TIME_AXIS_HEIGHT: 18,
+  AXIS_WIDTH: 110,
+  PADDING: 10,
+  GRID_LINES: 4,
+  MAX_CANDLES: 300,
+  CONTEXT_CANDLES: 12, // Bars shown before the charted period
+  COMMAND_PANEL_HEIGHT: 420,
+  MIN_COMMAND_KLINES: 50,
+  MAX_COMMAND_KLINES: 1000,
+  DAY_PERIOD_LOOKBACK_DAYS: 4, // Covers the previous trading day after a weekend
+} as const;
+
+/**
+ * Notification channel constants
+ */
+export const NOTIFICATION_CONSTANTS = {
+  SMTP_HOST: 'localhost',
+  SMTP_PORT: 25,
+  SMTP_FROM: 'trading-bot@localhost',
+  SMTP_TIMEOUT: 10 * 1000,
+  WEBHOOK_TIMEOUT: 10 * 1000,
+} as const;
+
+/**
+ * Outbound Telegram delivery constants
+ */
+export const DELIVERY_CONSTANTS = {
+  DIGEST_WINDOW_SECONDS: 3,
+  CHAT_MESSAGES_PER_MINUTE: 20, // Group chat limit
+  MESSAGES_PER_SECOND: 25, // Global limit is 30
+  MAX_ATTEMPTS: 5,
+  MIN_CHAT_INTERVAL: 1000, // One message per second to the same chat
+  RETRY_DELAY: 2 * 1000, // Doubled after each failed attempt
+  MAX_MESSAGE_LENGTH: 4096,
+} as const;
+
+/**
+ * Bot configuration file constants
+ */
+export const CONFIG_CONSTANTS = {
+  BOT_CONFIG_FILE: 'config/bot.config.json',
+  CALENDARS_DIR: 'config/calendars',
+  RELOAD_DEBOUNCE_MS: 250,
 } as const;
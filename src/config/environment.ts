@@ -11,6 +11,7 @@ interface Config {
   // Telegram
   TELEGRAM_BOT_TOKEN: string;
   TELEGRAM_CHAT_ID: string;
+  TELEGRAM_ADMIN_USER_IDS: string[];
   
   // API Keys
   BINANCE_API_KEY: string;
@@ -37,6 +38,13 @@ const getEnvVar = (key: string, defaultValue?: string): string => {
   return value || defaultValue!;
 };
 
+const getEnvList = (key: string): string[] => {
+  return (process.env[key] || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+};
+
 const getEnvNumber = (key: string, defaultValue?: number): number => {
   const value = process.env[key];
   if (!value && defaultValue === undefined) {
@@ -57,6 +65,7 @@ export const config: Config = {
   // Telegram
   TELEGRAM_BOT_TOKEN: getEnvVar('TELEGRAM_BOT_TOKEN'),
   TELEGRAM_CHAT_ID: getEnvVar('TELEGRAM_CHAT_ID'),
+  TELEGRAM_ADMIN_USER_IDS: getEnvList('TELEGRAM_ADMIN_USER_IDS'),
 
   // API Keys
   BINANCE_API_KEY: getEnvVar('BINANCE_API_KEY'),
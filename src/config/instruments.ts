@@ -0,0 +1,73 @@
+/**
+ * Built-in instrument catalogue
+ */
+import { AssetType, Instrument } from '../domain/entities/trading.entities';
+
+export const createCryptoInstrument = (base: string, tickSize: number, pricePrecision: number, quote = 'USDT'): Instrument => ({
+  symbol: `${base}${quote}`,
+  base,
+  quote,
+  assetClass: AssetType.CRYPTO,
+  tickSize,
+  pricePrecision,
+  providerSymbols: {
+    binance: `${base}/${quote}`,
+    ...(quote.startsWith('USD') && { capitalcom: `${base}USD` })
+  }
+});
+
+export const createForexInstrument = (base: string, quote: string): Instrument => ({
+  symbol: `${base}${quote}`,
+  base,
+  quote,
+  assetClass: AssetType.FOREX,
+  tickSize: quote === 'JPY' ? 0.001 : 0.00001,
+  pricePrecision: quote === 'JPY' ? 3 : 5,
+  providerSymbols: { capitalcom: `${base}${quote}` }
+});
+
+export const createCfdInstrument = (symbol: string, assetClass: AssetType, tickSize: number, pricePrecision: number, quote = 'USD'): Instrument => ({
+  symbol,
+  base: symbol,
+  quote,
+  assetClass,
+  tickSize,
+  pricePrecision,
+  providerSymbols: { capitalcom: symbol }
+});
+
+export const INSTRUMENTS: readonly Instrument[] = [
+  createCryptoInstrument('BTC', 0.01, 2),
+  createCryptoInstrument('ETH', 0.01, 2),
+  createCryptoInstrument('BNB', 0.01, 2),
+  createCryptoInstrument('SOL', 0.01, 2),
+  createCryptoInstrument('XRP', 0.0001, 4),
+  createCryptoInstrument('ADA', 0.0001, 4),
+
+  createForexInstrument('EUR', 'USD'),
+  createForexInstrument('GBP', 'USD'),
+  createForexInstrument('AUD', 'USD'),
+  createForexInstrument('NZD', 'USD'),
+  createForexInstrument('USD', 'CAD'),
+  createForexInstrument('USD', 'CHF'),
+  createForexInstrument('USD', 'JPY'),
+  createForexInstrument('EUR', 'GBP'),
+
+  createCfdInstrument('US100', AssetType.INDEX, 0.1, 1),
+  createCfdInstrument('US500', AssetType.INDEX, 0.1, 1),
+  createCfdInstrument('US30', AssetType.INDEX, 0.1, 1),
+  createCfdInstrument('DE40', AssetType.INDEX, 0.1, 1, 'EUR'),
+  createCfdInstrument('GOLD', AssetType.COMMODITY, 0.01, 2),
+  createCfdInstrument('SILVER', AssetType.COMMODITY, 0.001, 3),
+  createCfdInstrument('OIL_CRUDE', AssetType.COMMODITY, 0.01, 2)
+];
+
+/**
+ * Quote currencies recognised when inferring crypto pairs, longest first
+ */
+export const CRYPTO_QUOTE_ASSETS = ['FDUSD', 'USDT', 'USDC', 'BUSD', 'BTC', 'ETH', 'BNB'] as const;
+
+/**
+ * ISO currency codes recognised when inferring forex pairs
+ */
+export const FOREX_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'NZD', 'SEK', 'NOK', 'PLN', 'MXN', 'ZAR', 'TRY', 'SGD', 'HKD'] as const;
@@ -9,13 +9,51 @@ import { Logger } from '../utils/logger';
 import { WinstonLogger } from '../utils/winston-logger';
 import { HealthService } from '../domain/interfaces/health-service.interface';
 import { DefaultHealthService } from '../services/health.service';
+import { Clock } from '../domain/interfaces/clock.interface';
+import { SystemClock } from '../services/clock.service';
+import { BotConfigService } from '../domain/interfaces/bot-config.interface';
+import { FileBotConfigService } from '../services/bot-config.service';
 
 // Market Data
-import { MarketDataProvider, MarketDataCache, RateLimiter, MarketDataProviderConfig } from '../domain/interfaces/market-data.interfaces';
+import { MarketDataProvider, MarketDataCache, RateLimiter, MarketDataProviderConfig, MarketDataProviderRegistry } from '../domain/interfaces/market-data.interfaces';
 import { BinanceMarketDataProvider } from '../data/binance-market-data.provider';
 import { CapitalComMarketDataProvider } from '../data/capitalcom-market-data.provider';
+import { RoutingMarketDataProvider } from '../data/routing-market-data.provider';
+import { DefaultMarketDataProviderRegistry } from '../services/market-data-provider-registry.service';
 import { InMemoryMarketDataCache } from '../services/market-data-cache.service';
 import { TokenBucketRateLimiter } from '../services/rate-limiter.service';
+import { InstrumentRegistry } from '../domain/interfaces/instrument.interface';
+import { DefaultInstrumentRegistry } from '../services/instrument-registry.service';
+import { CandleCloseEventBus } from '../domain/interfaces/candle-close.interface';
+import { StreamingCandleCloseEventBus } from '../services/candle-close-event-bus.service';
+import { TradingCalendar } from '../domain/interfaces/trading-calendar.interface';
+import { FileTradingCalendar } from '../services/trading-calendar.service';
+
+// Storage
+import { SignalJournal } from '../domain/interfaces/signal-journal.interface';
+import { FileSignalJournal } from '../services/file-signal-journal.service';
+import { SignalTracker } from '../domain/interfaces/signal-tracker.interface';
+import { FileSignalTracker } from '../services/file-signal-tracker.service';
+import { SubscriptionStore } from '../domain/interfaces/subscription.interface';
+import { FileSubscriptionStore } from '../services/file-subscription-store.service';
+
+// Signal Processing
+import { CorrelationTracker } from '../domain/interfaces/correlation-tracker.interface';
+import { ReturnsCorrelationTracker } from '../services/correlation-tracker.service';
+import { VolumeAnalyzer } from '../domain/interfaces/volume-analyzer.interface';
+import { KlineVolumeAnalyzer } from '../services/volume-analyzer.service';
+import { ChartService } from '../domain/interfaces/chart.interface';
+import { CandlestickChartService } from '../services/candlestick-chart.service';
+import { ConfidenceModelRegistry } from '../core/scoring/confidence.interfaces';
+import { DefaultConfidenceModelRegistry } from '../core/scoring/confidence-models';
+
+// Notification
+import { NotificationChannel, NotificationService } from '../domain/interfaces/notification.interface';
+import { DefaultNotificationService } from '../services/notification.service';
+import { WebhookNotificationChannel } from '../services/webhook-notification.channel';
+import { EmailNotificationChannel } from '../services/email-notification.channel';
+import { ConsoleNotificationChannel } from '../services/console-notification.channel';
+import { FileNotificationChannel } from '../services/file-notification.channel';
 
 // Indicators
 import { HighLowIndicator } from '../core/indicators/high-low.indicator';
@@ -29,12 +67,26 @@ import { CorrelationCrackStrategyInterface } from '../core/strategies/strategy.i
 import { MessageFormatterService } from '../bot/message-formatter.service';
 import { CorrelationConfigurationService } from '../bot/correlation-configuration.service';
 import { CorrelationStrategyRunnerService, CorrelationStrategyRunnerServiceImpl } from '../bot/correlation-strategy-runner.service';
+import { SignalHistoryService, SignalHistoryServiceImpl } from '../bot/signal-history.service';
+import { PairManagementService, PairManagementServiceImpl } from '../bot/pair-management.service';
+import { CorrelationReportService, CorrelationReportServiceImpl } from '../bot/correlation-report.service';
+import { ChartCommandService, ChartCommandServiceImpl } from '../bot/chart-command.service';
+import { SubscriptionService, SubscriptionServiceImpl } from '../bot/subscription.service';
+import { OutboundQueueService, OutboundQueueServiceImpl } from '../bot/outbound-queue.service';
+import { SignalActionService, SignalActionServiceImpl } from '../bot/signal-action.service';
+
+// Backtesting
+import { BacktestingEngine, PerformanceCalculator } from '../backtesting/backtesting.interfaces';
+import { CorrelationCrackBacktestingEngine } from '../backtesting/backtesting.engine';
+import { DefaultPerformanceCalculator } from '../backtesting/performance.calculator';
 
 export function setupContainer(): Container {
   const container = new Container();
 
   // Core Services
   container.bind<Logger>(TYPES.Logger).to(WinstonLogger).inSingletonScope();
+  container.bind<Clock>(TYPES.Clock).to(SystemClock).inSingletonScope();
+  container.bind<BotConfigService>(TYPES.BotConfigService).to(FileBotConfigService).inSingletonScope();
   container.bind<BotService>(TYPES.BotService).to(TelegramBotService).inSingletonScope();
   container.bind<HealthService>(TYPES.HealthService).to(DefaultHealthService).inSingletonScope();
 
@@ -51,11 +103,33 @@ export function setupContainer(): Container {
   container.bind(CapitalComMarketDataProvider).toSelf().inSingletonScope();
   container.bind<MarketDataProvider>(TYPES.CapitalComProvider).to(CapitalComMarketDataProvider);
 
-  // Set default provider
-  container.bind<MarketDataProvider>(TYPES.MarketDataProvider).toService(TYPES.BinanceProvider);
+  // Route each symbol to the provider of its correlation pair
+  container.bind<MarketDataProviderRegistry>(TYPES.MarketDataProviderRegistry).to(DefaultMarketDataProviderRegistry).inSingletonScope();
+  container.bind<InstrumentRegistry>(TYPES.InstrumentRegistry).to(DefaultInstrumentRegistry).inSingletonScope();
+  container.bind<CandleCloseEventBus>(TYPES.CandleCloseEventBus).to(StreamingCandleCloseEventBus).inSingletonScope();
+  container.bind<TradingCalendar>(TYPES.TradingCalendar).to(FileTradingCalendar).inSingletonScope();
+  container.bind<MarketDataProvider>(TYPES.MarketDataProvider).to(RoutingMarketDataProvider).inSingletonScope();
 
   container.bind<MarketDataCache>(TYPES.MarketDataCache).to(InMemoryMarketDataCache).inSingletonScope();
 
+  // Storage
+  container.bind<SignalJournal>(TYPES.SignalJournal).to(FileSignalJournal).inSingletonScope();
+  container.bind<SignalTracker>(TYPES.SignalTracker).to(FileSignalTracker).inSingletonScope();
+  container.bind<SubscriptionStore>(TYPES.SubscriptionStore).to(FileSubscriptionStore).inSingletonScope();
+
+  // Signal Processing
+  container.bind<CorrelationTracker>(TYPES.CorrelationTracker).to(ReturnsCorrelationTracker).inSingletonScope();
+  container.bind<VolumeAnalyzer>(TYPES.VolumeAnalyzer).to(KlineVolumeAnalyzer).inSingletonScope();
+  container.bind<ChartService>(TYPES.ChartService).to(CandlestickChartService).inSingletonScope();
+  container.bind<ConfidenceModelRegistry>(TYPES.ConfidenceModelRegistry).to(DefaultConfidenceModelRegistry).inSingletonScope();
+
+  // Notification
+  container.bind<NotificationChannel>(TYPES.WebhookNotificationChannel).to(WebhookNotificationChannel).inSingletonScope();
+  container.bind<NotificationChannel>(TYPES.EmailNotificationChannel).to(EmailNotificationChannel).inSingletonScope();
+  container.bind<NotificationChannel>(TYPES.ConsoleNotificationChannel).to(ConsoleNotificationChannel).inSingletonScope();
+  container.bind<NotificationChannel>(TYPES.FileNotificationChannel).to(FileNotificationChannel).inSingletonScope();
+  container.bind<NotificationService>(TYPES.NotificationService).to(DefaultNotificationService).inSingletonScope();
+
   // Indicators
   container.bind<HighLowIndicatorInterface>(TYPES.HighLowIndicator).to(HighLowIndicator).inSingletonScope();
 
@@ -66,6 +140,17 @@ export function setupContainer(): Container {
   container.bind<MessageFormatterService>(TYPES.MessageFormatterService).to(MessageFormatterService).inSingletonScope();
   container.bind<CorrelationConfigurationService>(TYPES.CorrelationConfigurationService).to(CorrelationConfigurationService).inSingletonScope();
   container.bind<CorrelationStrategyRunnerService>(TYPES.CorrelationStrategyRunnerService).to(CorrelationStrategyRunnerServiceImpl).inSingletonScope();
+  container.bind<SignalHistoryService>(TYPES.SignalHistoryService).to(SignalHistoryServiceImpl).inSingletonScope();
+  container.bind<PairManagementService>(TYPES.PairManagementService).to(PairManagementServiceImpl).inSingletonScope();
+  container.bind<CorrelationReportService>(TYPES.CorrelationReportService).to(CorrelationReportServiceImpl).inSingletonScope();
+  container.bind<SubscriptionService>(TYPES.SubscriptionService).to(SubscriptionServiceImpl).inSingletonScope();
+  container.bind<ChartCommandService>(TYPES.ChartCommandService).to(ChartCommandServiceImpl).inSingletonScope();
+  container.bind<OutboundQueueService>(TYPES.OutboundQueueService).to(OutboundQueueServiceImpl).inSingletonScope();
+  container.bind<SignalActionService>(TYPES.SignalActionService).to(SignalActionServiceImpl).inSingletonScope();
+
+  // Backtesting
+  container.bind<PerformanceCalculator>(TYPES.PerformanceCalculator).to(DefaultPerformanceCalculator).inSingletonScope();
+  container.bind<BacktestingEngine>(TYPES.BacktestingEngine).to(CorrelationCrackBacktestingEngine).inSingletonScope();
 
   return container;
 }
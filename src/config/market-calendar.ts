@@ -0,0 +1,125 @@
+/**
+ * Market calendar file validation
+ */
+import { AssetType } from '../domain/entities/trading.entities';
+import { CalendarHalfDay, CalendarHoliday, MarketCalendar } from '../domain/interfaces/trading-calendar.interface';
+import { isValidTimezone } from './bot-config';
+
+/**
+ * Calendar file content that failed validation. Lists every problem found.
+ */
+export class MarketCalendarValidationError extends Error {
+  constructor(public readonly issues: string[], source?: string) {
+    super(`Invalid market calendar${source ? ` in ${source}` : ''}:\n- ${issues.join('\n- ')}`);
+    this.name = 'MarketCalendarValidationError';
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+/**
+ * Minutes after midnight of an HH:MM time
+ */
+export function parseCalendarTime(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function validateDays<T extends CalendarHoliday>(raw: unknown, key: string, issues: string[], withClose: boolean): T[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    issues.push(`${key} must be an array`);
+    return [];
+  }
+
+  const days: T[] = [];
+  raw.forEach((entry, index) => {
+    const path = `${key}[${index}]`;
+    if (!isObject(entry) || !isNonEmptyString(entry.date) || !DATE_PATTERN.test(entry.date)) {
+      issues.push(`${path}.date must be a YYYY-MM-DD date`);
+      return;
+    }
+    if (withClose && (!isNonEmptyString(entry.close) || !TIME_PATTERN.test(entry.close))) {
+      issues.push(`${path}.close must be an HH:MM time`);
+      return;
+    }
+    days.push({
+      date: entry.date,
+      name: isNonEmptyString(entry.name) ? entry.name : entry.date,
+      ...(withClose && { close: entry.close })
+    } as T);
+  });
+  return days;
+}
+
+/**
+ * Validate parsed calendar file content
+ */
+export function validateMarketCalendar(raw: unknown, source?: string): MarketCalendar {
+  if (!isObject(raw)) {
+    throw new MarketCalendarValidationError(['calendar must be a JSON object'], source);
+  }
+
+  const issues: string[] = [];
+  if (!isNonEmptyString(raw.id)) issues.push('id must be a non-empty string');
+  if (!isNonEmptyString(raw.timezone) || !isValidTimezone(raw.timezone)) issues.push('timezone must be a known IANA timezone');
+
+  for (const key of ['open', 'close']) {
+    const value = raw[key];
+    if (!isNonEmptyString(value) || !TIME_PATTERN.test(value)) issues.push(`${key} must be an HH:MM time`);
+  }
+  const opensPreviousDay = raw.opensPreviousDay ?? false;
+  if (typeof opensPreviousDay !== 'boolean') {
+    issues.push('opensPreviousDay must be true or false');
+  } else if (!opensPreviousDay && isNonEmptyString(raw.open) && isNonEmptyString(raw.close)
+    && parseCalendarTime(raw.open) >= parseCalendarTime(raw.close)) {
+    issues.push(`open (${raw.open}) must be before close (${raw.close})`);
+  }
+
+  const tradingDays = raw.tradingDays;
+  if (!Array.isArray(tradingDays) || tradingDays.length === 0 || !tradingDays.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    issues.push('tradingDays must list weekdays from 0 (Sunday) to 6 (Saturday)');
+  }
+
+  const assetClasses = raw.assetClasses ?? [];
+  if (!Array.isArray(assetClasses) || !assetClasses.every(assetClass => Object.values(AssetType).includes(assetClass))) {
+    issues.push(`assetClasses must list values from ${Object.values(AssetType).join(', ')}`);
+  }
+
+  const symbols = raw.symbols ?? [];
+  if (!Array.isArray(symbols) || !symbols.every(isNonEmptyString)) {
+    issues.push('symbols must list instrument symbols');
+  }
+
+  const holidays = validateDays<CalendarHoliday>(raw.holidays, 'holidays', issues, false);
+  const halfDays = validateDays<CalendarHalfDay>(raw.halfDays, 'halfDays', issues, true);
+
+  if (issues.length > 0) {
+    throw new MarketCalendarValidationError(issues, source);
+  }
+
+  return {
+    id: raw.id as string,
+    name: isNonEmptyString(raw.name) ? raw.name : raw.id as string,
+    timezone: raw.timezone as string,
+    assetClasses: assetClasses as AssetType[],
+    symbols: (symbols as string[]).map(symbol => symbol.toUpperCase()),
+    tradingDays: tradingDays as number[],
+    open: raw.open as string,
+    close: raw.close as string,
+    opensPreviousDay: opensPreviousDay as boolean,
+    holidays,
+    halfDays
+  };
+}
@@ -2,9 +2,15 @@ export const TYPES = {
   // Core Services
   BotService: Symbol.for('BotService'),
   Logger: Symbol.for('Logger'),
+  Clock: Symbol.for('Clock'),
+  BotConfigService: Symbol.for('BotConfigService'),
   
   // Market Data
   MarketDataProvider: Symbol.for('MarketDataProvider'),
+  MarketDataProviderRegistry: Symbol.for('MarketDataProviderRegistry'),
+  InstrumentRegistry: Symbol.for('InstrumentRegistry'),
+  CandleCloseEventBus: Symbol.for('CandleCloseEventBus'),
+  TradingCalendar: Symbol.for('TradingCalendar'),
   BinanceProvider: Symbol.for('BinanceProvider'),
   BinanceConfig: Symbol.for('BinanceConfig'),
   CapitalComProvider: Symbol.for('CapitalComProvider'),
@@ -14,6 +20,7 @@ export const TYPES = {
   SignalProcessor: Symbol.for('SignalProcessor'),
   CorrelationTracker: Symbol.for('CorrelationTracker'),
   VolumeAnalyzer: Symbol.for('VolumeAnalyzer'),
+  ConfidenceModelRegistry: Symbol.for('ConfidenceModelRegistry'),
   
   // Indicators
   HighLowIndicator: Symbol.for('HighLowIndicator'),
@@ -23,12 +30,21 @@ export const TYPES = {
   
   // Notification
   NotificationService: Symbol.for('NotificationService'),
+  WebhookNotificationChannel: Symbol.for('WebhookNotificationChannel'),
+  EmailNotificationChannel: Symbol.for('EmailNotificationChannel'),
+  ConsoleNotificationChannel: Symbol.for('ConsoleNotificationChannel'),
+  FileNotificationChannel: Symbol.for('FileNotificationChannel'),
   ChartService: Symbol.for('ChartService'),
   
   // Backtesting
   BacktestingEngine: Symbol.for('BacktestingEngine'),
   PerformanceCalculator: Symbol.for('PerformanceCalculator'),
   
+  // Storage
+  SignalJournal: Symbol.for('SignalJournal'),
+  SignalTracker: Symbol.for('SignalTracker'),
+  SubscriptionStore: Symbol.for('SubscriptionStore'),
+
   // Cache
   CacheService: Symbol.for('CacheService'),
   MarketDataCache: Symbol.for('MarketDataCache'),
@@ -43,4 +59,11 @@ export const TYPES = {
   MessageFormatterService: Symbol.for('MessageFormatterService'),
   CorrelationConfigurationService: Symbol.for('CorrelationConfigurationService'),
   CorrelationStrategyRunnerService: Symbol.for('CorrelationStrategyRunnerService'),
+  SignalHistoryService: Symbol.for('SignalHistoryService'),
+  PairManagementService: Symbol.for('PairManagementService'),
+  CorrelationReportService: Symbol.for('CorrelationReportService'),
+  SubscriptionService: Symbol.for('SubscriptionService'),
+  ChartCommandService: Symbol.for('ChartCommandService'),
+  OutboundQueueService: Symbol.for('OutboundQueueService'),
+  SignalActionService: Symbol.for('SignalActionService'),
 } as const;
@@ -6,13 +6,24 @@ import { HighLowIndicator } from '../high-low.indicator';
 import { HighLowIndicatorConfig, PeriodSpec } from '../indicator.interfaces';
 import { Kline } from '../../../domain/interfaces/market-data.interfaces';
 import { Logger } from '../../../utils/logger';
+import { ManualClock } from '../../../services/clock.service';
+import { FileTradingCalendar } from '../../../services/trading-calendar.service';
+import { DefaultInstrumentRegistry } from '../../../services/instrument-registry.service';
+import { TradingCalendar } from '../../../domain/interfaces/trading-calendar.interface';
+import { getDateKey } from '../../../utils/date-helpers';
 
 describe('HighLowIndicator', () => {
   let indicator: HighLowIndicator;
   let mockLogger: jest.Mocked<Logger>;
+  let clock: ManualClock;
+  let calendar: TradingCalendar;
 
   beforeEach(() => {
-    indicator = new HighLowIndicator();
+    mockLogger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } as jest.Mocked<Logger>;
+    // No calendars loaded: every market trades around the clock
+    calendar = new FileTradingCalendar(mockLogger, new DefaultInstrumentRegistry());
+    clock = new ManualClock(new Date(2025, 0, 15, 12, 0, 0)); // Wednesday noon, server time
+    indicator = new HighLowIndicator(clock, calendar);
   });
 
   describe('getName', () => {
@@ -125,7 +136,7 @@ describe('HighLowIndicator', () => {
       expect(result.low).toBe(90);
       expect(result.range).toBe(30);
       expect(result.rangePercent).toBeCloseTo(33.33, 2);
-      expect(result.calculatedAt).toBeInstanceOf(Date);
+      expect(result.calculatedAt).toEqual(clock.now());
     });
 
     it('should calculate body high/low when useBodyHighLow is true', async () => {
@@ -144,7 +155,7 @@ describe('HighLowIndicator', () => {
 
     it('should handle prev_day period', async () => {
       // Create data that spans yesterday and today
-      const now = new Date();
+      const now = clock.now();
       const yesterday = new Date(now);
       yesterday.setDate(yesterday.getDate() - 1);
       yesterday.setHours(10, 0, 0, 0); // 10 AM yesterday
@@ -174,6 +185,141 @@ describe('HighLowIndicator', () => {
       expect(result.low).toBe(180);
     });
 
+    it('should resolve prev_day relative to the injected clock', async () => {
+      const dayBefore = new Date(2025, 0, 14, 10, 0, 0);
+      const data: Kline[] = [
+        {
+          symbol: 'BTC/USDT',
+          openTime: dayBefore,
+          closeTime: new Date(dayBefore.getTime() + 3600000),
+          open: 200,
+          high: 250,
+          low: 180,
+          close: 220,
+          volume: 1000,
+          trades: 50
+        }
+      ];
+      const config: HighLowIndicatorConfig = {
+        symbol: 'BTC/USDT',
+        period: 'prev_day'
+      };
+
+      await expect(indicator.calculate(data, config)).resolves.toMatchObject({ high: 250, low: 180 });
+
+      clock.advance(24 * 3600000);
+      await expect(indicator.calculate(data, config)).rejects.toThrow('No data available for period');
+    });
+
+    it('should resolve prev_day in the configured timezone across a DST switchover', async () => {
+      const kline = (openTime: string, high: number): Kline => ({
+        symbol: 'US100',
+        openTime: new Date(openTime),
+        closeTime: new Date(new Date(openTime).getTime() + 1800000),
+        open: 100,
+        high,
+        low: 90,
+        close: 95,
+        volume: 1000,
+        trades: 50
+      });
+      // Sunday 2026-03-08 in New York runs from 05:00Z to 04:00Z the next day (23 hours)
+      const data = [
+        kline('2026-03-08T04:00:00Z', 300), // Saturday 23:00 EST
+        kline('2026-03-08T05:00:00Z', 110), // Sunday 00:00 EST
+        kline('2026-03-09T03:00:00Z', 120), // Sunday 23:00 EDT
+        kline('2026-03-09T04:00:00Z', 400)  // Monday 00:00 EDT
+      ];
+      const marchClock = new ManualClock(new Date('2026-03-09T15:00:00Z'));
+      const marchIndicator = new HighLowIndicator(marchClock, calendar);
+
+      const result = await marchIndicator.calculate(data, {
+        symbol: 'US100',
+        period: 'prev_day',
+        timezone: 'America/New_York'
+      });
+
+      expect(result.high).toBe(120);
+    });
+
+    it('should resolve prev_day to the previous trading session over weekends and holidays', async () => {
+      const closedDays = new Set(['2026-01-17', '2026-01-18', '2026-01-19']); // Weekend and Martin Luther King Jr. Day
+      const usCalendar = {
+        isTradingDay: jest.fn((_symbol: string, date: Date) => !closedDays.has(getDateKey(date, 'America/New_York')))
+      } as unknown as TradingCalendar;
+      const kline = (openTime: string, high: number): Kline => ({
+        symbol: 'US100',
+        openTime: new Date(openTime),
+        closeTime: new Date(new Date(openTime).getTime() + 1800000),
+        open: 100,
+        high,
+        low: 90,
+        close: 95,
+        volume: 1000,
+        trades: 50
+      });
+      const data = [
+        kline('2026-01-16T15:00:00Z', 210), // Friday
+        kline('2026-01-19T15:00:00Z', 500), // Holiday, thin overnight quotes
+        kline('2026-01-20T15:00:00Z', 230)  // Tuesday
+      ];
+      const tuesdayIndicator = new HighLowIndicator(new ManualClock(new Date('2026-01-20T16:00:00Z')), usCalendar);
+
+      const result = await tuesdayIndicator.calculate(data, {
+        symbol: 'US100',
+        period: 'prev_day',
+        timezone: 'America/New_York'
+      });
+
+      expect(result.high).toBe(210);
+      expect(usCalendar.isTradingDay).toHaveBeenCalledWith('US100', expect.any(Date));
+    });
+
+    it('should take the session range from the latest complete occurrence only', async () => {
+      const london = { type: 'time_session' as const, startHour: 3, endHour: 8, timezone: 'America/New_York' };
+      const kline = (openTime: string, high: number): Kline => ({
+        symbol: 'EURUSD',
+        openTime: new Date(openTime),
+        closeTime: new Date(new Date(openTime).getTime() + 3600000),
+        open: 1,
+        high,
+        low: 0.5,
+        close: 0.9,
+        volume: 1000,
+        trades: 50
+      });
+      const data = [
+        kline('2026-01-19T09:00:00Z', 5), // Monday 04:00 EST
+        kline('2026-01-20T08:00:00Z', 3), // Tuesday 03:00 EST
+        kline('2026-01-20T12:00:00Z', 2), // Tuesday 07:00 EST
+        kline('2026-01-20T13:00:00Z', 9), // Tuesday 08:00 EST, trading window
+        kline('2026-01-21T08:00:00Z', 7)  // Wednesday 03:00 EST, session in progress
+      ];
+      const tuesdayIndicator = new HighLowIndicator(new ManualClock(new Date('2026-01-20T16:00:00Z')), calendar);
+      const wednesdayIndicator = new HighLowIndicator(new ManualClock(new Date('2026-01-21T09:00:00Z')), calendar);
+
+      await expect(tuesdayIndicator.calculate(data, { symbol: 'EURUSD', period: london })).resolves.toMatchObject({ high: 3 });
+      await expect(wednesdayIndicator.calculate(data, { symbol: 'EURUSD', period: london })).resolves.toMatchObject({ high: 3 });
+    });
+
+    it('should skip session occurrences without data', async () => {
+      const london = { type: 'time_session' as const, startHour: 3, endHour: 8, timezone: 'America/New_York' };
+      const data: Kline[] = [{
+        symbol: 'EURUSD',
+        openTime: new Date('2026-01-16T09:00:00Z'), // Friday 04:00 EST
+        closeTime: new Date('2026-01-16T10:00:00Z'),
+        open: 1,
+        high: 4,
+        low: 0.5,
+        close: 0.9,
+        volume: 1000,
+        trades: 50
+      }];
+      const mondayIndicator = new HighLowIndicator(new ManualClock(new Date('2026-01-19T02:00:00Z')), calendar);
+
+      await expect(mondayIndicator.calculate(data, { symbol: 'EURUSD', period: london })).resolves.toMatchObject({ high: 4 });
+    });
+
     it('should handle custom period', async () => {
       const customStart = new Date('2023-01-01T00:00:00Z');
       const customEnd = new Date('2023-01-01T03:00:00Z');
@@ -244,7 +390,7 @@ describe('HighLowIndicator', () => {
 
     it('should handle prev_week period correctly', async () => {
       // Create data for previous week
-      const now = new Date();
+      const now = clock.now();
       const currentDayOfWeek = now.getDay();
       const mondayOffset = currentDayOfWeek === 0 ? 6 : currentDayOfWeek - 1;
       
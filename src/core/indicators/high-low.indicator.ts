@@ -2,6 +2,7 @@
  * High/Low Indicator implementation
  * Calculates highest and lowest prices for specified time periods
  */
+import { injectable, inject } from 'inversify';
 import { 
   HighLowIndicatorInterface, 
   HighLowResult, 
@@ -12,9 +13,18 @@ import {
 } from './indicator.interfaces';
 import { Kline } from '../../domain/interfaces/market-data.interfaces';
 import { TIME_CONSTANTS, TRADING_CONSTANTS } from '../../config/constants';
-import { isWithinSession } from '../../utils/date-helpers';
+import { getCompletedSessions, startOfZonedDay, startOfZonedMonth, startOfZonedWeek } from '../../utils/date-helpers';
+import { Clock } from '../../domain/interfaces/clock.interface';
+import { TYPES } from '../../config/types';
+import { TradingCalendar } from '../../domain/interfaces/trading-calendar.interface';
 
+@injectable()
 export class HighLowIndicator implements HighLowIndicatorInterface {
+  constructor(
+    @inject(TYPES.Clock) private clock: Clock,
+    @inject(TYPES.TradingCalendar) private calendar: TradingCalendar
+  ) {}
+
   getName(): string {
     return 'HighLowIndicator';
   }
@@ -31,7 +41,7 @@ export class HighLowIndicator implements HighLowIndicatorInterface {
       throw new Error('Invalid data provided to HighLowIndicator');
     }
 
-    const filteredData = this.filterDataByPeriod(data, config.period, config.timezone);
+    const filteredData = this.filterDataByPeriod(data, config.symbol, config.period, config.timezone);
     
     if (filteredData.length === 0) {
       throw new Error(`No data available for period: ${JSON.stringify(config.period)}`);
@@ -65,13 +75,13 @@ export class HighLowIndicator implements HighLowIndicatorInterface {
   /**
    * Filter data based on the specified period
    */
-  private filterDataByPeriod(data: Kline[], period: PeriodSpec, timezone?: string): Kline[] {
-    const now = new Date();
+  private filterDataByPeriod(data: Kline[], symbol: string, period: PeriodSpec, timezone?: string): Kline[] {
+    const now = this.clock.now();
     const effectiveTimezone = timezone || TRADING_CONSTANTS.DEFAULT_TIMEZONE;
     
     switch (period) {
       case 'prev_day':
-        return this.getPreviousDayData(data, now, effectiveTimezone);
+        return this.getPreviousDayData(data, symbol, now, effectiveTimezone);
       
       case 'prev_week':
         return this.getPreviousWeekData(data, now, effectiveTimezone);
@@ -97,7 +107,7 @@ export class HighLowIndicator implements HighLowIndicatorInterface {
         } else if (period.type === 'rolling') {
           return this.getRollingPeriodData(data, period.periods, period.interval);
         } else if (period.type === 'time_session') {
-          return this.getSessionPeriodData(data, period, effectiveTimezone);
+          return this.getSessionPeriodData(data, period, now, effectiveTimezone);
         }
         
         throw new Error(`Unsupported period type: ${JSON.stringify(period)}`);
@@ -105,64 +115,39 @@ export class HighLowIndicator implements HighLowIndicatorInterface {
   }
 
   /**
-   * Get data for the previous complete day
+   * Get data for the previous trading day of the symbol's market in the timezone,
+   * skipping weekends and exchange holidays
    */
-  private getPreviousDayData(data: Kline[], now: Date, timezone: string): Kline[] {
-    const yesterdayStart = new Date(now);
-    yesterdayStart.setDate(yesterdayStart.getDate() - 1);
-    yesterdayStart.setHours(0, 0, 0, 0);
-    
-    const yesterdayEnd = new Date(yesterdayStart);
-    yesterdayEnd.setHours(23, 59, 59, 999);
+  private getPreviousDayData(data: Kline[], symbol: string, now: Date, timezone: string): Kline[] {
+    let offset = -1;
+    while (offset > -TRADING_CONSTANTS.MAX_NON_TRADING_DAYS) {
+      const midday = new Date(startOfZonedDay(now, timezone, offset).getTime() + TIME_CONSTANTS.DAY / 2);
+      if (this.calendar.isTradingDay(symbol, midday)) break;
+      offset--;
+    }
 
-    return data.filter(kline => 
-      kline.openTime >= yesterdayStart && kline.closeTime <= yesterdayEnd
-    );
+    return this.getDataBetween(data, startOfZonedDay(now, timezone, offset), startOfZonedDay(now, timezone, offset + 1));
   }
 
   /**
-   * Get data for the previous complete week (Monday to Sunday)
+   * Get data for the previous complete week (Monday to Sunday) in the timezone
    */
   private getPreviousWeekData(data: Kline[], now: Date, timezone: string): Kline[] {
-    const currentDayOfWeek = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    const mondayOffset = currentDayOfWeek === 0 ? 6 : currentDayOfWeek - 1;
-    
-    // Start of current week (Monday)
-    const currentWeekStart = new Date(now);
-    currentWeekStart.setDate(currentWeekStart.getDate() - mondayOffset);
-    currentWeekStart.setHours(0, 0, 0, 0);
-    
-    // Start of previous week
-    const prevWeekStart = new Date(currentWeekStart);
-    prevWeekStart.setDate(prevWeekStart.getDate() - 7);
-    
-    // End of previous week (Sunday)
-    const prevWeekEnd = new Date(currentWeekStart);
-    prevWeekEnd.setMilliseconds(-1);
-
-    return data.filter(kline => 
-      kline.openTime >= prevWeekStart && kline.closeTime <= prevWeekEnd
-    );
+    return this.getDataBetween(data, startOfZonedWeek(now, timezone, -1), startOfZonedWeek(now, timezone));
   }
 
   /**
-   * Get data for the previous complete month
+   * Get data for the previous complete month in the timezone
    */
   private getPreviousMonthData(data: Kline[], now: Date, timezone: string): Kline[] {
-    const prevMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-    const prevMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59, 999);
-
-    return data.filter(kline => 
-      kline.openTime >= prevMonthStart && kline.closeTime <= prevMonthEnd
-    );
+    return this.getDataBetween(data, startOfZonedMonth(now, timezone, -1), startOfZonedMonth(now, timezone));
   }
 
   /**
    * Get data for the current day
    */
   private getCurrentDayData(data: Kline[], now: Date, timezone: string): Kline[] {
-    const todayStart = new Date(now);
-    todayStart.setHours(0, 0, 0, 0);
+    const todayStart = startOfZonedDay(now, timezone);
 
     return data.filter(kline => kline.openTime >= todayStart);
   }
@@ -171,12 +156,7 @@ export class HighLowIndicator implements HighLowIndicatorInterface {
    * Get data for the current week
    */
   private getCurrentWeekData(data: Kline[], now: Date, timezone: string): Kline[] {
-    const currentDayOfWeek = now.getDay();
-    const mondayOffset = currentDayOfWeek === 0 ? 6 : currentDayOfWeek - 1;
-    
-    const weekStart = new Date(now);
-    weekStart.setDate(weekStart.getDate() - mondayOffset);
-    weekStart.setHours(0, 0, 0, 0);
+    const weekStart = startOfZonedWeek(now, timezone);
 
     return data.filter(kline => kline.openTime >= weekStart);
   }
@@ -185,11 +165,18 @@ export class HighLowIndicator implements HighLowIndicatorInterface {
    * Get data for the current month
    */
   private getCurrentMonthData(data: Kline[], now: Date, timezone: string): Kline[] {
-    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const monthStart = startOfZonedMonth(now, timezone);
 
     return data.filter(kline => kline.openTime >= monthStart);
   }
 
+  /**
+   * Klines that opened at or after `start` and closed before `end`
+   */
+  private getDataBetween(data: Kline[], start: Date, end: Date): Kline[] {
+    return data.filter(kline => kline.openTime >= start && kline.closeTime < end);
+  }
+
   /**
    * Get data for a standard interval (most recent N periods)
    */
@@ -220,10 +207,15 @@ export class HighLowIndicator implements HighLowIndicatorInterface {
   }
 
   /**
-   * Get data for a specific time session (e.g., London session 3am-8am NY time)
+   * Get data for the latest complete occurrence of a time session (e.g., London session 3am-8am NY time).
+   * A session still in progress is not used, and days without data (weekends, holidays) are skipped.
    */
-  private getSessionPeriodData(data: Kline[], session: SessionSpec, timezone?: string): Kline[] {
-    return data.filter(kline => isWithinSession(kline.openTime, session, timezone));
+  private getSessionPeriodData(data: Kline[], session: SessionSpec, now: Date, timezone?: string): Kline[] {
+    for (const { start, end } of getCompletedSessions(now, session, timezone, TRADING_CONSTANTS.MAX_NON_TRADING_DAYS)) {
+      const sessionData = data.filter(kline => kline.openTime >= start && kline.openTime < end);
+      if (sessionData.length > 0) return sessionData;
+    }
+    return [];
   }
 
   /**
@@ -279,7 +271,9 @@ export class HighLowIndicator implements HighLowIndicatorInterface {
       lowTime,
       range,
       rangePercent,
-      calculatedAt: new Date()
+      periodStart: data[0].openTime,
+      periodEnd: data[data.length - 1].closeTime,
+      calculatedAt: this.clock.now()
     };
   }
 
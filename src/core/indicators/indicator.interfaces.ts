@@ -32,6 +32,8 @@ export interface HighLowResult {
   lowTime: Date;
   range: number;
   rangePercent: number;
+  periodStart?: Date; // Open time of the first bar in the period
+  periodEnd?: Date; // Close time of the last bar in the period
   calculatedAt: Date;
 }
 
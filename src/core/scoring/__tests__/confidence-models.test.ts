@@ -0,0 +1,113 @@
+import { AdditiveConfidenceModel, DefaultConfidenceModelRegistry } from '../confidence-models';
+import { correlationFactor, distanceFactor, sessionTimingFactor, volumeFactor } from '../confidence-factors';
+import { ConfidenceContext, ConfidenceFactor } from '../confidence.interfaces';
+import { CrossDirection, ReferenceLevelType } from '../../strategies/strategy.interfaces';
+import { VolumeAnalysis } from '../../../domain/interfaces/volume-analyzer.interface';
+
+const context: ConfidenceContext = {
+  config: { primaryAssets: ['BTCUSDT', 'ETHUSDT'], period: 'prev_day', direction: CrossDirection.CROSS_UNDER },
+  triggerAsset: {
+    symbol: 'BTCUSDT',
+    hasCrossed: true,
+    crossDirection: CrossDirection.CROSS_UNDER,
+    currentPrice: 99000,
+    referenceLevel: 100000,
+    referenceLevelType: ReferenceLevelType.HLS,
+    crossTime: new Date('2026-03-09T14:00:00Z')
+  },
+  correlatedAssets: [{
+    symbol: 'ETHUSDT',
+    hasCrossed: false,
+    currentPrice: 3100,
+    referenceLevel: 3000,
+    referenceLevelType: ReferenceLevelType.HLS
+  }],
+  evaluatedAt: new Date('2026-03-09T14:05:00Z')
+};
+
+const volume: VolumeAnalysis = {
+  symbol: 'BTCUSDT',
+  barTime: new Date('2026-03-09T14:00:00Z'),
+  volume: 300,
+  averageVolume: 100,
+  relativeVolume: 3,
+  atr: 500,
+  atrPercent: 0.005,
+  barRange: 1000,
+  rangeExpansion: 2
+};
+
+describe('confidence factors', () => {
+  it('should reward separation of the correlated assets from their level', () => {
+    expect(distanceFactor.contribute(context)).toBeCloseTo(0.0667, 3);
+  });
+
+  it('should skip the volume factor without volume data', () => {
+    expect(volumeFactor.contribute(context)).toBeUndefined();
+    expect(volumeFactor.contribute({ ...context, volume })).toBeCloseTo(0.15);
+    expect(volumeFactor.contribute({ ...context, volume: { ...volume, relativeVolume: 0.2 } })).toBeCloseTo(-0.08);
+  });
+
+  it('should decay with the time since the reference session ended', () => {
+    expect(sessionTimingFactor.contribute(context)).toBeUndefined();
+    expect(sessionTimingFactor.contribute({ ...context, sessionEnd: new Date('2026-03-09T14:00:00Z') })).toBeCloseTo(0.05);
+    expect(sessionTimingFactor.contribute({ ...context, sessionEnd: new Date('2026-03-09T10:00:00Z') })).toBeCloseTo(0);
+    expect(sessionTimingFactor.contribute({ ...context, sessionEnd: new Date('2026-03-08T14:00:00Z') })).toBeCloseTo(-0.05);
+  });
+
+  it('should compare the correlation with the weak threshold of the filter', () => {
+    const filter = { method: 'pearson' as const, window: 50, minCorrelation: 0.3, weakCorrelation: 0.6 };
+
+    expect(correlationFactor.contribute({ ...context, correlation: 0.8 })).toBeUndefined();
+    expect(correlationFactor.contribute({ ...context, config: { ...context.config, correlationFilter: filter }, correlation: 0.8 })).toBeCloseTo(0.1);
+    expect(correlationFactor.contribute({ ...context, config: { ...context.config, correlationFilter: filter }, correlation: 0.4 })).toBeCloseTo(-0.1);
+  });
+});
+
+describe('AdditiveConfidenceModel', () => {
+  it('should add the factor contributions to the base and list them', () => {
+    const factors: ConfidenceFactor[] = [
+      { name: 'first', label: 'First', contribute: () => 0.3 },
+      { name: 'missing', label: 'Missing', contribute: () => undefined },
+      { name: 'second', label: 'Second', contribute: () => -0.1 }
+    ];
+
+    const score = new AdditiveConfidenceModel('test', 0.5, factors).score(context);
+
+    expect(score.confidence).toBeCloseTo(0.7);
+    expect(score.breakdown).toEqual({
+      model: 'test',
+      base: 0.5,
+      contributions: [
+        { factor: 'first', label: 'First', contribution: 0.3 },
+        { factor: 'second', label: 'Second', contribution: -0.1 }
+      ]
+    });
+  });
+
+  it('should clamp the confidence to 0-1', () => {
+    const model = new AdditiveConfidenceModel('test', 0.5, [{ name: 'boost', label: 'Boost', contribute: () => 0.8 }]);
+
+    expect(model.score(context).confidence).toBe(1);
+  });
+});
+
+describe('DefaultConfidenceModelRegistry', () => {
+  const registry = new DefaultConfidenceModelRegistry();
+
+  it('should return the default model without a name', () => {
+    expect(registry.get().name).toBe('default');
+    expect(registry.getNames()).toEqual(['default', 'classic']);
+  });
+
+  it('should score volume only in the default model', () => {
+    const withVolume = { ...context, volume };
+
+    expect(registry.get('default').score(withVolume).confidence)
+      .toBeGreaterThan(registry.get('classic').score(withVolume).confidence);
+  });
+
+  it('should reject unknown models', () => {
+    expect(() => registry.get('neural')).toThrow('Confidence model not registered: neural');
+  });
+});
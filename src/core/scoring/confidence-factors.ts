@@ -0,0 +1,109 @@
+/**
+ * Confidence factors of the correlation crack strategy
+ */
+import { ConfidenceFactor } from './confidence.interfaces';
+import { STRATEGY_CONSTANTS } from '../../config/constants';
+
+const MILLISECONDS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * More correlated assets holding the level = higher confidence
+ */
+export const assetCountFactor: ConfidenceFactor = {
+  name: 'asset_count',
+  label: 'Assets holding',
+  contribute: ({ correlatedAssets }) =>
+    (correlatedAssets.length - 1) * STRATEGY_CONSTANTS.CONFIDENCE_INCREMENT_PER_ASSET
+};
+
+/**
+ * Greater separation of the correlated assets from their level = higher confidence
+ */
+export const distanceFactor: ConfidenceFactor = {
+  name: 'distance',
+  label: 'Distance from level',
+  contribute: ({ correlatedAssets }) => {
+    if (correlatedAssets.length === 0) return undefined;
+
+    const averageDistance = correlatedAssets.reduce(
+      (sum, asset) => sum + Math.abs(asset.currentPrice - asset.referenceLevel) / asset.referenceLevel,
+      0
+    ) / correlatedAssets.length;
+    return Math.min(
+      averageDistance * STRATEGY_CONSTANTS.DISTANCE_CONFIDENCE_MULTIPLIER,
+      STRATEGY_CONSTANTS.MAX_DISTANCE_CONFIDENCE_BOOST
+    );
+  }
+};
+
+/**
+ * A crack on a volume surge beats one on dead volume
+ */
+export const volumeFactor: ConfidenceFactor = {
+  name: 'volume',
+  label: 'Relative volume',
+  contribute: ({ volume }) => {
+    if (!volume || !Number.isFinite(volume.relativeVolume)) return undefined;
+    return clamp(
+      (volume.relativeVolume - 1) * STRATEGY_CONSTANTS.VOLUME_CONFIDENCE_MULTIPLIER,
+      -STRATEGY_CONSTANTS.MAX_VOLUME_CONFIDENCE_PENALTY,
+      STRATEGY_CONSTANTS.MAX_VOLUME_CONFIDENCE_BOOST
+    );
+  }
+};
+
+/**
+ * A wide crack bar relative to the ATR shows conviction
+ */
+export const rangeExpansionFactor: ConfidenceFactor = {
+  name: 'range_expansion',
+  label: 'Range expansion',
+  contribute: ({ volume }) => {
+    if (!volume || !Number.isFinite(volume.rangeExpansion)) return undefined;
+    return clamp(
+      (volume.rangeExpansion - 1) * STRATEGY_CONSTANTS.RANGE_EXPANSION_CONFIDENCE_MULTIPLIER,
+      -STRATEGY_CONSTANTS.MAX_RANGE_EXPANSION_CONFIDENCE_PENALTY,
+      STRATEGY_CONSTANTS.MAX_RANGE_EXPANSION_CONFIDENCE_BOOST
+    );
+  }
+};
+
+/**
+ * Cracks soon after the reference session ends are fresher than cracks hours later
+ */
+export const sessionTimingFactor: ConfidenceFactor = {
+  name: 'session_timing',
+  label: 'Time since session end',
+  contribute: ({ sessionEnd, triggerAsset, evaluatedAt }) => {
+    if (!sessionEnd) return undefined;
+
+    const crackTime = triggerAsset.crossTime ?? evaluatedAt;
+    const hoursSinceEnd = Math.max(crackTime.getTime() - sessionEnd.getTime(), 0) / MILLISECONDS_PER_HOUR;
+    return clamp(
+      STRATEGY_CONSTANTS.MAX_SESSION_TIMING_CONFIDENCE_BOOST - hoursSinceEnd * STRATEGY_CONSTANTS.SESSION_TIMING_CONFIDENCE_DECAY_PER_HOUR,
+      -STRATEGY_CONSTANTS.MAX_SESSION_TIMING_CONFIDENCE_PENALTY,
+      STRATEGY_CONSTANTS.MAX_SESSION_TIMING_CONFIDENCE_BOOST
+    );
+  }
+};
+
+/**
+ * Strong return correlation backs the crack, a weak one undermines it
+ */
+export const correlationFactor: ConfidenceFactor = {
+  name: 'correlation',
+  label: 'Correlation strength',
+  contribute: ({ correlation, config }) => {
+    if (correlation === undefined || !config.correlationFilter) return undefined;
+    return clamp(
+      (correlation - config.correlationFilter.weakCorrelation) * STRATEGY_CONSTANTS.CORRELATION_CONFIDENCE_MULTIPLIER,
+      -STRATEGY_CONSTANTS.MAX_CORRELATION_CONFIDENCE_PENALTY,
+      STRATEGY_CONSTANTS.MAX_CORRELATION_CONFIDENCE_BOOST
+    );
+  }
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
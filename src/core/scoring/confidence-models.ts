@@ -0,0 +1,88 @@
+/**
+ * Confidence scoring models
+ */
+import { injectable } from 'inversify';
+import {
+  ConfidenceContext,
+  ConfidenceContribution,
+  ConfidenceFactor,
+  ConfidenceModel,
+  ConfidenceModelRegistry,
+  ConfidenceScore
+} from './confidence.interfaces';
+import {
+  assetCountFactor,
+  correlationFactor,
+  distanceFactor,
+  rangeExpansionFactor,
+  sessionTimingFactor,
+  volumeFactor
+} from './confidence-factors';
+import { DEFAULT_CONFIDENCE_MODEL, STRATEGY_CONSTANTS } from '../../config/constants';
+
+/**
+ * Base confidence plus the sum of the factor contributions, clamped to 0-1
+ */
+export class AdditiveConfidenceModel implements ConfidenceModel {
+  constructor(
+    readonly name: string,
+    private readonly base: number,
+    private readonly factors: ConfidenceFactor[]
+  ) {}
+
+  score(context: ConfidenceContext): ConfidenceScore {
+    const contributions: ConfidenceContribution[] = [];
+    for (const factor of this.factors) {
+      const contribution = factor.contribute(context);
+      if (contribution !== undefined) {
+        contributions.push({ factor: factor.name, label: factor.label, contribution });
+      }
+    }
+
+    const total = contributions.reduce((sum, { contribution }) => sum + contribution, this.base);
+    return {
+      confidence: Math.min(Math.max(total, 0), 1),
+      breakdown: { model: this.name, base: this.base, contributions }
+    };
+  }
+}
+
+/**
+ * Registry of the confidence models available to pairs
+ */
+@injectable()
+export class DefaultConfidenceModelRegistry implements ConfidenceModelRegistry {
+  private readonly models = new Map<string, ConfidenceModel>();
+
+  constructor() {
+    this.register(new AdditiveConfidenceModel('default', STRATEGY_CONSTANTS.BASE_CONFIDENCE_SCORE, [
+      assetCountFactor,
+      distanceFactor,
+      volumeFactor,
+      rangeExpansionFactor,
+      sessionTimingFactor,
+      correlationFactor
+    ]));
+    // Price structure only, as scored before volume and correlation were tracked
+    this.register(new AdditiveConfidenceModel('classic', STRATEGY_CONSTANTS.BASE_CONFIDENCE_SCORE, [
+      assetCountFactor,
+      distanceFactor
+    ]));
+  }
+
+  register(model: ConfidenceModel): void {
+    this.models.set(model.name, model);
+  }
+
+  get(name: string = DEFAULT_CONFIDENCE_MODEL): ConfidenceModel {
+    const model = this.models.get(name);
+    if (!model) {
+      throw new Error(`Confidence model not registered: ${name}`);
+    }
+    return model;
+  }
+
+  getNames(): string[] {
+    return Array.from(this.models.keys());
+  }
+}
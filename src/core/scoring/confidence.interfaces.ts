@@ -0,0 +1,66 @@
+/**
+ * Confidence scoring interfaces
+ */
+import { AssetCondition, CorrelationCrackConfig } from '../strategies/strategy.interfaces';
+import { VolumeAnalysis } from '../../domain/interfaces/volume-analyzer.interface';
+
+/**
+ * Everything known about a correlation crack when it is scored
+ */
+export interface ConfidenceContext {
+  config: CorrelationCrackConfig;
+  triggerAsset: AssetCondition;
+  correlatedAssets: AssetCondition[]; // Assets that held the level
+  volume?: VolumeAnalysis; // Trigger asset on the crack bar
+  correlation?: number; // Return correlation of the trigger asset with the correlated assets
+  sessionEnd?: Date; // Close of the last bar of the reference period
+  evaluatedAt: Date;
+}
+
+/**
+ * Named input to a confidence score
+ */
+export interface ConfidenceFactor {
+  readonly name: string;
+  readonly label: string; // Shown in signal messages
+  /**
+   * Contribution to the confidence (-1 to 1), or undefined when the factor has no data
+   */
+  contribute(context: ConfidenceContext): number | undefined;
+}
+
+export interface ConfidenceContribution {
+  factor: string;
+  label: string;
+  contribution: number;
+}
+
+/**
+ * How a confidence score was put together
+ */
+export interface ConfidenceBreakdown {
+  model: string;
+  base: number;
+  contributions: ConfidenceContribution[]; // Factors without data are left out
+}
+
+export interface ConfidenceScore {
+  confidence: number; // 0-1
+  breakdown: ConfidenceBreakdown;
+}
+
+/**
+ * Turns a correlation crack into a confidence score
+ */
+export interface ConfidenceModel {
+  readonly name: string;
+  score(context: ConfidenceContext): ConfidenceScore;
+}
+
+export interface ConfidenceModelRegistry {
+  /**
+   * The named model, or the default model when no name is given
+   */
+  get(name?: string): ConfidenceModel;
+  getNames(): string[];
+}
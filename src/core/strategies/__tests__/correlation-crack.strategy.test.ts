@@ -5,16 +5,27 @@ import 'reflect-metadata';
 import { Container } from 'inversify';
 import { CorrelationCrackStrategy } from '../correlation-crack.strategy';
 import { HighLowIndicatorInterface, HighLowResult, SessionSpec } from '../../indicators/indicator.interfaces';
+import { HighLowIndicator } from '../../indicators/high-low.indicator';
+import { TradingCalendar } from '../../../domain/interfaces/trading-calendar.interface';
 import { MarketDataProvider, Kline } from '../../../domain/interfaces/market-data.interfaces';
-import { Logger } from 'winston';
+import { Logger } from '../../../utils/logger';
+import { Clock } from '../../../domain/interfaces/clock.interface';
+import { CorrelationReport, CorrelationTracker } from '../../../domain/interfaces/correlation-tracker.interface';
+import { VolumeAnalysis, VolumeAnalyzer } from '../../../domain/interfaces/volume-analyzer.interface';
+import { KlineVolumeAnalyzer } from '../../../services/volume-analyzer.service';
+import { ConfidenceModelRegistry } from '../../scoring/confidence.interfaces';
+import { DefaultConfidenceModelRegistry } from '../../scoring/confidence-models';
+import { ManualClock } from '../../../services/clock.service';
 import { TYPES } from '../../../config/types';
-import { CorrelationCrackConfig, CrossDirection } from '../strategy.interfaces';
+import { CorrelationCrackConfig, CrossDirection, ReferenceLevelType, StrategyResult } from '../strategy.interfaces';
 
 describe('CorrelationCrackStrategy', () => {
   let strategy: CorrelationCrackStrategy;
   let mockHighLowIndicator: jest.Mocked<HighLowIndicatorInterface>;
   let mockMarketDataProvider: jest.Mocked<MarketDataProvider>;
   let mockLogger: jest.Mocked<Logger>;
+  let mockCorrelationTracker: jest.Mocked<CorrelationTracker>;
+  let clock: ManualClock;
   let container: Container;
 
   const mockKlines: Kline[] = [
@@ -58,6 +69,8 @@ describe('CorrelationCrackStrategy', () => {
       getMarketData: jest.fn(),
       getKlines: jest.fn(),
       getTicker24h: jest.fn(),
+      subscribeKlines: jest.fn(),
+      unsubscribe: jest.fn(),
       isHealthy: jest.fn().mockResolvedValue(true),
       initialize: jest.fn(),
       disconnect: jest.fn()
@@ -70,10 +83,20 @@ describe('CorrelationCrackStrategy', () => {
       debug: jest.fn()
     } as any;
 
+    mockCorrelationTracker = {
+      analyze: jest.fn(),
+      measure: jest.fn()
+    };
+
     // Bind mocks to container
     container.bind<HighLowIndicatorInterface>(TYPES.HighLowIndicator).toConstantValue(mockHighLowIndicator);
     container.bind<MarketDataProvider>(TYPES.MarketDataProvider).toConstantValue(mockMarketDataProvider);
     container.bind<Logger>(TYPES.Logger).toConstantValue(mockLogger);
+    container.bind<CorrelationTracker>(TYPES.CorrelationTracker).toConstantValue(mockCorrelationTracker);
+    container.bind<VolumeAnalyzer>(TYPES.VolumeAnalyzer).to(KlineVolumeAnalyzer);
+    container.bind<ConfidenceModelRegistry>(TYPES.ConfidenceModelRegistry).to(DefaultConfidenceModelRegistry);
+    clock = new ManualClock(new Date('2025-01-01T10:15:00Z'));
+    container.bind<Clock>(TYPES.Clock).toConstantValue(clock);
 
     // Create strategy instance
     strategy = container.resolve(CorrelationCrackStrategy);
@@ -268,6 +291,64 @@ describe('CorrelationCrackStrategy', () => {
       expect(mockHighLowIndicator.calculate).toHaveBeenCalledTimes(2);
     });
 
+    it('should fetch back to the oldest reference session the indicator may fall back to', async () => {
+      clock.setTime(new Date('2025-01-11T16:00:00Z')); // 11:00 EST, 10 London sessions back is January 2nd 03:00
+      const config: CorrelationCrackConfig = {
+        primaryAssets: ['EURUSD', 'GBPUSD'],
+        period: { type: 'time_session', startHour: 3, endHour: 8, timezone: 'America/New_York' },
+        direction: CrossDirection.CROSS_UNDER,
+        marketDataInterval: '1h',
+        klinesLimit: 100
+      };
+
+      await strategy.execute(config);
+
+      expect(mockMarketDataProvider.getKlines).toHaveBeenCalledWith('EURUSD', '1h', 225);
+    });
+
+    it('should cap the session fetch and keep a larger configured klines limit', async () => {
+      const config: CorrelationCrackConfig = {
+        primaryAssets: ['EURUSD', 'GBPUSD'],
+        period: { type: 'time_session', startHour: 3, endHour: 8, timezone: 'America/New_York' },
+        direction: CrossDirection.CROSS_UNDER
+      };
+
+      await strategy.execute(config);
+      await strategy.execute({ ...config, marketDataInterval: '1h', klinesLimit: 500 });
+
+      expect(mockMarketDataProvider.getKlines).toHaveBeenCalledWith('EURUSD', '5m', 1000);
+      expect(mockMarketDataProvider.getKlines).toHaveBeenCalledWith('EURUSD', '1h', 500);
+    });
+
+    it('should take the Friday session on a Monday from forex bars that stop on Friday', async () => {
+      // Hourly bars from Wednesday 00:00 to the Friday 17:00 New York close
+      const series = (symbol: string): Kline[] => Array.from({ length: 65 }, (_, index) => {
+        const openTime = new Date(Date.parse('2025-01-01T05:00:00Z') + index * 3600000);
+        const price = 1.1 + (index % 24) / 1000;
+        return { symbol, openTime, closeTime: new Date(openTime.getTime() + 3600000), open: price, high: price + 0.0005, low: price - 0.0005, close: price, volume: 100, trades: 10 };
+      });
+      mockMarketDataProvider.getKlines.mockImplementation(async (symbol, _interval, limit) => series(symbol).slice(-limit!));
+      container.rebind<HighLowIndicatorInterface>(TYPES.HighLowIndicator).toConstantValue(new HighLowIndicator(clock, {
+        isTradingDay: jest.fn().mockReturnValue(true)
+      } as unknown as TradingCalendar));
+      strategy = container.resolve(CorrelationCrackStrategy);
+      clock.setTime(new Date('2025-01-06T12:00:00Z')); // Monday 07:00 EST, the latest sessions were on the weekend
+
+      const result = await strategy.execute({
+        primaryAssets: ['EURUSD', 'GBPUSD'],
+        period: { type: 'time_session', startHour: 8, endHour: 12, timezone: 'America/New_York' },
+        direction: CrossDirection.CROSS_UNDER,
+        marketDataInterval: '1h',
+        klinesLimit: 20
+      });
+
+      // Friday 08:00-12:00 EST: bars at 13:00-16:00 UTC, hours 8 to 11 of the day
+      expect(result.success).toBe(true);
+      const range = result.metadata?.sessionRanges.get('EURUSD');
+      expect(range?.low).toBeCloseTo(1.1075, 6);
+      expect(range?.high).toBeCloseTo(1.1115, 6);
+    });
+
     it('should return error for invalid configuration', async () => {
       const config: CorrelationCrackConfig = {
         primaryAssets: ['EURUSD'], // Invalid: only one asset
@@ -369,6 +450,8 @@ describe('CorrelationCrackStrategy', () => {
       expect(result.signal?.triggerAsset).toBe('EURUSD');
       expect(result.signal?.correlatedAssets).toContain('GBPUSD');
       expect(result.signal?.confidence).toBeGreaterThan(0);
+      expect(result.signal?.timestamp).toEqual(new Date('2025-01-01T10:15:00Z'));
+      expect(result.executedAt).toEqual(new Date('2025-01-01T10:15:00Z'));
     });
 
     it('should not generate signal when multiple assets cross', async () => {
@@ -425,4 +508,233 @@ describe('CorrelationCrackStrategy', () => {
       expect(result.signal).toBeUndefined(); // No signal should be generated
     });
   });
+
+  describe('both directions', () => {
+    const range = (symbol: string, high: number, low: number): HighLowResult => ({
+      symbol,
+      interval: '5m',
+      period: 'prev_day',
+      high,
+      low,
+      highTime: new Date(),
+      lowTime: new Date(),
+      range: high - low,
+      rangePercent: 0,
+      calculatedAt: new Date()
+    });
+    const bars = (symbol: string, closes: number[]): Kline[] => closes.map((close, i) => ({
+      ...mockKlines[0],
+      symbol,
+      openTime: new Date(Date.UTC(2025, 0, 1, 10, i * 5)),
+      closeTime: new Date(Date.UTC(2025, 0, 1, 10, i * 5 + 5)),
+      close
+    }));
+
+    const config: CorrelationCrackConfig = {
+      primaryAssets: ['EURUSD', 'GBPUSD'],
+      period: 'prev_day',
+      direction: 'both'
+    };
+
+    beforeEach(() => {
+      mockHighLowIndicator.calculate
+        .mockResolvedValueOnce(range('EURUSD', 1.1050, 1.0980))
+        .mockResolvedValueOnce(range('GBPUSD', 1.2800, 1.2700));
+    });
+
+    it('should accept both as a direction', () => {
+      expect(strategy.validate(config)).toBe(true);
+    });
+
+    it('should watch the HLS and the LLS in one evaluation', async () => {
+      mockMarketDataProvider.getKlines
+        .mockResolvedValueOnce(bars('EURUSD', [1.0970, 1.0990])) // Back above LLS
+        .mockResolvedValueOnce(bars('GBPUSD', [1.2750, 1.2760])); // Inside the range
+
+      const result = await strategy.execute(config);
+
+      expect(mockHighLowIndicator.calculate).toHaveBeenCalledTimes(2);
+      expect(result.signal).toMatchObject({
+        triggerAsset: 'EURUSD',
+        direction: CrossDirection.CROSS_OVER,
+        referenceLevel: 1.0980,
+        referenceLevelType: ReferenceLevelType.LLS,
+        correlatedAssets: ['GBPUSD']
+      });
+      expect(result.metadata?.assetConditions).toHaveLength(4);
+    });
+
+    it('should report the side that cracked first', async () => {
+      mockMarketDataProvider.getKlines
+        .mockResolvedValueOnce(bars('EURUSD', [1.1060, 1.1060, 1.1040])) // Below HLS on the third bar
+        .mockResolvedValueOnce(bars('GBPUSD', [1.2690, 1.2710, 1.2720])); // Above LLS on the second bar
+
+      const result = await strategy.execute(config);
+
+      expect(result.signal).toMatchObject({
+        triggerAsset: 'GBPUSD',
+        direction: CrossDirection.CROSS_OVER,
+        referenceLevelType: ReferenceLevelType.LLS,
+        crossTime: new Date('2025-01-01T10:05:00Z')
+      });
+    });
+
+    it('should record the HLS on single-direction signals', async () => {
+      mockMarketDataProvider.getKlines
+        .mockResolvedValueOnce(bars('EURUSD', [1.1060, 1.1040]))
+        .mockResolvedValueOnce(bars('GBPUSD', [1.2750, 1.2760]));
+
+      const result = await strategy.execute({ ...config, direction: CrossDirection.CROSS_UNDER });
+
+      expect(result.signal).toMatchObject({ direction: CrossDirection.CROSS_UNDER, referenceLevelType: ReferenceLevelType.HLS });
+      expect(result.metadata?.assetConditions).toHaveLength(2);
+    });
+  });
+
+  describe('correlation filter', () => {
+    const unfilteredConfig: CorrelationCrackConfig = {
+      primaryAssets: ['EURUSD', 'GBPUSD'],
+      period: 'prev_day',
+      direction: CrossDirection.CROSS_UNDER
+    };
+    const filteredConfig: CorrelationCrackConfig = {
+      ...unfilteredConfig,
+      correlationFilter: { method: 'pearson', window: 50, minCorrelation: 0.3, weakCorrelation: 0.6 }
+    };
+    const correlationReport = (pearson: number): CorrelationReport => ({
+      symbols: ['EURUSD', 'GBPUSD'],
+      window: 50,
+      correlations: [{ symbols: ['EURUSD', 'GBPUSD'], pearson, spearman: pearson, sampleSize: 50 }],
+      calculatedAt: new Date('2026-03-09T12:00:00Z')
+    });
+
+    beforeEach(() => {
+      // EURUSD cracks its HLS while GBPUSD holds above it
+      mockMarketDataProvider.getKlines
+        .mockResolvedValueOnce([{ ...mockKlines[0], close: 1.1060 }, { ...mockKlines[1], close: 1.1030 }])
+        .mockResolvedValueOnce([{ ...mockKlines[0], symbol: 'GBPUSD', close: 1.2850 }, { ...mockKlines[1], symbol: 'GBPUSD', close: 1.2820 }]);
+      mockHighLowIndicator.calculate
+        .mockResolvedValueOnce({ symbol: 'EURUSD', interval: '5m', period: 'prev_day', high: 1.1050, low: 1.0980, highTime: new Date(), lowTime: new Date(), range: 0.007, rangePercent: 0.64, calculatedAt: new Date() })
+        .mockResolvedValueOnce({ symbol: 'GBPUSD', interval: '5m', period: 'prev_day', high: 1.2800, low: 1.2700, highTime: new Date(), lowTime: new Date(), range: 0.01, rangePercent: 0.79, calculatedAt: new Date() });
+    });
+
+    it('should skip the correlation check when no filter is configured', async () => {
+      const result = await strategy.execute(unfilteredConfig);
+
+      expect(mockCorrelationTracker.analyze).not.toHaveBeenCalled();
+      expect(result.signal).toBeDefined();
+      expect(result.signal?.correlation).toBeUndefined();
+    });
+
+    it('should record the correlation on signals', async () => {
+      mockCorrelationTracker.analyze.mockReturnValue(correlationReport(0.85));
+
+      const result = await strategy.execute(filteredConfig);
+
+      expect(mockCorrelationTracker.analyze).toHaveBeenCalledWith(expect.any(Map), 50);
+      expect(result.signal?.correlation).toBe(0.85);
+      expect(result.metadata?.correlation).toEqual(correlationReport(0.85));
+    });
+
+    it('should score the correlation strength against the weak threshold', async () => {
+      mockCorrelationTracker.analyze.mockReturnValueOnce(correlationReport(0.9));
+      const strong = await strategy.execute(filteredConfig);
+
+      mockMarketDataProvider.getKlines
+        .mockResolvedValueOnce([{ ...mockKlines[0], close: 1.1060 }, { ...mockKlines[1], close: 1.1030 }])
+        .mockResolvedValueOnce([{ ...mockKlines[0], symbol: 'GBPUSD', close: 1.2850 }, { ...mockKlines[1], symbol: 'GBPUSD', close: 1.2820 }]);
+      mockHighLowIndicator.calculate
+        .mockResolvedValueOnce({ symbol: 'EURUSD', interval: '5m', period: 'prev_day', high: 1.1050, low: 1.0980, highTime: new Date(), lowTime: new Date(), range: 0.007, rangePercent: 0.64, calculatedAt: new Date() })
+        .mockResolvedValueOnce({ symbol: 'GBPUSD', interval: '5m', period: 'prev_day', high: 1.2800, low: 1.2700, highTime: new Date(), lowTime: new Date(), range: 0.01, rangePercent: 0.79, calculatedAt: new Date() });
+      mockCorrelationTracker.analyze.mockReturnValueOnce(correlationReport(0.45));
+      const weak = await strategy.execute(filteredConfig);
+
+      const correlationContribution = (result: StrategyResult<CorrelationCrackConfig>) =>
+        result.signal?.confidenceBreakdown?.contributions.find(({ factor }) => factor === 'correlation')?.contribution;
+      expect(correlationContribution(strong)).toBeCloseTo(0.1);
+      expect(correlationContribution(weak)).toBeCloseTo(-0.075);
+      expect(strong.signal!.confidence - weak.signal!.confidence).toBeCloseTo(0.175);
+    });
+
+    it('should suppress signals once the correlation has broken down', async () => {
+      mockCorrelationTracker.analyze.mockReturnValue(correlationReport(0.1));
+
+      const result = await strategy.execute(filteredConfig);
+
+      expect(result.success).toBe(true);
+      expect(result.signal).toBeUndefined();
+      expect(mockLogger.info).toHaveBeenCalledWith('Correlation crack suppressed, assets are no longer correlated', expect.objectContaining({ correlation: 0.1 }));
+    });
+
+    it('should not filter when there is not enough data to correlate', async () => {
+      mockCorrelationTracker.analyze.mockReturnValue(correlationReport(NaN));
+
+      const result = await strategy.execute(filteredConfig);
+
+      expect(result.signal).toBeDefined();
+      expect(result.signal?.correlation).toBeUndefined();
+    });
+  });
+
+  describe('volume analysis', () => {
+    const config: CorrelationCrackConfig = {
+      primaryAssets: ['EURUSD', 'GBPUSD'],
+      period: 'prev_day',
+      direction: CrossDirection.CROSS_UNDER
+    };
+
+    // EURUSD cracks its HLS on a bar with the given volume while GBPUSD holds above it
+    const executeWithCrackVolume = (volume: number) => {
+      mockMarketDataProvider.getKlines
+        .mockResolvedValueOnce([{ ...mockKlines[0], close: 1.1060 }, { ...mockKlines[1], close: 1.1030, volume }])
+        .mockResolvedValueOnce([{ ...mockKlines[0], symbol: 'GBPUSD', close: 1.2850 }, { ...mockKlines[1], symbol: 'GBPUSD', close: 1.2820 }]);
+      mockHighLowIndicator.calculate
+        .mockResolvedValueOnce({ symbol: 'EURUSD', interval: '5m', period: 'prev_day', high: 1.1050, low: 1.0980, highTime: new Date(), lowTime: new Date(), range: 0.007, rangePercent: 0.64, calculatedAt: new Date() })
+        .mockResolvedValueOnce({ symbol: 'GBPUSD', interval: '5m', period: 'prev_day', high: 1.2800, low: 1.2700, highTime: new Date(), lowTime: new Date(), range: 0.01, rangePercent: 0.79, calculatedAt: new Date() });
+      return strategy.execute(config);
+    };
+
+    it('should include the volume analysis of each asset in the metadata', async () => {
+      const result = await executeWithCrackVolume(5000);
+
+      const volume = result.metadata?.volume as Map<string, VolumeAnalysis>;
+      expect([...volume.keys()]).toEqual(['EURUSD', 'GBPUSD']);
+      expect(volume.get('EURUSD')).toMatchObject({ barTime: mockKlines[1]!.openTime, volume: 5000, averageVolume: 1000, relativeVolume: 5 });
+    });
+
+    it('should break the confidence down by factor', async () => {
+      const result = await executeWithCrackVolume(5000);
+
+      expect(result.signal?.confidenceBreakdown).toEqual({
+        model: 'default',
+        base: 0.5,
+        contributions: [
+          { factor: 'asset_count', label: 'Assets holding', contribution: 0 },
+          { factor: 'distance', label: 'Distance from level', contribution: expect.any(Number) },
+          { factor: 'volume', label: 'Relative volume', contribution: 0.15 }
+        ]
+      });
+    });
+
+    it('should score with the configured confidence model', async () => {
+      mockMarketDataProvider.getKlines
+        .mockResolvedValueOnce([{ ...mockKlines[0], close: 1.1060 }, { ...mockKlines[1], close: 1.1030, volume: 5000 }])
+        .mockResolvedValueOnce([{ ...mockKlines[0], symbol: 'GBPUSD', close: 1.2850 }, { ...mockKlines[1], symbol: 'GBPUSD', close: 1.2820 }]);
+      mockHighLowIndicator.calculate
+        .mockResolvedValueOnce({ symbol: 'EURUSD', interval: '5m', period: 'prev_day', high: 1.1050, low: 1.0980, highTime: new Date(), lowTime: new Date(), range: 0.007, rangePercent: 0.64, calculatedAt: new Date() })
+        .mockResolvedValueOnce({ symbol: 'GBPUSD', interval: '5m', period: 'prev_day', high: 1.2800, low: 1.2700, highTime: new Date(), lowTime: new Date(), range: 0.01, rangePercent: 0.79, calculatedAt: new Date() });
+
+      const result = await strategy.execute({ ...config, confidenceModel: 'classic' });
+
+      expect(result.signal?.confidenceBreakdown?.model).toBe('classic');
+      expect(result.signal?.confidenceBreakdown?.contributions.map(({ factor }) => factor)).toEqual(['asset_count', 'distance']);
+    });
+
+    it('should favour cracks on a volume surge over cracks on dead volume', async () => {
+      const surge = await executeWithCrackVolume(5000);
+      const dead = await executeWithCrackVolume(100);
+
+      expect(surge.signal!.confidence).toBeGreaterThan(dead.signal!.confidence);
+    });
+  });
 });
@@ -10,22 +10,43 @@ import {
   StrategySignal,
   CrossDirection,
   AssetCondition,
-  ExtendedPeriodSpec
+  ExtendedPeriodSpec,
+  DirectionMode,
+  DIRECTION_MODES,
+  ReferenceLevelType
 } from './strategy.interfaces';
-import { HighLowIndicatorInterface, HighLowIndicatorConfig, SessionSpec } from '../indicators/indicator.interfaces';
+import { ConfidenceModelRegistry } from '../scoring/confidence.interfaces';
+import { HighLowIndicatorInterface, HighLowIndicatorConfig, HighLowResult, SessionSpec } from '../indicators/indicator.interfaces';
 import { MarketDataProvider } from '../../domain/interfaces/market-data.interfaces';
 import { Kline } from '../../domain/interfaces/market-data.interfaces';
 import { TYPES } from '../../config/types';
-import { Logger } from 'winston';
+import { Logger } from '../../utils/logger';
+import { Clock } from '../../domain/interfaces/clock.interface';
+import { CorrelationMethod, CorrelationReport, CorrelationTracker } from '../../domain/interfaces/correlation-tracker.interface';
+import { VolumeAnalysis, VolumeAnalyzer } from '../../domain/interfaces/volume-analyzer.interface';
 import { TRADING_CONSTANTS, STRATEGY_CONSTANTS } from '../../config/constants';
-import { validateSessionSpec, isSessionSpec, getRecentKlines } from '../../utils/date-helpers';
+import { validateSessionSpec, isSessionSpec, getRecentKlines, getCompletedSessions } from '../../utils/date-helpers';
+import { getIntervalMs } from '../../utils/time-utils';
+
+/**
+ * One asset crossing its level while the others held
+ */
+interface CorrelationCrack {
+  direction: CrossDirection;
+  triggerAsset: AssetCondition;
+  correlatedAssets: AssetCondition[];
+}
 
 @injectable()
 export class CorrelationCrackStrategy implements CorrelationCrackStrategyInterface {
   constructor(
     @inject(TYPES.HighLowIndicator) private highLowIndicator: HighLowIndicatorInterface,
     @inject(TYPES.MarketDataProvider) private marketDataProvider: MarketDataProvider,
-    @inject(TYPES.Logger) private logger: Logger
+    @inject(TYPES.Logger) private logger: Logger,
+    @inject(TYPES.Clock) private clock: Clock,
+    @inject(TYPES.CorrelationTracker) private correlationTracker: CorrelationTracker,
+    @inject(TYPES.VolumeAnalyzer) private volumeAnalyzer: VolumeAnalyzer,
+    @inject(TYPES.ConfidenceModelRegistry) private confidenceModels: ConfidenceModelRegistry
   ) {}
 
   getName(): string {
@@ -47,7 +68,7 @@ export class CorrelationCrackStrategy implements CorrelationCrackStrategyInterfa
       return false;
     }
 
-    if (!Object.values(CrossDirection).includes(config.direction)) {
+    if (!DIRECTION_MODES.includes(config.direction)) {
       this.logger.error('Invalid cross direction specified');
       return false;
     }
@@ -68,7 +89,7 @@ export class CorrelationCrackStrategy implements CorrelationCrackStrategyInterfa
       if (!this.validate(config)) {
         return {
           strategyName: this.getName(),
-          executedAt: new Date(),
+          executedAt: this.clock.now(),
           config,
           success: false,
           error: 'Invalid configuration'
@@ -80,24 +101,49 @@ export class CorrelationCrackStrategy implements CorrelationCrackStrategyInterfa
       // Fetch market data for all assets
       const assetData = await this.fetchAssetData(config.primaryAssets, config);
       
-      // Calculate reference levels (HLS/LLS) for each asset
-      const referenceLevels = await this.calculateReferenceLevels(assetData, config);
-      
-      // Check cross conditions for each asset
-      const conditions = await this.checkAllAssetConditions(assetData, referenceLevels, config);
-      
-      // Analyze correlation crack pattern
-      const signal = this.analyzeCorrelationCrack(conditions, config);
+      // Calculate the session range (HLS/LLS) of each asset
+      const sessionRanges = await this.calculateSessionRanges(assetData, config);
+
+      const referenceLevels: Partial<Record<ReferenceLevelType, Map<string, number>>> = {};
+      const conditions: AssetCondition[] = [];
+      const cracks: CorrelationCrack[] = [];
+
+      // Check each watched side of the range for a crack
+      for (const direction of this.getWatchedDirections(config.direction)) {
+        const levelType = getReferenceLevelType(direction);
+        const levels = this.getReferenceLevels(sessionRanges, levelType);
+        referenceLevels[levelType] = levels;
+
+        const sideConditions = await this.checkAllAssetConditions(assetData, levels, direction, config);
+        conditions.push(...sideConditions);
+
+        const crack = this.analyzeCorrelationCrack(sideConditions, direction, config);
+        if (crack) cracks.push(crack);
+      }
+
+      const crack = this.selectFirstCrack(cracks);
+      let signal: StrategySignal | undefined;
+      let correlation: CorrelationReport | undefined;
+      if (crack) {
+        if (config.correlationFilter) {
+          correlation = this.correlationTracker.analyze(assetData, config.correlationFilter.window);
+        }
+        signal = this.createSignal(crack, assetData, sessionRanges, correlation, config);
+      }
 
       const result: StrategyResult<CorrelationCrackConfig> = {
         strategyName: this.getName(),
-        executedAt: new Date(),
+        executedAt: this.clock.now(),
         config,
         success: true,
         metadata: {
           referenceLevels,
           assetsAnalyzed: config.primaryAssets.length,
-          assetConditions: conditions
+          assetConditions: conditions,
+          volume: this.analyzeVolume(assetData, signal?.crossTime, config),
+          klines: assetData,
+          sessionRanges,
+          ...(correlation && { correlation })
         }
       };
 
@@ -111,7 +157,7 @@ export class CorrelationCrackStrategy implements CorrelationCrackStrategyInterfa
       this.logger.error(`Error executing ${this.getName()}:`, error);
       return {
         strategyName: this.getName(),
-        executedAt: new Date(),
+        executedAt: this.clock.now(),
         config,
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -172,7 +218,10 @@ export class CorrelationCrackStrategy implements CorrelationCrackStrategyInterfa
     
     // Use configurable parameters
     const interval = config?.marketDataInterval || STRATEGY_CONSTANTS.DEFAULT_MARKET_DATA_INTERVAL;
-    const limit = config?.klinesLimit || STRATEGY_CONSTANTS.DEFAULT_KLINES_LIMIT;
+    const limit = Math.max(
+      config?.klinesLimit || STRATEGY_CONSTANTS.DEFAULT_KLINES_LIMIT,
+      config ? this.getSessionKlinesLimit(config, interval) : 0
+    );
     
     for (const symbol of symbols) {
       try {
@@ -189,13 +238,28 @@ export class CorrelationCrackStrategy implements CorrelationCrackStrategyInterfa
   }
 
   /**
-   * Calculate reference levels (HLS/LLS) for each asset
+   * Bars back to the start of the oldest session occurrence the indicator falls back to when
+   * the latest ones have no data (weekends, holidays), so the range it picks is whole
+   */
+  private getSessionKlinesLimit(config: CorrelationCrackConfig, interval: string): number {
+    if (!isSessionSpec(config.period)) return 0;
+
+    const now = this.clock.now();
+    const timezone = config.timezone || TRADING_CONSTANTS.DEFAULT_TIMEZONE;
+    const occurrences = getCompletedSessions(now, config.period, timezone, TRADING_CONSTANTS.MAX_NON_TRADING_DAYS);
+    const oldest = occurrences[occurrences.length - 1];
+    const bars = Math.ceil((now.getTime() - oldest.start.getTime()) / getIntervalMs(interval)) + 1;
+    return Math.min(bars, STRATEGY_CONSTANTS.MAX_KLINES_LIMIT);
+  }
+
+  /**
+   * Calculate the session high/low of each asset
    */
-  private async calculateReferenceLevels(
-    assetData: Map<string, Kline[]>, 
+  private async calculateSessionRanges(
+    assetData: Map<string, Kline[]>,
     config: CorrelationCrackConfig
-  ): Promise<Map<string, number>> {
-    const referenceLevels = new Map<string, number>();
+  ): Promise<Map<string, HighLowResult>> {
+    const sessionRanges = new Map<string, HighLowResult>();
 
     for (const [symbol, klines] of assetData.entries()) {
       const indicatorConfig: HighLowIndicatorConfig = {
@@ -207,30 +271,72 @@ export class CorrelationCrackStrategy implements CorrelationCrackStrategyInterfa
 
       try {
         const result = await this.highLowIndicator.calculate(klines, indicatorConfig);
-        
-        // Use high for cross-under (HLS) and low for cross-over (LLS)
-        const referenceLevel = config.direction === CrossDirection.CROSS_UNDER 
-          ? result.high 
-          : result.low;
-        
-        referenceLevels.set(symbol, referenceLevel);
-        
-        this.logger.debug(`${symbol} reference level (${config.direction}): ${referenceLevel}`);
+        sessionRanges.set(symbol, result);
+
+        this.logger.debug(`${symbol} reference levels: HLS ${result.high}, LLS ${result.low}`);
       } catch (error) {
         this.logger.error(`Failed to calculate reference level for ${symbol}:`, error);
         throw new Error(`Failed to calculate reference level for ${symbol}`);
       }
     }
 
+    return sessionRanges;
+  }
+
+  /**
+   * HLS (session high) or LLS (session low) of each asset
+   */
+  private getReferenceLevels(sessionRanges: Map<string, HighLowResult>, levelType: ReferenceLevelType): Map<string, number> {
+    const referenceLevels = new Map<string, number>();
+    for (const [symbol, range] of sessionRanges.entries()) {
+      referenceLevels.set(symbol, levelType === ReferenceLevelType.HLS ? range.high : range.low);
+    }
     return referenceLevels;
   }
 
+  private getWatchedDirections(direction: DirectionMode): CrossDirection[] {
+    return direction === 'both' ? [CrossDirection.CROSS_UNDER, CrossDirection.CROSS_OVER] : [direction];
+  }
+
+  /**
+   * When both sides cracked, keep the side whose trigger asset crossed first
+   */
+  private selectFirstCrack(cracks: CorrelationCrack[]): CorrelationCrack | undefined {
+    const crossTime = (crack: CorrelationCrack) => crack.triggerAsset.crossTime?.getTime() ?? Infinity;
+    return cracks.reduce<CorrelationCrack | undefined>(
+      (first, crack) => (!first || crossTime(crack) < crossTime(first) ? crack : first),
+      undefined
+    );
+  }
+
+  /**
+   * Volume and volatility of each asset on the crack bar, or on the last bar without a signal
+   */
+  private analyzeVolume(assetData: Map<string, Kline[]>, at: Date | undefined, config: CorrelationCrackConfig): Map<string, VolumeAnalysis> {
+    const analyses = new Map<string, VolumeAnalysis>();
+
+    for (const [symbol, klines] of assetData.entries()) {
+      const analysis = this.analyzeBar(symbol, klines, at, config);
+      if (analysis) analyses.set(symbol, analysis);
+    }
+
+    return analyses;
+  }
+
+  private analyzeBar(symbol: string, klines: Kline[], at: Date | undefined, config: CorrelationCrackConfig): VolumeAnalysis | undefined {
+    return this.volumeAnalyzer.analyze(symbol, klines, {
+      timezone: config.timezone || TRADING_CONSTANTS.DEFAULT_TIMEZONE,
+      ...(at && { at })
+    });
+  }
+
   /**
    * Check cross conditions for all assets
    */
   private async checkAllAssetConditions(
     assetData: Map<string, Kline[]>,
     referenceLevels: Map<string, number>,
+    direction: CrossDirection,
     config: CorrelationCrackConfig
   ): Promise<AssetCondition[]> {
     const conditions: AssetCondition[] = [];
@@ -244,8 +350,8 @@ export class CorrelationCrackStrategy implements CorrelationCrackStrategyInterfa
       const currentPrice = klines[klines.length - 1]?.close || 0;
       const crossResult = await this.checkCrossCondition(
         klines, 
-        referenceLevel, 
-        config.direction,
+        referenceLevel,
+        direction,
         config.crossDetectionLookback || STRATEGY_CONSTANTS.CROSS_DETECTION_LOOKBACK_PERIODS
       );
 
@@ -253,11 +359,12 @@ export class CorrelationCrackStrategy implements CorrelationCrackStrategyInterfa
         symbol,
         hasCrossed: crossResult.hasCrossed,
         currentPrice,
-        referenceLevel
+        referenceLevel,
+        referenceLevelType: getReferenceLevelType(direction)
       };
 
       if (crossResult.hasCrossed) {
-        condition.crossDirection = config.direction;
+        condition.crossDirection = direction;
       }
 
       if (crossResult.crossTime) {
@@ -271,12 +378,13 @@ export class CorrelationCrackStrategy implements CorrelationCrackStrategyInterfa
   }
 
   /**
-   * Analyze correlation crack pattern and generate signal
+   * Analyze correlation crack pattern
    */
   private analyzeCorrelationCrack(
-    conditions: AssetCondition[], 
+    conditions: AssetCondition[],
+    direction: CrossDirection,
     config: CorrelationCrackConfig
-  ): StrategySignal | undefined {
+  ): CorrelationCrack | undefined {
     const crossedAssets = conditions.filter(c => c.hasCrossed);
     const notCrossedAssets = conditions.filter(c => !c.hasCrossed);
     
@@ -285,51 +393,97 @@ export class CorrelationCrackStrategy implements CorrelationCrackStrategyInterfa
     // Strategy condition: exactly one asset crossed, others didn't
     if (crossedAssets.length === 1 && notCrossedAssets.length >= minCorrelatedAssets) {
       const triggerAsset = crossedAssets[0];
-      
-      const confidence = this.calculateConfidence(conditions, config);
-      
-      this.logger.info(`Correlation crack detected: ${triggerAsset.symbol} crossed ${config.direction}`);
 
-      return {
-        direction: config.direction,
-        triggerAsset: triggerAsset.symbol,
-        correlatedAssets: notCrossedAssets.map(c => c.symbol),
-        referenceLevel: triggerAsset.referenceLevel,
-        confidence,
-        timestamp: new Date(),
-      };
+      this.logger.info(`Correlation crack detected: ${triggerAsset.symbol} crossed ${direction} ${triggerAsset.referenceLevelType}`);
+
+      return { direction, triggerAsset, correlatedAssets: notCrossedAssets };
     }
 
-    this.logger.debug(`No correlation crack pattern detected. Crossed: ${crossedAssets.length}, Not crossed: ${notCrossedAssets.length}`);
+    this.logger.debug(`No ${direction} correlation crack pattern detected. Crossed: ${crossedAssets.length}, Not crossed: ${notCrossedAssets.length}`);
     return undefined;
   }
 
   /**
-   * Calculate confidence score based on various factors
+   * Score the crack with the pair's confidence model. Cracks of assets that no longer
+   * move together are suppressed.
    */
-  private calculateConfidence(conditions: AssetCondition[], config: CorrelationCrackConfig): number {
-    let confidence = STRATEGY_CONSTANTS.BASE_CONFIDENCE_SCORE;
+  private createSignal(
+    crack: CorrelationCrack,
+    assetData: Map<string, Kline[]>,
+    sessionRanges: Map<string, HighLowResult>,
+    report: CorrelationReport | undefined,
+    config: CorrelationCrackConfig
+  ): StrategySignal | undefined {
+    const { triggerAsset, correlatedAssets } = crack;
+    const correlation = report && config.correlationFilter
+      ? this.getCrackCorrelation(crack, report, config.correlationFilter.method)
+      : undefined;
 
-    // Factor 1: More correlated assets that didn't cross = higher confidence
-    const notCrossedCount = conditions.filter(c => !c.hasCrossed).length;
-    confidence += (notCrossedCount - 1) * STRATEGY_CONSTANTS.CONFIDENCE_INCREMENT_PER_ASSET;
+    if (correlation !== undefined && config.correlationFilter && correlation < config.correlationFilter.minCorrelation) {
+      this.logger.info('Correlation crack suppressed, assets are no longer correlated', {
+        triggerAsset: triggerAsset.symbol,
+        correlation,
+        minCorrelation: config.correlationFilter.minCorrelation
+      });
+      return undefined;
+    }
 
-    // Factor 2: Distance from reference level for non-crossed assets
-    const notCrossedAssets = conditions.filter(c => !c.hasCrossed);
-    if (notCrossedAssets.length > 0) {
-      const avgDistance = notCrossedAssets.reduce((sum, asset) => {
-        const distance = Math.abs(asset.currentPrice - asset.referenceLevel) / asset.referenceLevel;
-        return sum + distance;
-      }, 0) / notCrossedAssets.length;
-
-      // Higher distance = higher confidence (more separation)
-      confidence += Math.min(
-        avgDistance * STRATEGY_CONSTANTS.DISTANCE_CONFIDENCE_MULTIPLIER, 
-        STRATEGY_CONSTANTS.MAX_DISTANCE_CONFIDENCE_BOOST
-      );
+    const volume = this.analyzeBar(triggerAsset.symbol, assetData.get(triggerAsset.symbol) ?? [], triggerAsset.crossTime, config);
+    const sessionEnd = sessionRanges.get(triggerAsset.symbol)?.periodEnd;
+    const { confidence, breakdown } = this.confidenceModels.get(config.confidenceModel).score({
+      config,
+      triggerAsset,
+      correlatedAssets,
+      evaluatedAt: this.clock.now(),
+      ...(volume && { volume }),
+      ...(correlation !== undefined && { correlation }),
+      ...(sessionEnd && { sessionEnd })
+    });
+
+    const signal: StrategySignal = {
+      direction: crack.direction,
+      triggerAsset: triggerAsset.symbol,
+      correlatedAssets: correlatedAssets.map(c => c.symbol),
+      referenceLevel: triggerAsset.referenceLevel,
+      referenceLevelType: triggerAsset.referenceLevelType,
+      confidence,
+      confidenceBreakdown: breakdown,
+      timestamp: this.clock.now(),
+      triggerPrice: triggerAsset.currentPrice,
+      ...(correlation !== undefined && { correlation })
+    };
+
+    if (triggerAsset.crossTime) {
+      signal.crossTime = triggerAsset.crossTime;
     }
 
-    return Math.min(Math.max(confidence, 0), 1);
+    return signal;
   }
 
+  /**
+   * Mean return correlation of the trigger asset with the assets that held.
+   * Undefined when there is not enough data to correlate.
+   */
+  private getCrackCorrelation(crack: CorrelationCrack, report: CorrelationReport, method: CorrelationMethod): number | undefined {
+    const trigger = crack.triggerAsset.symbol;
+    const correlated = crack.correlatedAssets.map(c => c.symbol);
+    const coefficients = report.correlations
+      .filter(({ symbols }) => symbols.includes(trigger) && symbols.some(symbol => correlated.includes(symbol)))
+      .map(correlation => correlation[method])
+      .filter(Number.isFinite);
+
+    if (coefficients.length === 0) {
+      this.logger.debug('Not enough data to check the pair correlation', { triggerAsset: trigger });
+      return undefined;
+    }
+    return coefficients.reduce((sum, value) => sum + value, 0) / coefficients.length;
+  }
+
+}
+
+/**
+ * A cross-under cracks the session high (HLS), a cross-over the session low (LLS)
+ */
+function getReferenceLevelType(direction: CrossDirection): ReferenceLevelType {
+  return direction === CrossDirection.CROSS_UNDER ? ReferenceLevelType.HLS : ReferenceLevelType.LLS;
 }
@@ -3,6 +3,8 @@
  */
 import { Kline } from '../../domain/interfaces/market-data.interfaces';
 import { PeriodSpec } from '../indicators/indicator.interfaces';
+import { CorrelationMethod } from '../../domain/interfaces/correlation-tracker.interface';
+import { ConfidenceBreakdown } from '../scoring/confidence.interfaces';
 
 /**
  * Base strategy interface
@@ -26,6 +28,21 @@ export enum CrossDirection {
   CROSS_UNDER = 'cross_under' // Price was above and crossed below
 }
 
+/**
+ * Sides of the reference range a pair watches: one cross direction, or the HLS and LLS at once
+ */
+export type DirectionMode = CrossDirection | 'both';
+
+export const DIRECTION_MODES: readonly DirectionMode[] = [...Object.values(CrossDirection), 'both'];
+
+/**
+ * Session level a cross is measured against
+ */
+export enum ReferenceLevelType {
+  HLS = 'HLS', // High of the session, cracked by a cross-under
+  LLS = 'LLS' // Low of the session, cracked by a cross-over
+}
+
 /**
  * Asset correlation condition
  */
@@ -34,23 +51,36 @@ export interface AssetCondition {
   hasCrossed: boolean;
   crossDirection?: CrossDirection;
   currentPrice: number;
-  referenceLevel: number; // HLS or LLS
+  referenceLevel: number;
+  referenceLevelType: ReferenceLevelType;
   crossTime?: Date;
 }
 
+/**
+ * Return correlation the pair's assets must keep for a crack to count
+ */
+export interface CorrelationFilter {
+  method: CorrelationMethod;
+  window: number; // Returns in the rolling window
+  minCorrelation: number; // Signals below this are suppressed
+  weakCorrelation: number; // Confidence is scaled down below this
+}
+
 /**
  * Correlation crack configuration
  */
 export interface CorrelationCrackConfig {
   primaryAssets: string[]; // 2-4 correlated assets
   period: ExtendedPeriodSpec; // London session, prev_day, etc.
-  direction: CrossDirection; // Looking for cross-over or cross-under
+  direction: DirectionMode; // Looking for cross-over, cross-under or both
   useBodyHighLow?: boolean; // Use open/close instead of high/low
   timezone?: string;
   minCorrelatedAssets?: number; // Minimum assets that should NOT have the condition (default: 1)
   marketDataInterval?: string; // Interval for fetching market data (default: '5m')
   klinesLimit?: number; // Number of klines to fetch (default: 100)
   crossDetectionLookback?: number; // Number of recent candles to check for crosses (default: 10)
+  correlationFilter?: CorrelationFilter; // No correlation check when omitted
+  confidenceModel?: string; // Registered confidence model (default: 'default')
 }
 
 /**
@@ -61,8 +91,13 @@ export interface StrategySignal {
   direction: CrossDirection;
   correlatedAssets: string[];
   referenceLevel: number;
+  referenceLevelType?: ReferenceLevelType; // Missing on signals recorded before it was tracked
   confidence: number;
   timestamp: Date;
+  crossTime?: Date; // Open time of the candle on which the trigger asset crossed
+  triggerPrice?: number; // Trigger asset price when the signal fired
+  correlation?: number; // Return correlation of the trigger asset with the correlated assets
+  confidenceBreakdown?: ConfidenceBreakdown; // Factors behind the confidence
 }
 
 /**
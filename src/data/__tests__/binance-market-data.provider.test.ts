@@ -4,6 +4,8 @@ import { BinanceMarketDataProvider } from '../binance-market-data.provider';
 import { RateLimiter } from '../../domain/interfaces/market-data.interfaces';
 import { Logger } from 'winston';
 import { TYPES } from '../../config/types';
+import { DefaultInstrumentRegistry } from '../../services/instrument-registry.service';
+import WebSocket from 'ws';
 
 // Mock CCXT
 jest.mock('ccxt', () => ({
@@ -34,6 +36,39 @@ jest.mock('ccxt', () => ({
   }))
 }));
 
+// Mock websocket connections
+jest.mock('ws', () => {
+  const { EventEmitter } = jest.requireActual('events');
+
+  class MockWebSocket extends EventEmitter {
+    static OPEN = 1;
+    static instances: MockWebSocket[] = [];
+    readyState = 0;
+    send = jest.fn();
+    close = jest.fn(() => this.emit('close'));
+
+    constructor(public url: string) {
+      super();
+      MockWebSocket.instances.push(this);
+    }
+
+    open(): void {
+      this.readyState = MockWebSocket.OPEN;
+      this.emit('open');
+    }
+  }
+
+  return { __esModule: true, default: MockWebSocket };
+});
+
+interface FakeSocket {
+  url: string;
+  send: jest.Mock;
+  close: jest.Mock;
+  open(): void;
+  emit(event: string, ...args: unknown[]): boolean;
+}
+
 describe('BinanceMarketDataProvider', () => {
   let provider: BinanceMarketDataProvider;
   let mockLogger: jest.Mocked<Logger>;
@@ -54,7 +89,7 @@ describe('BinanceMarketDataProvider', () => {
       getResetTime: jest.fn().mockReturnValue(new Date())
     };
 
-    provider = new BinanceMarketDataProvider(mockLogger, mockRateLimiter);
+    provider = new BinanceMarketDataProvider(mockLogger, mockRateLimiter, new DefaultInstrumentRegistry());
   });
 
   describe('initialization', () => {
@@ -232,4 +267,56 @@ describe('BinanceMarketDataProvider', () => {
       expect(mockLogger.warn).toHaveBeenCalledTimes(2); // 3 attempts - 1 = 2 warnings
     });
   });
+
+  describe('kline streaming', () => {
+    const sockets = (WebSocket as unknown as { instances: FakeSocket[] }).instances;
+
+    const klineEvent = (closed: boolean) => JSON.stringify({
+      e: 'kline',
+      s: 'BTCUSDT',
+      k: { t: 1760000000000, T: 1760000299999, s: 'BTCUSDT', i: '5m', o: '100', c: '101.5', h: '102', l: '99', v: '12.5', n: 42, x: closed }
+    });
+
+    beforeEach(() => {
+      sockets.length = 0;
+    });
+
+    it('should subscribe to the kline stream once the socket opens', async () => {
+      await provider.subscribeKlines('BTCUSDT', '5m', jest.fn());
+      const [socket] = sockets;
+
+      expect(socket.url).toBe('wss://stream.binance.com:9443/ws');
+      expect(socket.send).not.toHaveBeenCalled();
+
+      socket.open();
+
+      expect(JSON.parse(socket.send.mock.calls[0][0])).toMatchObject({ method: 'SUBSCRIBE', params: ['btcusdt@kline_5m'] });
+    });
+
+    it('should deliver kline updates under the subscribed symbol', async () => {
+      const handler = jest.fn();
+      await provider.subscribeKlines('BTCUSDT', '5m', handler);
+      sockets[0].emit('message', Buffer.from(klineEvent(true)));
+
+      expect(handler).toHaveBeenCalledWith({
+        interval: '5m',
+        isClosed: true,
+        kline: expect.objectContaining({ symbol: 'BTCUSDT', open: 100, close: 101.5, volume: 12.5, trades: 42, openTime: new Date(1760000000000) })
+      });
+    });
+
+    it('should share streams and close the socket after the last unsubscribe', async () => {
+      const first = await provider.subscribeKlines('BTCUSDT', '5m', jest.fn());
+      const second = await provider.subscribeKlines('BTC/USDT', '5m', jest.fn());
+      const socket = sockets[0];
+      socket.open();
+
+      await provider.unsubscribe(first);
+      expect(socket.close).not.toHaveBeenCalled();
+
+      await provider.unsubscribe(second);
+      expect(socket.close).toHaveBeenCalled();
+      expect(sockets).toHaveLength(1);
+    });
+  });
 });
@@ -4,9 +4,36 @@ import { Logger } from '../../utils/logger';
 import { MarketDataProviderConfig, RateLimiter } from '../../domain/interfaces/market-data.interfaces';
 import { TYPES } from '../../config/types';
 import axios, { AxiosInstance } from 'axios';
+import { DefaultInstrumentRegistry } from '../../services/instrument-registry.service';
+import WebSocket from 'ws';
 
 // Mock axios at the module level
 jest.mock('axios');
+
+// Mock websocket connections
+jest.mock('ws', () => {
+    class MockWebSocket {
+        static OPEN = 1;
+        static instances: MockWebSocket[] = [];
+        readyState = 0;
+        onopen: (() => void) | null = null;
+        onmessage: ((event: { data: string }) => void) | null = null;
+        onclose: (() => void) | null = null;
+        onerror: ((error: Error) => void) | null = null;
+        send = jest.fn();
+        close = jest.fn();
+
+        constructor(public url: string) {
+            MockWebSocket.instances.push(this);
+        }
+    }
+
+    return { __esModule: true, default: MockWebSocket };
+});
+
+interface FakeSocket {
+    onmessage: ((event: { data: string }) => void) | null;
+}
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 const mockAxiosInstance = {
     get: jest.fn(),
@@ -73,7 +100,7 @@ describe('CapitalComMarketDataProvider', () => {
             timeout: 5000,
         };
 
-        provider = new CapitalComMarketDataProvider(mockLogger, mockRateLimiter);
+        provider = new CapitalComMarketDataProvider(mockLogger, mockRateLimiter, new DefaultInstrumentRegistry());
     });
 
     afterEach(async () => {
@@ -216,4 +243,48 @@ describe('CapitalComMarketDataProvider', () => {
             expect(mockRateLimiter.waitForLimit).toHaveBeenCalled();
         });
     });
+
+    describe('kline streaming', () => {
+        const ohlcEvent = (t: number, close: number) => JSON.stringify({
+            status: 'OK',
+            destination: 'ohlc.event',
+            payload: { epic: 'US100', resolution: 'MINUTE_5', type: 'classic', priceType: 'bid', t, o: 100, h: 110, l: 95, c: close },
+        });
+
+        const sockets = (WebSocket as unknown as { instances: FakeSocket[] }).instances;
+        const receive = (data: string) => sockets[sockets.length - 1]?.onmessage?.({ data });
+
+        beforeEach(async () => {
+            mockAxiosInstance.get.mockResolvedValueOnce({ data: { encryptionKey: 'test-key', timeStamp: Date.now() } });
+            mockAxiosInstance.post.mockResolvedValueOnce({
+                data: { accountType: 'CFD' },
+                headers: { 'cst': 'test-cst', 'x-security-token': 'test-security-token' },
+            });
+            await provider.initialize();
+        });
+
+        it('should close a bar when the next bar starts', async () => {
+            const handler = jest.fn();
+            await provider.subscribeKlines('US100', '5m', handler);
+
+            receive(ohlcEvent(1760000000000, 101));
+            receive(ohlcEvent(1760000000000, 104));
+            receive(ohlcEvent(1760000300000, 105));
+
+            const updates = handler.mock.calls.map(([update]) => update);
+            expect(updates.map(update => update.isClosed)).toEqual([false, false, true, false]);
+            expect(updates[2].kline).toMatchObject({ symbol: 'US100', close: 104, openTime: new Date(1760000000000) });
+            expect(updates[2].interval).toBe('5m');
+        });
+
+        it('should stop delivering after unsubscribe', async () => {
+            const handler = jest.fn();
+            const subscriptionId = await provider.subscribeKlines('US100', '5m', handler);
+            await provider.unsubscribe(subscriptionId);
+
+            receive(ohlcEvent(1760000000000, 101));
+
+            expect(handler).not.toHaveBeenCalled();
+        });
+    });
 });
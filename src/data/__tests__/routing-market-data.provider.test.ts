@@ -0,0 +1,113 @@
+import { Container } from 'inversify';
+import { RoutingMarketDataProvider } from '../routing-market-data.provider';
+import { DefaultMarketDataProviderRegistry } from '../../services/market-data-provider-registry.service';
+import { CorrelationConfigurationService } from '../../bot/correlation-configuration.service';
+import { Logger } from '../../utils/logger';
+import { MarketDataProvider, MarketDataProviderRegistry } from '../../domain/interfaces/market-data.interfaces';
+import { BotConfigService } from '../../domain/interfaces/bot-config.interface';
+import { DEFAULT_BOT_CONFIG } from '../../config/bot-config';
+import { CrossDirection } from '../../core/strategies/strategy.interfaces';
+import { TYPES } from '../../config/types';
+
+const createProviderMock = (name: string): jest.Mocked<MarketDataProvider> => ({
+  getName: jest.fn().mockReturnValue(name),
+  getMarketData: jest.fn(),
+  getKlines: jest.fn().mockResolvedValue([]),
+  getTicker24h: jest.fn(),
+  subscribeKlines: jest.fn().mockResolvedValue(`${name}-1`),
+  unsubscribe: jest.fn().mockResolvedValue(undefined),
+  isHealthy: jest.fn().mockResolvedValue(true),
+  initialize: jest.fn().mockResolvedValue(undefined),
+  disconnect: jest.fn().mockResolvedValue(undefined),
+});
+
+describe('RoutingMarketDataProvider', () => {
+  let container: Container;
+  let mockLogger: jest.Mocked<Logger>;
+  let binanceProvider: jest.Mocked<MarketDataProvider>;
+  let capitalComProvider: jest.Mocked<MarketDataProvider>;
+  let router: RoutingMarketDataProvider;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as jest.Mocked<Logger>;
+    binanceProvider = createProviderMock('Binance');
+    capitalComProvider = createProviderMock('Capital.com');
+
+    const botConfig = {
+      getConfig: () => ({
+        ...DEFAULT_BOT_CONFIG,
+        pairs: {
+          ...DEFAULT_BOT_CONFIG.pairs,
+          indices: {
+            name: 'Indices',
+            assets: ['US100', 'US500'],
+            session: { type: 'time_session', startHour: 9, endHour: 16 },
+            direction: CrossDirection.CROSS_OVER,
+            provider: 'capitalcom'
+          }
+        }
+      })
+    } as unknown as BotConfigService;
+
+    container = new Container();
+    container.bind<Logger>(TYPES.Logger).toConstantValue(mockLogger);
+    container.bind<MarketDataProvider>(TYPES.BinanceProvider).toConstantValue(binanceProvider);
+    container.bind<MarketDataProvider>(TYPES.CapitalComProvider).toConstantValue(capitalComProvider);
+    container.bind<BotConfigService>(TYPES.BotConfigService).toConstantValue(botConfig);
+    container.bind(TYPES.CorrelationConfigurationService).to(CorrelationConfigurationService).inSingletonScope();
+    container.bind<MarketDataProviderRegistry>(TYPES.MarketDataProviderRegistry).to(DefaultMarketDataProviderRegistry).inSingletonScope();
+    container.bind<MarketDataProvider>(TYPES.MarketDataProvider).to(RoutingMarketDataProvider).inSingletonScope();
+
+    router = container.get<RoutingMarketDataProvider>(TYPES.MarketDataProvider);
+  });
+
+  it('should route symbols to the provider of their pair', async () => {
+    await router.getKlines('US100', '5m', 50);
+    await router.getKlines('BTCUSDT', '5m', 50);
+
+    expect(capitalComProvider.getKlines).toHaveBeenCalledWith('US100', '5m', 50);
+    expect(binanceProvider.getKlines).toHaveBeenCalledWith('BTCUSDT', '5m', 50);
+    expect(capitalComProvider.getKlines).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the default provider for unknown symbols', () => {
+    expect(router.resolve('SOLUSDT')).toBe(binanceProvider);
+  });
+
+  it('should follow pair provider changes made at runtime', async () => {
+    const configService = container.get<CorrelationConfigurationService>(TYPES.CorrelationConfigurationService);
+    jest.spyOn(configService, 'getPairs').mockReturnValue([
+      ['crypto', { ...DEFAULT_BOT_CONFIG.pairs.crypto!, provider: 'capitalcom' }]
+    ]);
+
+    expect(router.resolve('BTCUSDT')).toBe(capitalComProvider);
+  });
+
+  it('should unsubscribe klines through the provider that streams them', async () => {
+    const handler = jest.fn();
+    const subscriptionId = await router.subscribeKlines('US100', '5m', handler);
+    await router.unsubscribe(subscriptionId);
+
+    expect(capitalComProvider.subscribeKlines).toHaveBeenCalledWith('US100', '5m', handler);
+    expect(capitalComProvider.unsubscribe).toHaveBeenCalledWith(subscriptionId);
+    expect(binanceProvider.unsubscribe).not.toHaveBeenCalled();
+  });
+
+  it('should report healthy only when every provider is healthy', async () => {
+    expect(await router.isHealthy()).toBe(true);
+
+    capitalComProvider.isHealthy.mockResolvedValue(false);
+    expect(await router.isHealthy()).toBe(false);
+  });
+
+  it('should reject unregistered providers', () => {
+    const registry = container.get<MarketDataProviderRegistry>(TYPES.MarketDataProviderRegistry);
+
+    expect(() => registry.get('kraken')).toThrow('Market data provider not registered: kraken');
+  });
+});
@@ -1,27 +1,58 @@
 import { injectable, inject } from 'inversify';
 import * as ccxt from 'ccxt';
+import WebSocket from 'ws';
 import { MarketData } from '../domain/entities/trading.entities';
 import { 
   MarketDataProvider, 
   MarketDataProviderConfig,
   Kline, 
   Ticker24h,
-  RateLimiter
+  RateLimiter,
+  KlineHandler
 } from '../domain/interfaces/market-data.interfaces';
+import { InstrumentRegistry } from '../domain/interfaces/instrument.interface';
 import { TYPES } from '../config/types';
 import { Logger } from '@/utils/logger';
-import { TIME_CONSTANTS, RATE_LIMIT_CONSTANTS } from '../config/constants';
+import { TIME_CONSTANTS, RATE_LIMIT_CONSTANTS, STREAMING_CONSTANTS } from '../config/constants';
 import { getIntervalMs, getIntervalStartTime, getIntervalEndTime } from '../utils/time-utils';
+import { KlineSubscriptions } from './kline-subscriptions';
+
+/**
+ * Kline event from the Binance websocket stream
+ */
+interface BinanceKlineEvent {
+  e: string;
+  s: string;
+  k: {
+    t: number;
+    T: number;
+    s: string;
+    i: string;
+    o: string;
+    c: string;
+    h: string;
+    l: string;
+    v: string;
+    n: number;
+    x: boolean;
+  };
+}
 
 @injectable()
 export class BinanceMarketDataProvider implements MarketDataProvider {
   private exchange: ccxt.binance;
   private isInitialized = false;
   private readonly config: MarketDataProviderConfig;
+  private readonly wsUrl: string;
+  private wsClient: WebSocket | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private nextRequestId = 1;
+  private readonly klineSubscriptions: KlineSubscriptions;
 
   constructor(
     @inject(TYPES.Logger) private logger: Logger,
-    @inject(TYPES.RateLimiter) private rateLimiter: RateLimiter
+    @inject(TYPES.RateLimiter) private rateLimiter: RateLimiter,
+    @inject(TYPES.InstrumentRegistry) private instruments: InstrumentRegistry
   ) {
     this.config = {
       apiKey: process.env.BINANCE_API_KEY || '',
@@ -53,6 +84,8 @@ export class BinanceMarketDataProvider implements MarketDataProvider {
     }
 
     this.exchange = new ccxt.binance(exchangeConfig);
+    this.wsUrl = this.config.testnet ? 'wss://testnet.binance.vision/ws' : 'wss://stream.binance.com:9443/ws';
+    this.klineSubscriptions = new KlineSubscriptions('binance', this.logger);
   }
 
   getName(): string {
@@ -78,6 +111,9 @@ export class BinanceMarketDataProvider implements MarketDataProvider {
   }
 
   async disconnect(): Promise<void> {
+    this.klineSubscriptions.clear();
+    this.closeStream();
+
     if (this.exchange) {
       await this.exchange.close();
       this.isInitialized = false;
@@ -91,11 +127,11 @@ export class BinanceMarketDataProvider implements MarketDataProvider {
 
     try {
       const ticker = await this.retryOperation(() => 
-        this.exchange.fetchTicker(symbol)
+        this.exchange.fetchTicker(this.toMarketSymbol(symbol))
       );
 
       const marketData: MarketData = {
-        symbol: ticker.symbol,
+        symbol,
         price: ticker.last || 0,
         volume: ticker.baseVolume || 0,
         timestamp: new Date(ticker.timestamp || Date.now()),
@@ -116,7 +152,7 @@ export class BinanceMarketDataProvider implements MarketDataProvider {
 
     try {
       const ohlcv = await this.retryOperation(() =>
-        this.exchange.fetchOHLCV(symbol, interval, undefined, limit)
+        this.exchange.fetchOHLCV(this.toMarketSymbol(symbol), interval, undefined, limit)
       );
 
       return ohlcv.map(candle => {
@@ -145,11 +181,11 @@ export class BinanceMarketDataProvider implements MarketDataProvider {
 
     try {
       const ticker = await this.retryOperation(() =>
-        this.exchange.fetchTicker(symbol)
+        this.exchange.fetchTicker(this.toMarketSymbol(symbol))
       );
 
       return {
-        symbol: ticker.symbol,
+        symbol,
         priceChange: ticker.change || 0,
         priceChangePercent: ticker.percentage || 0,
         weightedAvgPrice: ticker.vwap || ticker.last || 0,
@@ -187,6 +223,120 @@ export class BinanceMarketDataProvider implements MarketDataProvider {
     }
   }
 
+  async subscribeKlines(symbol: string, interval: string, handler: KlineHandler): Promise<string> {
+    const streamKey = `${this.toMarketSymbol(symbol).replace('/', '').toLowerCase()}@kline_${interval}`;
+    const { id, isNewStream } = this.klineSubscriptions.add(symbol, streamKey, handler);
+
+    // A new connection subscribes every stream once it opens
+    if (!this.wsClient) {
+      this.connectStream();
+    } else if (isNewStream) {
+      this.sendStreamRequest('SUBSCRIBE', [streamKey]);
+    }
+
+    this.logger.info('Subscribed to Binance klines', { symbol, interval, subscriptionId: id });
+    return id;
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    const removed = this.klineSubscriptions.remove(subscriptionId);
+    if (!removed) return;
+
+    if (this.klineSubscriptions.size === 0) {
+      this.closeStream();
+    } else if (removed.isLastForStream) {
+      this.sendStreamRequest('UNSUBSCRIBE', [removed.streamKey]);
+    }
+    this.logger.info('Unsubscribed from Binance klines', { subscriptionId });
+  }
+
+  private connectStream(): void {
+    const ws = new WebSocket(this.wsUrl);
+    this.wsClient = ws;
+
+    ws.on('open', () => {
+      this.logger.info('Binance kline stream connected');
+      const streamKeys = this.klineSubscriptions.getStreamKeys();
+      if (streamKeys.length > 0) {
+        this.sendStreamRequest('SUBSCRIBE', streamKeys);
+      }
+    });
+
+    ws.on('message', data => this.handleStreamMessage(data.toString()));
+
+    ws.on('close', () => {
+      // A replaced or deliberately closed socket must not reconnect
+      if (this.wsClient !== ws) return;
+      this.wsClient = null;
+      this.logger.warn('Binance kline stream closed');
+      this.scheduleReconnect();
+    });
+
+    ws.on('error', error => {
+      this.logger.error('Binance kline stream error', error);
+    });
+  }
+
+  private closeStream(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const ws = this.wsClient;
+    this.wsClient = null;
+    ws?.close();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.klineSubscriptions.size === 0) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.klineSubscriptions.size > 0) {
+        this.connectStream();
+      }
+    }, STREAMING_CONSTANTS.RECONNECT_DELAY);
+  }
+
+  private sendStreamRequest(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', params: string[]): void {
+    // Requests issued while connecting are covered by the subscribe on open
+    if (this.wsClient?.readyState !== WebSocket.OPEN) return;
+    this.wsClient.send(JSON.stringify({ method, params, id: this.nextRequestId++ }));
+  }
+
+  private handleStreamMessage(raw: string): void {
+    let event: BinanceKlineEvent;
+    try {
+      event = JSON.parse(raw);
+    } catch (error) {
+      this.logger.warn('Ignoring malformed Binance stream message', { error });
+      return;
+    }
+    if (event.e !== 'kline') return;
+
+    const { k } = event;
+    this.klineSubscriptions.dispatch(`${k.s.toLowerCase()}@kline_${k.i}`, {
+      interval: k.i,
+      isClosed: k.x,
+      kline: {
+        symbol: k.s,
+        openTime: new Date(k.t),
+        closeTime: new Date(k.T),
+        open: parseFloat(k.o),
+        high: parseFloat(k.h),
+        low: parseFloat(k.l),
+        close: parseFloat(k.c),
+        volume: parseFloat(k.v),
+        trades: k.n
+      }
+    });
+  }
+
+  private toMarketSymbol(symbol: string): string {
+    return this.instruments.toProviderSymbol(symbol, 'binance');
+  }
+
   private async ensureInitialized(): Promise<void> {
     if (!this.isInitialized) {
       await this.initialize();
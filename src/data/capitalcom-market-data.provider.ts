@@ -5,10 +5,16 @@ import {
     MarketDataProviderConfig, 
     Kline, 
     Ticker24h,
-    RateLimiter 
+    RateLimiter,
+    KlineHandler,
+    KlineUpdate
 } from '../domain/interfaces/market-data.interfaces';
+import { InstrumentRegistry } from '../domain/interfaces/instrument.interface';
 import { Logger } from '../utils/logger';
 import { TYPES } from '../config/types';
+import { STREAMING_CONSTANTS } from '../config/constants';
+import { getIntervalEndTime } from '../utils/time-utils';
+import { KlineSubscriptions } from './kline-subscriptions';
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import WebSocket from 'ws';
 
@@ -27,6 +33,33 @@ interface CapitalComMarketResponse {
     };
 }
 
+interface CapitalComStreamMessage {
+    status: string;
+    destination: string;
+    payload?: {
+        epic?: string;
+        resolution?: string;
+        priceType?: string;
+        t?: number;
+        o?: number;
+        h?: number;
+        l?: number;
+        c?: number;
+        errorCode?: string;
+    };
+}
+
+const RESOLUTIONS: { [interval: string]: string } = {
+    '1m': 'MINUTE',
+    '5m': 'MINUTE_5',
+    '15m': 'MINUTE_15',
+    '30m': 'MINUTE_30',
+    '1h': 'HOUR',
+    '4h': 'HOUR_4',
+    '1d': 'DAY',
+    '1w': 'WEEK',
+};
+
 @injectable()
 export class CapitalComMarketDataProvider implements MarketDataProvider {
     private readonly baseUrl: string;
@@ -36,6 +69,8 @@ export class CapitalComMarketDataProvider implements MarketDataProvider {
     
     private http: AxiosInstance;
     private wsClient: WebSocket | null = null;
+    private pingTimer: NodeJS.Timeout | null = null;
+    private reconnectTimer: NodeJS.Timeout | null = null;
     private isConnected: boolean = false;
     private sessionTokens: {
         cst: string;
@@ -43,10 +78,14 @@ export class CapitalComMarketDataProvider implements MarketDataProvider {
     } | null = null;
 
     private readonly config: Required<MarketDataProviderConfig>;
+    private readonly klineSubscriptions: KlineSubscriptions;
+    // In-progress bar per stream; Capital.com has no close flag, a bar closes when the next one starts
+    private readonly openBars = new Map<string, KlineUpdate>();
 
     constructor(
         @inject(TYPES.Logger) private readonly logger: Logger,
-        @inject(TYPES.RateLimiter) private readonly rateLimiter: RateLimiter
+        @inject(TYPES.RateLimiter) private readonly rateLimiter: RateLimiter,
+        @inject(TYPES.InstrumentRegistry) private readonly instruments: InstrumentRegistry
     ) {
         // Validate required environment variables
         if (!process.env.CAPITAL_COM_API_KEY || !process.env.CAPITAL_COM_CUSTOM_PASS) {
@@ -70,6 +109,7 @@ export class CapitalComMarketDataProvider implements MarketDataProvider {
             baseURL: this.baseUrl,
             timeout: this.config.timeout || 10000,
         });
+        this.klineSubscriptions = new KlineSubscriptions('capitalcom', this.logger);
     }
 
     getName(): string {
@@ -128,24 +168,118 @@ export class CapitalComMarketDataProvider implements MarketDataProvider {
             throw new Error('Session tokens not available');
         }
 
-        this.wsClient = new WebSocket(this.wsBaseUrl);
+        const ws = new WebSocket(this.wsBaseUrl);
+        this.wsClient = ws;
         
-        this.wsClient.onopen = () => {
+        ws.onopen = () => {
             this.logger.info('WebSocket connected');
             // Setup ping interval to keep connection alive
-            setInterval(() => this.pingWebSocket(), 9 * 60 * 1000); // Ping every 9 minutes
+            this.pingTimer = setInterval(() => this.pingWebSocket(), STREAMING_CONSTANTS.CAPITALCOM_PING_INTERVAL);
+            this.klineSubscriptions.getStreamKeys().forEach(streamKey => this.sendOhlcRequest('subscribe', streamKey));
         };
 
-        this.wsClient.onclose = () => {
+        ws.onmessage = (event) => {
+            this.handleStreamMessage(event.data.toString());
+        };
+
+        ws.onclose = () => {
+            this.stopPing();
+            // A deliberately closed socket must not reconnect
+            if (this.wsClient !== ws) return;
+
             this.logger.warn('WebSocket connection closed');
+            this.wsClient = null;
             this.isConnected = false;
+            this.scheduleReconnect();
         };
 
-        this.wsClient.onerror = (error) => {
+        ws.onerror = (error) => {
             this.logger.error('WebSocket error', { error });
         };
     }
 
+    private stopPing(): void {
+        if (this.pingTimer) {
+            clearInterval(this.pingTimer);
+            this.pingTimer = null;
+        }
+    }
+
+    /**
+     * Reconnect with a fresh session while klines are subscribed
+     */
+    private scheduleReconnect(): void {
+        if (this.reconnectTimer || this.klineSubscriptions.size === 0) return;
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (this.klineSubscriptions.size === 0) return;
+
+            this.initialize().catch(() => this.scheduleReconnect());
+        }, STREAMING_CONSTANTS.RECONNECT_DELAY);
+    }
+
+    private sendOhlcRequest(action: 'subscribe' | 'unsubscribe', streamKey: string): void {
+        // Subscriptions made while connecting are sent once the socket opens
+        if (this.wsClient?.readyState !== WebSocket.OPEN || !this.sessionTokens) return;
+
+        const [epic, resolution] = streamKey.split(':');
+        this.wsClient.send(JSON.stringify({
+            destination: `OHLCMarketData.${action}`,
+            correlationId: Date.now().toString(),
+            cst: this.sessionTokens.cst,
+            securityToken: this.sessionTokens.securityToken,
+            payload: { epics: [epic], resolutions: [resolution], type: 'classic' },
+        }));
+    }
+
+    private handleStreamMessage(raw: string): void {
+        let message: CapitalComStreamMessage;
+        try {
+            message = JSON.parse(raw);
+        } catch (error) {
+            this.logger.warn('Ignoring malformed CapitalCom stream message', { error });
+            return;
+        }
+
+        if (message.status !== 'OK') {
+            this.logger.warn('CapitalCom stream request failed', { destination: message.destination, errorCode: message.payload?.errorCode });
+            return;
+        }
+        if (message.destination !== 'ohlc.event' || !message.payload) return;
+
+        const { epic, resolution, priceType, t, o, h, l, c } = message.payload;
+        if (!epic || !resolution || t === undefined || (priceType && priceType !== 'bid')) return;
+
+        const streamKey = `${epic}:${resolution}`;
+        if (!this.klineSubscriptions.hasStream(streamKey)) return;
+
+        const interval = this.mapResolutionToInterval(resolution);
+        const openTime = new Date(t);
+        const previous = this.openBars.get(streamKey);
+        if (previous && previous.kline.openTime.getTime() < t) {
+            this.klineSubscriptions.dispatch(streamKey, { ...previous, isClosed: true });
+        }
+
+        const update: KlineUpdate = {
+            interval,
+            isClosed: false,
+            kline: {
+                symbol: epic,
+                openTime,
+                closeTime: getIntervalEndTime(openTime, interval),
+                open: o ?? 0,
+                high: h ?? 0,
+                low: l ?? 0,
+                close: c ?? 0,
+                volume: 0, // Not provided by the OHLC stream
+                trades: 0,
+            },
+        };
+        this.openBars.set(streamKey, update);
+        this.klineSubscriptions.dispatch(streamKey, update);
+    }
+
     private pingWebSocket(): void {
         if (!this.wsClient || !this.sessionTokens) return;
 
@@ -163,7 +297,7 @@ export class CapitalComMarketDataProvider implements MarketDataProvider {
         await this.rateLimiter.waitForLimit();
         
         try {
-            const { data } = await this.http.get<CapitalComMarketResponse>(`/api/v1/markets/${symbol}`);
+            const { data } = await this.http.get<CapitalComMarketResponse>(`/api/v1/markets/${this.toEpic(symbol)}`);
             
             return {
                 symbol,
@@ -183,7 +317,7 @@ export class CapitalComMarketDataProvider implements MarketDataProvider {
     async getKlines(symbol: string, interval: string, limit: number = 10): Promise<Kline[]> {
         try {
             const resolution = this.mapIntervalToResolution(interval);
-            const { data } = await this.http.get(`/api/v1/prices/${symbol}`, {
+            const { data } = await this.http.get(`/api/v1/prices/${this.toEpic(symbol)}`, {
                 params: {
                     resolution,
                     max: limit,
@@ -207,23 +341,47 @@ export class CapitalComMarketDataProvider implements MarketDataProvider {
         }
     }
 
+    async subscribeKlines(symbol: string, interval: string, handler: KlineHandler): Promise<string> {
+        if (!this.sessionTokens) {
+            await this.initialize();
+        }
+
+        const streamKey = `${this.toEpic(symbol)}:${this.mapIntervalToResolution(interval)}`;
+        const { id, isNewStream } = this.klineSubscriptions.add(symbol, streamKey, handler);
+        if (isNewStream) {
+            this.sendOhlcRequest('subscribe', streamKey);
+        }
+
+        this.logger.info('Subscribed to CapitalCom klines', { symbol, interval, subscriptionId: id });
+        return id;
+    }
+
+    async unsubscribe(subscriptionId: string): Promise<void> {
+        const removed = this.klineSubscriptions.remove(subscriptionId);
+        if (!removed) return;
+
+        if (removed.isLastForStream) {
+            this.sendOhlcRequest('unsubscribe', removed.streamKey);
+            this.openBars.delete(removed.streamKey);
+        }
+        this.logger.info('Unsubscribed from CapitalCom klines', { subscriptionId });
+    }
+
+    private toEpic(symbol: string): string {
+        return this.instruments.toProviderSymbol(symbol, 'capitalcom');
+    }
+
     private mapIntervalToResolution(interval: string): string {
-        const map: { [key: string]: string } = {
-            '1m': 'MINUTE',
-            '5m': 'MINUTE_5',
-            '15m': 'MINUTE_15',
-            '30m': 'MINUTE_30',
-            '1h': 'HOUR',
-            '4h': 'HOUR_4',
-            '1d': 'DAY',
-            '1w': 'WEEK',
-        };
-        return map[interval] || 'MINUTE';
+        return RESOLUTIONS[interval] || 'MINUTE';
+    }
+
+    private mapResolutionToInterval(resolution: string): string {
+        return Object.keys(RESOLUTIONS).find(interval => RESOLUTIONS[interval] === resolution) ?? '1m';
     }
 
     async getTicker24h(symbol: string): Promise<Ticker24h> {
         try {
-            const { data } = await this.http.get(`/api/v1/markets/${symbol}`);
+            const { data } = await this.http.get(`/api/v1/markets/${this.toEpic(symbol)}`);
             const snapshot = data.snapshot;
 
             return {
@@ -262,9 +420,18 @@ export class CapitalComMarketDataProvider implements MarketDataProvider {
     }
 
     async disconnect(): Promise<void> {
+        this.klineSubscriptions.clear();
+        this.openBars.clear();
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.stopPing();
+
         if (this.wsClient) {
-            this.wsClient.close();
+            const ws = this.wsClient;
             this.wsClient = null;
+            ws.close();
         }
         
         if (this.sessionTokens) {
@@ -0,0 +1,73 @@
+import { KlineHandler, KlineUpdate } from '../domain/interfaces/market-data.interfaces';
+import { Logger } from '../utils/logger';
+
+interface KlineSubscription {
+  symbol: string;
+  streamKey: string;
+  handler: KlineHandler;
+}
+
+/**
+ * Kline subscriptions of a streaming provider, grouped by the provider's stream key
+ * so that several handlers on the same symbol and interval share one upstream stream.
+ */
+export class KlineSubscriptions {
+  private readonly subscriptions = new Map<string, KlineSubscription>();
+  private nextId = 1;
+
+  constructor(
+    private readonly prefix: string,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Register a handler; `isNewStream` tells the caller to subscribe upstream
+   */
+  add(symbol: string, streamKey: string, handler: KlineHandler): { id: string; isNewStream: boolean } {
+    const isNewStream = !this.hasStream(streamKey);
+    const id = `${this.prefix}-${this.nextId++}`;
+    this.subscriptions.set(id, { symbol, streamKey, handler });
+    return { id, isNewStream };
+  }
+
+  /**
+   * Remove a handler; `isLastForStream` tells the caller to unsubscribe upstream
+   */
+  remove(id: string): { streamKey: string; isLastForStream: boolean } | null {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) return null;
+
+    this.subscriptions.delete(id);
+    return { streamKey: subscription.streamKey, isLastForStream: !this.hasStream(subscription.streamKey) };
+  }
+
+  /**
+   * Deliver an update to every handler of the stream, under the symbol each one subscribed with
+   */
+  dispatch(streamKey: string, update: KlineUpdate): void {
+    for (const [id, subscription] of this.subscriptions) {
+      if (subscription.streamKey !== streamKey) continue;
+      try {
+        subscription.handler({ ...update, kline: { ...update.kline, symbol: subscription.symbol } });
+      } catch (error) {
+        this.logger.error('Kline handler failed', error, { subscriptionId: id, streamKey });
+      }
+    }
+  }
+
+  hasStream(streamKey: string): boolean {
+    return [...this.subscriptions.values()].some(subscription => subscription.streamKey === streamKey);
+  }
+
+  getStreamKeys(): string[] {
+    return [...new Set([...this.subscriptions.values()].map(subscription => subscription.streamKey))];
+  }
+
+  get size(): number {
+    return this.subscriptions.size;
+  }
+
+  clear(): void {
+    this.subscriptions.clear();
+  }
+}
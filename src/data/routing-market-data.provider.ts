@@ -0,0 +1,87 @@
+import { injectable, inject } from 'inversify';
+import { MarketData } from '../domain/entities/trading.entities';
+import {
+  MarketDataProvider,
+  MarketDataProviderRegistry,
+  Kline,
+  KlineHandler,
+  Ticker24h
+} from '../domain/interfaces/market-data.interfaces';
+import { TYPES } from '../config/types';
+import { DEFAULT_MARKET_DATA_PROVIDER } from '../config/constants';
+import { Logger } from '@/utils/logger';
+import { CorrelationConfigurationService } from '@/bot/correlation-configuration.service';
+
+/**
+ * Routes each request to the provider of the correlation pair that contains the symbol.
+ * Symbols outside every pair use the default provider.
+ */
+@injectable()
+export class RoutingMarketDataProvider implements MarketDataProvider {
+  private readonly subscriptionProviders = new Map<string, MarketDataProvider>();
+
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @inject(TYPES.MarketDataProviderRegistry) private registry: MarketDataProviderRegistry,
+    @inject(TYPES.CorrelationConfigurationService) private correlationConfig: CorrelationConfigurationService
+  ) {}
+
+  getName(): string {
+    return 'Router';
+  }
+
+  /**
+   * Provider serving a symbol. When pairs disagree, the first configured pair wins.
+   */
+  resolve(symbol: string): MarketDataProvider {
+    const pairs = this.correlationConfig.getPairs();
+    const matches = pairs.filter(([, pairConfig]) => pairConfig.assets.includes(symbol));
+    const providerNames = [...new Set(matches.map(([, pairConfig]) => pairConfig.provider ?? DEFAULT_MARKET_DATA_PROVIDER))];
+
+    if (providerNames.length > 1) {
+      this.logger.warn('Symbol is configured with several providers, using the first', { symbol, providerNames });
+    }
+    return this.registry.get(providerNames[0] ?? DEFAULT_MARKET_DATA_PROVIDER);
+  }
+
+  getMarketData(symbol: string): Promise<MarketData> {
+    return this.resolve(symbol).getMarketData(symbol);
+  }
+
+  getKlines(symbol: string, interval: string, limit?: number): Promise<Kline[]> {
+    return this.resolve(symbol).getKlines(symbol, interval, limit);
+  }
+
+  getTicker24h(symbol: string): Promise<Ticker24h> {
+    return this.resolve(symbol).getTicker24h(symbol);
+  }
+
+  async subscribeKlines(symbol: string, interval: string, handler: KlineHandler): Promise<string> {
+    const provider = this.resolve(symbol);
+    const subscriptionId = await provider.subscribeKlines(symbol, interval, handler);
+    this.subscriptionProviders.set(subscriptionId, provider);
+    return subscriptionId;
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    const provider = this.subscriptionProviders.get(subscriptionId);
+    if (!provider) return;
+
+    this.subscriptionProviders.delete(subscriptionId);
+    await provider.unsubscribe(subscriptionId);
+  }
+
+  async isHealthy(): Promise<boolean> {
+    const results = await Promise.all(this.registry.getAll().map(provider => provider.isHealthy()));
+    return results.every(Boolean);
+  }
+
+  async initialize(): Promise<void> {
+    await Promise.all(this.registry.getAll().map(provider => provider.initialize()));
+  }
+
+  async disconnect(): Promise<void> {
+    this.subscriptionProviders.clear();
+    await Promise.all(this.registry.getAll().map(provider => provider.disconnect()));
+  }
+}
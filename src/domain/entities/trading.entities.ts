@@ -3,6 +3,7 @@ export enum AssetType {
   FOREX = 'FOREX',
   STOCK = 'STOCK',
   COMMODITY = 'COMMODITY',
+  INDEX = 'INDEX',
 }
 
 export enum SignalType {
@@ -23,6 +24,20 @@ export interface Asset {
   type: AssetType;
 }
 
+/**
+ * Canonical instrument definition. Configs and messages use `symbol`;
+ * providers translate it with `providerSymbols`.
+ */
+export interface Instrument {
+  symbol: string; // Canonical symbol, e.g. 'BTCUSDT', 'EURUSD', 'US100'
+  base: string;
+  quote: string;
+  assetClass: AssetType;
+  tickSize: number;
+  pricePrecision: number; // Decimal places used when displaying prices
+  providerSymbols: Record<string, string>; // Provider name -> provider symbol
+}
+
 export interface MarketData {
   symbol: string;
   price: number;
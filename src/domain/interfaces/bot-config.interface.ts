@@ -0,0 +1,150 @@
+import { SessionSpec } from '../../core/indicators/indicator.interfaces';
+import { CorrelationFilter, DirectionMode } from '../../core/strategies/strategy.interfaces';
+import { SignalTrackingSettings } from './signal-tracker.interface';
+import { NotificationKind } from './notification.interface';
+
+export type MarketDataProviderName = 'binance' | 'capitalcom';
+
+/**
+ * Correlation pair definition
+ */
+export interface CorrelationPairConfig {
+  name: string;
+  assets: string[];
+  session: SessionSpec; // Reference-level session the HLS/LLS is taken from
+  tradingWindow?: SessionSpec; // When the pair is evaluated (default: tradingHours in the strategy timezone)
+  direction: DirectionMode;
+  provider?: MarketDataProviderName; // Market data source for the assets (default: binance)
+  confidenceModel?: string; // Confidence scoring model (default: 'default')
+}
+
+/**
+ * Correlation crack parameters shared by all pairs
+ */
+export interface StrategyParameters {
+  candleInterval: string;
+  klinesLimit: number;
+  crossDetectionLookback: number;
+  minCorrelatedAssets: number;
+  timezone: string;
+}
+
+/**
+ * Hours (in the strategy timezone) during which pairs without their own trading window are executed
+ */
+export interface TradingHours {
+  startHour: number;
+  endHour: number;
+}
+
+/**
+ * Correlation check applied to every signal before it is announced
+ */
+export interface CorrelationFilterSettings extends CorrelationFilter {
+  enabled: boolean;
+}
+
+/**
+ * Follow-up of announced signals until they hit their target, are invalidated or expire
+ */
+export interface SignalTrackingConfig extends SignalTrackingSettings {
+  enabled: boolean;
+}
+
+/**
+ * Candlestick chart attached to signal messages
+ */
+export interface ChartConfig {
+  enabled: boolean;
+  width: number;
+  panelHeight: number; // Height of each asset's panel
+}
+
+/**
+ * Delivery channel of the notification service. `kinds` limits what it receives.
+ */
+export interface NotificationChannelConfig {
+  enabled: boolean;
+  kinds: NotificationKind[];
+}
+
+export interface WebhookChannelConfig extends NotificationChannelConfig {
+  url: string; // Receives a JSON POST per notification
+}
+
+/**
+ * Plain SMTP relay without authentication, e.g. a local Postfix or a mail catcher
+ */
+export interface EmailChannelConfig extends NotificationChannelConfig {
+  host: string;
+  port: number;
+  from: string;
+  to: string[];
+}
+
+export interface FileChannelConfig extends NotificationChannelConfig {
+  path: string; // JSON lines
+}
+
+export interface NotificationsConfig {
+  telegram: NotificationChannelConfig;
+  webhook: WebhookChannelConfig;
+  email: EmailChannelConfig;
+  console: NotificationChannelConfig;
+  file: FileChannelConfig;
+}
+
+/**
+ * Outbound Telegram message queue. Limits follow the Bot API's flood limits.
+ */
+export interface DeliveryConfig {
+  digestWindowSeconds: number; // Signals to a chat within this window are sent as one digest
+  chatMessagesPerMinute: number;
+  messagesPerSecond: number; // Across all chats
+  maxAttempts: number; // Before a failing message is dropped
+}
+
+export interface BotSchedules {
+  healthCheck: string;
+  dailyReport: string;
+  correlationCheck: string;
+  signalMonitor: string;
+}
+
+/**
+ * Bot configuration loaded from the config file
+ */
+export interface BotConfig {
+  strategy: StrategyParameters;
+  tradingHours: TradingHours;
+  correlationFilter: CorrelationFilterSettings;
+  signalTracking: SignalTrackingConfig;
+  charts: ChartConfig;
+  notifications: NotificationsConfig;
+  delivery: DeliveryConfig;
+  schedules: BotSchedules;
+  pairs: Record<string, CorrelationPairConfig>;
+}
+
+export type BotConfigListener = (config: BotConfig, previous: BotConfig) => void;
+
+/**
+ * Source of the current bot configuration
+ */
+export interface BotConfigService {
+  /**
+   * Load and validate the config file. Throws BotConfigValidationError on invalid content.
+   */
+  load(): Promise<BotConfig>;
+  getConfig(): BotConfig;
+  /**
+   * Re-read the config file. Keeps the current config and returns false when the new content is invalid.
+   */
+  reload(): Promise<boolean>;
+  /**
+   * Reload the file whenever it changes. Invalid revisions are logged and ignored.
+   */
+  watch(): void;
+  onChange(listener: BotConfigListener): void;
+  close(): void;
+}
@@ -0,0 +1,39 @@
+import { Kline } from './market-data.interfaces';
+
+/**
+ * A streamed bar that has closed
+ */
+export interface CandleCloseEvent {
+  symbol: string;
+  interval: string;
+  kline: Kline;
+}
+
+/**
+ * Every asset of a correlation pair has closed the bar ending at `closeTime`,
+ * or the settle delay ran out waiting for the stragglers
+ */
+export interface PairBarCloseEvent {
+  pairName: string;
+  interval: string;
+  closeTime: Date;
+  symbols: string[];
+}
+
+export type CandleCloseListener = (event: CandleCloseEvent) => void;
+export type PairBarCloseListener = (event: PairBarCloseEvent) => void;
+
+/**
+ * Streams the configured pairs' assets at the strategy candle interval and
+ * publishes bar closes as they are confirmed
+ */
+export interface CandleCloseEventBus {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  onCandleClose(listener: CandleCloseListener): void;
+  onPairBarClose(listener: PairBarCloseListener): void;
+  /**
+   * Whether bar closes for the pair arrived recently enough that scheduled checks can be skipped
+   */
+  isLive(pairName: string): boolean;
+}
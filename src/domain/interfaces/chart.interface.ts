@@ -0,0 +1,67 @@
+import { Kline } from './market-data.interfaces';
+import { StrategySignal } from '../../core/strategies/strategy.interfaces';
+import { HighLowResult } from '../../core/indicators/indicator.interfaces';
+
+/**
+ * Session range drawn as a box behind the candles
+ */
+export interface ChartSessionBox {
+  start: Date;
+  end: Date;
+  high: number;
+  low: number;
+}
+
+/**
+ * Horizontal price level drawn across a panel and labelled on the price axis
+ */
+export interface ChartLevel {
+  label: string;
+  price: number;
+}
+
+/**
+ * Candlestick panel of one asset
+ */
+export interface ChartPanel {
+  symbol: string;
+  klines: Kline[];
+  subtitle?: string;
+  session?: ChartSessionBox;
+  levels?: ChartLevel[];
+  highlight?: Date; // Time inside the candle to mark, e.g. the crack candle
+}
+
+export interface ChartLayout {
+  width?: number;
+  panelHeight?: number;
+  timezone?: string; // Time axis labels (default: UTC)
+}
+
+/**
+ * Chart of one or more assets stacked vertically
+ */
+export interface CandlestickChart extends ChartLayout {
+  title: string;
+  panels: ChartPanel[];
+}
+
+export interface SignalChartOptions extends ChartLayout {
+  pairName?: string;
+}
+
+/**
+ * Renders candlestick charts as PNG images
+ */
+export interface ChartService {
+  render(chart: CandlestickChart): Buffer;
+  /**
+   * Chart of every asset of a signal with its session range and the crack candle
+   */
+  renderSignalChart(
+    signal: StrategySignal,
+    klines: Map<string, Kline[]>,
+    sessionRanges: Map<string, HighLowResult>,
+    options?: SignalChartOptions
+  ): Buffer;
+}
@@ -0,0 +1,8 @@
+/**
+ * Source of the current time.
+ * Time-dependent modules read "now" through this interface so that
+ * historical data can be replayed against a simulated clock.
+ */
+export interface Clock {
+  now(): Date;
+}
@@ -0,0 +1,37 @@
+import { Kline } from './market-data.interfaces';
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+/**
+ * Correlation of the returns of two assets over the same bars
+ */
+export interface AssetCorrelation {
+  symbols: [string, string];
+  pearson: number; // NaN when there is not enough data
+  spearman: number;
+  sampleSize: number; // Returns compared
+}
+
+/**
+ * Pairwise return correlations of a group of assets
+ */
+export interface CorrelationReport {
+  symbols: string[];
+  window: number; // Returns requested per asset
+  correlations: AssetCorrelation[];
+  calculatedAt: Date;
+}
+
+/**
+ * Rolling correlation of asset returns
+ */
+export interface CorrelationTracker {
+  /**
+   * Correlate the last `window` returns of klines already fetched. Bars are matched by open time.
+   */
+  analyze(klines: Map<string, Kline[]>, window: number): CorrelationReport;
+  /**
+   * Fetch the klines needed for `window` returns and correlate them
+   */
+  measure(symbols: string[], interval: string, window: number): Promise<CorrelationReport>;
+}
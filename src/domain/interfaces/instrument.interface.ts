@@ -0,0 +1,14 @@
+import { Instrument } from '../entities/trading.entities';
+
+/**
+ * Canonical instruments and their per-provider symbols
+ */
+export interface InstrumentRegistry {
+  /**
+   * Instrument for a canonical or provider symbol. Symbols missing from
+   * the catalogue are inferred from their shape (e.g. 'SOLUSDT', 'NZDUSD').
+   */
+  resolve(symbol: string): Instrument;
+  toProviderSymbol(symbol: string, provider: string): string;
+  formatPrice(symbol: string, price: number): string;
+}
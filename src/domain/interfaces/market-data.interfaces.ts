@@ -9,6 +9,11 @@ export interface MarketDataProvider {
   getMarketData(symbol: string): Promise<MarketData>;
   getKlines(symbol: string, interval: string, limit?: number): Promise<Kline[]>;
   getTicker24h(symbol: string): Promise<Ticker24h>;
+  /**
+   * Stream kline updates for a symbol; resolves with an id for `unsubscribe`
+   */
+  subscribeKlines(symbol: string, interval: string, handler: KlineHandler): Promise<string>;
+  unsubscribe(subscriptionId: string): Promise<void>;
   isHealthy(): Promise<boolean>;
   initialize(): Promise<void>;
   disconnect(): Promise<void>;
@@ -54,6 +59,17 @@ export interface Kline {
   trades: number;
 }
 
+/**
+ * Streamed kline. `isClosed` turns true once the bar is final.
+ */
+export interface KlineUpdate {
+  kline: Kline;
+  interval: string;
+  isClosed: boolean;
+}
+
+export type KlineHandler = (update: KlineUpdate) => void;
+
 /**
  * 24h ticker statistics
  */
@@ -96,3 +112,12 @@ export interface RateLimiter {
   getRemainingRequests(): number;
   getResetTime(): Date;
 }
+
+/**
+ * Market data providers by name ('binance', 'capitalcom', ...)
+ */
+export interface MarketDataProviderRegistry {
+  register(name: string, provider: MarketDataProvider): void;
+  get(name: string): MarketDataProvider;
+  getAll(): MarketDataProvider[];
+}
@@ -0,0 +1,48 @@
+import { StrategySignal } from '../../core/strategies/strategy.interfaces';
+import { SignalMessageRef, TrackedSignal } from './signal-tracker.interface';
+
+export const NOTIFICATION_KINDS = ['signal', 'signal_outcome', 'message'] as const;
+export type NotificationKind = typeof NOTIFICATION_KINDS[number];
+
+/**
+ * Something to tell the team, already formatted as text. Channels that understand the
+ * structured fields (signal, outcome, chart) may use them instead of the text.
+ */
+export interface Notification {
+  kind: NotificationKind;
+  text: string;
+  pairName?: string;
+  signal?: StrategySignal;
+  signalId?: string; // Journal entry of the signal
+  outcome?: TrackedSignal; // Closed signal of a signal_outcome
+  chart?: Buffer; // PNG
+  replyTo?: SignalMessageRef[]; // Messages this notification follows up on
+}
+
+/**
+ * Delivery target such as a chat, a webhook or a mailbox
+ */
+export interface NotificationChannel {
+  readonly name: string;
+  /**
+   * Deliver a notification. Channels that post chat messages return them so follow-ups can reply.
+   */
+  send(notification: Notification): Promise<SignalMessageRef[] | void>;
+}
+
+export interface NotificationResult {
+  delivered: string[]; // Channel names
+  failed: string[];
+  messages: SignalMessageRef[];
+}
+
+/**
+ * Publishes notifications to every enabled channel that accepts their kind
+ */
+export interface NotificationService {
+  register(channel: NotificationChannel): void;
+  /**
+   * Never throws: channel failures are logged and reported in the result.
+   */
+  publish(notification: Notification): Promise<NotificationResult>;
+}
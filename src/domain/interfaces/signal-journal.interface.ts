@@ -0,0 +1,55 @@
+import { StrategySignal } from '../../core/strategies/strategy.interfaces';
+
+export const SIGNAL_FEEDBACK_ACTIONS = ['taken', 'ignored', 'muted'] as const;
+export type SignalFeedbackAction = typeof SIGNAL_FEEDBACK_ACTIONS[number];
+
+/**
+ * What a trader did with a signal, from the buttons on the signal message
+ */
+export interface SignalFeedback {
+  action: SignalFeedbackAction; // muted: no more signals of the pair in the chat this session
+  chatId: string;
+  userId: string;
+  recordedAt: Date;
+}
+
+/**
+ * Signal recorded in the journal
+ */
+export interface SignalJournalEntry {
+  id: string;
+  pairName: string;
+  sessionKey: string; // Trading date (YYYY-MM-DD, New York time) the signal belongs to
+  recordedAt: Date;
+  signal: StrategySignal;
+  feedback?: SignalFeedback[];
+}
+
+/**
+ * Filter for journal queries. Results are returned newest first.
+ */
+export interface SignalJournalQuery {
+  pairName?: string;
+  sessionKey?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Persistent store of emitted strategy signals
+ */
+export interface SignalJournal {
+  /**
+   * Record a signal. Returns null when the same crack was already
+   * recorded for the pair during the same session.
+   */
+  record(pairName: string, signal: StrategySignal): Promise<SignalJournalEntry | null>;
+  query(query?: SignalJournalQuery): Promise<SignalJournalEntry[]>;
+  get(id: string): Promise<SignalJournalEntry | undefined>;
+  /**
+   * Add feedback to a signal. A user's taken/ignored verdict replaces their earlier one in the same chat.
+   * Returns null when the signal is not in the journal.
+   */
+  recordFeedback(id: string, feedback: SignalFeedback): Promise<SignalJournalEntry | null>;
+}
@@ -0,0 +1,66 @@
+import { StrategySignal } from '../../core/strategies/strategy.interfaces';
+import { SignalJournalEntry } from './signal-journal.interface';
+
+export type TrackedSignalStatus = 'open' | 'target_hit' | 'invalidated' | 'expired';
+
+/**
+ * Levels a signal is tracked against, taken from the signal tracking config when it fires
+ */
+export interface SignalTrackingSettings {
+  invalidationBufferPercent: number; // Beyond the reference level before the signal is invalidated
+  targetPercent: number; // Move from the entry price in the signal direction
+  expiryMinutes: number;
+}
+
+/**
+ * Telegram message that announced a signal in a chat. Outcomes are sent as replies to it.
+ */
+export interface SignalMessageRef {
+  chatId: string;
+  messageId: number;
+}
+
+/**
+ * Signal followed from announcement until it hits its target, is invalidated or expires
+ */
+export interface TrackedSignal {
+  id: string; // Journal entry id
+  pairName: string;
+  signal: StrategySignal;
+  entryPrice: number;
+  invalidationLevel: number;
+  targetPrice: number;
+  openedAt: Date;
+  expiresAt: Date;
+  status: TrackedSignalStatus;
+  closedAt?: Date;
+  exitPrice?: number;
+  movePercent?: number; // Move in the signal direction at close (positive = in favour)
+  messages: SignalMessageRef[]; // One per chat the signal was sent to
+}
+
+/**
+ * Outcome counts of tracked signals
+ */
+export interface SignalTrackingStats {
+  total: number;
+  open: number;
+  targetHit: number;
+  invalidated: number;
+  expired: number;
+  hitRate: number; // Share of closed signals that hit their target, NaN when none closed
+  averageMovePercent: number; // Over closed signals, NaN when none closed
+}
+
+/**
+ * Follows announced signals and records how they played out
+ */
+export interface SignalTracker {
+  track(entry: SignalJournalEntry, settings: SignalTrackingSettings): Promise<TrackedSignal>;
+  attachMessages(id: string, messages: SignalMessageRef[]): Promise<void>;
+  /**
+   * Check open signals against the current price. Returns the signals closed by this check.
+   */
+  update(): Promise<TrackedSignal[]>;
+  getStats(pairName?: string): Promise<SignalTrackingStats>;
+}
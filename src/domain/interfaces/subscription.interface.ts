@@ -0,0 +1,37 @@
+import { SessionSpec } from '../../core/indicators/indicator.interfaces';
+import { DirectionMode } from '../../core/strategies/strategy.interfaces';
+
+/**
+ * Pair name that subscribes a chat to every pair, including pairs added later
+ */
+export const ALL_PAIRS = '*';
+
+/**
+ * Which signals a chat wants to receive
+ */
+export interface SubscriptionPreferences {
+  minConfidence: number; // 0-1
+  direction: DirectionMode; // Directions of interest
+  quietHours?: SessionSpec; // No signals during these hours
+}
+
+/**
+ * Signal subscription of a Telegram chat
+ */
+export interface ChatSubscription {
+  chatId: string;
+  pairs: string[]; // Pair names, or ALL_PAIRS
+  preferences: SubscriptionPreferences;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Persistent store of chat subscriptions
+ */
+export interface SubscriptionStore {
+  list(): Promise<ChatSubscription[]>;
+  get(chatId: string): Promise<ChatSubscription | undefined>;
+  save(subscription: ChatSubscription): Promise<void>;
+  remove(chatId: string): Promise<boolean>;
+}
@@ -0,0 +1,53 @@
+import { AssetType } from '../entities/trading.entities';
+
+export interface CalendarHoliday {
+  date: string; // YYYY-MM-DD in the calendar timezone
+  name: string;
+}
+
+export interface CalendarHalfDay extends CalendarHoliday {
+  close: string; // HH:MM
+}
+
+/**
+ * Trading days, regular hours and closures of one exchange or asset class
+ */
+export interface MarketCalendar {
+  id: string;
+  name: string;
+  timezone: string;
+  assetClasses: AssetType[];
+  symbols: string[]; // Instruments that use this calendar regardless of asset class
+  tradingDays: number[]; // 0 = Sunday
+  open: string; // HH:MM
+  close: string; // HH:MM, "24:00" for the end of the day
+  opensPreviousDay: boolean; // Each day's session opens at `open` on the evening before, like forex's 17:00 New York roll
+  holidays: CalendarHoliday[];
+  halfDays: CalendarHalfDay[];
+}
+
+/**
+ * One trading day's session
+ */
+export interface MarketSession {
+  date: string;
+  open: Date;
+  close: Date;
+  halfDay: boolean;
+}
+
+/**
+ * Market calendars per exchange or asset class.
+ * Symbols without a calendar (crypto) trade around the clock.
+ */
+export interface TradingCalendar {
+  load(): Promise<void>;
+  getCalendar(symbol: string): MarketCalendar | null;
+  /**
+   * Session of the market's calendar day containing `date`, or null when the market is closed that day.
+   * With `opensPreviousDay` the session opens on the day before.
+   */
+  getSession(symbol: string, date: Date): MarketSession | null;
+  isTradingDay(symbol: string, date: Date): boolean;
+  isOpen(symbol: string, at: Date): boolean;
+}
@@ -0,0 +1,32 @@
+import { Kline } from './market-data.interfaces';
+
+/**
+ * Volume and volatility of a single bar compared with the bars before it
+ */
+export interface VolumeAnalysis {
+  symbol: string;
+  barTime: Date; // Open time of the analyzed bar
+  volume: number;
+  averageVolume: number; // Mean volume of the earlier bars of the session
+  relativeVolume: number; // volume / averageVolume, NaN without volume data
+  atr: number; // Average true range of the bars before it, NaN without history
+  atrPercent: number; // ATR relative to the bar close
+  barRange: number; // High - low of the analyzed bar
+  rangeExpansion: number; // barRange / atr, NaN without history
+}
+
+export interface VolumeAnalysisOptions {
+  at?: Date; // Open time of the bar to analyze, default: the last bar
+  timezone?: string; // Day boundary of the session, default: UTC
+  atrPeriod?: number;
+}
+
+/**
+ * Relative volume, ATR and range expansion of klines
+ */
+export interface VolumeAnalyzer {
+  /**
+   * Analyze one bar of the klines. Returns undefined when the bar is not found.
+   */
+  analyze(symbol: string, klines: Kline[], options?: VolumeAnalysisOptions): VolumeAnalysis | undefined;
+}
@@ -12,6 +12,12 @@ import { BinanceMarketDataProvider } from '../data/binance-market-data.provider'
 import { CorrelationCrackConfig, CrossDirection, AssetCondition } from '../core/strategies/strategy.interfaces';
 import { SessionSpec } from '../core/indicators/indicator.interfaces';
 import { TYPES } from '../config/types';
+import { SystemClock } from '../services/clock.service';
+import { DefaultInstrumentRegistry } from '../services/instrument-registry.service';
+import { FileTradingCalendar } from '../services/trading-calendar.service';
+import { ReturnsCorrelationTracker } from '../services/correlation-tracker.service';
+import { KlineVolumeAnalyzer } from '../services/volume-analyzer.service';
+import { DefaultConfidenceModelRegistry } from '../core/scoring/confidence-models';
 import { createLogger, format, transports } from 'winston';
 
 /**
@@ -47,9 +53,15 @@ function setupContainer(): Container {
 
   // Bind dependencies
   container.bind(TYPES.Logger).toConstantValue(logger);
+  container.bind(TYPES.Clock).to(SystemClock);
   container.bind(TYPES.BinanceConfig).toConstantValue(binanceConfig);
+  container.bind(TYPES.InstrumentRegistry).to(DefaultInstrumentRegistry).inSingletonScope();
   container.bind(TYPES.MarketDataProvider).to(BinanceMarketDataProvider);
+  container.bind(TYPES.TradingCalendar).to(FileTradingCalendar).inSingletonScope();
   container.bind(TYPES.HighLowIndicator).to(HighLowIndicator);
+  container.bind(TYPES.CorrelationTracker).to(ReturnsCorrelationTracker);
+  container.bind(TYPES.VolumeAnalyzer).to(KlineVolumeAnalyzer);
+  container.bind(TYPES.ConfidenceModelRegistry).to(DefaultConfidenceModelRegistry).inSingletonScope();
   container.bind(TYPES.CorrelationCrackStrategy).to(CorrelationCrackStrategy);
 
   return container;
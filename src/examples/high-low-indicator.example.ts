@@ -9,6 +9,8 @@ import 'reflect-metadata';
 import { HighLowIndicator } from '../core/indicators/high-low.indicator';
 import { HighLowIndicatorConfig } from '../core/indicators/indicator.interfaces';
 import { MarketDataProvider } from '../domain/interfaces/market-data.interfaces';
+import { Clock } from '../domain/interfaces/clock.interface';
+import { TradingCalendar } from '../domain/interfaces/trading-calendar.interface';
 import { TYPES } from '../config/types';
 import { setupContainer } from '../config/inversify.config';
 
@@ -22,8 +24,10 @@ async function main() {
     // Get the market data provider 
     const marketDataProvider = container.get<MarketDataProvider>(TYPES.MarketDataProvider);
     
-    // Create indicator instance (no dependencies needed)
-    const indicator = new HighLowIndicator();
+    // Create indicator instance reading time from the system clock and skipping market holidays
+    const calendar = container.get<TradingCalendar>(TYPES.TradingCalendar);
+    await calendar.load();
+    const indicator = new HighLowIndicator(container.get<Clock>(TYPES.Clock), calendar);
 
     // Example 1: Previous day high/low project,
     console.log('📊 Example 1: Previous Day High/Low');
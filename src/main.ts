@@ -6,6 +6,11 @@ import { BotService } from '@/domain/interfaces/bot-service.interface';
 import { MarketDataProvider } from '@/domain/interfaces/market-data.interfaces';
 import { TYPES } from '@/config/types';
 import { setupContainer } from '@/config/inversify.config';
+import { CorrelationConfigurationService } from '@/bot/correlation-configuration.service';
+import { BotConfigService } from '@/domain/interfaces/bot-config.interface';
+import { CandleCloseEventBus } from '@/domain/interfaces/candle-close.interface';
+import { TradingCalendar } from '@/domain/interfaces/trading-calendar.interface';
+import { OutboundQueueService } from '@/bot/outbound-queue.service';
 
 class Application {
   private container: Container;
@@ -33,6 +38,17 @@ class Application {
         this.initializeProvider(this.capitalComProvider, 'Capital.com')
       ]);
 
+      // Load and validate the config file before anything reads from it
+      const botConfig = this.container.get<BotConfigService>(TYPES.BotConfigService);
+      await botConfig.load();
+      botConfig.watch();
+
+      // Exchange holidays and half-days
+      await this.container.get<TradingCalendar>(TYPES.TradingCalendar).load();
+
+      // Restore correlation pairs managed at runtime
+      await this.container.get<CorrelationConfigurationService>(TYPES.CorrelationConfigurationService).load();
+
       const botService = this.container.get<BotService>(TYPES.BotService);
       await botService.initialize();
       await botService.startBackgroundTasks();
@@ -60,6 +76,10 @@ class Application {
 
   private async shutdown(): Promise<void> {
     this.logger.info('Shutting down Trading Bot Application');
+    this.container.get<BotConfigService>(TYPES.BotConfigService).close();
+    await this.container.get<CandleCloseEventBus>(TYPES.CandleCloseEventBus).stop();
+    // Messages still queued are delivered on the next start
+    await this.container.get<OutboundQueueService>(TYPES.OutboundQueueService).stop();
     await Promise.all([
       this.binanceProvider?.disconnect(),
       this.capitalComProvider?.disconnect()
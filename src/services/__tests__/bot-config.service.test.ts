@@ -0,0 +1,252 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileBotConfigService } from '../bot-config.service';
+import { BotConfigValidationError, DEFAULT_BOT_CONFIG, validateBotConfig } from '../../config/bot-config';
+import { Logger } from '../../utils/logger';
+
+describe('validateBotConfig', () => {
+  it('should fill omitted sections with defaults', () => {
+    const config = validateBotConfig({ strategy: { klinesLimit: 200 } });
+
+    expect(config.strategy).toEqual({ ...DEFAULT_BOT_CONFIG.strategy, klinesLimit: 200 });
+    expect(config.schedules).toEqual(DEFAULT_BOT_CONFIG.schedules);
+    expect(config.pairs).toEqual(DEFAULT_BOT_CONFIG.pairs);
+  });
+
+  it('should accept the config file shipped with the bot', async () => {
+    const shipped = JSON.parse(await fs.readFile(path.join(__dirname, '../../../config/bot.config.json'), 'utf8'));
+
+    expect(() => validateBotConfig(shipped)).not.toThrow();
+  });
+
+  it('should replace the default pairs with the configured ones', () => {
+    const config = validateBotConfig({
+      pairs: {
+        forex: {
+          assets: ['eurusd', 'gbpusd'],
+          session: { startHour: 3, endHour: 8, timezone: 'Europe/London' },
+          direction: 'cross_over',
+          provider: 'capitalcom'
+        }
+      }
+    });
+
+    expect(config.pairs).toEqual({
+      forex: {
+        name: 'forex',
+        assets: ['EURUSD', 'GBPUSD'],
+        session: { type: 'time_session', startHour: 3, endHour: 8, timezone: 'Europe/London' },
+        direction: 'cross_over',
+        provider: 'capitalcom'
+      }
+    });
+  });
+
+  it('should accept a trading window next to the reference session', () => {
+    const config = validateBotConfig({
+      pairs: {
+        asia: {
+          assets: ['USDJPY', 'EURJPY'],
+          session: { startHour: 19, endHour: 0 },
+          tradingWindow: { startHour: 2, endHour: 5, timezone: 'America/New_York' },
+          direction: 'cross_under'
+        }
+      }
+    });
+
+    expect(config.pairs.asia?.tradingWindow).toEqual({ type: 'time_session', startHour: 2, endHour: 5, timezone: 'America/New_York' });
+    expect(() => validateBotConfig({
+      pairs: { asia: { assets: ['USDJPY', 'EURJPY'], session: { startHour: 19, endHour: 0 }, tradingWindow: { startHour: 2 }, direction: 'cross_under' } }
+    })).toThrow('pairs.asia.tradingWindow requires startHour and endHour');
+  });
+
+  it('should reject a trading window inside the reference session', () => {
+    // 09:00-12:00 in Tokyo is 19:00-22:00 in New York in winter, 20:00-23:00 in summer
+    expect(() => validateBotConfig({
+      pairs: {
+        asia: {
+          assets: ['USDJPY', 'EURJPY'],
+          session: { startHour: 19, endHour: 0 },
+          tradingWindow: { startHour: 9, endHour: 12, timezone: 'Asia/Tokyo' },
+          direction: 'cross_over'
+        }
+      }
+    })).toThrow('pairs.asia.tradingWindow must not overlap pairs.asia.session');
+  });
+
+  it('should report every problem with its path', () => {
+    const invalid = {
+      strategy: { candleInterval: '7m', timezone: 'Mars/Olympus' },
+      schedules: { correlationCheck: 'every five minutes' },
+      pairs: {
+        broken: {
+          assets: ['BTCUSDT'],
+          session: { startHour: 25, endHour: 12, startMinute: 75 },
+          direction: 'sideways'
+        }
+      }
+    };
+
+    try {
+      validateBotConfig(invalid, 'bot.config.json');
+      fail('Expected validation to fail');
+    } catch (error) {
+      expect(error).toBeInstanceOf(BotConfigValidationError);
+      const { issues, message } = error as BotConfigValidationError;
+      expect(message).toContain('bot.config.json');
+      expect(issues).toEqual([
+        expect.stringContaining('strategy.candleInterval "7m" is not a known interval'),
+        expect.stringContaining('strategy.timezone "Mars/Olympus" is not a known IANA timezone'),
+        expect.stringContaining('schedules.correlationCheck'),
+        'pairs.broken.assets must list 2-4 symbols',
+        expect.stringContaining('pairs.broken.direction must be one of'),
+        'pairs.broken.session.startHour must be an integer between 0 and 23, got 25',
+        'pairs.broken.session.startMinute must be an integer between 0 and 59, got 75'
+      ]);
+    }
+  });
+
+  it('should reject trading hours that end before they start', () => {
+    expect(() => validateBotConfig({ tradingHours: { startHour: 12, endHour: 8 } }))
+      .toThrow('tradingHours.startHour (12) must be before endHour (8)');
+  });
+
+  it('should accept the confidence models a pair can use', () => {
+    const pair = { assets: ['BTCUSDT', 'ETHUSDT'], session: { startHour: 8, endHour: 12 }, direction: 'cross_under' };
+
+    expect(validateBotConfig({ pairs: { crypto: { ...pair, confidenceModel: 'classic' } } }).pairs.crypto?.confidenceModel).toBe('classic');
+    expect(() => validateBotConfig({ pairs: { crypto: { ...pair, confidenceModel: 'neural' } } }))
+      .toThrow('pairs.crypto.confidenceModel must be one of default, classic');
+  });
+
+  it('should validate the correlation filter thresholds', () => {
+    const config = validateBotConfig({ correlationFilter: { method: 'spearman', window: 30 } });
+
+    expect(config.correlationFilter).toEqual({ ...DEFAULT_BOT_CONFIG.correlationFilter, method: 'spearman', window: 30 });
+    expect(() => validateBotConfig({ correlationFilter: { minCorrelation: 0.8, weakCorrelation: 0.5 } }))
+      .toThrow('correlationFilter.minCorrelation (0.8) must not exceed weakCorrelation (0.5)');
+    expect(() => validateBotConfig({ correlationFilter: { method: 'kendall' } }))
+      .toThrow(BotConfigValidationError);
+  });
+
+  it('should validate the signal tracking levels', () => {
+    const config = validateBotConfig({ signalTracking: { targetPercent: 1.5, expiryMinutes: 60 } });
+
+    expect(config.signalTracking).toEqual({ ...DEFAULT_BOT_CONFIG.signalTracking, targetPercent: 1.5, expiryMinutes: 60 });
+    expect(() => validateBotConfig({ signalTracking: { targetPercent: 0 } }))
+      .toThrow('signalTracking.targetPercent must be a number between 0.01 and 100, got 0');
+    expect(() => validateBotConfig({ schedules: { signalMonitor: 'every minute' } }))
+      .toThrow('schedules.signalMonitor');
+  });
+
+  it('should validate the delivery limits', () => {
+    const config = validateBotConfig({ delivery: { digestWindowSeconds: 0, chatMessagesPerMinute: 30 } });
+
+    expect(config.delivery).toEqual({ ...DEFAULT_BOT_CONFIG.delivery, digestWindowSeconds: 0, chatMessagesPerMinute: 30 });
+    expect(() => validateBotConfig({ delivery: { messagesPerSecond: 40 } }))
+      .toThrow('delivery.messagesPerSecond must be an integer between 1 and 30, got 40');
+  });
+
+  it('should validate the notification channels', () => {
+    const config = validateBotConfig({
+      notifications: {
+        webhook: { enabled: true, url: 'https://hooks.example.com/signals' },
+        console: { enabled: true, kinds: ['signal'] }
+      }
+    });
+
+    expect(config.notifications.webhook).toEqual({
+      ...DEFAULT_BOT_CONFIG.notifications.webhook,
+      enabled: true,
+      url: 'https://hooks.example.com/signals'
+    });
+    expect(config.notifications.console).toEqual({ enabled: true, kinds: ['signal'] });
+    expect(() => validateBotConfig({ notifications: { webhook: { enabled: true } } }))
+      .toThrow('notifications.webhook.url is required when the channel is enabled');
+    expect(() => validateBotConfig({ notifications: { email: { enabled: true } } }))
+      .toThrow('notifications.email.to requires at least one address when the channel is enabled');
+    expect(() => validateBotConfig({ notifications: { file: { kinds: ['signal', 'digest'] } } }))
+      .toThrow('notifications.file.kinds contains unknown values digest');
+    expect(() => validateBotConfig({ notifications: { webhook: { url: 'ftp://example.com' } } }))
+      .toThrow('notifications.webhook.url "ftp://example.com" is not an http(s) URL');
+  });
+});
+
+describe('FileBotConfigService', () => {
+  let tempDir: string;
+  let filePath: string;
+  let mockLogger: jest.Mocked<Logger>;
+  let service: FileBotConfigService;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bot-config-'));
+    filePath = path.join(tempDir, 'bot.config.json');
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as jest.Mocked<Logger>;
+    service = new FileBotConfigService(mockLogger, filePath);
+  });
+
+  afterEach(async () => {
+    service.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should use defaults when the file does not exist', async () => {
+    expect(await service.load()).toBe(DEFAULT_BOT_CONFIG);
+  });
+
+  it('should fail loading invalid files', async () => {
+    await fs.writeFile(filePath, '{ "strategy": ', 'utf8');
+
+    await expect(service.load()).rejects.toThrow('is not valid JSON');
+  });
+
+  it('should notify listeners on reload and keep the previous config when invalid', async () => {
+    const listener = jest.fn();
+    await fs.writeFile(filePath, JSON.stringify({ tradingHours: { startHour: 9, endHour: 11 } }), 'utf8');
+    await service.load();
+    service.onChange(listener);
+
+    await fs.writeFile(filePath, JSON.stringify({ tradingHours: { startHour: 7, endHour: 11 } }), 'utf8');
+    expect(await service.reload()).toBe(true);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ tradingHours: { startHour: 7, endHour: 11 } }),
+      expect.objectContaining({ tradingHours: { startHour: 9, endHour: 11 } })
+    );
+
+    await fs.writeFile(filePath, JSON.stringify({ tradingHours: { startHour: 30 } }), 'utf8');
+    expect(await service.reload()).toBe(false);
+    expect(service.getConfig().tradingHours).toEqual({ startHour: 7, endHour: 11 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the current config when the file disappears', async () => {
+    const listener = jest.fn();
+    await fs.writeFile(filePath, JSON.stringify({ tradingHours: { startHour: 9, endHour: 11 } }), 'utf8');
+    await service.load();
+    service.onChange(listener);
+
+    await fs.rm(filePath);
+
+    expect(await service.reload()).toBe(false);
+    expect(service.getConfig().tradingHours).toEqual({ startHour: 9, endHour: 11 });
+    expect(listener).not.toHaveBeenCalled();
+    expect(mockLogger.warn).toHaveBeenCalledWith('Bot configuration file not found, keeping current configuration', { path: filePath });
+  });
+
+  it('should reload when the file changes', async () => {
+    await service.load();
+    service.watch();
+    const changed = new Promise(resolve => service.onChange(resolve));
+
+    await fs.writeFile(filePath, JSON.stringify({ strategy: { crossDetectionLookback: 5 } }), 'utf8');
+    await changed;
+
+    expect(service.getConfig().strategy.crossDetectionLookback).toBe(5);
+  });
+});
@@ -0,0 +1,134 @@
+import { StreamingCandleCloseEventBus } from '../candle-close-event-bus.service';
+import { ManualClock } from '../clock.service';
+import { CorrelationConfigurationService } from '../../bot/correlation-configuration.service';
+import { Logger } from '../../utils/logger';
+import { KlineHandler, MarketDataProvider } from '../../domain/interfaces/market-data.interfaces';
+import { BotConfig, BotConfigListener, BotConfigService, CorrelationPairConfig } from '../../domain/interfaces/bot-config.interface';
+import { DEFAULT_BOT_CONFIG } from '../../config/bot-config';
+import { STREAMING_CONSTANTS } from '../../config/constants';
+import { CrossDirection } from '../../core/strategies/strategy.interfaces';
+
+describe('StreamingCandleCloseEventBus', () => {
+  const closeTime = new Date('2026-10-19T14:04:59.999Z');
+  const pair: CorrelationPairConfig = {
+    name: 'Crypto',
+    assets: ['BTCUSDT', 'ETHUSDT'],
+    session: { type: 'time_session', startHour: 9, endHour: 16 },
+    direction: CrossDirection.CROSS_UNDER
+  };
+
+  let bus: StreamingCandleCloseEventBus;
+  let clock: ManualClock;
+  let handlers: Map<string, KlineHandler>;
+  let mockMarketData: jest.Mocked<MarketDataProvider>;
+  let mockCorrelationConfig: jest.Mocked<CorrelationConfigurationService>;
+  let mockBotConfig: jest.Mocked<BotConfigService>;
+  let config: BotConfig;
+
+  const closeBar = (symbol: string, isClosed = true, interval = '5m') => {
+    handlers.get(symbol)!({
+      interval,
+      isClosed,
+      kline: { symbol, openTime: new Date(closeTime.getTime() - 299999), closeTime, open: 1, high: 2, low: 0.5, close: 1.5, volume: 10, trades: 1 }
+    });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    handlers = new Map();
+    clock = new ManualClock(new Date('2026-10-19T14:05:00Z'));
+    config = DEFAULT_BOT_CONFIG;
+
+    mockMarketData = {
+      subscribeKlines: jest.fn().mockImplementation(async (symbol: string, _interval: string, handler: KlineHandler) => {
+        handlers.set(symbol, handler);
+        return `sub-${symbol}`;
+      }),
+      unsubscribe: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<MarketDataProvider>;
+
+    mockCorrelationConfig = {
+      getPairs: jest.fn().mockReturnValue([['crypto', pair]]),
+      onPairsChange: jest.fn()
+    } as unknown as jest.Mocked<CorrelationConfigurationService>;
+
+    mockBotConfig = {
+      getConfig: jest.fn(() => config),
+      onChange: jest.fn()
+    } as unknown as jest.Mocked<BotConfigService>;
+
+    const mockLogger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } as jest.Mocked<Logger>;
+    bus = new StreamingCandleCloseEventBus(mockLogger, mockMarketData, mockCorrelationConfig, mockBotConfig, clock);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should subscribe every pair asset at the strategy candle interval', async () => {
+    await bus.start();
+
+    expect(mockMarketData.subscribeKlines).toHaveBeenCalledWith('BTCUSDT', '5m', expect.any(Function));
+    expect(mockMarketData.subscribeKlines).toHaveBeenCalledWith('ETHUSDT', '5m', expect.any(Function));
+  });
+
+  it('should publish a pair bar once every asset closed it', async () => {
+    const listener = jest.fn();
+    bus.onPairBarClose(listener);
+    await bus.start();
+
+    closeBar('BTCUSDT', false);
+    closeBar('BTCUSDT');
+    expect(listener).not.toHaveBeenCalled();
+
+    closeBar('ETHUSDT');
+    expect(listener).toHaveBeenCalledWith({ pairName: 'crypto', interval: '5m', closeTime, symbols: ['BTCUSDT', 'ETHUSDT'] });
+
+    closeBar('ETHUSDT');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should publish after the settle delay when an asset does not report', async () => {
+    const listener = jest.fn();
+    bus.onPairBarClose(listener);
+    await bus.start();
+
+    closeBar('BTCUSDT');
+    jest.advanceTimersByTime(STREAMING_CONSTANTS.CANDLE_CLOSE_SETTLE_DELAY);
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ pairName: 'crypto', symbols: ['BTCUSDT'] }));
+  });
+
+  it('should report pairs as live only while bar closes keep arriving', async () => {
+    await bus.start();
+    expect(bus.isLive('crypto')).toBe(false);
+
+    closeBar('BTCUSDT');
+    closeBar('ETHUSDT');
+    expect(bus.isLive('crypto')).toBe(true);
+
+    clock.advance(11 * 60 * 1000);
+    expect(bus.isLive('crypto')).toBe(false);
+  });
+
+  it('should resubscribe when the candle interval changes', async () => {
+    await bus.start();
+    const listener = mockBotConfig.onChange.mock.calls[0]![0] as BotConfigListener;
+
+    const previous = config;
+    config = { ...config, strategy: { ...config.strategy, candleInterval: '15m' } };
+    listener(config, previous);
+    await jest.runAllTimersAsync();
+
+    expect(mockMarketData.unsubscribe).toHaveBeenCalledWith('sub-BTCUSDT');
+    expect(mockMarketData.subscribeKlines).toHaveBeenCalledWith('BTCUSDT', '15m', expect.any(Function));
+  });
+
+  it('should keep going when a symbol cannot be streamed', async () => {
+    mockMarketData.subscribeKlines.mockRejectedValueOnce(new Error('stream unavailable'));
+
+    await bus.start();
+
+    expect(mockMarketData.subscribeKlines).toHaveBeenCalledTimes(2);
+  });
+});
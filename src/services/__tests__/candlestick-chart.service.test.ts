@@ -0,0 +1,132 @@
+import { inflateSync } from 'zlib';
+import { CandlestickChartService } from '../candlestick-chart.service';
+import { DefaultInstrumentRegistry } from '../instrument-registry.service';
+import { Kline } from '../../domain/interfaces/market-data.interfaces';
+import { HighLowResult } from '../../core/indicators/indicator.interfaces';
+import { CrossDirection, ReferenceLevelType, StrategySignal } from '../../core/strategies/strategy.interfaces';
+
+/**
+ * Decode the pixels of a PNG written by encodePng (single IDAT, unfiltered scanlines)
+ */
+function decode(png: Buffer): { width: number; height: number; pixel: (x: number, y: number) => number[] } {
+  const width = png.readUInt32BE(16);
+  const height = png.readUInt32BE(20);
+  const scanlines = inflateSync(png.subarray(41, 41 + png.readUInt32BE(33)));
+  const stride = width * 4 + 1;
+  return {
+    width,
+    height,
+    pixel: (x, y) => [...scanlines.subarray(y * stride + 1 + x * 4, y * stride + 1 + x * 4 + 4)]
+  };
+}
+
+function countColor(png: Buffer, color: number[]): number {
+  const image = decode(png);
+  let count = 0;
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (image.pixel(x, y).slice(0, 3).every((value, index) => value === color[index])) count++;
+    }
+  }
+  return count;
+}
+
+function klines(symbol: string, base: number): Kline[] {
+  const start = new Date('2025-01-06T13:00:00Z').getTime();
+  return Array.from({ length: 24 }, (_, index) => {
+    const open = base + Math.sin(index / 3) * base * 0.01;
+    const close = open + (index % 2 === 0 ? 1 : -1) * base * 0.002;
+    return {
+      symbol,
+      openTime: new Date(start + index * 5 * 60 * 1000),
+      closeTime: new Date(start + (index + 1) * 5 * 60 * 1000 - 1),
+      open,
+      high: Math.max(open, close) + base * 0.001,
+      low: Math.min(open, close) - base * 0.001,
+      close,
+      volume: 100,
+      trades: 10
+    };
+  });
+}
+
+function sessionRange(symbol: string, data: Kline[]): HighLowResult {
+  const session = data.slice(0, 12);
+  return {
+    symbol,
+    interval: '5m',
+    period: 'session',
+    high: Math.max(...session.map(kline => kline.high)),
+    low: Math.min(...session.map(kline => kline.low)),
+    highTime: session[0].openTime,
+    lowTime: session[0].openTime,
+    range: 0,
+    rangePercent: 0,
+    periodStart: session[0].openTime,
+    periodEnd: session[session.length - 1].closeTime,
+    calculatedAt: new Date()
+  };
+}
+
+describe('CandlestickChartService', () => {
+  const UP = [38, 166, 154];
+  const DOWN = [239, 83, 80];
+  const LEVEL = [255, 152, 0];
+
+  let service: CandlestickChartService;
+
+  beforeEach(() => {
+    service = new CandlestickChartService(new DefaultInstrumentRegistry());
+  });
+
+  it('should render one panel per asset below the title', () => {
+    const png = service.render({
+      title: 'Test',
+      width: 400,
+      panelHeight: 150,
+      panels: [
+        { symbol: 'BTCUSDT', klines: klines('BTCUSDT', 100000) },
+        { symbol: 'ETHUSDT', klines: klines('ETHUSDT', 3500) }
+      ]
+    });
+
+    const image = decode(png);
+    expect(image.width).toBe(400);
+    expect(image.height).toBe(28 + 2 * 150);
+    expect(countColor(png, UP)).toBeGreaterThan(0);
+    expect(countColor(png, DOWN)).toBeGreaterThan(0);
+  });
+
+  it('should render signal charts with the session box, reference level and crack candle', () => {
+    const data = new Map([['ETHUSDT', klines('ETHUSDT', 3500)], ['BTCUSDT', klines('BTCUSDT', 100000)]]);
+    const ranges = new Map([...data].map(([symbol, bars]) => [symbol, sessionRange(symbol, bars)]));
+    const signal: StrategySignal = {
+      triggerAsset: 'BTCUSDT',
+      direction: CrossDirection.CROSS_UNDER,
+      correlatedAssets: ['ETHUSDT'],
+      referenceLevel: ranges.get('BTCUSDT')!.high,
+      referenceLevelType: ReferenceLevelType.HLS,
+      confidence: 0.7,
+      timestamp: new Date('2025-01-06T14:30:00Z'),
+      crossTime: new Date('2025-01-06T14:30:00Z')
+    };
+
+    const withMarks = service.renderSignalChart(signal, data, ranges, { pairName: 'Crypto', width: 480, panelHeight: 160 });
+    const plain = service.render({
+      title: 'Crypto',
+      width: 480,
+      panelHeight: 160,
+      panels: [...data.keys()].map(symbol => ({ symbol, klines: data.get(symbol)! }))
+    });
+
+    expect(decode(withMarks).height).toBe(28 + 2 * 160);
+    expect(countColor(withMarks, LEVEL)).toBeGreaterThan(0);
+    expect(countColor(plain, LEVEL)).toBe(0);
+  });
+
+  it('should render panels without data', () => {
+    const png = service.render({ title: 'Empty', width: 320, panelHeight: 120, panels: [{ symbol: 'EURUSD', klines: [] }] });
+
+    expect(decode(png).height).toBe(28 + 120);
+  });
+});
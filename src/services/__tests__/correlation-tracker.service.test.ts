@@ -0,0 +1,96 @@
+import { ReturnsCorrelationTracker } from '../correlation-tracker.service';
+import { Kline, MarketDataProvider } from '../../domain/interfaces/market-data.interfaces';
+import { ManualClock } from '../clock.service';
+
+const START = Date.parse('2026-03-09T09:00:00Z');
+
+function klines(symbol: string, closes: number[], offset = 0): Kline[] {
+  return closes.map((close, index) => {
+    const openTime = new Date(START + (index + offset) * 5 * 60 * 1000);
+    return {
+      symbol,
+      openTime,
+      closeTime: new Date(openTime.getTime() + 5 * 60 * 1000 - 1),
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1,
+      trades: 1
+    };
+  });
+}
+
+describe('ReturnsCorrelationTracker', () => {
+  let tracker: ReturnsCorrelationTracker;
+  let mockMarketDataProvider: jest.Mocked<MarketDataProvider>;
+  let clock: ManualClock;
+
+  beforeEach(() => {
+    mockMarketDataProvider = {
+      getName: jest.fn().mockReturnValue('MockProvider'),
+      getMarketData: jest.fn(),
+      getKlines: jest.fn(),
+      getTicker24h: jest.fn(),
+      subscribeKlines: jest.fn(),
+      unsubscribe: jest.fn(),
+      isHealthy: jest.fn(),
+      initialize: jest.fn(),
+      disconnect: jest.fn()
+    };
+    clock = new ManualClock(new Date('2026-03-09T12:00:00Z'));
+    tracker = new ReturnsCorrelationTracker(mockMarketDataProvider, clock);
+  });
+
+  it('should correlate every pair of assets', () => {
+    const report = tracker.analyze(new Map([
+      ['EURUSD', klines('EURUSD', [100, 101, 100, 102, 103])],
+      ['GBPUSD', klines('GBPUSD', [200, 202, 200, 204, 206])],
+      ['USDCHF', klines('USDCHF', [100, 99, 100, 98, 97])]
+    ]), 10);
+
+    expect(report.symbols).toEqual(['EURUSD', 'GBPUSD', 'USDCHF']);
+    expect(report.calculatedAt).toEqual(clock.now());
+    expect(report.correlations.map(({ symbols }) => symbols)).toEqual([
+      ['EURUSD', 'GBPUSD'],
+      ['EURUSD', 'USDCHF'],
+      ['GBPUSD', 'USDCHF']
+    ]);
+    expect(report.correlations[0]).toMatchObject({ sampleSize: 4 });
+    expect(report.correlations[0]?.pearson).toBeCloseTo(1);
+    expect(report.correlations[0]?.spearman).toBeCloseTo(1);
+    expect(report.correlations[1]?.pearson).toBeLessThan(-0.9);
+  });
+
+  it('should only compare bars both assets have and keep the last window returns', () => {
+    const report = tracker.analyze(new Map([
+      ['EURUSD', klines('EURUSD', [100, 101, 100, 102, 103, 101])],
+      ['GBPUSD', klines('GBPUSD', [202, 200, 204, 206, 202], 1)]
+    ]), 3);
+
+    expect(report.correlations[0]?.sampleSize).toBe(3);
+    expect(report.correlations[0]?.pearson).toBeCloseTo(1);
+  });
+
+  it('should report NaN when there is not enough data', () => {
+    const report = tracker.analyze(new Map([
+      ['EURUSD', klines('EURUSD', [100])],
+      ['GBPUSD', klines('GBPUSD', [200])]
+    ]), 10);
+
+    expect(report.correlations[0]).toMatchObject({ sampleSize: 0, pearson: NaN, spearman: NaN });
+  });
+
+  it('should fetch one kline more than the window', async () => {
+    mockMarketDataProvider.getKlines
+      .mockResolvedValueOnce(klines('EURUSD', [100, 101, 100]))
+      .mockResolvedValueOnce(klines('GBPUSD', [200, 202, 200]));
+
+    const report = await tracker.measure(['EURUSD', 'GBPUSD'], '1h', 2);
+
+    expect(mockMarketDataProvider.getKlines).toHaveBeenCalledWith('EURUSD', '1h', 3);
+    expect(mockMarketDataProvider.getKlines).toHaveBeenCalledWith('GBPUSD', '1h', 3);
+    expect(report.window).toBe(2);
+    expect(report.correlations[0]?.pearson).toBeCloseTo(1);
+  });
+});
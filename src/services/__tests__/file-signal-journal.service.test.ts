@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSignalJournal } from '../file-signal-journal.service';
+import { ManualClock } from '../clock.service';
+import { Logger } from '../../utils/logger';
+import { CrossDirection, StrategySignal } from '../../core/strategies/strategy.interfaces';
+
+describe('FileSignalJournal', () => {
+  let tempDir: string;
+  let filePath: string;
+  let mockLogger: jest.Mocked<Logger>;
+  let clock: ManualClock;
+  let journal: FileSignalJournal;
+
+  const buildSignal = (timestamp: string, overrides: Partial<StrategySignal> = {}): StrategySignal => ({
+    triggerAsset: 'BTCUSDT',
+    direction: CrossDirection.CROSS_UNDER,
+    correlatedAssets: ['ETHUSDT'],
+    referenceLevel: 100000,
+    confidence: 0.6,
+    timestamp: new Date(timestamp),
+    crossTime: new Date(timestamp),
+    triggerPrice: 99900,
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'signal-journal-'));
+    filePath = path.join(tempDir, 'signals.json');
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as jest.Mocked<Logger>;
+    clock = new ManualClock(new Date('2025-01-06T15:00:00Z'));
+    journal = new FileSignalJournal(mockLogger, clock, filePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record new signals', async () => {
+    const entry = await journal.record('crypto', buildSignal('2025-01-06T15:00:00Z'));
+
+    expect(entry).not.toBeNull();
+    expect(entry?.pairName).toBe('crypto');
+    expect(entry?.sessionKey).toBe('2025-01-06');
+    expect(entry?.recordedAt).toEqual(clock.now());
+  });
+
+  it('should suppress the same crack within a session', async () => {
+    await journal.record('crypto', buildSignal('2025-01-06T15:00:00Z'));
+
+    const duplicate = await journal.record('crypto', buildSignal('2025-01-06T15:05:00Z'));
+    const otherDirection = await journal.record('crypto', buildSignal('2025-01-06T15:10:00Z', {
+      direction: CrossDirection.CROSS_OVER
+    }));
+    const nextSession = await journal.record('crypto', buildSignal('2025-01-07T15:00:00Z'));
+
+    expect(duplicate).toBeNull();
+    expect(otherDirection).not.toBeNull();
+    expect(nextSession).not.toBeNull();
+  });
+
+  it('should persist entries across instances', async () => {
+    await journal.record('crypto', buildSignal('2025-01-06T15:00:00Z'));
+
+    const reloaded = new FileSignalJournal(mockLogger, clock, filePath);
+    const [entry] = await reloaded.query();
+
+    expect(entry.signal.timestamp).toEqual(new Date('2025-01-06T15:00:00Z'));
+    expect(entry.signal.crossTime).toEqual(new Date('2025-01-06T15:00:00Z'));
+    expect(await reloaded.record('crypto', buildSignal('2025-01-06T15:30:00Z'))).toBeNull();
+  });
+
+  it('should filter and order query results', async () => {
+    await journal.record('crypto', buildSignal('2025-01-06T15:00:00Z'));
+    await journal.record('crypto', buildSignal('2025-01-07T15:00:00Z'));
+    await journal.record('forex', buildSignal('2025-01-07T16:00:00Z', { triggerAsset: 'EURUSD' }));
+
+    const crypto = await journal.query({ pairName: 'crypto' });
+    const latest = await journal.query({ limit: 1 });
+    const firstDay = await journal.query({ to: new Date('2025-01-06T23:59:59Z') });
+
+    expect(crypto.map(e => e.sessionKey)).toEqual(['2025-01-07', '2025-01-06']);
+    expect(latest[0].pairName).toBe('forex');
+    expect(firstDay).toHaveLength(1);
+  });
+
+  it('should record feedback and keep one verdict per user', async () => {
+    const entry = await journal.record('crypto', buildSignal('2025-01-06T15:00:00Z'));
+    const feedback = { chatId: 'chat-1', userId: 'user-1', recordedAt: new Date('2025-01-06T15:05:00Z') };
+
+    await journal.recordFeedback(entry!.id, { ...feedback, action: 'taken' });
+    await journal.recordFeedback(entry!.id, { ...feedback, action: 'muted' });
+    await journal.recordFeedback(entry!.id, { ...feedback, action: 'ignored' });
+    await journal.recordFeedback(entry!.id, { ...feedback, userId: 'user-2', action: 'taken' });
+
+    const reloaded = await new FileSignalJournal(mockLogger, clock, filePath).get(entry!.id);
+    expect(reloaded?.feedback).toEqual([
+      { ...feedback, action: 'muted' },
+      { ...feedback, action: 'ignored' },
+      { ...feedback, userId: 'user-2', action: 'taken' }
+    ]);
+    expect(await journal.recordFeedback('unknown', { ...feedback, action: 'taken' })).toBeNull();
+  });
+
+  it('should move a corrupt journal file aside and start empty', async () => {
+    await fs.writeFile(filePath, 'not json', 'utf8');
+    const backupPath = `${filePath}.corrupt-${clock.now().getTime()}`;
+
+    expect(await journal.query()).toEqual([]);
+    await journal.record('crypto', buildSignal('2025-01-06T15:00:00Z'));
+
+    expect(await fs.readFile(backupPath, 'utf8')).toBe('not json');
+    expect(await new FileSignalJournal(mockLogger, clock, filePath).query()).toHaveLength(1);
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'Failed to load signal journal, moved it aside and starting empty',
+      expect.anything(),
+      { path: filePath, backupPath }
+    );
+  });
+
+  it('should not overwrite a corrupt journal file it cannot move aside', async () => {
+    await fs.writeFile(filePath, 'not json', 'utf8');
+    // A directory in the way makes the rename fail
+    await fs.mkdir(path.join(`${filePath}.corrupt-${clock.now().getTime()}`, 'taken'), { recursive: true });
+
+    expect(await journal.record('crypto', buildSignal('2025-01-06T15:00:00Z'))).not.toBeNull();
+
+    expect(await fs.readFile(filePath, 'utf8')).toBe('not json');
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'Failed to load signal journal, not saving signals until it is fixed',
+      expect.anything(),
+      expect.objectContaining({ path: filePath })
+    );
+  });
+});
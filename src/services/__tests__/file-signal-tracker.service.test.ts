@@ -0,0 +1,153 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSignalTracker, createTrackedSignal, evaluateTrackedSignal } from '../file-signal-tracker.service';
+import { ManualClock } from '../clock.service';
+import { Logger } from '../../utils/logger';
+import { MarketDataProvider } from '../../domain/interfaces/market-data.interfaces';
+import { SignalJournalEntry } from '../../domain/interfaces/signal-journal.interface';
+import { SignalTrackingSettings } from '../../domain/interfaces/signal-tracker.interface';
+import { CrossDirection, StrategySignal } from '../../core/strategies/strategy.interfaces';
+
+const SETTINGS: SignalTrackingSettings = { invalidationBufferPercent: 0.1, targetPercent: 0.5, expiryMinutes: 240 };
+
+const buildEntry = (id: string, overrides: Partial<StrategySignal> = {}): SignalJournalEntry => ({
+  id,
+  pairName: 'crypto',
+  sessionKey: '2025-01-06',
+  recordedAt: new Date('2025-01-06T15:00:00Z'),
+  signal: {
+    triggerAsset: 'BTCUSDT',
+    direction: CrossDirection.CROSS_UNDER,
+    correlatedAssets: ['ETHUSDT'],
+    referenceLevel: 100000,
+    confidence: 0.6,
+    timestamp: new Date('2025-01-06T15:00:00Z'),
+    crossTime: new Date('2025-01-06T15:00:00Z'),
+    triggerPrice: 99900,
+    ...overrides
+  }
+});
+
+describe('createTrackedSignal', () => {
+  it('should place the invalidation level beyond the reference level and the target in the signal direction', () => {
+    const under = createTrackedSignal(buildEntry('under'), SETTINGS);
+    const over = createTrackedSignal(buildEntry('over', { direction: CrossDirection.CROSS_OVER, triggerPrice: 100100 }), SETTINGS);
+
+    expect(under).toMatchObject({ entryPrice: 99900, status: 'open', expiresAt: new Date('2025-01-06T19:00:00Z') });
+    expect(under.invalidationLevel).toBeCloseTo(100100);
+    expect(under.targetPrice).toBeCloseTo(99400.5);
+    expect(over.invalidationLevel).toBeCloseTo(99900);
+    expect(over.targetPrice).toBeCloseTo(100600.5);
+  });
+});
+
+describe('evaluateTrackedSignal', () => {
+  const tracked = createTrackedSignal(buildEntry('signal-1'), SETTINGS);
+  const now = new Date('2025-01-06T16:00:00Z');
+
+  it('should stay open between the levels before expiry', () => {
+    expect(evaluateTrackedSignal(tracked, 99800, now)).toBe(tracked);
+  });
+
+  it('should close at the target', () => {
+    const closed = evaluateTrackedSignal(tracked, 99300, now);
+
+    expect(closed).toMatchObject({ status: 'target_hit', closedAt: now, exitPrice: 99300 });
+    expect(closed.movePercent).toBeCloseTo(0.6006);
+  });
+
+  it('should invalidate when the level is reclaimed', () => {
+    const closed = evaluateTrackedSignal(tracked, 100150, now);
+
+    expect(closed.status).toBe('invalidated');
+    expect(closed.movePercent).toBeLessThan(0);
+  });
+
+  it('should expire once the expiry passes', () => {
+    expect(evaluateTrackedSignal(tracked, 99800, new Date('2025-01-06T19:00:00Z')).status).toBe('expired');
+  });
+});
+
+describe('FileSignalTracker', () => {
+  let tempDir: string;
+  let filePath: string;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockProvider: jest.Mocked<MarketDataProvider>;
+  let prices: Record<string, number>;
+  let clock: ManualClock;
+  let tracker: FileSignalTracker;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'signal-tracker-'));
+    filePath = path.join(tempDir, 'tracked-signals.json');
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as jest.Mocked<Logger>;
+    prices = { BTCUSDT: 99800 };
+    mockProvider = {
+      getMarketData: jest.fn().mockImplementation(async (symbol: string) => {
+        if (prices[symbol] === undefined) throw new Error('Symbol unavailable');
+        return { symbol, price: prices[symbol], volume: 0, timestamp: clock.now() };
+      }),
+    } as unknown as jest.Mocked<MarketDataProvider>;
+    clock = new ManualClock(new Date('2025-01-06T15:30:00Z'));
+    tracker = new FileSignalTracker(mockLogger, clock, mockProvider, filePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return only the signals closed by each check', async () => {
+    await tracker.track(buildEntry('signal-1'), SETTINGS);
+    await tracker.attachMessages('signal-1', [{ chatId: 'chat-1', messageId: 42 }, { chatId: 'chat-2', messageId: 7 }]);
+
+    expect(await tracker.update()).toEqual([]);
+
+    prices.BTCUSDT = 99300;
+    const closed = await tracker.update();
+
+    expect(closed).toHaveLength(1);
+    expect(closed[0]).toMatchObject({ id: 'signal-1', status: 'target_hit' });
+    expect(closed[0].messages).toEqual([{ chatId: 'chat-1', messageId: 42 }, { chatId: 'chat-2', messageId: 7 }]);
+    expect(await tracker.update()).toEqual([]);
+  });
+
+  it('should keep signals open while their price is unavailable', async () => {
+    await tracker.track(buildEntry('signal-1', { triggerAsset: 'ETHUSDT' }), SETTINGS);
+    clock.setTime(new Date('2025-01-06T20:00:00Z'));
+
+    expect(await tracker.update()).toEqual([]);
+    expect(mockLogger.warn).toHaveBeenCalledWith('Failed to fetch current price for tracked signal', expect.any(Object));
+    expect((await tracker.getStats()).open).toBe(1);
+  });
+
+  it('should summarise outcomes per pair', async () => {
+    await tracker.track(buildEntry('hit'), SETTINGS);
+    await tracker.track({ ...buildEntry('lost', { triggerAsset: 'ETHUSDT', referenceLevel: 3000, triggerPrice: 2990 }), pairName: 'majors' }, SETTINGS);
+    await tracker.track(buildEntry('open', { triggerAsset: 'SOLUSDT', referenceLevel: 200, triggerPrice: 199 }), SETTINGS);
+    prices = { BTCUSDT: 99300, ETHUSDT: 3010 };
+    await tracker.update();
+
+    const stats = await tracker.getStats();
+    expect(stats).toMatchObject({ total: 3, open: 1, targetHit: 1, invalidated: 1, expired: 0, hitRate: 0.5 });
+    expect((await tracker.getStats('majors')).invalidated).toBe(1);
+    expect((await tracker.getStats('indices')).hitRate).toBeNaN();
+  });
+
+  it('should restore tracked signals from disk', async () => {
+    await tracker.track(buildEntry('signal-1'), SETTINGS);
+    prices.BTCUSDT = 100200;
+    await tracker.update();
+
+    const reloaded = new FileSignalTracker(mockLogger, clock, mockProvider, filePath);
+    const stats = await reloaded.getStats();
+
+    expect(stats).toMatchObject({ total: 1, invalidated: 1 });
+    expect(stats.averageMovePercent).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSubscriptionStore } from '../file-subscription-store.service';
+import { Logger } from '../../utils/logger';
+import { ChatSubscription } from '../../domain/interfaces/subscription.interface';
+
+describe('FileSubscriptionStore', () => {
+  let tempDir: string;
+  let filePath: string;
+  let mockLogger: jest.Mocked<Logger>;
+  let store: FileSubscriptionStore;
+
+  const subscription: ChatSubscription = {
+    chatId: 'chat-1',
+    pairs: ['crypto'],
+    preferences: {
+      minConfidence: 0.7,
+      direction: 'both',
+      quietHours: { type: 'time_session', startHour: 22, endHour: 7, timezone: 'Europe/London' }
+    },
+    createdAt: new Date('2025-01-06T15:00:00Z'),
+    updatedAt: new Date('2025-01-06T16:00:00Z')
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'subscriptions-'));
+    filePath = path.join(tempDir, 'subscriptions.json');
+    mockLogger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } as jest.Mocked<Logger>;
+    store = new FileSubscriptionStore(mockLogger, filePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist subscriptions across restarts', async () => {
+    await store.save(subscription);
+    await store.save({ ...subscription, chatId: 'chat-2' });
+    await store.save({ ...subscription, pairs: ['crypto', 'indices'] });
+
+    const reloaded = new FileSubscriptionStore(mockLogger, filePath);
+
+    expect(await reloaded.list()).toHaveLength(2);
+    expect(await reloaded.get('chat-1')).toEqual({ ...subscription, pairs: ['crypto', 'indices'] });
+  });
+
+  it('should remove subscriptions', async () => {
+    await store.save(subscription);
+
+    expect(await store.remove('chat-1')).toBe(true);
+    expect(await store.remove('chat-1')).toBe(false);
+    expect(await new FileSubscriptionStore(mockLogger, filePath).list()).toEqual([]);
+  });
+});
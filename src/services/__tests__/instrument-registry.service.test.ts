@@ -0,0 +1,61 @@
+import { DefaultInstrumentRegistry } from '../instrument-registry.service';
+import { AssetType } from '../../domain/entities/trading.entities';
+
+describe('DefaultInstrumentRegistry', () => {
+  let registry: DefaultInstrumentRegistry;
+
+  beforeEach(() => {
+    registry = new DefaultInstrumentRegistry();
+  });
+
+  describe('resolve', () => {
+    it('should resolve catalogue instruments by canonical and provider symbol', () => {
+      const btc = registry.resolve('BTCUSDT');
+
+      expect(btc).toMatchObject({ base: 'BTC', quote: 'USDT', assetClass: AssetType.CRYPTO, pricePrecision: 2 });
+      expect(registry.resolve('BTC/USDT')).toBe(btc);
+      expect(registry.resolve('btcusdt')).toBe(btc);
+    });
+
+    it('should infer crypto, forex and other instruments from the symbol shape', () => {
+      expect(registry.resolve('DOGEUSDT')).toMatchObject({ base: 'DOGE', quote: 'USDT', assetClass: AssetType.CRYPTO });
+      expect(registry.resolve('EURJPY')).toMatchObject({ base: 'EUR', quote: 'JPY', assetClass: AssetType.FOREX, pricePrecision: 3 });
+      expect(registry.resolve('AAPL')).toMatchObject({ base: 'AAPL', assetClass: AssetType.STOCK });
+    });
+  });
+
+  describe('toProviderSymbol', () => {
+    it('should map canonical symbols to provider symbols', () => {
+      expect(registry.toProviderSymbol('ETHUSDT', 'binance')).toBe('ETH/USDT');
+      expect(registry.toProviderSymbol('ETHUSDT', 'capitalcom')).toBe('ETHUSD');
+      expect(registry.toProviderSymbol('US100', 'capitalcom')).toBe('US100');
+    });
+
+    it('should pass the symbol through when the provider has no mapping', () => {
+      expect(registry.toProviderSymbol('US100', 'binance')).toBe('US100');
+    });
+  });
+
+  describe('formatPrice', () => {
+    it('should format prices with the instrument precision', () => {
+      expect(registry.formatPrice('BTCUSDT', 64250.456)).toBe('64250.46');
+      expect(registry.formatPrice('EURUSD', 1.0845123)).toBe('1.08451');
+      expect(registry.formatPrice('USDJPY', 151.23456)).toBe('151.235');
+      expect(registry.formatPrice('US100', 18234.56)).toBe('18234.6');
+    });
+
+    it('should round to the instrument tick size', () => {
+      registry.register({
+        symbol: 'TICK',
+        base: 'TICK',
+        quote: 'USD',
+        assetClass: AssetType.INDEX,
+        tickSize: 0.25,
+        pricePrecision: 2,
+        providerSymbols: {}
+      });
+
+      expect(registry.formatPrice('TICK', 100.13)).toBe('100.25');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import { WebhookNotificationChannel } from '../webhook-notification.channel';
+import { FileNotificationChannel } from '../file-notification.channel';
+import { getEmailSubject } from '../email-notification.channel';
+import { ManualClock } from '../clock.service';
+import { BotConfig, BotConfigService } from '../../domain/interfaces/bot-config.interface';
+import { DEFAULT_BOT_CONFIG } from '../../config/bot-config';
+import { NOTIFICATION_CONSTANTS } from '../../config/constants';
+import { Notification } from '../../domain/interfaces/notification.interface';
+import { CrossDirection, StrategySignal } from '../../core/strategies/strategy.interfaces';
+import { TrackedSignal } from '../../domain/interfaces/signal-tracker.interface';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('notification channels', () => {
+  let botConfig: BotConfig;
+  let botConfigService: BotConfigService;
+
+  const signal: StrategySignal = {
+    triggerAsset: 'BTCUSDT',
+    direction: CrossDirection.CROSS_UNDER,
+    correlatedAssets: ['ETHUSDT'],
+    referenceLevel: 100000,
+    confidence: 0.6,
+    timestamp: new Date('2025-01-06T15:00:00Z')
+  };
+  const notification: Notification = {
+    kind: 'signal',
+    text: 'BTCUSDT crossed under',
+    pairName: 'crypto',
+    signal,
+    chart: Buffer.from('png')
+  };
+
+  beforeEach(() => {
+    botConfig = DEFAULT_BOT_CONFIG;
+    botConfigService = { getConfig: () => botConfig } as BotConfigService;
+  });
+
+  describe('WebhookNotificationChannel', () => {
+    it('should post the notification as JSON with the chart in base64', async () => {
+      botConfig = {
+        ...DEFAULT_BOT_CONFIG,
+        notifications: {
+          ...DEFAULT_BOT_CONFIG.notifications,
+          webhook: { enabled: true, kinds: ['signal'], url: 'https://hooks.example.com/signals' }
+        }
+      };
+      mockedAxios.post.mockResolvedValueOnce({ status: 204 });
+
+      await new WebhookNotificationChannel(botConfigService).send(notification);
+
+      expect(mockedAxios.post).toHaveBeenCalledWith('https://hooks.example.com/signals', {
+        kind: 'signal',
+        text: 'BTCUSDT crossed under',
+        pairName: 'crypto',
+        signal,
+        chart: Buffer.from('png').toString('base64')
+      }, { timeout: NOTIFICATION_CONSTANTS.WEBHOOK_TIMEOUT });
+    });
+  });
+
+  describe('FileNotificationChannel', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'notifications-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should append one JSON line per notification without the chart', async () => {
+      const filePath = path.join(tempDir, 'logs', 'notifications.log');
+      botConfig = {
+        ...DEFAULT_BOT_CONFIG,
+        notifications: { ...DEFAULT_BOT_CONFIG.notifications, file: { enabled: true, kinds: ['signal', 'message'], path: filePath } }
+      };
+      const channel = new FileNotificationChannel(botConfigService, new ManualClock(new Date('2025-01-06T15:00:00Z')));
+
+      await Promise.all([
+        channel.send(notification),
+        channel.send({ kind: 'message', text: 'Daily report' })
+      ]);
+
+      const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+      expect(lines).toEqual([
+        {
+          sentAt: '2025-01-06T15:00:00.000Z',
+          kind: 'signal',
+          pairName: 'crypto',
+          text: 'BTCUSDT crossed under',
+          signal: { ...signal, timestamp: '2025-01-06T15:00:00.000Z' }
+        },
+        { sentAt: '2025-01-06T15:00:00.000Z', kind: 'message', text: 'Daily report' }
+      ]);
+    });
+  });
+
+  describe('getEmailSubject', () => {
+    it('should describe the signal and its outcome', () => {
+      const outcome = { signal, status: 'target_hit' } as TrackedSignal;
+
+      expect(getEmailSubject(notification)).toBe('Signal: BTCUSDT cross under (crypto)');
+      expect(getEmailSubject({ kind: 'signal_outcome', text: '', pairName: 'crypto', outcome }))
+        .toBe('Signal target hit: BTCUSDT cross under (crypto)');
+      expect(getEmailSubject({ kind: 'message', text: 'Daily report' })).toBe('Trading bot');
+    });
+  });
+});
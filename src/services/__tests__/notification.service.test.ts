@@ -0,0 +1,96 @@
+import { DefaultNotificationService } from '../notification.service';
+import { Logger } from '../../utils/logger';
+import { BotConfig, BotConfigService } from '../../domain/interfaces/bot-config.interface';
+import { DEFAULT_BOT_CONFIG } from '../../config/bot-config';
+import { Notification, NotificationChannel } from '../../domain/interfaces/notification.interface';
+
+describe('DefaultNotificationService', () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let botConfig: BotConfig;
+  let channels: Record<'webhook' | 'email' | 'console' | 'file' | 'telegram', jest.Mocked<NotificationChannel>>;
+  let service: DefaultNotificationService;
+
+  const notification: Notification = { kind: 'signal', text: 'BTCUSDT crossed under', pairName: 'crypto' };
+
+  const channel = (name: string): jest.Mocked<NotificationChannel> => ({
+    name,
+    send: jest.fn().mockResolvedValue(undefined)
+  });
+
+  beforeEach(() => {
+    mockLogger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } as jest.Mocked<Logger>;
+    botConfig = {
+      ...DEFAULT_BOT_CONFIG,
+      notifications: {
+        ...DEFAULT_BOT_CONFIG.notifications,
+        webhook: { enabled: true, kinds: ['signal', 'signal_outcome'], url: 'https://hooks.example.com' },
+        console: { enabled: true, kinds: ['signal_outcome'] }
+      }
+    };
+    channels = {
+      webhook: channel('webhook'),
+      email: channel('email'),
+      console: channel('console'),
+      file: channel('file'),
+      telegram: channel('telegram')
+    };
+    service = new DefaultNotificationService(
+      mockLogger,
+      { getConfig: () => botConfig } as BotConfigService,
+      channels.webhook,
+      channels.email,
+      channels.console,
+      channels.file
+    );
+  });
+
+  it('should deliver to the enabled channels that accept the kind', async () => {
+    service.register(channels.telegram);
+    channels.telegram.send.mockResolvedValue([{ chatId: 'chat-1', messageId: 42 }]);
+
+    const result = await service.publish(notification);
+
+    expect(result).toEqual({
+      delivered: ['webhook', 'telegram'],
+      failed: [],
+      messages: [{ chatId: 'chat-1', messageId: 42 }]
+    });
+    expect(channels.webhook.send).toHaveBeenCalledWith(notification);
+    expect(channels.email.send).not.toHaveBeenCalled(); // Disabled
+    expect(channels.console.send).not.toHaveBeenCalled(); // Outcomes only
+  });
+
+  it('should deliver everything to channels without a config section', async () => {
+    const custom = channel('custom');
+    service.register(custom);
+
+    await service.publish({ kind: 'message', text: 'Daily report' });
+
+    expect(custom.send).toHaveBeenCalled();
+    expect(channels.webhook.send).not.toHaveBeenCalled();
+  });
+
+  it('should keep delivering when a channel fails', async () => {
+    const error = new Error('Connection refused');
+    channels.webhook.send.mockRejectedValue(error);
+    service.register(channels.telegram);
+
+    const result = await service.publish(notification);
+
+    expect(result.delivered).toEqual(['telegram']);
+    expect(result.failed).toEqual(['webhook']);
+    expect(mockLogger.error).toHaveBeenCalledWith('Notification channel failed', error, { channel: 'webhook', kind: 'signal' });
+  });
+
+  it('should follow config changes without re-registering channels', async () => {
+    botConfig = {
+      ...botConfig,
+      notifications: { ...botConfig.notifications, webhook: { ...botConfig.notifications.webhook, enabled: false } }
+    };
+
+    const result = await service.publish(notification);
+
+    expect(result.delivered).toEqual([]);
+    expect(channels.webhook.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,180 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileTradingCalendar } from '../trading-calendar.service';
+import { DefaultInstrumentRegistry } from '../instrument-registry.service';
+import { MarketCalendarValidationError, validateMarketCalendar } from '../../config/market-calendar';
+import { Logger } from '../../utils/logger';
+
+const US_EQUITIES = {
+  id: 'us-equities',
+  timezone: 'America/New_York',
+  assetClasses: ['INDEX'],
+  tradingDays: [1, 2, 3, 4, 5],
+  open: '09:30',
+  close: '16:00',
+  holidays: [{ date: '2026-01-19', name: 'Martin Luther King Jr. Day' }],
+  halfDays: [{ date: '2026-11-27', close: '13:00', name: 'Day after Thanksgiving' }]
+};
+
+const XETRA = {
+  id: 'xetra',
+  timezone: 'Europe/Berlin',
+  symbols: ['de40'],
+  tradingDays: [1, 2, 3, 4, 5],
+  open: '09:00',
+  close: '17:30'
+};
+
+describe('validateMarketCalendar', () => {
+  it('should default optional lists and upper-case symbol overrides', () => {
+    const calendar = validateMarketCalendar(XETRA);
+
+    expect(calendar).toMatchObject({ id: 'xetra', name: 'xetra', symbols: ['DE40'], assetClasses: [], holidays: [], halfDays: [] });
+  });
+
+  it('should report every problem with its source', () => {
+    const invalid = {
+      id: 'broken',
+      timezone: 'Mars/Olympus',
+      tradingDays: [7],
+      open: '16:00',
+      close: '09:30',
+      assetClasses: ['BONDS'],
+      halfDays: [{ date: '2026-11-27' }]
+    };
+
+    try {
+      validateMarketCalendar(invalid, 'broken.json');
+      fail('Expected validation to fail');
+    } catch (error) {
+      expect(error).toBeInstanceOf(MarketCalendarValidationError);
+      const { issues, message } = error as MarketCalendarValidationError;
+      expect(message).toContain('broken.json');
+      expect(issues).toEqual([
+        'timezone must be a known IANA timezone',
+        'open (16:00) must be before close (09:30)',
+        'tradingDays must list weekdays from 0 (Sunday) to 6 (Saturday)',
+        'assetClasses must list values from CRYPTO, FOREX, STOCK, COMMODITY, INDEX',
+        'halfDays[0].close must be an HH:MM time'
+      ]);
+    }
+  });
+});
+
+describe('FileTradingCalendar', () => {
+  let directory: string;
+  let calendar: FileTradingCalendar;
+  let mockLogger: jest.Mocked<Logger>;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'calendars-'));
+    await fs.writeFile(path.join(directory, 'us-equities.json'), JSON.stringify(US_EQUITIES));
+    await fs.writeFile(path.join(directory, 'xetra.json'), JSON.stringify(XETRA));
+
+    mockLogger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } as jest.Mocked<Logger>;
+    calendar = new FileTradingCalendar(mockLogger, new DefaultInstrumentRegistry(), directory);
+    await calendar.load();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should pick calendars by symbol override before asset class', () => {
+    expect(calendar.getCalendar('DE40')?.id).toBe('xetra');
+    expect(calendar.getCalendar('US100')?.id).toBe('us-equities');
+    expect(calendar.getCalendar('BTCUSDT')).toBeNull();
+  });
+
+  it('should open and close regular sessions in the exchange timezone', () => {
+    const session = calendar.getSession('US100', new Date('2026-03-09T18:00:00Z'));
+
+    expect(session).toEqual({
+      date: '2026-03-09',
+      open: new Date('2026-03-09T13:30:00Z'),
+      close: new Date('2026-03-09T20:00:00Z'),
+      halfDay: false
+    });
+    expect(calendar.isOpen('US100', new Date('2026-03-09T13:29:00Z'))).toBe(false);
+    expect(calendar.isOpen('US100', new Date('2026-03-09T13:30:00Z'))).toBe(true);
+    expect(calendar.isOpen('US100', new Date('2026-03-09T20:00:00Z'))).toBe(false);
+  });
+
+  it('should close on weekends and holidays', () => {
+    expect(calendar.isTradingDay('US100', new Date('2026-01-17T15:00:00Z'))).toBe(false);
+    expect(calendar.isTradingDay('US100', new Date('2026-01-19T15:00:00Z'))).toBe(false);
+    expect(calendar.isTradingDay('US100', new Date('2026-01-20T15:00:00Z'))).toBe(true);
+  });
+
+  it('should close early on half-days', () => {
+    const session = calendar.getSession('US100', new Date('2026-11-27T15:00:00Z'));
+
+    expect(session).toMatchObject({ halfDay: true, close: new Date('2026-11-27T18:00:00Z') });
+    expect(calendar.isOpen('US100', new Date('2026-11-27T18:30:00Z'))).toBe(false);
+  });
+
+  it('should keep symbols without a calendar open around the clock', () => {
+    expect(calendar.isOpen('BTCUSDT', new Date('2026-01-17T03:00:00Z'))).toBe(true);
+  });
+
+  it('should treat every market as open when the directory is missing', async () => {
+    const empty = new FileTradingCalendar(mockLogger, new DefaultInstrumentRegistry(), path.join(directory, 'missing'));
+    await empty.load();
+
+    expect(empty.isOpen('US100', new Date('2026-01-17T15:00:00Z'))).toBe(true);
+  });
+
+  it('should open sessions on the evening before with opensPreviousDay', async () => {
+    await fs.writeFile(path.join(directory, 'forex.json'), JSON.stringify({
+      id: 'forex',
+      timezone: 'America/New_York',
+      assetClasses: ['FOREX'],
+      tradingDays: [1, 2, 3, 4, 5],
+      open: '17:00',
+      close: '17:00',
+      opensPreviousDay: true
+    }));
+    await calendar.load();
+
+    expect(calendar.getSession('EURUSD', new Date('2026-03-03T12:00:00Z'))).toEqual({
+      date: '2026-03-03',
+      open: new Date('2026-03-02T22:00:00Z'),
+      close: new Date('2026-03-03T22:00:00Z'),
+      halfDay: false
+    });
+    expect(calendar.isOpen('EURUSD', new Date('2026-03-03T22:00:00Z'))).toBe(true);
+  });
+
+  it('should reject invalid calendar files', async () => {
+    await fs.writeFile(path.join(directory, 'broken.json'), JSON.stringify({ ...US_EQUITIES, open: '9am' }));
+
+    await expect(calendar.load()).rejects.toThrow(MarketCalendarValidationError);
+  });
+
+  describe('shipped forex calendar', () => {
+    let shipped: FileTradingCalendar;
+
+    beforeEach(async () => {
+      shipped = new FileTradingCalendar(mockLogger, new DefaultInstrumentRegistry(), path.join(__dirname, '../../../config/calendars'));
+      await shipped.load();
+    });
+
+    it('should open on Sunday at 17:00 New York time', () => {
+      expect(shipped.isOpen('EURUSD', new Date('2026-03-01T21:00:00Z'))).toBe(false); // Sunday 16:00
+      expect(shipped.isOpen('EURUSD', new Date('2026-03-01T23:00:00Z'))).toBe(true); // Sunday 18:00
+      expect(shipped.isOpen('EURUSD', new Date('2026-03-02T03:00:00Z'))).toBe(true); // Sunday 22:00
+    });
+
+    it('should close on Friday at 17:00 New York time', () => {
+      expect(shipped.isOpen('EURUSD', new Date('2026-03-06T21:00:00Z'))).toBe(true); // Friday 16:00
+      expect(shipped.isOpen('EURUSD', new Date('2026-03-06T23:00:00Z'))).toBe(false); // Friday 18:00
+      expect(shipped.isOpen('EURUSD', new Date('2026-03-07T15:00:00Z'))).toBe(false); // Saturday
+    });
+
+    it('should trade through the daily roll', () => {
+      expect(shipped.isOpen('EURUSD', new Date('2026-03-04T21:59:00Z'))).toBe(true); // Wednesday 16:59
+      expect(shipped.isOpen('EURUSD', new Date('2026-03-04T22:00:00Z'))).toBe(true); // Wednesday 17:00
+    });
+  });
+});
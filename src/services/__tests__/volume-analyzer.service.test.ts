@@ -0,0 +1,80 @@
+import { KlineVolumeAnalyzer } from '../volume-analyzer.service';
+import { Kline } from '../../domain/interfaces/market-data.interfaces';
+
+const FIVE_MINUTES = 5 * 60 * 1000;
+
+function kline(openTime: string, high: number, low: number, close: number, volume: number): Kline {
+  const open = new Date(openTime);
+  return {
+    symbol: 'BTCUSDT',
+    openTime: open,
+    closeTime: new Date(open.getTime() + FIVE_MINUTES - 1),
+    open: close,
+    high,
+    low,
+    close,
+    volume,
+    trades: 1
+  };
+}
+
+describe('KlineVolumeAnalyzer', () => {
+  const analyzer = new KlineVolumeAnalyzer();
+
+  const klines = [
+    kline('2026-03-09T23:50:00Z', 104, 96, 100, 9000), // Previous day
+    kline('2026-03-10T00:00:00Z', 102, 98, 100, 1000),
+    kline('2026-03-10T00:05:00Z', 103, 99, 101, 1200),
+    kline('2026-03-10T00:10:00Z', 102, 98, 100, 800),
+    kline('2026-03-10T00:15:00Z', 108, 98, 99, 4000)
+  ];
+
+  it('should compare the last bar with the earlier bars of its session', () => {
+    const analysis = analyzer.analyze('BTCUSDT', klines);
+
+    expect(analysis).toMatchObject({
+      symbol: 'BTCUSDT',
+      barTime: new Date('2026-03-10T00:15:00Z'),
+      volume: 4000,
+      averageVolume: 1000,
+      relativeVolume: 4,
+      barRange: 10
+    });
+  });
+
+  it('should measure range expansion against the true range of the bars before it', () => {
+    const analysis = analyzer.analyze('BTCUSDT', klines);
+
+    // True ranges of bars 1-3: 4, 4, 4
+    expect(analysis?.atr).toBeCloseTo(4);
+    expect(analysis?.atrPercent).toBeCloseTo(4 / 99);
+    expect(analysis?.rangeExpansion).toBeCloseTo(2.5);
+  });
+
+  it('should analyze the bar at the requested time', () => {
+    const analysis = analyzer.analyze('BTCUSDT', klines, { at: new Date('2026-03-10T00:05:00Z'), atrPeriod: 1 });
+
+    expect(analysis).toMatchObject({ volume: 1200, averageVolume: 5000, relativeVolume: 0.24 });
+    expect(analysis?.atr).toBeCloseTo(4);
+  });
+
+  it('should use the session day of the timezone', () => {
+    // 00:15 UTC is still 2026-03-09 in New York, so the previous bars share its session
+    const analysis = analyzer.analyze('BTCUSDT', klines, { timezone: 'America/New_York' });
+
+    expect(analysis?.averageVolume).toBe(3000);
+  });
+
+  it('should report NaN without volume or history', () => {
+    const analysis = analyzer.analyze('BTCUSDT', [kline('2026-03-10T00:00:00Z', 102, 98, 100, 0)]);
+
+    expect(analysis?.relativeVolume).toBeNaN();
+    expect(analysis?.atr).toBeNaN();
+    expect(analysis?.rangeExpansion).toBeNaN();
+  });
+
+  it('should return undefined for unknown bars', () => {
+    expect(analyzer.analyze('BTCUSDT', klines, { at: new Date('2026-03-11T00:00:00Z') })).toBeUndefined();
+    expect(analyzer.analyze('BTCUSDT', [])).toBeUndefined();
+  });
+});
@@ -0,0 +1,123 @@
+import { injectable, inject, unmanaged } from 'inversify';
+import { FSWatcher, promises as fs, watch } from 'fs';
+import path from 'path';
+import { BotConfig, BotConfigListener, BotConfigService } from '../domain/interfaces/bot-config.interface';
+import { Logger } from '../utils/logger';
+import { TYPES } from '../config/types';
+import { CONFIG_CONSTANTS } from '../config/constants';
+import { DEFAULT_BOT_CONFIG, validateBotConfig } from '../config/bot-config';
+
+/**
+ * Bot configuration read from a JSON file, with optional hot-reload
+ */
+@injectable()
+export class FileBotConfigService implements BotConfigService {
+  private config: BotConfig = DEFAULT_BOT_CONFIG;
+  private readonly listeners: BotConfigListener[] = [];
+  private watcher: FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @unmanaged() private readonly filePath: string = CONFIG_CONSTANTS.BOT_CONFIG_FILE
+  ) {}
+
+  async load(): Promise<BotConfig> {
+    let config = await this.readConfig();
+    if (!config) {
+      this.logger.info('Bot configuration file not found, using defaults', { path: this.filePath });
+      config = DEFAULT_BOT_CONFIG;
+    }
+    this.apply(config);
+    return config;
+  }
+
+  getConfig(): BotConfig {
+    return this.config;
+  }
+
+  async reload(): Promise<boolean> {
+    try {
+      const config = await this.readConfig();
+      // A deleted file, or one an editor is replacing, must not switch the running bot back to defaults
+      if (!config) {
+        this.logger.warn('Bot configuration file not found, keeping current configuration', { path: this.filePath });
+        return false;
+      }
+      this.apply(config);
+      this.logger.info('Bot configuration reloaded', { path: this.filePath });
+      return true;
+    } catch (error) {
+      this.logger.error('Bot configuration reload rejected, keeping previous configuration', error, { path: this.filePath });
+      return false;
+    }
+  }
+
+  watch(): void {
+    if (this.watcher) return;
+
+    // Watch the directory: editors often replace the file instead of writing to it
+    const fileName = path.basename(this.filePath);
+    try {
+      this.watcher = watch(path.dirname(this.filePath), (_event, changed) => {
+        if (changed === fileName) this.scheduleReload();
+      });
+    } catch (error) {
+      this.logger.warn('Bot configuration hot-reload unavailable', { path: this.filePath, error });
+    }
+  }
+
+  onChange(listener: BotConfigListener): void {
+    this.listeners.push(listener);
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = null;
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null;
+      void this.reload();
+    }, CONFIG_CONSTANTS.RELOAD_DEBOUNCE_MS);
+  }
+
+  /**
+   * Parsed and validated file content, or null when the file does not exist
+   */
+  private async readConfig(): Promise<BotConfig | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Bot configuration ${this.filePath} is not valid JSON: ${(error as Error).message}`);
+    }
+    return validateBotConfig(raw, this.filePath);
+  }
+
+  private apply(config: BotConfig): void {
+    const previous = this.config;
+    this.config = config;
+
+    if (previous === config) return;
+    for (const listener of this.listeners) {
+      try {
+        listener(config, previous);
+      } catch (error) {
+        this.logger.error('Bot configuration listener failed', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import { injectable, inject } from 'inversify';
+import {
+  CandleCloseEventBus,
+  CandleCloseListener,
+  PairBarCloseListener
+} from '../domain/interfaces/candle-close.interface';
+import { KlineUpdate, MarketDataProvider } from '../domain/interfaces/market-data.interfaces';
+import { BotConfigService } from '../domain/interfaces/bot-config.interface';
+import { Clock } from '../domain/interfaces/clock.interface';
+import { CorrelationConfigurationService } from '../bot/correlation-configuration.service';
+import { Logger } from '../utils/logger';
+import { TYPES } from '../config/types';
+import { STREAMING_CONSTANTS } from '../config/constants';
+import { getIntervalMs } from '../utils/time-utils';
+
+interface PendingBar {
+  pairName: string;
+  closeTime: Date;
+  reported: Set<string>;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Candle-close bus over the market data kline streams.
+ * Subscriptions follow the configured pairs and candle interval.
+ */
+@injectable()
+export class StreamingCandleCloseEventBus implements CandleCloseEventBus {
+  private readonly subscriptions = new Map<string, string>();
+  private readonly pendingBars = new Map<string, PendingBar>();
+  private readonly lastPairClose = new Map<string, { closeTime: number; receivedAt: number }>();
+  private readonly candleListeners: CandleCloseListener[] = [];
+  private readonly pairListeners: PairBarCloseListener[] = [];
+  private interval = '';
+  private started = false;
+  private watchingConfig = false;
+  private syncing: Promise<void> = Promise.resolve();
+
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @inject(TYPES.MarketDataProvider) private marketData: MarketDataProvider,
+    @inject(TYPES.CorrelationConfigurationService) private correlationConfig: CorrelationConfigurationService,
+    @inject(TYPES.BotConfigService) private botConfig: BotConfigService,
+    @inject(TYPES.Clock) private clock: Clock
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    if (!this.watchingConfig) {
+      this.watchingConfig = true;
+      this.botConfig.onChange(() => void this.sync());
+      this.correlationConfig.onPairsChange(() => void this.sync());
+    }
+
+    await this.sync();
+    this.logger.info('Candle close event bus started', { interval: this.interval, symbols: [...this.subscriptions.keys()] });
+  }
+
+  async stop(): Promise<void> {
+    this.started = false;
+    await this.sync();
+
+    this.pendingBars.forEach(pending => clearTimeout(pending.timer));
+    this.pendingBars.clear();
+  }
+
+  onCandleClose(listener: CandleCloseListener): void {
+    this.candleListeners.push(listener);
+  }
+
+  onPairBarClose(listener: PairBarCloseListener): void {
+    this.pairListeners.push(listener);
+  }
+
+  isLive(pairName: string): boolean {
+    const last = this.lastPairClose.get(pairName);
+    if (!last || !this.started) return false;
+
+    const maxAge = STREAMING_CONSTANTS.LIVE_STREAM_INTERVALS * getIntervalMs(this.interval);
+    return this.clock.now().getTime() - last.receivedAt <= maxAge;
+  }
+
+  /**
+   * Align subscriptions with the current pairs and interval; runs one at a time
+   */
+  private sync(): Promise<void> {
+    this.syncing = this.syncing
+      .then(() => this.resubscribe())
+      .catch(error => this.logger.error('Failed to update kline subscriptions', error));
+    return this.syncing;
+  }
+
+  private async resubscribe(): Promise<void> {
+    const interval = this.botConfig.getConfig().strategy.candleInterval;
+    const symbols = this.started
+      ? new Set(this.correlationConfig.getPairs().flatMap(([, pairConfig]) => pairConfig.assets))
+      : new Set<string>();
+
+    for (const [symbol, subscriptionId] of this.subscriptions) {
+      if (!symbols.has(symbol) || interval !== this.interval) {
+        await this.marketData.unsubscribe(subscriptionId);
+        this.subscriptions.delete(symbol);
+      }
+    }
+    this.interval = interval;
+
+    for (const symbol of symbols) {
+      if (this.subscriptions.has(symbol)) continue;
+      try {
+        const subscriptionId = await this.marketData.subscribeKlines(symbol, interval, update => this.handleUpdate(update));
+        this.subscriptions.set(symbol, subscriptionId);
+      } catch (error) {
+        this.logger.warn('Kline stream unavailable, symbol relies on scheduled checks', { symbol, interval, error });
+      }
+    }
+  }
+
+  private handleUpdate(update: KlineUpdate): void {
+    if (!update.isClosed || update.interval !== this.interval) return;
+
+    const { kline } = update;
+    this.candleListeners.forEach(listener => this.notify(() => listener({ symbol: kline.symbol, interval: update.interval, kline })));
+
+    for (const [pairName, pairConfig] of this.correlationConfig.getPairs()) {
+      if (!pairConfig.assets.includes(kline.symbol)) continue;
+      this.recordClose(pairName, pairConfig.assets.length, kline.symbol, kline.closeTime);
+    }
+  }
+
+  /**
+   * Publish the pair's bar once all its assets closed it, or after the settle delay
+   */
+  private recordClose(pairName: string, assetCount: number, symbol: string, closeTime: Date): void {
+    // Stragglers of an already published bar
+    if ((this.lastPairClose.get(pairName)?.closeTime ?? -Infinity) >= closeTime.getTime()) return;
+
+    const key = `${pairName}|${closeTime.getTime()}`;
+    let pending = this.pendingBars.get(key);
+    if (!pending) {
+      pending = {
+        pairName,
+        closeTime,
+        reported: new Set(),
+        timer: setTimeout(() => this.publish(key), STREAMING_CONSTANTS.CANDLE_CLOSE_SETTLE_DELAY)
+      };
+      this.pendingBars.set(key, pending);
+    }
+
+    pending.reported.add(symbol);
+    if (pending.reported.size >= assetCount) {
+      this.publish(key);
+    }
+  }
+
+  private publish(key: string): void {
+    const pending = this.pendingBars.get(key);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingBars.delete(key);
+    this.lastPairClose.set(pending.pairName, { closeTime: pending.closeTime.getTime(), receivedAt: this.clock.now().getTime() });
+
+    const event = {
+      pairName: pending.pairName,
+      interval: this.interval,
+      closeTime: pending.closeTime,
+      symbols: [...pending.reported]
+    };
+    this.logger.debug('Pair bar closed', event);
+    this.pairListeners.forEach(listener => this.notify(() => listener(event)));
+  }
+
+  private notify(deliver: () => void): void {
+    try {
+      deliver();
+    } catch (error) {
+      this.logger.error('Candle close listener failed', error);
+    }
+  }
+}
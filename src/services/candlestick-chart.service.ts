@@ -0,0 +1,200 @@
+import { injectable, inject } from 'inversify';
+import {
+  CandlestickChart,
+  ChartPanel,
+  ChartService,
+  SignalChartOptions
+} from '../domain/interfaces/chart.interface';
+import { Kline } from '../domain/interfaces/market-data.interfaces';
+import { InstrumentRegistry } from '../domain/interfaces/instrument.interface';
+import { CrossDirection, ReferenceLevelType, StrategySignal } from '../core/strategies/strategy.interfaces';
+import { HighLowResult } from '../core/indicators/indicator.interfaces';
+import { TYPES } from '../config/types';
+import { CHART_CONSTANTS } from '../config/constants';
+import { Color, GLYPH_HEIGHT, RasterCanvas } from '../utils/raster-canvas';
+import { getZonedDateTime } from '../utils/date-helpers';
+
+const COLORS = {
+  background: [19, 23, 34],
+  grid: [42, 46, 57],
+  text: [209, 212, 220],
+  mutedText: [120, 123, 134],
+  up: [38, 166, 154],
+  down: [239, 83, 80],
+  sessionFill: [41, 98, 255, 40],
+  sessionBorder: [41, 98, 255, 160],
+  level: [255, 152, 0],
+  highlight: [255, 235, 59, 50]
+} satisfies Record<string, Color>;
+
+/**
+ * Price to pixel mapping of a panel's plot area
+ */
+interface PlotArea {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  min: number;
+  max: number;
+  slot: number; // Horizontal space per candle
+}
+
+/**
+ * Renders candlestick charts without external services: candles, session boxes and levels
+ * are rasterised in memory and encoded as PNG.
+ */
+@injectable()
+export class CandlestickChartService implements ChartService {
+  constructor(
+    @inject(TYPES.InstrumentRegistry) private instruments: InstrumentRegistry
+  ) {}
+
+  render(chart: CandlestickChart): Buffer {
+    const width = chart.width ?? CHART_CONSTANTS.DEFAULT_WIDTH;
+    const panelHeight = chart.panelHeight ?? CHART_CONSTANTS.DEFAULT_PANEL_HEIGHT;
+    const canvas = new RasterCanvas(width, CHART_CONSTANTS.TITLE_HEIGHT + chart.panels.length * panelHeight, COLORS.background);
+
+    canvas.text(CHART_CONSTANTS.PADDING, (CHART_CONSTANTS.TITLE_HEIGHT - GLYPH_HEIGHT * 2) / 2, chart.title, COLORS.text, 2);
+    chart.panels.forEach((panel, index) => {
+      this.drawPanel(canvas, panel, CHART_CONSTANTS.TITLE_HEIGHT + index * panelHeight, panelHeight, chart.timezone ?? 'UTC');
+    });
+
+    return canvas.toPng();
+  }
+
+  renderSignalChart(
+    signal: StrategySignal,
+    klines: Map<string, Kline[]>,
+    sessionRanges: Map<string, HighLowResult>,
+    options: SignalChartOptions = {}
+  ): Buffer {
+    const levelType = signal.referenceLevelType ??
+      (signal.direction === CrossDirection.CROSS_UNDER ? ReferenceLevelType.HLS : ReferenceLevelType.LLS);
+    const symbols = [signal.triggerAsset, ...[...klines.keys()].filter(symbol => symbol !== signal.triggerAsset)];
+
+    const panels = symbols.map((symbol): ChartPanel => {
+      const range = sessionRanges.get(symbol);
+      return {
+        symbol,
+        klines: klines.get(symbol) ?? [],
+        subtitle: symbol === signal.triggerAsset ? 'cracked' : signal.correlatedAssets.includes(symbol) ? 'held' : '',
+        ...(range?.periodStart && range.periodEnd && {
+          session: { start: range.periodStart, end: range.periodEnd, high: range.high, low: range.low }
+        }),
+        ...(range && { levels: [{ label: levelType, price: levelType === ReferenceLevelType.HLS ? range.high : range.low }] }),
+        ...(signal.crossTime && { highlight: signal.crossTime })
+      };
+    });
+
+    const title = [options.pairName, `${signal.triggerAsset} ${signal.direction.replace('_', ' ')} ${levelType}`]
+      .filter(Boolean)
+      .join(' - ');
+    return this.render({ ...options, title, panels });
+  }
+
+  private drawPanel(canvas: RasterCanvas, panel: ChartPanel, top: number, height: number, timezone: string): void {
+    const { PADDING, LABEL_HEIGHT, AXIS_WIDTH, TIME_AXIS_HEIGHT } = CHART_CONSTANTS;
+    canvas.horizontalLine(0, canvas.width - 1, top, COLORS.grid);
+
+    const labelWidth = canvas.text(PADDING, top + 6, panel.symbol, COLORS.text, 2);
+    if (panel.subtitle) {
+      canvas.text(PADDING + labelWidth + 8, top + 10, panel.subtitle, COLORS.mutedText);
+    }
+
+    const klines = panel.klines;
+    if (klines.length === 0) {
+      canvas.text(PADDING, top + height / 2, 'no data', COLORS.mutedText);
+      return;
+    }
+
+    const prices = klines.flatMap(kline => [kline.high, kline.low]);
+    if (panel.session) prices.push(panel.session.high, panel.session.low);
+    panel.levels?.forEach(level => prices.push(level.price));
+    const spread = Math.max(...prices) - Math.min(...prices) || Math.abs(prices[0]) * 0.001 || 1;
+
+    const area: PlotArea = {
+      left: PADDING,
+      right: canvas.width - AXIS_WIDTH,
+      top: top + LABEL_HEIGHT,
+      bottom: top + height - TIME_AXIS_HEIGHT,
+      min: Math.min(...prices) - spread * 0.05,
+      max: Math.max(...prices) + spread * 0.05,
+      slot: (canvas.width - AXIS_WIDTH - PADDING) / klines.length
+    };
+
+    this.drawGrid(canvas, panel.symbol, area);
+    if (panel.session) this.drawSession(canvas, panel.session, klines, area);
+    if (panel.highlight) this.drawHighlight(canvas, panel.highlight, klines, area);
+    klines.forEach((kline, index) => this.drawCandle(canvas, kline, index, area));
+    panel.levels?.forEach(level => this.drawLevel(canvas, panel.symbol, level.label, level.price, area));
+    this.drawTimeAxis(canvas, klines, area, timezone);
+  }
+
+  private drawGrid(canvas: RasterCanvas, symbol: string, area: PlotArea): void {
+    for (let line = 0; line <= CHART_CONSTANTS.GRID_LINES; line++) {
+      const price = area.max - ((area.max - area.min) * line) / CHART_CONSTANTS.GRID_LINES;
+      const y = this.toY(price, area);
+      canvas.horizontalLine(area.left, area.right, y, COLORS.grid);
+      canvas.text(area.right + 6, y - GLYPH_HEIGHT / 2, this.instruments.formatPrice(symbol, price), COLORS.mutedText);
+    }
+  }
+
+  private drawSession(canvas: RasterCanvas, session: NonNullable<ChartPanel['session']>, klines: Kline[], area: PlotArea): void {
+    const first = klines.findIndex(kline => kline.openTime >= session.start);
+    const last = klines.reduce((found, kline, index) => kline.openTime < session.end ? index : found, -1);
+    if (first === -1 || last < first) return;
+
+    const x = this.toX(first, area) - area.slot / 2;
+    const width = this.toX(last, area) + area.slot / 2 - x;
+    const y = this.toY(session.high, area);
+    const height = this.toY(session.low, area) - y + 1;
+    canvas.fillRect(x, y, width, height, COLORS.sessionFill);
+    canvas.strokeRect(Math.round(x), Math.round(y), Math.round(width), Math.round(height), COLORS.sessionBorder);
+  }
+
+  private drawHighlight(canvas: RasterCanvas, time: Date, klines: Kline[], area: PlotArea): void {
+    const index = klines.findIndex(kline => kline.openTime <= time && time < kline.closeTime);
+    if (index === -1) return;
+
+    const width = Math.max(3, area.slot);
+    canvas.fillRect(this.toX(index, area) - width / 2, area.top, width, area.bottom - area.top, COLORS.highlight);
+  }
+
+  private drawCandle(canvas: RasterCanvas, kline: Kline, index: number, area: PlotArea): void {
+    const color = kline.close >= kline.open ? COLORS.up : COLORS.down;
+    const x = this.toX(index, area);
+    const bodyWidth = Math.max(1, Math.floor(area.slot * 0.7));
+    const bodyTop = this.toY(Math.max(kline.open, kline.close), area);
+    const bodyBottom = this.toY(Math.min(kline.open, kline.close), area);
+
+    canvas.verticalLine(x, this.toY(kline.high, area), this.toY(kline.low, area), color);
+    canvas.fillRect(x - bodyWidth / 2, bodyTop, bodyWidth, Math.max(1, bodyBottom - bodyTop), color);
+  }
+
+  private drawLevel(canvas: RasterCanvas, symbol: string, label: string, price: number, area: PlotArea): void {
+    const y = this.toY(price, area);
+    const text = `${label} ${this.instruments.formatPrice(symbol, price)}`;
+    canvas.horizontalLine(area.left, area.right, y, COLORS.level, 4);
+    canvas.fillRect(area.right + 2, y - GLYPH_HEIGHT / 2 - 2, canvas.measureText(text) + 4, GLYPH_HEIGHT + 4, COLORS.level);
+    canvas.text(area.right + 4, y - GLYPH_HEIGHT / 2, text, COLORS.background);
+  }
+
+  private drawTimeAxis(canvas: RasterCanvas, klines: Kline[], area: PlotArea, timezone: string): void {
+    const indexes = [...new Set([0, Math.floor((klines.length - 1) / 2), klines.length - 1])];
+    for (const index of indexes) {
+      const { hour, minute } = getZonedDateTime(klines[index].openTime, timezone);
+      const label = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+      const x = Math.min(Math.max(area.left, this.toX(index, area) - canvas.measureText(label) / 2), area.right - canvas.measureText(label));
+      canvas.text(x, area.bottom + 5, label, COLORS.mutedText);
+    }
+  }
+
+  private toX(index: number, area: PlotArea): number {
+    return Math.round(area.left + area.slot * (index + 0.5));
+  }
+
+  private toY(price: number, area: PlotArea): number {
+    return Math.round(area.top + ((area.max - price) / (area.max - area.min)) * (area.bottom - area.top));
+  }
+}
@@ -0,0 +1,35 @@
+import { injectable } from 'inversify';
+import { Clock } from '../domain/interfaces/clock.interface';
+
+/**
+ * Wall-clock time, used in production
+ */
+@injectable()
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+/**
+ * Fixed clock that only moves when told to, used in tests and backtests
+ */
+export class ManualClock implements Clock {
+  private current: number;
+
+  constructor(start: Date = new Date(0)) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  setTime(time: Date): void {
+    this.current = time.getTime();
+  }
+
+  advance(ms: number): void {
+    this.current += ms;
+  }
+}
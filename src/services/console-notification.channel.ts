@@ -0,0 +1,21 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../config/types';
+import { Clock } from '../domain/interfaces/clock.interface';
+import { Notification, NotificationChannel } from '../domain/interfaces/notification.interface';
+
+/**
+ * Prints notifications to stdout, e.g. for local runs without a chat
+ */
+@injectable()
+export class ConsoleNotificationChannel implements NotificationChannel {
+  readonly name = 'console';
+
+  constructor(
+    @inject(TYPES.Clock) private clock: Clock
+  ) {}
+
+  async send(notification: Notification): Promise<void> {
+    const header = `[${this.clock.now().toISOString()}] ${notification.kind}${notification.pairName ? ` (${notification.pairName})` : ''}`;
+    process.stdout.write(`${header}\n${notification.text}\n\n`);
+  }
+}
@@ -0,0 +1,58 @@
+import { injectable, inject } from 'inversify';
+import { AssetCorrelation, CorrelationReport, CorrelationTracker } from '../domain/interfaces/correlation-tracker.interface';
+import { Kline, MarketDataProvider } from '../domain/interfaces/market-data.interfaces';
+import { Clock } from '../domain/interfaces/clock.interface';
+import { TYPES } from '../config/types';
+import { calculateReturns, pearsonCorrelation, spearmanCorrelation } from '../utils/statistics';
+
+/**
+ * Pearson and Spearman correlation of close-to-close returns
+ */
+@injectable()
+export class ReturnsCorrelationTracker implements CorrelationTracker {
+  constructor(
+    @inject(TYPES.MarketDataProvider) private marketDataProvider: MarketDataProvider,
+    @inject(TYPES.Clock) private clock: Clock
+  ) {}
+
+  analyze(klines: Map<string, Kline[]>, window: number): CorrelationReport {
+    const symbols = [...klines.keys()];
+    const correlations: AssetCorrelation[] = [];
+
+    for (let i = 0; i < symbols.length; i++) {
+      for (let j = i + 1; j < symbols.length; j++) {
+        const first = symbols[i];
+        const second = symbols[j];
+        correlations.push(this.correlate(first, second, klines.get(first) ?? [], klines.get(second) ?? [], window));
+      }
+    }
+
+    return { symbols, window, correlations, calculatedAt: this.clock.now() };
+  }
+
+  async measure(symbols: string[], interval: string, window: number): Promise<CorrelationReport> {
+    const klines = new Map<string, Kline[]>();
+    for (const symbol of symbols) {
+      klines.set(symbol, await this.marketDataProvider.getKlines(symbol, interval, window + 1));
+    }
+    return this.analyze(klines, window);
+  }
+
+  private correlate(first: string, second: string, firstKlines: Kline[], secondKlines: Kline[], window: number): AssetCorrelation {
+    // Compare returns over the same bars only, so gaps in one feed do not shift the series
+    const secondCloses = new Map(secondKlines.map(kline => [kline.openTime.getTime(), kline.close]));
+    const shared = firstKlines
+      .filter(kline => secondCloses.has(kline.openTime.getTime()))
+      .slice(-(window + 1));
+
+    const firstReturns = calculateReturns(shared.map(kline => kline.close));
+    const secondReturns = calculateReturns(shared.map(kline => secondCloses.get(kline.openTime.getTime()) as number));
+
+    return {
+      symbols: [first, second],
+      pearson: pearsonCorrelation(firstReturns, secondReturns),
+      spearman: spearmanCorrelation(firstReturns, secondReturns),
+      sampleSize: firstReturns.length
+    };
+  }
+}
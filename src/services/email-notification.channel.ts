@@ -0,0 +1,43 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '../config/types';
+import { NOTIFICATION_CONSTANTS } from '../config/constants';
+import { BotConfigService } from '../domain/interfaces/bot-config.interface';
+import { Clock } from '../domain/interfaces/clock.interface';
+import { Notification, NotificationChannel } from '../domain/interfaces/notification.interface';
+import { sendMail } from '../utils/smtp-client';
+
+export function getEmailSubject(notification: Notification): string {
+  const pair = notification.pairName ? ` (${notification.pairName})` : '';
+  const signal = notification.signal ?? notification.outcome?.signal;
+  const subject = signal ? `${signal.triggerAsset} ${signal.direction.replace('_', ' ')}${pair}` : `Trading bot${pair}`;
+
+  switch (notification.kind) {
+    case 'signal':
+      return `Signal: ${subject}`;
+    case 'signal_outcome':
+      return `Signal ${notification.outcome?.status.replace('_', ' ') ?? 'outcome'}: ${subject}`;
+    default:
+      return subject;
+  }
+}
+
+/**
+ * Mails notifications through the SMTP relay in `notifications.email`
+ */
+@injectable()
+export class EmailNotificationChannel implements NotificationChannel {
+  readonly name = 'email';
+
+  constructor(
+    @inject(TYPES.BotConfigService) private botConfig: BotConfigService,
+    @inject(TYPES.Clock) private clock: Clock
+  ) {}
+
+  async send(notification: Notification): Promise<void> {
+    const { host, port, from, to } = this.botConfig.getConfig().notifications.email;
+    await sendMail(
+      { host, port, timeout: NOTIFICATION_CONSTANTS.SMTP_TIMEOUT },
+      { from, to, subject: getEmailSubject(notification), text: notification.text, date: this.clock.now() }
+    );
+  }
+}
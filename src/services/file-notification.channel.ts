@@ -0,0 +1,44 @@
+import { injectable, inject } from 'inversify';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TYPES } from '../config/types';
+import { BotConfigService } from '../domain/interfaces/bot-config.interface';
+import { Clock } from '../domain/interfaces/clock.interface';
+import { Notification, NotificationChannel } from '../domain/interfaces/notification.interface';
+
+/**
+ * Appends notifications as JSON lines to `notifications.file.path`, for tools that tail a file.
+ * Charts are left out.
+ */
+@injectable()
+export class FileNotificationChannel implements NotificationChannel {
+  readonly name = 'file';
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    @inject(TYPES.BotConfigService) private botConfig: BotConfigService,
+    @inject(TYPES.Clock) private clock: Clock
+  ) {}
+
+  send(notification: Notification): Promise<void> {
+    const { kind, text, pairName, signal, outcome } = notification;
+    const line = JSON.stringify({
+      sentAt: this.clock.now(),
+      kind,
+      ...(pairName && { pairName }),
+      text,
+      ...(signal && { signal }),
+      ...(outcome && { outcome })
+    });
+
+    // Appends are serialized so concurrent notifications never interleave
+    const next = this.writeQueue.then(() => this.append(this.botConfig.getConfig().notifications.file.path, line));
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async append(filePath: string, line: string): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, `${line}\n`, 'utf8');
+  }
+}
@@ -0,0 +1,183 @@
+import { injectable, inject, unmanaged } from 'inversify';
+import { randomUUID } from 'crypto';
+import {
+  SignalFeedback,
+  SignalJournal,
+  SignalJournalEntry,
+  SignalJournalQuery
+} from '../domain/interfaces/signal-journal.interface';
+import { StrategySignal } from '../core/strategies/strategy.interfaces';
+import { Logger } from '../utils/logger';
+import { Clock } from '../domain/interfaces/clock.interface';
+import { TYPES } from '../config/types';
+import { STORAGE_CONSTANTS, TRADING_CONSTANTS } from '../config/constants';
+import { JsonFileStore } from '../utils/json-file-store';
+import { getDateKey } from '../utils/date-helpers';
+
+type StoredSignal = Omit<StrategySignal, 'timestamp' | 'crossTime'> & {
+  timestamp: string;
+  crossTime?: string;
+};
+
+type StoredFeedback = Omit<SignalFeedback, 'recordedAt'> & { recordedAt: string };
+
+interface StoredJournalEntry {
+  id: string;
+  pairName: string;
+  sessionKey: string;
+  recordedAt: string;
+  signal: StoredSignal;
+  feedback?: StoredFeedback[];
+}
+
+@injectable()
+export class FileSignalJournal implements SignalJournal {
+  private readonly store: JsonFileStore<StoredJournalEntry[]>;
+  private entries: Promise<SignalJournalEntry[]> | null = null;
+  private readOnly = false; // Set when an unreadable file could not be moved aside
+
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @inject(TYPES.Clock) private clock: Clock,
+    @unmanaged() filePath: string = STORAGE_CONSTANTS.SIGNAL_JOURNAL_FILE
+  ) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async record(pairName: string, signal: StrategySignal): Promise<SignalJournalEntry | null> {
+    const entries = await this.load();
+    const sessionKey = getDateKey(signal.timestamp, TRADING_CONSTANTS.DEFAULT_TIMEZONE);
+
+    if (entries.some(entry => this.isSameCrack(entry, pairName, sessionKey, signal))) {
+      this.logger.debug('Duplicate signal suppressed', { pairName, triggerAsset: signal.triggerAsset, sessionKey });
+      return null;
+    }
+
+    const entry: SignalJournalEntry = {
+      id: randomUUID(),
+      pairName,
+      sessionKey,
+      recordedAt: this.clock.now(),
+      signal
+    };
+
+    entries.push(entry);
+    entries.splice(0, Math.max(0, entries.length - STORAGE_CONSTANTS.MAX_JOURNAL_ENTRIES));
+    await this.persist(entries);
+
+    return entry;
+  }
+
+  async query(query: SignalJournalQuery = {}): Promise<SignalJournalEntry[]> {
+    const entries = await this.load();
+
+    const matches = entries
+      .filter(entry => !query.pairName || entry.pairName === query.pairName)
+      .filter(entry => !query.sessionKey || entry.sessionKey === query.sessionKey)
+      .filter(entry => !query.from || entry.signal.timestamp >= query.from)
+      .filter(entry => !query.to || entry.signal.timestamp <= query.to)
+      .sort((a, b) => b.signal.timestamp.getTime() - a.signal.timestamp.getTime());
+
+    return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+  }
+
+  async get(id: string): Promise<SignalJournalEntry | undefined> {
+    return (await this.load()).find(entry => entry.id === id);
+  }
+
+  async recordFeedback(id: string, feedback: SignalFeedback): Promise<SignalJournalEntry | null> {
+    const entries = await this.load();
+    const entry = entries.find(candidate => candidate.id === id);
+    if (!entry) return null;
+
+    const isVerdict = (action: SignalFeedback['action']): boolean => action === 'taken' || action === 'ignored';
+    const replaced = (existing: SignalFeedback): boolean =>
+      existing.chatId === feedback.chatId &&
+      existing.userId === feedback.userId &&
+      (existing.action === feedback.action || (isVerdict(existing.action) && isVerdict(feedback.action)));
+
+    entry.feedback = [...(entry.feedback ?? []).filter(existing => !replaced(existing)), feedback];
+    await this.persist(entries);
+    return entry;
+  }
+
+  /**
+   * The strategy re-reports a cross on every run while it stays in the lookback
+   * window; one announcement per pair, trigger asset and direction per session is enough.
+   */
+  private isSameCrack(entry: SignalJournalEntry, pairName: string, sessionKey: string, signal: StrategySignal): boolean {
+    return entry.pairName === pairName &&
+      entry.sessionKey === sessionKey &&
+      entry.signal.triggerAsset === signal.triggerAsset &&
+      entry.signal.direction === signal.direction;
+  }
+
+  private load(): Promise<SignalJournalEntry[]> {
+    if (!this.entries) {
+      this.entries = this.store.read()
+        .then(stored => (stored ?? []).map(entry => this.deserialize(entry)))
+        .catch(error => this.startEmpty(error));
+    }
+    return this.entries;
+  }
+
+  /**
+   * Keep an unreadable journal for inspection instead of overwriting its history with the next signal.
+   * When it cannot be moved aside, nothing is written until it is fixed.
+   */
+  private async startEmpty(error: unknown): Promise<SignalJournalEntry[]> {
+    const filePath = this.store.getPath();
+    const backupPath = `${filePath}.corrupt-${this.clock.now().getTime()}`;
+    try {
+      await this.store.moveTo(backupPath);
+      this.logger.error('Failed to load signal journal, moved it aside and starting empty', error, { path: filePath, backupPath });
+    } catch (moveError) {
+      this.readOnly = true;
+      this.logger.error('Failed to load signal journal, not saving signals until it is fixed', error, { path: filePath, moveError });
+    }
+    return [];
+  }
+
+  private async persist(entries: SignalJournalEntry[]): Promise<void> {
+    if (this.readOnly) return;
+    try {
+      await this.store.write(entries.map(entry => this.serialize(entry)));
+    } catch (error) {
+      this.logger.error('Failed to persist signal journal', error, { path: this.store.getPath() });
+    }
+  }
+
+  private serialize(entry: SignalJournalEntry): StoredJournalEntry {
+    const { timestamp, crossTime, ...signal } = entry.signal;
+    const { feedback, ...rest } = entry;
+    return {
+      ...rest,
+      recordedAt: entry.recordedAt.toISOString(),
+      signal: {
+        ...signal,
+        timestamp: timestamp.toISOString(),
+        ...(crossTime && { crossTime: crossTime.toISOString() })
+      },
+      ...(feedback && {
+        feedback: feedback.map(item => ({ ...item, recordedAt: item.recordedAt.toISOString() }))
+      })
+    };
+  }
+
+  private deserialize(stored: StoredJournalEntry): SignalJournalEntry {
+    const { timestamp, crossTime, ...signal } = stored.signal;
+    const { feedback, ...rest } = stored;
+    return {
+      ...rest,
+      recordedAt: new Date(stored.recordedAt),
+      signal: {
+        ...signal,
+        timestamp: new Date(timestamp),
+        ...(crossTime && { crossTime: new Date(crossTime) })
+      },
+      ...(feedback && {
+        feedback: feedback.map(item => ({ ...item, recordedAt: new Date(item.recordedAt) }))
+      })
+    };
+  }
+}
@@ -0,0 +1,240 @@
+import { injectable, inject, unmanaged } from 'inversify';
+import {
+  SignalMessageRef,
+  SignalTracker,
+  SignalTrackingSettings,
+  SignalTrackingStats,
+  TrackedSignal
+} from '../domain/interfaces/signal-tracker.interface';
+import { SignalJournalEntry } from '../domain/interfaces/signal-journal.interface';
+import { MarketDataProvider } from '../domain/interfaces/market-data.interfaces';
+import { CrossDirection, StrategySignal } from '../core/strategies/strategy.interfaces';
+import { Logger } from '../utils/logger';
+import { Clock } from '../domain/interfaces/clock.interface';
+import { TYPES } from '../config/types';
+import { BOT_CONSTANTS, STORAGE_CONSTANTS } from '../config/constants';
+import { JsonFileStore } from '../utils/json-file-store';
+
+type StoredSignal = Omit<StrategySignal, 'timestamp' | 'crossTime'> & {
+  timestamp: string;
+  crossTime?: string;
+};
+
+type StoredTrackedSignal = Omit<TrackedSignal, 'signal' | 'openedAt' | 'expiresAt' | 'closedAt'> & {
+  signal: StoredSignal;
+  openedAt: string;
+  expiresAt: string;
+  closedAt?: string;
+};
+
+const directionSign = (signal: StrategySignal): number =>
+  signal.direction === CrossDirection.CROSS_UNDER ? -1 : 1;
+
+/**
+ * Levels of a signal when it is announced. The invalidation level sits the buffer
+ * beyond the reference level on the side the trigger asset crossed from.
+ */
+export function createTrackedSignal(entry: SignalJournalEntry, settings: SignalTrackingSettings): TrackedSignal {
+  const { signal } = entry;
+  const sign = directionSign(signal);
+  const entryPrice = signal.triggerPrice ?? signal.referenceLevel;
+  const percent = (value: number): number => value / BOT_CONSTANTS.PERCENTAGE_MULTIPLIER;
+
+  return {
+    id: entry.id,
+    pairName: entry.pairName,
+    signal,
+    entryPrice,
+    invalidationLevel: signal.referenceLevel * (1 - sign * percent(settings.invalidationBufferPercent)),
+    targetPrice: entryPrice * (1 + sign * percent(settings.targetPercent)),
+    openedAt: entry.recordedAt,
+    expiresAt: new Date(entry.recordedAt.getTime() + settings.expiryMinutes * BOT_CONSTANTS.MILLISECONDS_PER_MINUTE),
+    status: 'open',
+    messages: []
+  };
+}
+
+/**
+ * Close an open signal when the price reaches the target, reclaims the invalidation
+ * level or the signal expires. Returns the signal unchanged while it stays open.
+ */
+export function evaluateTrackedSignal(tracked: TrackedSignal, price: number, now: Date): TrackedSignal {
+  if (tracked.status !== 'open') return tracked;
+
+  const sign = directionSign(tracked.signal);
+  const status = sign * (price - tracked.targetPrice) >= 0 ? 'target_hit'
+    : sign * (price - tracked.invalidationLevel) <= 0 ? 'invalidated'
+    : now >= tracked.expiresAt ? 'expired'
+    : 'open';
+  if (status === 'open') return tracked;
+
+  return {
+    ...tracked,
+    status,
+    closedAt: now,
+    exitPrice: price,
+    movePercent: sign * ((price - tracked.entryPrice) / tracked.entryPrice) * BOT_CONSTANTS.PERCENTAGE_MULTIPLIER
+  };
+}
+
+@injectable()
+export class FileSignalTracker implements SignalTracker {
+  private readonly store: JsonFileStore<StoredTrackedSignal[]>;
+  private signals: Promise<TrackedSignal[]> | null = null;
+
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @inject(TYPES.Clock) private clock: Clock,
+    @inject(TYPES.MarketDataProvider) private marketDataProvider: MarketDataProvider,
+    @unmanaged() filePath: string = STORAGE_CONSTANTS.TRACKED_SIGNALS_FILE
+  ) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async track(entry: SignalJournalEntry, settings: SignalTrackingSettings): Promise<TrackedSignal> {
+    const signals = await this.load();
+    const tracked = createTrackedSignal(entry, settings);
+
+    signals.push(tracked);
+    this.prune(signals);
+    await this.persist(signals);
+
+    return tracked;
+  }
+
+  async attachMessages(id: string, messages: SignalMessageRef[]): Promise<void> {
+    const signals = await this.load();
+    const index = signals.findIndex(tracked => tracked.id === id);
+    if (index === -1) return;
+
+    signals[index] = { ...signals[index], messages: [...signals[index].messages, ...messages] };
+    await this.persist(signals);
+  }
+
+  async update(): Promise<TrackedSignal[]> {
+    const signals = await this.load();
+    const open = signals.filter(tracked => tracked.status === 'open');
+    if (open.length === 0) return [];
+
+    const now = this.clock.now();
+    const prices = await this.fetchCurrentPrices([...new Set(open.map(tracked => tracked.signal.triggerAsset))]);
+    const closed: TrackedSignal[] = [];
+
+    signals.forEach((tracked, index) => {
+      const price = prices.get(tracked.signal.triggerAsset);
+      if (tracked.status !== 'open' || price === undefined) return;
+
+      const evaluated = evaluateTrackedSignal(tracked, price, now);
+      if (evaluated !== tracked) {
+        signals[index] = evaluated;
+        closed.push(evaluated);
+      }
+    });
+
+    if (closed.length > 0) {
+      await this.persist(signals);
+    }
+    return closed;
+  }
+
+  async getStats(pairName?: string): Promise<SignalTrackingStats> {
+    const signals = (await this.load()).filter(tracked => !pairName || tracked.pairName === pairName);
+    const closed = signals.filter(tracked => tracked.status !== 'open');
+    const count = (status: TrackedSignal['status']): number => signals.filter(tracked => tracked.status === status).length;
+    const targetHit = count('target_hit');
+
+    return {
+      total: signals.length,
+      open: count('open'),
+      targetHit,
+      invalidated: count('invalidated'),
+      expired: count('expired'),
+      hitRate: closed.length > 0 ? targetHit / closed.length : NaN,
+      averageMovePercent: closed.length > 0
+        ? closed.reduce((sum, tracked) => sum + (tracked.movePercent ?? 0), 0) / closed.length
+        : NaN
+    };
+  }
+
+  private async fetchCurrentPrices(symbols: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+
+    await Promise.all(symbols.map(async symbol => {
+      try {
+        const marketData = await this.marketDataProvider.getMarketData(symbol);
+        prices.set(symbol, marketData.price);
+      } catch (error) {
+        this.logger.warn('Failed to fetch current price for tracked signal', { symbol, error });
+      }
+    }));
+
+    return prices;
+  }
+
+  /**
+   * Drop the oldest closed signals once the store grows past the journal limit
+   */
+  private prune(signals: TrackedSignal[]): void {
+    let excess = signals.length - STORAGE_CONSTANTS.MAX_JOURNAL_ENTRIES;
+    for (let i = 0; i < signals.length && excess > 0;) {
+      if (signals[i].status !== 'open') {
+        signals.splice(i, 1);
+        excess--;
+      } else {
+        i++;
+      }
+    }
+  }
+
+  private load(): Promise<TrackedSignal[]> {
+    if (!this.signals) {
+      this.signals = this.store.read()
+        .then(stored => (stored ?? []).map(tracked => this.deserialize(tracked)))
+        .catch(error => {
+          this.logger.error('Failed to load tracked signals, starting empty', error, { path: this.store.getPath() });
+          return [];
+        });
+    }
+    return this.signals;
+  }
+
+  private async persist(signals: TrackedSignal[]): Promise<void> {
+    try {
+      await this.store.write(signals.map(tracked => this.serialize(tracked)));
+    } catch (error) {
+      this.logger.error('Failed to persist tracked signals', error, { path: this.store.getPath() });
+    }
+  }
+
+  private serialize(tracked: TrackedSignal): StoredTrackedSignal {
+    const { timestamp, crossTime, ...signal } = tracked.signal;
+    const { closedAt, ...rest } = tracked;
+    return {
+      ...rest,
+      signal: {
+        ...signal,
+        timestamp: timestamp.toISOString(),
+        ...(crossTime && { crossTime: crossTime.toISOString() })
+      },
+      openedAt: tracked.openedAt.toISOString(),
+      expiresAt: tracked.expiresAt.toISOString(),
+      ...(closedAt && { closedAt: closedAt.toISOString() })
+    };
+  }
+
+  private deserialize(stored: StoredTrackedSignal): TrackedSignal {
+    const { timestamp, crossTime, ...signal } = stored.signal;
+    const { closedAt, ...rest } = stored;
+    return {
+      ...rest,
+      signal: {
+        ...signal,
+        timestamp: new Date(timestamp),
+        ...(crossTime && { crossTime: new Date(crossTime) })
+      },
+      openedAt: new Date(stored.openedAt),
+      expiresAt: new Date(stored.expiresAt),
+      ...(closedAt && { closedAt: new Date(closedAt) })
+    };
+  }
+}
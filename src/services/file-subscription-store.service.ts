@@ -0,0 +1,81 @@
+import { injectable, inject, unmanaged } from 'inversify';
+import { ChatSubscription, SubscriptionStore } from '../domain/interfaces/subscription.interface';
+import { Logger } from '../utils/logger';
+import { TYPES } from '../config/types';
+import { STORAGE_CONSTANTS } from '../config/constants';
+import { JsonFileStore } from '../utils/json-file-store';
+
+type StoredSubscription = Omit<ChatSubscription, 'createdAt' | 'updatedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+@injectable()
+export class FileSubscriptionStore implements SubscriptionStore {
+  private readonly store: JsonFileStore<StoredSubscription[]>;
+  private subscriptions: Promise<ChatSubscription[]> | null = null;
+
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @unmanaged() filePath: string = STORAGE_CONSTANTS.SUBSCRIPTIONS_FILE
+  ) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async list(): Promise<ChatSubscription[]> {
+    return [...await this.load()];
+  }
+
+  async get(chatId: string): Promise<ChatSubscription | undefined> {
+    return (await this.load()).find(subscription => subscription.chatId === chatId);
+  }
+
+  async save(subscription: ChatSubscription): Promise<void> {
+    const subscriptions = await this.load();
+    const index = subscriptions.findIndex(existing => existing.chatId === subscription.chatId);
+    if (index === -1) {
+      subscriptions.push(subscription);
+    } else {
+      subscriptions[index] = subscription;
+    }
+    await this.persist(subscriptions);
+  }
+
+  async remove(chatId: string): Promise<boolean> {
+    const subscriptions = await this.load();
+    const index = subscriptions.findIndex(subscription => subscription.chatId === chatId);
+    if (index === -1) return false;
+
+    subscriptions.splice(index, 1);
+    await this.persist(subscriptions);
+    return true;
+  }
+
+  private load(): Promise<ChatSubscription[]> {
+    if (!this.subscriptions) {
+      this.subscriptions = this.store.read()
+        .then(stored => (stored ?? []).map(subscription => ({
+          ...subscription,
+          createdAt: new Date(subscription.createdAt),
+          updatedAt: new Date(subscription.updatedAt)
+        })))
+        .catch(error => {
+          this.logger.error('Failed to load subscriptions, starting empty', error, { path: this.store.getPath() });
+          return [];
+        });
+    }
+    return this.subscriptions;
+  }
+
+  private async persist(subscriptions: ChatSubscription[]): Promise<void> {
+    try {
+      await this.store.write(subscriptions.map(subscription => ({
+        ...subscription,
+        createdAt: subscription.createdAt.toISOString(),
+        updatedAt: subscription.updatedAt.toISOString()
+      })));
+    } catch (error) {
+      this.logger.error('Failed to persist subscriptions', error, { path: this.store.getPath() });
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { injectable } from 'inversify';
+import { AssetType, Instrument } from '../domain/entities/trading.entities';
+import { InstrumentRegistry } from '../domain/interfaces/instrument.interface';
+import { BOT_CONSTANTS } from '../config/constants';
+import {
+  CRYPTO_QUOTE_ASSETS,
+  FOREX_CURRENCIES,
+  INSTRUMENTS,
+  createCryptoInstrument,
+  createForexInstrument
+} from '../config/instruments';
+
+const DEFAULT_TICK_SIZE = Math.pow(10, -BOT_CONSTANTS.PRICE_DECIMAL_PLACES);
+
+/**
+ * Instrument catalogue with shape-based inference for unlisted symbols
+ */
+@injectable()
+export class DefaultInstrumentRegistry implements InstrumentRegistry {
+  private readonly bySymbol = new Map<string, Instrument>();
+  private readonly byProviderSymbol = new Map<string, Instrument>();
+
+  constructor() {
+    INSTRUMENTS.forEach(instrument => this.register(instrument));
+  }
+
+  register(instrument: Instrument): void {
+    this.bySymbol.set(instrument.symbol, instrument);
+    for (const providerSymbol of Object.values(instrument.providerSymbols)) {
+      if (!this.bySymbol.has(providerSymbol)) {
+        this.byProviderSymbol.set(providerSymbol, instrument);
+      }
+    }
+  }
+
+  resolve(symbol: string): Instrument {
+    const key = symbol.toUpperCase();
+    const known = this.bySymbol.get(key) ?? this.byProviderSymbol.get(key);
+    if (known) return known;
+
+    const inferred = this.infer(key);
+    this.register(inferred);
+    return inferred;
+  }
+
+  toProviderSymbol(symbol: string, provider: string): string {
+    return this.resolve(symbol).providerSymbols[provider] ?? symbol;
+  }
+
+  formatPrice(symbol: string, price: number): string {
+    const { tickSize, pricePrecision } = this.resolve(symbol);
+    const rounded = Math.round(price / tickSize) * tickSize;
+    return rounded.toFixed(pricePrecision);
+  }
+
+  private infer(symbol: string): Instrument {
+    if (symbol.includes('/')) {
+      const [base = symbol, quote = ''] = symbol.split('/');
+      return createCryptoInstrument(base, DEFAULT_TICK_SIZE, BOT_CONSTANTS.PRICE_DECIMAL_PLACES, quote);
+    }
+
+    const cryptoQuote = CRYPTO_QUOTE_ASSETS.find(quote => symbol.endsWith(quote) && symbol.length > quote.length + 1);
+    if (cryptoQuote) {
+      const base = symbol.slice(0, -cryptoQuote.length);
+      return createCryptoInstrument(base, DEFAULT_TICK_SIZE, BOT_CONSTANTS.PRICE_DECIMAL_PLACES, cryptoQuote);
+    }
+
+    const [base, quote] = [symbol.slice(0, 3), symbol.slice(3)];
+    if (symbol.length === 6 && this.isCurrency(base) && this.isCurrency(quote)) {
+      return createForexInstrument(base, quote);
+    }
+
+    return {
+      symbol,
+      base: symbol,
+      quote: 'USD',
+      assetClass: AssetType.STOCK,
+      tickSize: DEFAULT_TICK_SIZE,
+      pricePrecision: BOT_CONSTANTS.PRICE_DECIMAL_PLACES,
+      providerSymbols: {}
+    };
+  }
+
+  private isCurrency(code: string): boolean {
+    return (FOREX_CURRENCIES as readonly string[]).includes(code);
+  }
+}
@@ -0,0 +1,35 @@
+import { injectable, inject } from 'inversify';
+import { MarketDataProvider, MarketDataProviderRegistry } from '../domain/interfaces/market-data.interfaces';
+import { TYPES } from '../config/types';
+
+/**
+ * Registry of the market data providers available to the bot
+ */
+@injectable()
+export class DefaultMarketDataProviderRegistry implements MarketDataProviderRegistry {
+  private readonly providers = new Map<string, MarketDataProvider>();
+
+  constructor(
+    @inject(TYPES.BinanceProvider) binanceProvider: MarketDataProvider,
+    @inject(TYPES.CapitalComProvider) capitalComProvider: MarketDataProvider
+  ) {
+    this.register('binance', binanceProvider);
+    this.register('capitalcom', capitalComProvider);
+  }
+
+  register(name: string, provider: MarketDataProvider): void {
+    this.providers.set(name, provider);
+  }
+
+  get(name: string): MarketDataProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Market data provider not registered: ${name}`);
+    }
+    return provider;
+  }
+
+  getAll(): MarketDataProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
@@ -0,0 +1,64 @@
+import { injectable, inject } from 'inversify';
+import { Logger } from '@/utils/logger';
+import { TYPES } from '../config/types';
+import { BotConfigService, NotificationsConfig } from '../domain/interfaces/bot-config.interface';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationResult,
+  NotificationService
+} from '../domain/interfaces/notification.interface';
+
+/**
+ * Fans notifications out to the registered channels. Channels with a section in
+ * `notifications` follow it; channels registered without one receive everything.
+ */
+@injectable()
+export class DefaultNotificationService implements NotificationService {
+  private readonly channels = new Map<string, NotificationChannel>();
+
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @inject(TYPES.BotConfigService) private botConfig: BotConfigService,
+    @inject(TYPES.WebhookNotificationChannel) webhookChannel: NotificationChannel,
+    @inject(TYPES.EmailNotificationChannel) emailChannel: NotificationChannel,
+    @inject(TYPES.ConsoleNotificationChannel) consoleChannel: NotificationChannel,
+    @inject(TYPES.FileNotificationChannel) fileChannel: NotificationChannel
+  ) {
+    [webhookChannel, emailChannel, consoleChannel, fileChannel].forEach(channel => this.register(channel));
+  }
+
+  register(channel: NotificationChannel): void {
+    this.channels.set(channel.name, channel);
+  }
+
+  async publish(notification: Notification): Promise<NotificationResult> {
+    const result: NotificationResult = { delivered: [], failed: [], messages: [] };
+    const channels = [...this.channels.values()].filter(channel => this.accepts(channel, notification));
+
+    // Channels are independent: a slow webhook must not hold back the chat message
+    const outcomes = await Promise.all(channels.map(async channel => {
+      try {
+        return { channel, messages: (await channel.send(notification)) ?? [] };
+      } catch (error) {
+        this.logger.error('Notification channel failed', error, { channel: channel.name, kind: notification.kind });
+        return { channel };
+      }
+    }));
+
+    for (const { channel, messages } of outcomes) {
+      if (messages) {
+        result.delivered.push(channel.name);
+        result.messages.push(...messages);
+      } else {
+        result.failed.push(channel.name);
+      }
+    }
+    return result;
+  }
+
+  private accepts(channel: NotificationChannel, notification: Notification): boolean {
+    const settings = this.botConfig.getConfig().notifications[channel.name as keyof NotificationsConfig];
+    return !settings || (settings.enabled && settings.kinds.includes(notification.kind));
+  }
+}
@@ -0,0 +1,102 @@
+import { injectable, inject, unmanaged } from 'inversify';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MarketCalendar, MarketSession, TradingCalendar } from '../domain/interfaces/trading-calendar.interface';
+import { InstrumentRegistry } from '../domain/interfaces/instrument.interface';
+import { Logger } from '../utils/logger';
+import { TYPES } from '../config/types';
+import { CONFIG_CONSTANTS, TIME_CONSTANTS } from '../config/constants';
+import { validateMarketCalendar, parseCalendarTime } from '../config/market-calendar';
+import { getDateKey, getZonedDateTime, startOfZonedDay, zonedTimeToUtc } from '../utils/date-helpers';
+
+/**
+ * Market calendars read from the JSON files of a directory
+ */
+@injectable()
+export class FileTradingCalendar implements TradingCalendar {
+  private calendars: MarketCalendar[] = [];
+
+  constructor(
+    @inject(TYPES.Logger) private logger: Logger,
+    @inject(TYPES.InstrumentRegistry) private instruments: InstrumentRegistry,
+    @unmanaged() private readonly directory: string = CONFIG_CONSTANTS.CALENDARS_DIR
+  ) {}
+
+  async load(): Promise<void> {
+    let fileNames: string[];
+    try {
+      fileNames = (await fs.readdir(this.directory)).filter(fileName => fileName.endsWith('.json')).sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.logger.info('Market calendar directory not found, all markets treated as always open', { path: this.directory });
+        return;
+      }
+      throw error;
+    }
+
+    const calendars: MarketCalendar[] = [];
+    for (const fileName of fileNames) {
+      const filePath = path.join(this.directory, fileName);
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      } catch (error) {
+        throw new Error(`Market calendar ${filePath} is not valid JSON: ${(error as Error).message}`);
+      }
+      calendars.push(validateMarketCalendar(raw, filePath));
+    }
+
+    this.calendars = calendars;
+    this.logger.info('Market calendars loaded', { calendars: calendars.map(calendar => calendar.id) });
+  }
+
+  getCalendar(symbol: string): MarketCalendar | null {
+    const key = symbol.toUpperCase();
+    const bySymbol = this.calendars.find(calendar => calendar.symbols.includes(key));
+    if (bySymbol) return bySymbol;
+
+    const { assetClass } = this.instruments.resolve(symbol);
+    return this.calendars.find(calendar => calendar.assetClasses.includes(assetClass)) ?? null;
+  }
+
+  getSession(symbol: string, date: Date): MarketSession | null {
+    const calendar = this.getCalendar(symbol);
+    if (!calendar) {
+      const open = new Date(Math.floor(date.getTime() / TIME_CONSTANTS.DAY) * TIME_CONSTANTS.DAY);
+      return { date: getDateKey(date, 'UTC'), open, close: new Date(open.getTime() + TIME_CONSTANTS.DAY), halfDay: false };
+    }
+
+    const dateKey = getDateKey(date, calendar.timezone);
+    const { year, month, day, weekday } = getZonedDateTime(date, calendar.timezone);
+    if (!calendar.tradingDays.includes(weekday) || calendar.holidays.some(holiday => holiday.date === dateKey)) {
+      return null;
+    }
+
+    const halfDay = calendar.halfDays.find(entry => entry.date === dateKey);
+    const at = (time: string, dayOffset = 0) => {
+      const minutes = parseCalendarTime(time);
+      return zonedTimeToUtc(calendar.timezone, year, month, day + dayOffset, Math.floor(minutes / 60), minutes % 60);
+    };
+
+    return {
+      date: dateKey,
+      open: at(calendar.open, calendar.opensPreviousDay ? -1 : 0),
+      close: at(halfDay?.close ?? calendar.close),
+      halfDay: halfDay !== undefined
+    };
+  }
+
+  isTradingDay(symbol: string, date: Date): boolean {
+    return this.getSession(symbol, date) !== null;
+  }
+
+  isOpen(symbol: string, at: Date): boolean {
+    const calendar = this.getCalendar(symbol);
+    // After the open on the evening before, the time belongs to the next day's session
+    const days = calendar?.opensPreviousDay ? [at, startOfZonedDay(at, calendar.timezone, 1)] : [at];
+    return days.some(day => {
+      const session = this.getSession(symbol, day);
+      return session !== null && at >= session.open && at < session.close;
+    });
+  }
+}
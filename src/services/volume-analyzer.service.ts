@@ -0,0 +1,66 @@
+import { injectable } from 'inversify';
+import { VolumeAnalysis, VolumeAnalysisOptions, VolumeAnalyzer } from '../domain/interfaces/volume-analyzer.interface';
+import { Kline } from '../domain/interfaces/market-data.interfaces';
+import { STRATEGY_CONSTANTS } from '../config/constants';
+import { startOfZonedDay } from '../utils/date-helpers';
+
+/**
+ * Compares a bar with the session before it: volume against the session average,
+ * and its range against the ATR
+ */
+@injectable()
+export class KlineVolumeAnalyzer implements VolumeAnalyzer {
+  analyze(symbol: string, klines: Kline[], options: VolumeAnalysisOptions = {}): VolumeAnalysis | undefined {
+    const at = options.at?.getTime();
+    const index = at === undefined
+      ? klines.length - 1
+      : klines.findIndex(kline => kline.openTime.getTime() === at);
+    if (index < 0) return undefined;
+
+    const bar = klines[index];
+    const history = klines.slice(0, index);
+    const averageVolume = mean(this.getSessionBars(bar, history, options.timezone ?? 'UTC').map(kline => kline.volume));
+    const atr = this.calculateAtr(klines, index, options.atrPeriod ?? STRATEGY_CONSTANTS.ATR_PERIOD);
+    const barRange = bar.high - bar.low;
+
+    return {
+      symbol,
+      barTime: bar.openTime,
+      volume: bar.volume,
+      averageVolume,
+      relativeVolume: averageVolume > 0 ? bar.volume / averageVolume : NaN,
+      atr,
+      atrPercent: bar.close > 0 ? atr / bar.close : NaN,
+      barRange,
+      rangeExpansion: atr > 0 ? barRange / atr : NaN
+    };
+  }
+
+  /**
+   * Earlier bars of the same day, or the last bars when the session has just opened
+   */
+  private getSessionBars(bar: Kline, history: Kline[], timezone: string): Kline[] {
+    const sessionStart = startOfZonedDay(bar.openTime, timezone);
+    const sessionBars = history.filter(kline => kline.openTime >= sessionStart);
+    return sessionBars.length >= STRATEGY_CONSTANTS.MIN_SESSION_VOLUME_BARS
+      ? sessionBars
+      : history.slice(-STRATEGY_CONSTANTS.VOLUME_AVERAGE_PERIOD);
+  }
+
+  /**
+   * Simple average of the true ranges of the `period` bars before `index`
+   */
+  private calculateAtr(klines: Kline[], index: number, period: number): number {
+    const trueRanges: number[] = [];
+    for (let i = Math.max(1, index - period); i < index; i++) {
+      const { high, low } = klines[i];
+      const previousClose = klines[i - 1].close;
+      trueRanges.push(Math.max(high - low, Math.abs(high - previousClose), Math.abs(low - previousClose)));
+    }
+    return mean(trueRanges);
+  }
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? NaN : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
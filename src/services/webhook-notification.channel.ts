@@ -0,0 +1,49 @@
+import { injectable, inject } from 'inversify';
+import axios from 'axios';
+import { TYPES } from '../config/types';
+import { NOTIFICATION_CONSTANTS } from '../config/constants';
+import { BotConfigService } from '../domain/interfaces/bot-config.interface';
+import { Notification, NotificationChannel, NotificationKind } from '../domain/interfaces/notification.interface';
+import { StrategySignal } from '../core/strategies/strategy.interfaces';
+import { TrackedSignal } from '../domain/interfaces/signal-tracker.interface';
+
+/**
+ * JSON body posted to the webhook
+ */
+export interface WebhookPayload {
+  kind: NotificationKind;
+  text: string;
+  pairName?: string;
+  signal?: StrategySignal;
+  outcome?: TrackedSignal;
+  chart?: string; // Base64 PNG
+}
+
+export function toWebhookPayload(notification: Notification): WebhookPayload {
+  const { kind, text, pairName, signal, outcome, chart } = notification;
+  return {
+    kind,
+    text,
+    ...(pairName && { pairName }),
+    ...(signal && { signal }),
+    ...(outcome && { outcome }),
+    ...(chart && { chart: chart.toString('base64') })
+  };
+}
+
+/**
+ * Posts notifications as JSON to `notifications.webhook.url`
+ */
+@injectable()
+export class WebhookNotificationChannel implements NotificationChannel {
+  readonly name = 'webhook';
+
+  constructor(
+    @inject(TYPES.BotConfigService) private botConfig: BotConfigService
+  ) {}
+
+  async send(notification: Notification): Promise<void> {
+    const { url } = this.botConfig.getConfig().notifications.webhook;
+    await axios.post(url, toWebhookPayload(notification), { timeout: NOTIFICATION_CONSTANTS.WEBHOOK_TIMEOUT });
+  }
+}
@@ -7,7 +7,11 @@ import { HighLowIndicator } from './core/indicators/high-low.indicator';
 import { CorrelationCrackConfig, CrossDirection } from './core/strategies/strategy.interfaces';
 import { MarketDataProvider, Kline } from './domain/interfaces/market-data.interfaces';
 import { HighLowResult } from './core/indicators/indicator.interfaces';
-import { Logger } from 'winston';
+import { Logger } from './utils/logger';
+import { SystemClock } from './services/clock.service';
+import { ReturnsCorrelationTracker } from './services/correlation-tracker.service';
+import { KlineVolumeAnalyzer } from './services/volume-analyzer.service';
+import { DefaultConfidenceModelRegistry } from './core/scoring/confidence-models';
 
 // Mock implementations for testing
 class MockMarketDataProvider implements MarketDataProvider {
@@ -43,6 +47,8 @@ class MockMarketDataProvider implements MarketDataProvider {
   }
   
   async getTicker24h(): Promise<any> { return null; }
+  async subscribeKlines(): Promise<string> { return 'mock-1'; }
+  async unsubscribe(): Promise<void> {}
   async isHealthy(): Promise<boolean> { return true; }
   async initialize(): Promise<void> {}
   async disconnect(): Promise<void> {}
@@ -83,10 +89,15 @@ async function testCorrelationCrackStrategy(): Promise<void> {
   const mockProvider = new MockMarketDataProvider();
   const mockIndicator = new MockHighLowIndicator() as any;
 
+  const clock = new SystemClock();
   const strategy = new CorrelationCrackStrategy(
     mockIndicator,
     mockProvider,
-    mockLogger
+    mockLogger,
+    clock,
+    new ReturnsCorrelationTracker(mockProvider, clock),
+    new KlineVolumeAnalyzer(),
+    new DefaultConfidenceModelRegistry()
   );
 
   console.log('✅ Strategy instantiated successfully');
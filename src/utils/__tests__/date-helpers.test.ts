@@ -0,0 +1,175 @@
+import {
+  getCompletedSessions,
+  getTimezoneOffset,
+  getZonedDateTime,
+  sessionsOverlap,
+  tradingWindowOverlapsSession,
+  isWithinSession,
+  isWithinTradingWindow,
+  startOfZonedDay,
+  startOfZonedMonth,
+  startOfZonedWeek,
+  zonedTimeToUtc
+} from '../date-helpers';
+import { SessionSpec } from '../../core/indicators/indicator.interfaces';
+
+describe('date-helpers', () => {
+  const NEW_YORK = 'America/New_York';
+  const LONDON = 'Europe/London';
+  const HOUR = 60 * 60 * 1000;
+
+  describe('getZonedDateTime', () => {
+    it('should follow US daylight saving time', () => {
+      expect(getZonedDateTime(new Date('2026-03-06T14:30:00Z'), NEW_YORK)).toMatchObject({ day: 6, hour: 9, minute: 30, weekday: 5 });
+      expect(getZonedDateTime(new Date('2026-03-09T14:30:00Z'), NEW_YORK)).toMatchObject({ day: 9, hour: 10, minute: 30, weekday: 1 });
+    });
+
+    it('should report midnight as hour 0', () => {
+      expect(getZonedDateTime(new Date('2026-10-19T04:00:00Z'), NEW_YORK)).toMatchObject({ day: 19, hour: 0 });
+    });
+  });
+
+  describe('getTimezoneOffset', () => {
+    it('should change across the switchover weekends', () => {
+      expect(getTimezoneOffset(new Date('2026-03-08T06:59:00Z'), NEW_YORK)).toBe(-5 * HOUR);
+      expect(getTimezoneOffset(new Date('2026-03-08T07:00:00Z'), NEW_YORK)).toBe(-4 * HOUR);
+      expect(getTimezoneOffset(new Date('2026-11-01T05:59:00Z'), NEW_YORK)).toBe(-4 * HOUR);
+      expect(getTimezoneOffset(new Date('2026-11-01T06:00:00Z'), NEW_YORK)).toBe(-5 * HOUR);
+      expect(getTimezoneOffset(new Date('2026-03-29T01:00:00Z'), LONDON)).toBe(HOUR);
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should convert wall time on both sides of a transition', () => {
+      expect(zonedTimeToUtc(NEW_YORK, 2026, 3, 7, 9, 30).toISOString()).toBe('2026-03-07T14:30:00.000Z');
+      expect(zonedTimeToUtc(NEW_YORK, 2026, 3, 9, 9, 30).toISOString()).toBe('2026-03-09T13:30:00.000Z');
+    });
+
+    it('should move times skipped by the spring-forward jump past the gap', () => {
+      expect(zonedTimeToUtc(NEW_YORK, 2026, 3, 8, 2, 30).toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    });
+
+    it('should resolve repeated fall-back times to their first occurrence', () => {
+      expect(zonedTimeToUtc(NEW_YORK, 2026, 11, 1, 1, 30).toISOString()).toBe('2026-11-01T05:30:00.000Z');
+    });
+  });
+
+  describe('calendar boundaries', () => {
+    it('should handle the short and long days of the switchover weekends', () => {
+      const springSunday = new Date('2026-03-08T18:00:00Z');
+      const fallSunday = new Date('2026-11-01T18:00:00Z');
+
+      expect(startOfZonedDay(springSunday, NEW_YORK).toISOString()).toBe('2026-03-08T05:00:00.000Z');
+      expect(startOfZonedDay(springSunday, NEW_YORK, 1).toISOString()).toBe('2026-03-09T04:00:00.000Z');
+      expect(startOfZonedDay(fallSunday, NEW_YORK).toISOString()).toBe('2026-11-01T04:00:00.000Z');
+      expect(startOfZonedDay(fallSunday, NEW_YORK, 1).toISOString()).toBe('2026-11-02T05:00:00.000Z');
+    });
+
+    it('should start weeks on Monday in the timezone', () => {
+      // Sunday evening in New York is already Monday in UTC
+      const sundayEvening = new Date('2026-03-09T01:00:00Z');
+
+      expect(startOfZonedWeek(sundayEvening, NEW_YORK).toISOString()).toBe('2026-03-02T05:00:00.000Z');
+      expect(startOfZonedWeek(sundayEvening, NEW_YORK, 1).toISOString()).toBe('2026-03-09T04:00:00.000Z');
+    });
+
+    it('should roll months over year boundaries in the timezone', () => {
+      expect(startOfZonedMonth(new Date('2026-01-15T12:00:00Z'), NEW_YORK, -1).toISOString()).toBe('2025-12-01T05:00:00.000Z');
+      expect(startOfZonedMonth(new Date('2026-03-15T12:00:00Z'), LONDON, 1).toISOString()).toBe('2026-03-31T23:00:00.000Z');
+    });
+  });
+
+  describe('isWithinSession', () => {
+    const nyOpen: SessionSpec = { type: 'time_session', startHour: 9, startMinute: 30, endHour: 16, timezone: NEW_YORK };
+
+    it('should keep the New York session at 9:30 local across the March switchover', () => {
+      expect(isWithinSession(new Date('2026-03-06T14:30:00Z'), nyOpen)).toBe(true);
+      expect(isWithinSession(new Date('2026-03-06T13:30:00Z'), nyOpen)).toBe(false);
+      expect(isWithinSession(new Date('2026-03-09T13:30:00Z'), nyOpen)).toBe(true);
+      expect(isWithinSession(new Date('2026-03-09T13:00:00Z'), nyOpen)).toBe(false);
+    });
+
+    it('should keep the New York session at 9:30 local across the November switchover', () => {
+      expect(isWithinSession(new Date('2026-10-30T13:30:00Z'), nyOpen)).toBe(true);
+      expect(isWithinSession(new Date('2026-11-02T13:30:00Z'), nyOpen)).toBe(false);
+      expect(isWithinSession(new Date('2026-11-02T14:30:00Z'), nyOpen)).toBe(true);
+    });
+
+    it('should honour the fallback timezone when the session has none', () => {
+      const londonMorning: SessionSpec = { type: 'time_session', startHour: 8, endHour: 12 };
+
+      expect(isWithinSession(new Date('2026-03-30T07:00:00Z'), londonMorning, LONDON)).toBe(true);
+      expect(isWithinSession(new Date('2026-03-27T07:00:00Z'), londonMorning, LONDON)).toBe(false);
+    });
+  });
+
+  describe('getCompletedSessions', () => {
+    it('should skip the occurrence still in progress', () => {
+      const london: SessionSpec = { type: 'time_session', startHour: 3, endHour: 8, timezone: NEW_YORK };
+
+      expect(getCompletedSessions(new Date('2026-03-10T10:00:00Z'), london, undefined, 2)).toEqual([
+        { start: new Date('2026-03-09T07:00:00Z'), end: new Date('2026-03-09T12:00:00Z') },
+        { start: new Date('2026-03-08T07:00:00Z'), end: new Date('2026-03-08T12:00:00Z') } // First day of EDT
+      ]);
+      expect(getCompletedSessions(new Date('2026-03-10T12:00:00Z'), london, undefined, 1)[0].start).toEqual(new Date('2026-03-10T07:00:00Z'));
+    });
+
+    it('should end sessions that cross midnight on the next day', () => {
+      const asia: SessionSpec = { type: 'time_session', startHour: 19, endHour: 2, timezone: NEW_YORK };
+
+      expect(getCompletedSessions(new Date('2026-03-10T12:00:00Z'), asia, undefined, 1)).toEqual([
+        { start: new Date('2026-03-09T23:00:00Z'), end: new Date('2026-03-10T06:00:00Z') }
+      ]);
+    });
+  });
+
+  describe('sessionsOverlap', () => {
+    const london: SessionSpec = { type: 'time_session', startHour: 3, endHour: 8, timezone: NEW_YORK };
+
+    it('should let a window start when the session ends', () => {
+      expect(sessionsOverlap(london, { type: 'time_session', startHour: 8, endHour: 12 }, NEW_YORK)).toBe(false);
+      expect(sessionsOverlap(london, { type: 'time_session', startHour: 7, startMinute: 55, endHour: 12 }, NEW_YORK)).toBe(true);
+    });
+
+    it('should catch overlaps that only happen while daylight saving differs', () => {
+      // 13:00 London is 08:00 New York, except between the US and UK clock changes when it is 09:00
+      const londonLunch: SessionSpec = { type: 'time_session', startHour: 12, endHour: 13, timezone: LONDON };
+      const nyMorning: SessionSpec = { type: 'time_session', startHour: 8, endHour: 9, timezone: NEW_YORK };
+
+      expect(sessionsOverlap(londonLunch, nyMorning)).toBe(true);
+      expect(sessionsOverlap(londonLunch, { ...nyMorning, startHour: 9, endHour: 10 })).toBe(false);
+    });
+  });
+
+  describe('tradingWindowOverlapsSession', () => {
+    const nyMorning: SessionSpec = { type: 'time_session', startHour: 8, startMinute: 0, endHour: 12, endMinute: 0, timezone: NEW_YORK };
+
+    it('should allow a window with the same hours as the session', () => {
+      expect(tradingWindowOverlapsSession(nyMorning, { type: 'time_session', startHour: 8, endHour: 12 }, NEW_YORK)).toBe(false);
+    });
+
+    it('should reject a window that overlaps the session otherwise', () => {
+      expect(tradingWindowOverlapsSession(nyMorning, { type: 'time_session', startHour: 10, endHour: 14 }, NEW_YORK)).toBe(true);
+      expect(tradingWindowOverlapsSession(nyMorning, { ...nyMorning, timezone: 'America/Chicago' })).toBe(true);
+    });
+  });
+
+  describe('isWithinTradingWindow', () => {
+    it('should exclude the end of the window', () => {
+      const nyMorning: SessionSpec = { type: 'time_session', startHour: 8, endHour: 12, timezone: NEW_YORK };
+
+      expect(isWithinTradingWindow(new Date('2026-03-09T12:00:00Z'), nyMorning)).toBe(true);
+      expect(isWithinTradingWindow(new Date('2026-03-09T15:59:00Z'), nyMorning)).toBe(true);
+      expect(isWithinTradingWindow(new Date('2026-03-09T16:00:00Z'), nyMorning)).toBe(false);
+    });
+
+    it('should handle windows that cross midnight', () => {
+      const asia: SessionSpec = { type: 'time_session', startHour: 19, endHour: 2, timezone: NEW_YORK };
+
+      expect(isWithinTradingWindow(new Date('2026-03-09T23:30:00Z'), asia)).toBe(true); // 19:30 EDT
+      expect(isWithinTradingWindow(new Date('2026-03-10T05:30:00Z'), asia)).toBe(true); // 01:30 EDT
+      expect(isWithinTradingWindow(new Date('2026-03-10T06:00:00Z'), asia)).toBe(false); // 02:00 EDT
+      expect(isWithinTradingWindow(new Date('2026-03-09T18:00:00Z'), asia)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { inflateSync } from 'zlib';
+import { crc32, encodePng } from '../png-encoder';
+
+describe('png-encoder', () => {
+  it('should compute the PNG chunk CRC', () => {
+    expect(crc32(Buffer.from('IEND', 'ascii'))).toBe(0xae426082);
+  });
+
+  it('should encode RGBA pixels with unfiltered scanlines', () => {
+    const pixels = new Uint8Array([
+      255, 0, 0, 255, 0, 255, 0, 255,
+      0, 0, 255, 255, 255, 255, 255, 128
+    ]);
+
+    const png = encodePng(2, 2, pixels);
+
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    expect(png.toString('ascii', 12, 16)).toBe('IHDR');
+    expect(png.readUInt32BE(16)).toBe(2);
+    expect(png.readUInt32BE(20)).toBe(2);
+    expect(png[24]).toBe(8);
+    expect(png[25]).toBe(6);
+
+    const idatLength = png.readUInt32BE(33);
+    expect(png.toString('ascii', 37, 41)).toBe('IDAT');
+    const scanlines = inflateSync(png.subarray(41, 41 + idatLength));
+    expect([...scanlines]).toEqual([0, ...pixels.subarray(0, 8), 0, ...pixels.subarray(8)]);
+    expect(png.toString('ascii', png.length - 8, png.length - 4)).toBe('IEND');
+  });
+
+  it('should reject pixel data of the wrong size', () => {
+    expect(() => encodePng(2, 2, new Uint8Array(12))).toThrow('Expected 16 bytes of RGBA data, got 12');
+  });
+});
@@ -0,0 +1,100 @@
+import net from 'net';
+import { buildMailData, sendMail } from '../smtp-client';
+
+/**
+ * Minimal SMTP server answering each command from a script of replies
+ */
+function startServer(replies: Record<string, string> = {}): Promise<{ server: net.Server; port: number; received: string[] }> {
+  const received: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220-localhost ESMTP\r\n220 ready\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let lineEnd: number;
+      while ((lineEnd = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        received.push(line);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          }
+          continue;
+        }
+        const command = line.split(/[ :]/)[0]!.toUpperCase();
+        if (command === 'DATA') inData = true;
+        socket.write(`${replies[command] ?? (command === 'DATA' ? '354 go ahead' : command === 'QUIT' ? '221 bye' : '250 ok')}\r\n`);
+      }
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    resolve({ server, port: (server.address() as net.AddressInfo).port, received });
+  }));
+}
+
+describe('smtp-client', () => {
+  const message = {
+    from: 'bot@localhost',
+    to: ['desk@example.com', 'ops@example.com'],
+    subject: 'Signal: BTCUSDT ↓',
+    text: 'Line one\nLine two',
+    date: new Date('2025-01-06T15:00:00Z')
+  };
+
+  it('should build a base64 encoded message with an encoded subject', () => {
+    const data = buildMailData(message);
+
+    expect(data).toContain('To: <desk@example.com>, <ops@example.com>');
+    expect(data).toContain(`Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`);
+    expect(data).toContain('Date: Mon, 06 Jan 2025 15:00:00 GMT');
+    const body = data.split('\r\n\r\n')[1]!.replace(/\r\n/g, '');
+    expect(Buffer.from(body, 'base64').toString('utf8')).toBe('Line one\r\nLine two');
+  });
+
+  it('should deliver the message to every recipient', async () => {
+    const { server, port, received } = await startServer();
+    try {
+      await sendMail({ host: '127.0.0.1', port, timeout: 2000 }, message);
+
+      expect(received).toEqual(expect.arrayContaining([
+        'HELO localhost',
+        'MAIL FROM:<bot@localhost>',
+        'RCPT TO:<desk@example.com>',
+        'RCPT TO:<ops@example.com>',
+        'DATA',
+        '.',
+        'QUIT'
+      ]));
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should fail when the server hangs up after the greeting', async () => {
+    const server = net.createServer(socket => {
+      socket.write('220 ready\r\n');
+      socket.once('data', () => socket.end());
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+    try {
+      await expect(sendMail({ host: '127.0.0.1', port, timeout: 60000 }, message))
+        .rejects.toThrow(`SMTP server 127.0.0.1:${port} closed the connection before HELO completed`);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should fail when the server rejects a recipient', async () => {
+    const { server, port } = await startServer({ RCPT: '550 no such user' });
+    try {
+      await expect(sendMail({ host: '127.0.0.1', port, timeout: 2000 }, message))
+        .rejects.toThrow('SMTP server rejected RCPT TO desk@example.com: 550 no such user');
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,35 @@
+import { calculateReturns, pearsonCorrelation, rankValues, spearmanCorrelation } from '../statistics';
+
+describe('statistics', () => {
+  describe('calculateReturns', () => {
+    it('should return simple returns between consecutive prices', () => {
+      expect(calculateReturns([100, 110, 99])).toEqual([0.1, -0.1]);
+      expect(calculateReturns([100])).toEqual([]);
+    });
+  });
+
+  describe('pearsonCorrelation', () => {
+    it('should measure linear correlation', () => {
+      expect(pearsonCorrelation([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1);
+      expect(pearsonCorrelation([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1);
+    });
+
+    it('should be NaN without enough data or variance', () => {
+      expect(pearsonCorrelation([1], [2])).toBeNaN();
+      expect(pearsonCorrelation([1, 1, 1], [1, 2, 3])).toBeNaN();
+    });
+  });
+
+  describe('rankValues', () => {
+    it('should give ties their average rank', () => {
+      expect(rankValues([10, 30, 20, 20])).toEqual([1, 4, 2.5, 2.5]);
+    });
+  });
+
+  describe('spearmanCorrelation', () => {
+    it('should measure monotonic correlation', () => {
+      expect(spearmanCorrelation([1, 2, 3, 4, 5], [1, 4, 9, 16, 100])).toBeCloseTo(1);
+      expect(pearsonCorrelation([1, 2, 3, 4, 5], [1, 4, 9, 16, 100])).toBeLessThan(1);
+    });
+  });
+});
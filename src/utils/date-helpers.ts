@@ -28,21 +28,109 @@ export function validateSessionSpec(session: SessionSpec): boolean {
 }
 
 /**
- * Convert date to specific timezone
- * This is a simplified timezone conversion
- * In production, consider using a library like date-fns-tz or moment-timezone
- */
-export function convertToTimezone(date: Date, timezone: string): Date {
-  const offsetMap: Record<string, number> = {
-    'UTC': 0,
-    'America/New_York': -5, // EST (adjust for DST in production)
-    'Europe/London': 0, // GMT (adjust for DST in production)
-    'Asia/Tokyo': 9, // JST
+ * Wall-clock fields of an instant in an IANA timezone
+ */
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const SESSION_OVERLAP_YEAR = 2025; // Any year: only the daylight saving calendar matters
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short'
+    });
+    zonedFormatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock time of a date in the given timezone, DST included
+ */
+export function getZonedDateTime(date: Date, timezone: string): ZonedDateTime {
+  const parts: Record<string, string> = {};
+  for (const { type, value } of getZonedFormatter(timezone).formatToParts(date)) {
+    parts[type] = value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday ?? '')
   };
-  
-  const offset = offsetMap[timezone] || 0;
-  const utc = date.getTime() + (date.getTimezoneOffset() * 60000);
-  return new Date(utc + (offset * 3600000));
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant, in milliseconds
+ */
+export function getTimezoneOffset(date: Date, timezone: string): number {
+  const zoned = getZonedDateTime(date, timezone);
+  const wallTime = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+  return wallTime - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant at which the timezone's clocks show the given wall time.
+ * Out-of-range fields roll over (day 0, month 13). Times skipped by a DST
+ * jump resolve to the same distance after the jump; repeated times resolve
+ * to their first occurrence.
+ */
+export function zonedTimeToUtc(timezone: string, year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  const wallTime = Date.UTC(year, month - 1, day, hour, minute);
+  const beforeTransition = wallTime - getTimezoneOffset(new Date(wallTime), timezone);
+  const candidate = wallTime - getTimezoneOffset(new Date(beforeTransition), timezone);
+
+  const zoned = getZonedDateTime(new Date(candidate), timezone);
+  const candidateWallTime = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+  return new Date(candidateWallTime === wallTime ? candidate : beforeTransition);
+}
+
+/**
+ * Midnight starting the timezone's calendar day, shifted by `dayOffset` days
+ */
+export function startOfZonedDay(date: Date, timezone: string, dayOffset = 0): Date {
+  const { year, month, day } = getZonedDateTime(date, timezone);
+  return zonedTimeToUtc(timezone, year, month, day + dayOffset);
+}
+
+/**
+ * Midnight starting the timezone's week (Monday), shifted by `weekOffset` weeks
+ */
+export function startOfZonedWeek(date: Date, timezone: string, weekOffset = 0): Date {
+  const { weekday } = getZonedDateTime(date, timezone);
+  const mondayOffset = (weekday + 6) % 7;
+  return startOfZonedDay(date, timezone, weekOffset * 7 - mondayOffset);
+}
+
+/**
+ * Midnight starting the timezone's month, shifted by `monthOffset` months
+ */
+export function startOfZonedMonth(date: Date, timezone: string, monthOffset = 0): Date {
+  const { year, month } = getZonedDateTime(date, timezone);
+  return zonedTimeToUtc(timezone, year, month + monthOffset, 1);
 }
 
 /**
@@ -50,10 +138,7 @@ export function convertToTimezone(date: Date, timezone: string): Date {
  */
 export function isWithinSession(date: Date, session: SessionSpec, timezone?: string): boolean {
   const sessionTimezone = session.timezone || timezone || 'America/New_York';
-  const sessionTime = convertToTimezone(date, sessionTimezone);
-  
-  const hour = sessionTime.getHours();
-  const minute = sessionTime.getMinutes();
+  const { hour, minute } = getZonedDateTime(date, sessionTimezone);
   
   const startHour = session.startHour;
   const startMinute = session.startMinute || 0;
@@ -72,6 +157,91 @@ export function isWithinSession(date: Date, session: SessionSpec, timezone?: str
   }
 }
 
+/**
+ * Start and end of one occurrence of a session
+ */
+export interface SessionOccurrence {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Occurrence of the session starting on the date's calendar day in the session timezone, shifted by
+ * `dayOffset` days. Sessions crossing midnight end on the day after they start.
+ */
+export function getSessionOccurrence(date: Date, session: SessionSpec, timezone?: string, dayOffset = 0): SessionOccurrence {
+  const sessionTimezone = session.timezone || timezone || 'America/New_York';
+  const { year, month, day } = getZonedDateTime(date, sessionTimezone);
+  const startMinute = session.startMinute || 0;
+  const endMinute = session.endMinute || 0;
+  const endDayOffset = session.startHour * 60 + startMinute > session.endHour * 60 + endMinute ? 1 : 0;
+
+  return {
+    start: zonedTimeToUtc(sessionTimezone, year, month, day + dayOffset, session.startHour, startMinute),
+    end: zonedTimeToUtc(sessionTimezone, year, month, day + dayOffset + endDayOffset, session.endHour, endMinute)
+  };
+}
+
+/**
+ * Occurrences of the session that ended by `now`, latest first
+ */
+export function getCompletedSessions(now: Date, session: SessionSpec, timezone: string | undefined, count: number): SessionOccurrence[] {
+  const occurrences: SessionOccurrence[] = [];
+  for (let offset = 0; occurrences.length < count; offset--) {
+    const occurrence = getSessionOccurrence(now, session, timezone, offset);
+    if (occurrence.end <= now) occurrences.push(occurrence);
+  }
+  return occurrences;
+}
+
+/**
+ * Whether two windows share any time on some day of the year, daylight saving changes of both
+ * timezones included. Ends are exclusive, so a window may start when the other ends.
+ */
+export function sessionsOverlap(first: SessionSpec, second: SessionSpec, timezone?: string): boolean {
+  const yearStart = Date.UTC(SESSION_OVERLAP_YEAR, 0, 1, 12);
+  for (let day = 0; day < 366; day++) {
+    const date = new Date(yearStart + day * 24 * 60 * 60 * 1000);
+    const a = getSessionOccurrence(date, first, timezone);
+    for (const offset of [-1, 0, 1]) {
+      const b = getSessionOccurrence(date, second, timezone, offset);
+      if (a.start < b.end && b.start < a.end) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether a trading window overlaps the session its levels are taken from. A window with the same
+ * hours as the session trades the range of the previous occurrence, like the default crypto pair,
+ * and is allowed.
+ */
+export function tradingWindowOverlapsSession(session: SessionSpec, window: SessionSpec, timezone?: string): boolean {
+  const sameHours = session.startHour === window.startHour
+    && (session.startMinute || 0) === (window.startMinute || 0)
+    && session.endHour === window.endHour
+    && (session.endMinute || 0) === (window.endMinute || 0)
+    && (session.timezone || timezone) === (window.timezone || timezone);
+  return !sameHours && sessionsOverlap(session, window, timezone);
+}
+
+/**
+ * Check if a date/time falls within a trading window. Unlike sessions, the end time is exclusive.
+ */
+export function isWithinTradingWindow(date: Date, window: SessionSpec, timezone?: string): boolean {
+  const { hour, minute } = getZonedDateTime(date, window.timezone || timezone || 'America/New_York');
+
+  const currentMinutes = hour * 60 + minute;
+  const startMinutes = window.startHour * 60 + (window.startMinute || 0);
+  const endMinutes = window.endHour * 60 + (window.endMinute || 0);
+
+  // Windows that cross midnight, e.g. the Asia session
+  if (startMinutes > endMinutes) {
+    return currentMinutes >= startMinutes || currentMinutes < endMinutes;
+  }
+  return currentMinutes >= startMinutes && currentMinutes < endMinutes;
+}
+
 /**
  * Get the most recent N periods from an array of klines
  */
@@ -92,3 +262,10 @@ export function isSessionSpec(period: any): period is SessionSpec {
          'type' in period && 
          period.type === 'time_session';
 }
+
+/**
+ * Calendar date (YYYY-MM-DD) of a timestamp in the given timezone
+ */
+export function getDateKey(date: Date, timezone: string): string {
+  return date.toLocaleDateString('en-CA', { timeZone: timezone });
+}
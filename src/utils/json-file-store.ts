@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Minimal JSON document persisted in a local file.
+ * Writes go to a temporary file first and are renamed into place,
+ * so a crash mid-write never leaves a truncated document behind.
+ */
+export class JsonFileStore<T> {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Read the document, or return null when the file does not exist yet
+   */
+  async read(): Promise<T | null> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(content) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the document. Concurrent writes are applied in call order.
+   */
+  write(data: T): Promise<void> {
+    const next = this.writeQueue.then(() => this.writeFile(data));
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Rename the file, e.g. to keep an unreadable document out of the way of later writes
+   */
+  async moveTo(targetPath: string): Promise<void> {
+    await fs.rename(this.filePath, targetPath);
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  private async writeFile(data: T): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
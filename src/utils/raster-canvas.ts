@@ -0,0 +1,158 @@
+import { encodePng } from './png-encoder';
+
+/**
+ * RGBA color. Alpha (0-255) blends the color over what is already drawn.
+ */
+export type Color = readonly [number, number, number, number?];
+
+export const GLYPH_WIDTH = 5;
+export const GLYPH_HEIGHT = 7;
+const GLYPH_SPACING = 1;
+
+/**
+ * 5x7 bitmap font, one 5-bit row per entry with the leftmost pixel in bit 4.
+ * Lower-case text is drawn in upper case.
+ */
+const FONT: Record<string, readonly number[]> = {
+  '0': [0x0e, 0x11, 0x13, 0x15, 0x19, 0x11, 0x0e],
+  '1': [0x04, 0x0c, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  '2': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x08, 0x1f],
+  '3': [0x1f, 0x02, 0x04, 0x02, 0x01, 0x11, 0x0e],
+  '4': [0x02, 0x06, 0x0a, 0x12, 0x1f, 0x02, 0x02],
+  '5': [0x1f, 0x10, 0x1e, 0x01, 0x01, 0x11, 0x0e],
+  '6': [0x06, 0x08, 0x10, 0x1e, 0x11, 0x11, 0x0e],
+  '7': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x08, 0x08],
+  '8': [0x0e, 0x11, 0x11, 0x0e, 0x11, 0x11, 0x0e],
+  '9': [0x0e, 0x11, 0x11, 0x0f, 0x01, 0x02, 0x0c],
+  'A': [0x0e, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  'B': [0x1e, 0x11, 0x11, 0x1e, 0x11, 0x11, 0x1e],
+  'C': [0x0e, 0x11, 0x10, 0x10, 0x10, 0x11, 0x0e],
+  'D': [0x1c, 0x12, 0x11, 0x11, 0x11, 0x12, 0x1c],
+  'E': [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x1f],
+  'F': [0x1f, 0x10, 0x10, 0x1e, 0x10, 0x10, 0x10],
+  'G': [0x0e, 0x11, 0x10, 0x17, 0x11, 0x11, 0x0f],
+  'H': [0x11, 0x11, 0x11, 0x1f, 0x11, 0x11, 0x11],
+  'I': [0x0e, 0x04, 0x04, 0x04, 0x04, 0x04, 0x0e],
+  'J': [0x07, 0x02, 0x02, 0x02, 0x02, 0x12, 0x0c],
+  'K': [0x11, 0x12, 0x14, 0x18, 0x14, 0x12, 0x11],
+  'L': [0x10, 0x10, 0x10, 0x10, 0x10, 0x10, 0x1f],
+  'M': [0x11, 0x1b, 0x15, 0x15, 0x11, 0x11, 0x11],
+  'N': [0x11, 0x11, 0x19, 0x15, 0x13, 0x11, 0x11],
+  'O': [0x0e, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  'P': [0x1e, 0x11, 0x11, 0x1e, 0x10, 0x10, 0x10],
+  'Q': [0x0e, 0x11, 0x11, 0x11, 0x15, 0x12, 0x0d],
+  'R': [0x1e, 0x11, 0x11, 0x1e, 0x14, 0x12, 0x11],
+  'S': [0x0f, 0x10, 0x10, 0x0e, 0x01, 0x01, 0x1e],
+  'T': [0x1f, 0x04, 0x04, 0x04, 0x04, 0x04, 0x04],
+  'U': [0x11, 0x11, 0x11, 0x11, 0x11, 0x11, 0x0e],
+  'V': [0x11, 0x11, 0x11, 0x11, 0x11, 0x0a, 0x04],
+  'W': [0x11, 0x11, 0x11, 0x15, 0x15, 0x15, 0x0a],
+  'X': [0x11, 0x11, 0x0a, 0x04, 0x0a, 0x11, 0x11],
+  'Y': [0x11, 0x11, 0x11, 0x0a, 0x04, 0x04, 0x04],
+  'Z': [0x1f, 0x01, 0x02, 0x04, 0x08, 0x10, 0x1f],
+  ' ': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
+  '.': [0x00, 0x00, 0x00, 0x00, 0x00, 0x0c, 0x0c],
+  ',': [0x00, 0x00, 0x00, 0x00, 0x0c, 0x04, 0x08],
+  '-': [0x00, 0x00, 0x00, 0x1f, 0x00, 0x00, 0x00],
+  '+': [0x00, 0x04, 0x04, 0x1f, 0x04, 0x04, 0x00],
+  '_': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x1f],
+  ':': [0x00, 0x0c, 0x0c, 0x00, 0x0c, 0x0c, 0x00],
+  '/': [0x00, 0x01, 0x02, 0x04, 0x08, 0x10, 0x00],
+  '%': [0x18, 0x19, 0x02, 0x04, 0x08, 0x13, 0x03],
+  '(': [0x02, 0x04, 0x08, 0x08, 0x08, 0x04, 0x02],
+  ')': [0x08, 0x04, 0x02, 0x02, 0x02, 0x04, 0x08],
+  '?': [0x0e, 0x11, 0x01, 0x02, 0x04, 0x00, 0x04]
+};
+
+/**
+ * In-memory RGBA drawing surface for simple charts
+ */
+export class RasterCanvas {
+  readonly pixels: Uint8Array;
+
+  constructor(readonly width: number, readonly height: number, background: Color) {
+    this.pixels = new Uint8Array(width * height * 4);
+    this.fillRect(0, 0, width, height, [background[0], background[1], background[2], 255]);
+  }
+
+  getPixel(x: number, y: number): [number, number, number, number] {
+    const offset = (y * this.width + x) * 4;
+    return [this.pixels[offset], this.pixels[offset + 1], this.pixels[offset + 2], this.pixels[offset + 3]];
+  }
+
+  setPixel(x: number, y: number, color: Color): void {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+
+    const offset = (y * this.width + x) * 4;
+    const [red, green, blue, opacity = 255] = color;
+    const alpha = opacity / 255;
+    [red, green, blue].forEach((value, channel) => {
+      this.pixels[offset + channel] = Math.round(value * alpha + this.pixels[offset + channel] * (1 - alpha));
+    });
+    this.pixels[offset + 3] = 255;
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: Color): void {
+    const left = Math.max(0, Math.round(x));
+    const top = Math.max(0, Math.round(y));
+    const right = Math.min(this.width, Math.round(x + width));
+    const bottom = Math.min(this.height, Math.round(y + height));
+    for (let py = top; py < bottom; py++) {
+      for (let px = left; px < right; px++) {
+        this.setPixel(px, py, color);
+      }
+    }
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number, color: Color): void {
+    this.horizontalLine(x, x + width - 1, y, color);
+    this.horizontalLine(x, x + width - 1, y + height - 1, color);
+    this.verticalLine(x, y + 1, y + height - 2, color);
+    this.verticalLine(x + width - 1, y + 1, y + height - 2, color);
+  }
+
+  /**
+   * Horizontal line between two x positions (inclusive). A dash length draws it dashed.
+   */
+  horizontalLine(x1: number, x2: number, y: number, color: Color, dash = 0): void {
+    const row = Math.round(y);
+    for (let x = Math.round(Math.min(x1, x2)); x <= Math.round(Math.max(x1, x2)); x++) {
+      if (dash > 0 && Math.floor(x / dash) % 2 === 1) continue;
+      this.setPixel(x, row, color);
+    }
+  }
+
+  verticalLine(x: number, y1: number, y2: number, color: Color): void {
+    const column = Math.round(x);
+    for (let y = Math.round(Math.min(y1, y2)); y <= Math.round(Math.max(y1, y2)); y++) {
+      this.setPixel(column, y, color);
+    }
+  }
+
+  /**
+   * Draw text with its top left corner at (x, y). Returns the width drawn.
+   */
+  text(x: number, y: number, text: string, color: Color, scale = 1): number {
+    let cursor = Math.round(x);
+    for (const character of text.toUpperCase()) {
+      const glyph = FONT[character] ?? FONT['?'];
+      glyph.forEach((row, rowIndex) => {
+        for (let column = 0; column < GLYPH_WIDTH; column++) {
+          if (row & (1 << (GLYPH_WIDTH - 1 - column))) {
+            this.fillRect(cursor + column * scale, Math.round(y) + rowIndex * scale, scale, scale, color);
+          }
+        }
+      });
+      cursor += (GLYPH_WIDTH + GLYPH_SPACING) * scale;
+    }
+    return cursor - Math.round(x);
+  }
+
+  measureText(text: string, scale = 1): number {
+    return text.length * (GLYPH_WIDTH + GLYPH_SPACING) * scale;
+  }
+
+  toPng(): Buffer {
+    return encodePng(this.width, this.height, this.pixels);
+  }
+}
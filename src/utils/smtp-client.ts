@@ -0,0 +1,101 @@
+import net from 'net';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  timeout: number; // Milliseconds of socket inactivity before giving up
+  clientName?: string; // Sent with HELO (default: localhost)
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  date?: Date;
+}
+
+const BASE64_LINE_LENGTH = 76;
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * RFC 5322 message with a base64 encoded UTF-8 body, so no line needs dot-stuffing
+ */
+export function buildMailData(message: MailMessage): string {
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64');
+  const bodyLines = body.match(new RegExp(`.{1,${BASE64_LINE_LENGTH}}`, 'g')) ?? [];
+
+  return [
+    `From: <${message.from}>`,
+    `To: ${message.to.map(address => `<${address}>`).join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(message.date ?? new Date()).toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...bodyLines
+  ].join('\r\n');
+}
+
+/**
+ * Deliver a message through a plain SMTP relay (no TLS, no authentication)
+ */
+export function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  // Each step sends its line, then expects a reply of the given class (2xx, 3xx). The greeting needs no line.
+  const steps: Array<{ name: string; line?: string; expected: number }> = [
+    { name: 'connection', expected: 2 },
+    { name: 'HELO', line: `HELO ${options.clientName ?? 'localhost'}`, expected: 2 },
+    { name: 'MAIL FROM', line: `MAIL FROM:<${message.from}>`, expected: 2 },
+    ...message.to.map(address => ({ name: `RCPT TO ${address}`, line: `RCPT TO:<${address}>`, expected: 2 })),
+    { name: 'DATA', line: 'DATA', expected: 3 },
+    { name: 'message', line: `${buildMailData(message)}\r\n.`, expected: 2 },
+    { name: 'QUIT', line: 'QUIT', expected: 2 }
+  ];
+
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host: options.host, port: options.port });
+    let buffer = '';
+    let step = 0;
+
+    const fail = (error: Error): void => {
+      socket.destroy();
+      reject(error);
+    };
+
+    socket.setTimeout(options.timeout, () => fail(new Error(`SMTP server ${options.host}:${options.port} timed out`)));
+    socket.on('error', fail);
+    // The inactivity timeout stops counting once the socket is closed
+    socket.on('close', () => {
+      if (step < steps.length) {
+        reject(new Error(`SMTP server ${options.host}:${options.port} closed the connection before ${steps[step].name} completed`));
+      }
+    });
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      let lineEnd: number;
+      while ((lineEnd = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        if (/^\d{3}-/.test(line)) continue; // Multi-line reply continues
+
+        if (Number(line[0]) !== steps[step].expected) {
+          fail(new Error(`SMTP server rejected ${steps[step].name}: ${line}`));
+          return;
+        }
+
+        step++;
+        if (step === steps.length) {
+          socket.end();
+          resolve();
+          return;
+        }
+        socket.write(`${steps[step].line}\r\n`);
+      }
+    });
+  });
+}
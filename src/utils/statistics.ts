@@ -0,0 +1,69 @@
+/**
+ * Statistics helpers for return series
+ */
+
+/**
+ * Simple returns between consecutive prices
+ */
+export function calculateReturns(prices: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    const previous = prices[i - 1];
+    returns.push(previous === 0 ? 0 : (prices[i] - previous) / previous);
+  }
+  return returns;
+}
+
+/**
+ * Pearson correlation coefficient of two equally long series.
+ * NaN when there are fewer than two values or a series is constant.
+ */
+export function pearsonCorrelation(x: number[], y: number[]): number {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return NaN;
+
+  const meanX = x.slice(0, n).reduce((sum, value) => sum + value, 0) / n;
+  const meanY = y.slice(0, n).reduce((sum, value) => sum + value, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - meanX;
+    const dy = y[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return NaN;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Ranks starting at 1, ties sharing their average rank
+ */
+export function rankValues(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+
+    const averageRank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) ranks[order[i].index] = averageRank;
+    start = end + 1;
+  }
+
+  return ranks;
+}
+
+/**
+ * Spearman rank correlation coefficient: the Pearson correlation of the ranks
+ */
+export function spearmanCorrelation(x: number[], y: number[]): number {
+  const n = Math.min(x.length, y.length);
+  return pearsonCorrelation(rankValues(x.slice(0, n)), rankValues(y.slice(0, n)));
+}